@@ -2,8 +2,17 @@
  * API Client - handles all backend communication
  */
 
+import { getSessionId } from './state.js';
+
 const API_BASE = '/api';
 
+/**
+ * Build request headers identifying the investigation session
+ */
+function sessionHeaders(extra = {}) {
+  return { 'X-Session-Id': getSessionId(), ...extra };
+}
+
 /**
  * Fetch all cases
  */
@@ -17,34 +26,153 @@ export async function fetchCases() {
 }
 
 /**
- * Fetch a specific case with clues
+ * Fetch the mentor personas
+ * @returns {Promise<{personas: Array, default: string}>}
+ */
+export async function fetchPersonas() {
+  const response = await fetch(`${API_BASE}/personas`);
+  if (!response.ok) {
+    throw new Error('Failed to fetch personas');
+  }
+  return response.json();
+}
+
+/**
+ * Fetch progress for every case in the session
  */
-export async function fetchCase(caseId, cluesRevealed = 2) {
-  const response = await fetch(`${API_BASE}/cases/${caseId}?clues=${cluesRevealed}`);
+export async function fetchAllProgress() {
+  const response = await fetch(`${API_BASE}/progress`, { headers: sessionHeaders() });
+  if (!response.ok) {
+    throw new Error('Failed to fetch progress');
+  }
+  const data = await response.json();
+  return data.progress;
+}
+
+/**
+ * Fetch a specific case with its unlocked clues and the session's progress for it
+ * @param {string} caseId - The case ID
+ * @returns {Promise<{case: Object, progress: Object, hints: {taken: Array, next: Object|null}}>}
+ */
+export async function fetchCase(caseId) {
+  const response = await fetch(`${API_BASE}/cases/${caseId}`, { headers: sessionHeaders() });
   if (!response.ok) {
     if (response.status === 404) {
       throw new Error('Case not found');
     }
     throw new Error('Failed to fetch case');
   }
+  return response.json();
+}
+
+/**
+ * Unlock the next clue for a case
+ * @returns {Promise<{clue: Object, progress: Object}>}
+ */
+export async function revealNextClue(caseId) {
+  const response = await fetch(`${API_BASE}/cases/${caseId}/clues/next`, {
+    method: 'POST',
+    headers: sessionHeaders(),
+  });
+  if (!response.ok) {
+    throw new Error('Failed to reveal clue');
+  }
+  return response.json();
+}
+
+/**
+ * Fetch the hint for a clue (the server records the view for scoring)
+ * @returns {Promise<{hint: string, progress: Object}>}
+ */
+export async function fetchHint(caseId, clueId) {
+  const response = await fetch(`${API_BASE}/cases/${caseId}/clues/${clueId}/hint`, {
+    headers: sessionHeaders(),
+  });
+  if (!response.ok) {
+    throw new Error('Failed to fetch hint');
+  }
+  return response.json();
+}
+
+/**
+ * Take the next rung of the case's hint ladder (the server records its cost)
+ * @returns {Promise<{hint: Object, next: Object|null, progress: Object}>}
+ */
+export async function takeHint(caseId) {
+  const response = await fetch(`${API_BASE}/cases/${caseId}/hints/next`, {
+    method: 'POST',
+    headers: sessionHeaders(),
+  });
+  if (!response.ok) {
+    throw new Error('Failed to take hint');
+  }
+  return response.json();
+}
+
+/**
+ * Skip the optional prevention phase of a solved case
+ * @returns {Promise<Object>} - Updated case progress
+ */
+export async function skipPrevention(caseId) {
+  const response = await fetch(`${API_BASE}/cases/${caseId}/prevention/skip`, {
+    method: 'POST',
+    headers: sessionHeaders(),
+  });
+  if (!response.ok) {
+    throw new Error('Failed to skip prevention');
+  }
   const data = await response.json();
-  return data.case;
+  return data.progress;
 }
 
 /**
- * Check a diagnosis attempt (two-phase system)
+ * Give up on a case
+ * @returns {Promise<Object>} - Updated case progress
+ */
+export async function giveUp(caseId) {
+  const response = await fetch(`${API_BASE}/cases/${caseId}/give-up`, {
+    method: 'POST',
+    headers: sessionHeaders(),
+  });
+  if (!response.ok) {
+    throw new Error('Failed to give up');
+  }
+  const data = await response.json();
+  return data.progress;
+}
+
+/**
+ * Choose the mentor persona for a case's chat (stored in the session)
+ * @returns {Promise<Object>} Updated progress
+ */
+export async function setMentorPersona(caseId, persona) {
+  const response = await fetch(`${API_BASE}/cases/${caseId}/persona`, {
+    method: 'POST',
+    headers: sessionHeaders({ 'Content-Type': 'application/json' }),
+    body: JSON.stringify({ persona }),
+  });
+  if (!response.ok) {
+    throw new Error('Failed to change mentor');
+  }
+  const data = await response.json();
+  return data.progress;
+}
+
+/**
+ * Check a diagnosis attempt (three-phase system)
  * @param {string} caseId - The case ID
- * @param {number} phase - Phase 1 (root cause) or Phase 2 (solution)
+ * @param {number} phase - Phase 1 (root cause), 2 (solution) or 3 (prevention)
  * @param {string} diagnosis - The user's root cause analysis (phase 1)
  * @param {string} proposedSolution - The user's proposed fix (phase 2)
- * @param {number} attemptCount - Number of attempts made
- * @param {number} cluesRevealed - Number of clues revealed
+ * @param {string} prevention - The user's prevention strategy (phase 3)
+ * @param {string} mode - 'guided' (phase by phase) or 'expert' (diagnosis and fix in one shot)
+ * @returns {Promise<Object>} - Verdict plus the updated case progress
  */
-export async function checkDiagnosis(caseId, phase, diagnosis, proposedSolution, attemptCount, cluesRevealed) {
+export async function checkDiagnosis(caseId, phase, diagnosis, proposedSolution, prevention, mode = 'guided') {
   const response = await fetch(`${API_BASE}/cases/${caseId}/check`, {
     method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ phase, diagnosis, proposedSolution, attemptCount, cluesRevealed }),
+    headers: sessionHeaders({ 'Content-Type': 'application/json' }),
+    body: JSON.stringify({ mode, phase, diagnosis, proposedSolution, prevention }),
   });
   if (!response.ok) {
     throw new Error('Failed to check diagnosis');
@@ -52,12 +180,36 @@ export async function checkDiagnosis(caseId, phase, diagnosis, proposedSolution,
   return response.json();
 }
 
+/**
+ * Appeal the latest verdict for a phase. The verdict is filed for human
+ * review with a second grader's opinion; it does not change the score.
+ * @param {string} caseId - The case ID
+ * @param {number} phase - Phase of the verdict being appealed
+ * @param {string} reason - Why the player disputes the verdict
+ * @returns {Promise<Object>} - The filed appeal with both verdicts
+ */
+export async function appealVerdict(caseId, phase, reason) {
+  const response = await fetch(`${API_BASE}/cases/${caseId}/appeal`, {
+    method: 'POST',
+    headers: sessionHeaders({ 'Content-Type': 'application/json' }),
+    body: JSON.stringify({ phase, reason }),
+  });
+  if (!response.ok) {
+    throw new Error(response.status === 409 ? 'Already appealed' : 'Failed to file appeal');
+  }
+  const data = await response.json();
+  return data.appeal;
+}
+
 /**
  * Get the solution for a case
  */
 export async function fetchSolution(caseId) {
-  const response = await fetch(`${API_BASE}/cases/${caseId}/solution`);
+  const response = await fetch(`${API_BASE}/cases/${caseId}/solution`, { headers: sessionHeaders() });
   if (!response.ok) {
+    if (response.status === 403) {
+      throw new Error('Solution locked');
+    }
     throw new Error('Failed to fetch solution');
   }
   const data = await response.json();
@@ -69,14 +221,14 @@ export async function fetchSolution(caseId) {
  * @param {Array} messages - Chat history
  * @param {Object} caseContext - Optional case context
  * @param {Function} onChunk - Callback for each text chunk
- * @param {Function} onComplete - Callback when complete
+ * @param {Function} onComplete - Callback when complete, with the response text and mentor mode
  * @param {Function} onError - Callback on error
  */
 export async function sendChatMessage(messages, caseContext, onChunk, onComplete, onError) {
   try {
     const response = await fetch(`${API_BASE}/chat`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: sessionHeaders({ 'Content-Type': 'application/json' }),
       body: JSON.stringify({ messages, caseContext }),
     });
 
@@ -84,10 +236,15 @@ export async function sendChatMessage(messages, caseContext, onChunk, onComplete
       throw new Error('Chat request failed');
     }
 
+    // 'debrief' once the case is closed, otherwise 'socratic'
+    const mode = response.headers.get('X-Mentor-Mode') || 'socratic';
+
     const reader = response.body.getReader();
     const decoder = new TextDecoder();
     let buffer = '';
     let fullResponse = '';
+    // Revealed clues the reply cited, sent after the text
+    let citations = [];
 
     while (true) {
       const { done, value } = await reader.read();
@@ -113,8 +270,11 @@ export async function sendChatMessage(messages, caseContext, onChunk, onComplete
           try {
             const parsed = JSON.parse(data);
 
+            if (parsed.citations) {
+              citations = parsed.citations;
+            }
             // Handle Workers AI format
-            if (parsed.response) {
+            else if (parsed.response) {
               fullResponse += parsed.response;
               onChunk(parsed.response);
             }
@@ -131,7 +291,7 @@ export async function sendChatMessage(messages, caseContext, onChunk, onComplete
       }
     }
 
-    onComplete(fullResponse);
+    onComplete(fullResponse, mode, citations);
   } catch (error) {
     onError(error);
   }
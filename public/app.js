@@ -14,15 +14,18 @@ import {
   finalizeStreamingMessage,
   updateScoreDisplay,
   setSubmitLoading,
-  injectNewClue
+  injectNewClue,
+  renderPersonaPicker
 } from './components/case-view.js';
 import { renderSolution } from './components/solution.js';
 
 // Application state
 let appState = state.loadState();
 let currentCaseData = null;
+let currentProgress = null;
 let casesCache = null;
 let chatMessages = [];
+let mentorPersonas = null;
 
 // DOM elements
 const mainContainer = document.getElementById('app');
@@ -76,10 +79,14 @@ async function showCaseList() {
       casesCache = await api.fetchCases();
     }
 
+    // Solved cases come from the server-side session
+    const allProgress = await api.fetchAllProgress();
+    const solvedCases = allProgress.filter(p => p.solved).map(p => p.caseId);
+
     renderCaseList(
       mainContainer,
       casesCache,
-      appState.solvedCases,
+      solvedCases,
       (caseId) => {
         state.setCurrentCase(appState, caseId);
         window.location.hash = `case/${caseId}`;
@@ -109,14 +116,10 @@ async function showCaseView(caseId, options = {}) {
   }
 
   try {
-    // Get progress for this case
-    const progress = state.getCaseProgress(appState, caseId);
-
-    // Start investigation timer if not already started
-    state.startInvestigation(appState, caseId);
-
-    // Fetch case data with current clue level
-    currentCaseData = await api.fetchCase(caseId, progress.cluesRevealed);
+    // Fetch case data and progress (the server starts the investigation timer)
+    const { case: caseData, progress, hints } = await api.fetchCase(caseId);
+    currentCaseData = caseData;
+    currentProgress = progress;
 
     // Load chat history
     chatMessages = state.getChatHistory(appState, caseId);
@@ -129,14 +132,28 @@ async function showCaseView(caseId, options = {}) {
       onRevealClue: () => handleRevealClue(caseId),
       onSubmitDiagnosis: (submission) => handleSubmitDiagnosis(caseId, submission),
       onGiveUp: () => handleGiveUp(caseId),
+      onSkipPrevention: () => handleSkipPrevention(caseId),
       onSendMessage: (message) => handleSendMessage(caseId, message),
+      onTogglePin: (messageId) => handleTogglePin(caseId, messageId),
       onHintViewed: (hintId) => handleHintViewed(caseId, hintId),
+      onTakeHint: () => handleTakeHint(caseId),
       onUpdateScore: () => handleUpdateScore(caseId),
-    });
+    }, hints);
 
     // Restore chat history in UI
     restoreChatHistory();
 
+    // Mentor persona picker (the chat still works with the default mentor without it)
+    const mentors = await loadPersonas();
+    if (mentors) {
+      renderPersonaPicker(mainContainer, {
+        personas: mentors.personas,
+        selected: progress.mentorPersona || mentors.default,
+        caseTitle: caseData.title,
+        onChange: (persona) => handleSetPersona(caseId, persona),
+      });
+    }
+
   } catch (error) {
     console.error('Failed to load case:', error);
     showError(mainContainer, 'Failed to load case. Please try again.');
@@ -150,9 +167,12 @@ async function showSolutionView(caseId) {
   showLoading(mainContainer);
 
   try {
-    // Fetch case and solution data
-    const progress = state.getCaseProgress(appState, caseId);
-    const caseData = await api.fetchCase(caseId, progress.cluesRevealed);
+    // Fetch case data; the solution stays locked until solved or given up
+    const { case: caseData, progress } = await api.fetchCase(caseId);
+    if (!progress.solved && !progress.gaveUp) {
+      window.location.hash = `case/${caseId}`;
+      return;
+    }
     const solution = await api.fetchSolution(caseId);
 
     renderSolution(
@@ -174,15 +194,11 @@ async function showSolutionView(caseId) {
  * Handle revealing a new clue
  */
 async function handleRevealClue(caseId) {
-  state.revealClue(appState, caseId, currentCaseData.totalClues);
-
-  const progress = state.getCaseProgress(appState, caseId);
-
-  // Fetch updated case data with the new clue
-  currentCaseData = await api.fetchCase(caseId, progress.cluesRevealed);
-
-  // Get the newly revealed clue (last in the array)
-  const newClue = currentCaseData.clues[currentCaseData.clues.length - 1];
+  // Unlock the next clue (recorded by the server)
+  const { clue: newClue, progress } = await api.revealNextClue(caseId);
+  currentProgress = progress;
+  currentCaseData.clues.push(newClue);
+  currentCaseData.cluesRevealed = progress.cluesRevealed;
 
   // Inject just the new clue into the DOM — no full re-render, no scroll reset
   injectNewClue(
@@ -196,69 +212,76 @@ async function handleRevealClue(caseId) {
 }
 
 /**
- * Handle submitting a diagnosis (two-phase system)
+ * Handle submitting a diagnosis (three-phase system)
  * @param {string} caseId - The case ID
- * @param {Object} submission - Object with phase, diagnosis, and proposedSolution
+ * @param {Object} submission - Object with mode, phase, diagnosis, proposedSolution and prevention
  */
-async function handleSubmitDiagnosis(caseId, { phase, diagnosis, proposedSolution }) {
-  const progress = state.getCaseProgress(appState, caseId);
-
-  // Track attempts based on phase
-  let attemptCount;
-  if (phase === 1) {
-    attemptCount = state.recordRootCauseAttempt(appState, caseId);
-  } else {
-    attemptCount = state.recordAttempt(appState, caseId);
-  }
+async function handleSubmitDiagnosis(caseId, { mode = 'guided', phase, diagnosis, proposedSolution, prevention }) {
+  const expert = mode === 'expert';
+  const loadingTarget = expert ? 'expert' : phase;
 
   // Show loading state on submit button
-  setSubmitLoading(mainContainer, phase, true);
+  setSubmitLoading(mainContainer, loadingTarget, true);
 
   try {
-    const result = await api.checkDiagnosis(
-      caseId,
-      phase,
-      diagnosis,
-      proposedSolution,
-      attemptCount,
-      progress.cluesRevealed
-    );
+    const result = await api.checkDiagnosis(caseId, phase, diagnosis, proposedSolution, prevention, mode);
+
+    // The server records the attempt and returns the updated progress
+    currentProgress = result.progress;
 
     // Clear loading state
-    setSubmitLoading(mainContainer, phase, false);
+    setSubmitLoading(mainContainer, loadingTarget, false);
+
+    // Show feedback; phase 3 moves on to the solution and expert verdicts are not recorded per phase,
+    // so only guided phases 1 and 2 offer an appeal
+    const onAppeal = expert || phase === 3 ? null : (reason) => api.appealVerdict(caseId, phase, reason);
+    showDiagnosisFeedback(mainContainer, result, onAppeal);
 
-    // Show feedback
-    showDiagnosisFeedback(mainContainer, result);
+    // The first graded attempt fixes the mode, so the other mode is no longer offered
+    mainContainer.querySelector('.expert-toggle')?.remove();
 
-    if (phase === 1) {
+    if (expert) {
+      // Expert mode: one correct submission closes the case
+      mainContainer.querySelector('#guided-phases')?.remove();
+      if (result.correct) {
+        setTimeout(() => {
+          if (result.progress.preventionStatus === 'pending') {
+            showCaseView(caseId);
+          } else {
+            window.location.hash = `case/${caseId}/solution`;
+          }
+        }, 2000);
+      }
+    } else if (phase === 1) {
       // Phase 1: Root cause evaluation
       if (result.correct) {
-        // Mark phase 1 complete and re-render to show phase 2
-        state.markRootCauseCorrect(appState, caseId, diagnosis);
-
         // Brief delay then re-render to unlock phase 2
         setTimeout(() => {
           showCaseView(caseId);
         }, 1500);
       }
-    } else {
-      // Phase 2: Solution evaluation
+    } else if (phase === 2) {
+      // Phase 2: Solution evaluation (final score is computed by the server)
       if (result.correct) {
-        // Calculate and save final score
-        const updatedProgress = state.getCaseProgress(appState, caseId);
-        const finalScore = state.calculateScore(updatedProgress, currentCaseData.difficulty);
-        state.markSolved(appState, caseId, finalScore);
-
-        // Brief delay before showing solution
+        // Brief delay, then offer the prevention phase or show the solution
         setTimeout(() => {
-          window.location.hash = `case/${caseId}/solution`;
+          if (result.progress.preventionStatus === 'pending') {
+            showCaseView(caseId);
+          } else {
+            window.location.hash = `case/${caseId}/solution`;
+          }
         }, 2000);
       }
+    } else {
+      // Phase 3: One graded prevention strategy adds its bonus, then the full solution
+      setTimeout(() => {
+        window.location.hash = `case/${caseId}/solution`;
+      }, 3000);
     }
   } catch (error) {
     console.error('Failed to check diagnosis:', error);
     // Clear loading state on error
-    setSubmitLoading(mainContainer, phase, false);
+    setSubmitLoading(mainContainer, loadingTarget, false);
     showDiagnosisFeedback(mainContainer, {
       correct: false,
       partial: false,
@@ -269,34 +292,51 @@ async function handleSubmitDiagnosis(caseId, { phase, diagnosis, proposedSolutio
 
 /**
  * Handle hint view for scoring
+ * @returns {Promise<{hint: string, hintsViewed: number}>} - The hint and number of hints viewed so far
+ */
+async function handleHintViewed(caseId, hintId) {
+  const { hint, progress } = await api.fetchHint(caseId, hintId);
+  currentProgress = progress;
+  return { hint, hintsViewed: progress.hintsViewed.length };
+}
+
+/**
+ * Handle taking the next hint ladder rung (the server records its cost)
+ * @returns {Promise<{hint: Object, next: Object|null}>}
  */
-function handleHintViewed(caseId, hintId) {
-  return state.recordHintView(appState, caseId, hintId);
+async function handleTakeHint(caseId) {
+  const { hint, next, progress } = await api.takeHint(caseId);
+  currentProgress = progress;
+  return { hint, next };
 }
 
 /**
  * Handle score update (called every second)
  */
 function handleUpdateScore(caseId) {
-  if (!currentCaseData) return;
+  if (!currentCaseData || !currentProgress) return;
 
-  const progress = state.getCaseProgress(appState, caseId);
-  const estimatedScore = state.estimateCurrentScore(progress, currentCaseData.difficulty);
+  const estimatedScore = state.estimateCurrentScore(currentProgress, currentCaseData.difficulty);
 
   // Calculate elapsed time
-  let elapsedSeconds = 0;
-  if (progress.startTime) {
-    elapsedSeconds = Math.floor((Date.now() - progress.startTime) / 1000);
-  }
+  const elapsedSeconds = Math.floor((Date.now() - currentProgress.startedAt) / 1000);
 
   updateScoreDisplay(mainContainer, estimatedScore, elapsedSeconds);
 }
 
+/**
+ * Handle skipping the prevention phase and viewing the solution
+ */
+async function handleSkipPrevention(caseId) {
+  currentProgress = await api.skipPrevention(caseId);
+  window.location.hash = `case/${caseId}/solution`;
+}
+
 /**
  * Handle giving up and viewing solution
  */
 async function handleGiveUp(caseId) {
-  state.markGaveUp(appState, caseId);
+  currentProgress = await api.giveUp(caseId);
   window.location.hash = `case/${caseId}/solution`;
 }
 
@@ -304,12 +344,10 @@ async function handleGiveUp(caseId) {
  * Handle sending a chat message
  */
 async function handleSendMessage(caseId, message) {
-  const progress = state.getCaseProgress(appState, caseId);
-
-  // Add user message to UI and state
-  addChatMessage(mainContainer, 'user', message);
-  chatMessages.push({ role: 'user', content: message });
+  // Add user message to state and UI; the stored history is what is sent
   state.addChatMessage(appState, caseId, { role: 'user', content: message });
+  chatMessages = state.getChatHistory(appState, caseId);
+  addChatMessage(mainContainer, chatMessages[chatMessages.length - 1]);
 
   // Create streaming message container
   const streamingContent = addStreamingMessage(mainContainer);
@@ -322,7 +360,7 @@ async function handleSendMessage(caseId, message) {
     chatMessages,
     {
       caseId,
-      cluesRevealed: progress.cluesRevealed,
+      cluesRevealed: currentProgress.cluesRevealed,
     },
     // On each chunk
     (chunk) => {
@@ -336,10 +374,16 @@ async function handleSendMessage(caseId, message) {
       }
     },
     // On complete
-    (response) => {
-      finalizeStreamingMessage(mainContainer);
-      chatMessages.push({ role: 'assistant', content: response });
-      state.addChatMessage(appState, caseId, { role: 'assistant', content: response });
+    (response, mode, citations) => {
+      // Empty replies are not kept, since the stored history is sent back
+      if (!response.trim()) {
+        streamingContent.textContent = 'Sorry, the mentor did not reply. Please try again.';
+        finalizeStreamingMessage(mainContainer);
+        return;
+      }
+      state.addChatMessage(appState, caseId, { role: 'assistant', content: response, citations });
+      chatMessages = state.getChatHistory(appState, caseId);
+      finalizeStreamingMessage(mainContainer, mode, chatMessages[chatMessages.length - 1]);
     },
     // On error
     (error) => {
@@ -350,6 +394,37 @@ async function handleSendMessage(caseId, message) {
   );
 }
 
+/**
+ * Load the mentor personas once; null when they cannot be fetched
+ */
+async function loadPersonas() {
+  if (!mentorPersonas) {
+    try {
+      mentorPersonas = await api.fetchPersonas();
+    } catch (error) {
+      console.error('Failed to load personas:', error);
+    }
+  }
+  return mentorPersonas;
+}
+
+/**
+ * Handle choosing a mentor persona for the case's chat
+ */
+async function handleSetPersona(caseId, persona) {
+  currentProgress = await api.setMentorPersona(caseId, persona);
+}
+
+/**
+ * Handle pinning or unpinning a chat message
+ * @returns {boolean} Whether the message is now pinned
+ */
+function handleTogglePin(caseId, messageId) {
+  const pinned = state.toggleChatMessagePin(appState, caseId, messageId);
+  chatMessages = state.getChatHistory(appState, caseId);
+  return pinned;
+}
+
 /**
  * Restore chat history in the UI
  */
@@ -359,7 +434,7 @@ function restoreChatHistory() {
 
   // Keep the initial greeting, add history after it
   for (const msg of chatMessages) {
-    addChatMessage(mainContainer, msg.role, msg.content);
+    addChatMessage(mainContainer, msg);
   }
 }
 
@@ -25,7 +25,7 @@ const clueTypeIcons = {
 /**
  * Render the case investigation view
  */
-export function renderCaseView(container, caseData, progress, handlers) {
+export function renderCaseView(container, caseData, progress, handlers, hints = { taken: [], next: null }) {
   const { onBack, onRevealClue, onSubmitDiagnosis, onGiveUp, onSendMessage } = handlers;
 
   container.innerHTML = `
@@ -35,7 +35,7 @@ export function renderCaseView(container, caseData, progress, handlers) {
         ${renderCrisisSection(caseData.crisis)}
         ${renderSymptomsSection(caseData.symptoms)}
         ${renderCluesSection(caseData, progress)}
-        ${renderDiagnosisSection(caseData, progress)}
+        ${renderDiagnosisSection(caseData, progress, hints)}
       </div>
       <div class="case-sidebar">
         ${renderChatPanel(caseData)}
@@ -188,10 +188,10 @@ function renderClue(clue, index) {
         <span class="clue-type badge">${clue.type}</span>
       </div>
       <div class="clue-content">${content}</div>
-      ${clue.hint ? `
+      ${clue.hasHint ? `
         <div class="clue-hint-container" data-hint-id="${clue.id}">
           <button type="button" class="btn-show-hint" data-hint-id="${clue.id}"><i data-lucide="lightbulb"></i> Show Hint</button>
-          <div class="clue-hint hidden" data-hint-id="${clue.id}">${clue.hint}</div>
+          <div class="clue-hint hidden" data-hint-id="${clue.id}"></div>
         </div>
       ` : ''}
     </div>
@@ -199,17 +199,146 @@ function renderClue(clue, index) {
 }
 
 /**
- * Render diagnosis section with two-phase system
+ * Render the optional prevention phase of a solved case
  */
-function renderDiagnosisSection(caseData, progress) {
+function renderPreventionPhase(progress) {
+  if (progress.preventionStatus === 'graded') {
+    return progress.preventionBonus > 0
+      ? `<p class="prevention-bonus"><i data-lucide="shield-check" class="inline-icon"></i> Prevention bonus: +${progress.preventionBonus} pts</p>`
+      : '';
+  }
+  if (progress.preventionStatus !== 'pending') return '';
+
+  return `
+    <div class="diagnosis-form">
+      <div class="diagnosis-phase phase-active">
+        <div class="phase-header">
+          <span class="phase-label">Phase 3: Prevention (bonus)</span>
+        </div>
+        <div class="form-group">
+          <label for="prevention-input">
+            <span class="label-hint">How would you stop this from happening again? One attempt.</span>
+          </label>
+          <textarea
+            id="prevention-input"
+            placeholder="Monitoring, alerting, tests, process changes..."
+            rows="3"
+          ></textarea>
+        </div>
+        <button class="btn btn-primary" id="btn-submit-phase3">
+          <span class="btn-text"><i data-lucide="send"></i> Submit Prevention Plan</span>
+        </button>
+      </div>
+      <div class="diagnosis-actions-secondary">
+        <button class="btn btn-ghost" id="btn-skip-prevention">
+          <i data-lucide="skip-forward"></i> Skip & View Solution
+        </button>
+      </div>
+    </div>
+    <div id="diagnosis-feedback" class="diagnosis-feedback hidden"></div>
+  `;
+}
+
+/**
+ * Render the expert mode switch, offered until the first graded attempt
+ */
+function renderExpertToggle() {
+  return `
+    <label class="expert-toggle">
+      <input type="checkbox" id="expert-mode-toggle">
+      <span>
+        <strong>Expert mode</strong>: submit the root cause and the fix together in one shot.
+        Scores ×1.5, but each miss costs 150 pts.
+      </span>
+    </label>
+  `;
+}
+
+/**
+ * Render the single-shot expert submission form
+ */
+function renderExpertPhase(active) {
+  return `
+    <div class="diagnosis-phase phase-active expert-phase ${active ? '' : 'hidden'}" id="expert-phase">
+      <div class="phase-header">
+        <span class="phase-label">Expert Mode: Root Cause & Fix</span>
+      </div>
+      <div class="form-group">
+        <label for="expert-diagnosis-input">
+          <span class="label-hint">What is causing this incident?</span>
+        </label>
+        <textarea
+          id="expert-diagnosis-input"
+          placeholder="Describe what you think is causing this incident..."
+          rows="3"
+        ></textarea>
+      </div>
+      <div class="form-group">
+        <label for="expert-solution-input">
+          <span class="label-hint">How would you fix this?</span>
+        </label>
+        <textarea
+          id="expert-solution-input"
+          placeholder="Explain how you would fix this issue..."
+          rows="3"
+        ></textarea>
+      </div>
+      <button class="btn btn-primary" id="btn-submit-expert">
+        <span class="btn-text"><i data-lucide="send"></i> Submit Root Cause & Fix</span>
+      </button>
+    </div>
+  `;
+}
+
+/**
+ * Render a hint ladder rung the player has taken
+ */
+function renderLadderHint(hint) {
+  return `
+    <li class="hint-ladder-item">
+      <span class="hint-ladder-meta">Phase ${hint.phase} · Level ${hint.level} · -${hint.cost} pts</span>
+      <span>${escapeHtml(hint.text)}</span>
+    </li>
+  `;
+}
+
+/**
+ * Render the button for the next hint ladder rung
+ */
+function renderNextHintAction(next) {
+  return next
+    ? `<button class="btn btn-ghost" id="btn-next-hint"><i data-lucide="lightbulb"></i> Get a Hint (-${next.cost} pts)</button>`
+    : '<p class="hint-ladder-empty">No more hints for this phase.</p>';
+}
+
+/**
+ * Render the hint ladder: hints taken so far and the next one on offer
+ */
+function renderHintLadder(hints) {
+  return `
+    <div class="hint-ladder" id="hint-ladder">
+      <ol class="hint-ladder-list" id="hint-ladder-list">
+        ${hints.taken.map(renderLadderHint).join('')}
+      </ol>
+      <div id="hint-ladder-action">${renderNextHintAction(hints.next)}</div>
+    </div>
+  `;
+}
+
+/**
+ * Render diagnosis section with three-phase system
+ */
+function renderDiagnosisSection(caseData, progress, hints) {
   if (progress.solved) {
     const scoreDisplay = progress.score !== null ? `Score: ${progress.score} pts` : '';
+    const awaitingPrevention = progress.preventionStatus === 'pending';
     return `
       <section class="diagnosis-section solved">
         <h2><i data-lucide="badge-check" class="section-icon text-success"></i> Case Closed!</h2>
         <p class="solved-message">You correctly identified the root cause and proposed a valid solution.</p>
         ${scoreDisplay ? `<p class="final-score"><i data-lucide="trophy" class="inline-icon"></i> ${scoreDisplay}</p>` : ''}
-        <button class="btn btn-primary" id="btn-view-solution"><i data-lucide="eye"></i> View Full Solution</button>
+        ${renderPreventionPhase(progress)}
+        ${awaitingPrevention ? '' : '<button class="btn btn-primary" id="btn-view-solution"><i data-lucide="eye"></i> View Full Solution</button>'}
       </section>
     `;
   }
@@ -224,14 +353,20 @@ function renderDiagnosisSection(caseData, progress) {
     `;
   }
 
-  // Two-phase diagnosis UI
+  // Two-phase diagnosis UI, or one expert submission
   const phase1Complete = progress.rootCauseCorrect;
+  const expert = progress.mode === 'expert';
+  const expertAvailable = !progress.mode && progress.rootCauseAttempts === 0 && progress.solutionAttempts === 0;
 
   return `
     <section class="diagnosis-section">
       <h2><i data-lucide="target" class="section-icon"></i> Your Analysis</h2>
 
       <div class="diagnosis-form">
+        ${expertAvailable ? renderExpertToggle() : ''}
+        ${expert || expertAvailable ? renderExpertPhase(expert) : ''}
+
+        <div class="guided-phases ${expert ? 'hidden' : ''}" id="guided-phases">
         <!-- Phase 1: Root Cause -->
         <div class="diagnosis-phase ${phase1Complete ? 'phase-complete' : 'phase-active'}">
           <div class="phase-header">
@@ -286,6 +421,9 @@ function renderDiagnosisSection(caseData, progress) {
             </p>
           `}
         </div>
+        </div>
+
+        ${renderHintLadder(hints)}
 
         <div class="diagnosis-actions-secondary">
           <button class="btn btn-ghost" id="btn-give-up">
@@ -334,12 +472,16 @@ function renderChatPanel(caseData) {
   return `
     <div class="chat-panel">
       <div class="chat-header">
-        <h3><i data-lucide="user-search" class="section-icon"></i> Detective Claude</h3>
-        <p class="chat-subtitle">Your AI investigation partner</p>
+        <h3><i data-lucide="user-search" class="section-icon"></i> <span id="mentor-name">Detective Claude</span></h3>
+        <p class="chat-subtitle" id="mentor-description">Your AI investigation partner</p>
+        <div class="persona-picker hidden" id="persona-picker">
+          <label for="persona-select">Mentor</label>
+          <select id="persona-select"></select>
+        </div>
       </div>
 
       <div class="chat-messages" id="chat-messages">
-        <div class="chat-message assistant">
+        <div class="chat-message assistant" id="chat-greeting">
           <div class="message-content">
             <p>*adjusts fedora* Another incident to investigate, I see. "${caseData.title}" - interesting case.</p>
             <p>I've seen patterns like this before. Take a look at the evidence and tell me what catches your eye. I'll help guide your investigation, but the breakthrough has to come from you.</p>
@@ -364,29 +506,28 @@ function renderChatPanel(caseData) {
  * Attach event handlers
  */
 function attachEventHandlers(container, caseData, progress, handlers) {
-  const { onBack, onRevealClue, onSubmitDiagnosis, onGiveUp, onSendMessage, onHintViewed, onUpdateScore } = handlers;
+  const { onBack, onRevealClue, onSubmitDiagnosis, onGiveUp, onSkipPrevention, onSendMessage, onTogglePin, onHintViewed, onTakeHint, onUpdateScore } = handlers;
 
   // Back button
   container.querySelector('#btn-back')?.addEventListener('click', onBack);
 
   // Show hint buttons - now with tracking
   container.querySelectorAll('.btn-show-hint').forEach(btn => {
-    btn.addEventListener('click', (e) => {
+    btn.addEventListener('click', async (e) => {
       e.preventDefault();
       e.stopPropagation();
       const hintId = btn.dataset.hintId;
       const hintEl = container.querySelector(`.clue-hint[data-hint-id="${hintId}"]`);
-      if (hintEl) {
+      if (hintEl && onHintViewed) {
+        // Hints are fetched on demand; the server records the view for scoring
+        const { hint, hintsViewed } = await onHintViewed(hintId);
+        hintEl.textContent = hint;
         hintEl.classList.remove('hidden');
         btn.style.display = 'none';
-        // Track hint view for scoring
-        if (onHintViewed) {
-          const newCount = onHintViewed(hintId);
-          // Update hints count in UI
-          const hintsCountEl = container.querySelector('#hints-count');
-          if (hintsCountEl) {
-            hintsCountEl.textContent = newCount;
-          }
+        // Update hints count in UI
+        const hintsCountEl = container.querySelector('#hints-count');
+        if (hintsCountEl) {
+          hintsCountEl.textContent = hintsViewed;
         }
       }
     });
@@ -431,6 +572,64 @@ function attachEventHandlers(container, caseData, progress, handlers) {
     onSubmitDiagnosis({ phase: 2, diagnosis: '', proposedSolution });
   });
 
+  // Expert mode: one submission with both the root cause and the fix
+  container.querySelector('#expert-mode-toggle')?.addEventListener('change', (e) => {
+    container.querySelector('#expert-phase')?.classList.toggle('hidden', !e.target.checked);
+    container.querySelector('#guided-phases')?.classList.toggle('hidden', e.target.checked);
+  });
+
+  container.querySelector('#btn-submit-expert')?.addEventListener('click', () => {
+    const expertDiagnosisInput = container.querySelector('#expert-diagnosis-input');
+    const expertSolutionInput = container.querySelector('#expert-solution-input');
+    const diagnosis = expertDiagnosisInput?.value?.trim();
+    const proposedSolution = expertSolutionInput?.value?.trim();
+
+    if (!diagnosis || !proposedSolution) {
+      alert('Expert mode needs both the root cause and your fix.');
+      (diagnosis ? expertSolutionInput : expertDiagnosisInput)?.focus();
+      return;
+    }
+
+    onSubmitDiagnosis({ mode: 'expert', phase: 1, diagnosis, proposedSolution });
+  });
+
+  // Phase 3: Submit Prevention Strategy
+  const phase3Btn = container.querySelector('#btn-submit-phase3');
+  const preventionInput = container.querySelector('#prevention-input');
+
+  phase3Btn?.addEventListener('click', () => {
+    const prevention = preventionInput?.value?.trim();
+
+    if (!prevention) {
+      alert('Please describe how you would stop this from happening again.');
+      preventionInput?.focus();
+      return;
+    }
+
+    onSubmitDiagnosis({ phase: 3, diagnosis: '', proposedSolution: '', prevention });
+  });
+
+  container.querySelector('#btn-skip-prevention')?.addEventListener('click', onSkipPrevention);
+
+  // Hint ladder: each rung is recorded by the server and costs more than the last
+  container.querySelector('#hint-ladder-action')?.addEventListener('click', async (e) => {
+    const button = e.target.closest('#btn-next-hint');
+    if (!button) return;
+
+    button.disabled = true;
+    try {
+      const { hint, next } = await onTakeHint();
+      container.querySelector('#hint-ladder-list').insertAdjacentHTML('beforeend', renderLadderHint(hint));
+      container.querySelector('#hint-ladder-action').innerHTML = renderNextHintAction(next);
+      if (window.lucide) {
+        window.lucide.createIcons();
+      }
+    } catch (error) {
+      console.error('Failed to take hint:', error);
+      button.disabled = false;
+    }
+  });
+
   // Give up button
   container.querySelector('#btn-give-up')?.addEventListener('click', () => {
     if (confirm('Are you sure you want to see the solution? You can keep investigating if you prefer.')) {
@@ -455,6 +654,23 @@ function attachEventHandlers(container, caseData, progress, handlers) {
 
   sendBtn?.addEventListener('click', sendMessage);
 
+  // Citation links jump to the cited clue card; pins keep a message in the mentor's mind
+  container.querySelector('#chat-messages')?.addEventListener('click', (e) => {
+    const link = e.target.closest('.citation-link');
+    if (link) {
+      focusClueCard(container, link.dataset.clueId);
+      return;
+    }
+
+    const pin = e.target.closest('.pin-toggle');
+    if (pin && onTogglePin) {
+      const pinned = onTogglePin(pin.dataset.messageId);
+      pin.closest('.chat-message')?.classList.toggle('pinned', pinned);
+      pin.setAttribute('aria-pressed', String(pinned));
+      pin.title = pinned ? 'Unpin' : 'Pin for the mentor to keep in mind';
+    }
+  });
+
   chatInput?.addEventListener('keydown', (e) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -478,10 +694,47 @@ function attachEventHandlers(container, caseData, progress, handlers) {
   }
 }
 
+/**
+ * Notes shown when the AI grader could not produce the verdict
+ */
+const FALLBACK_NOTES = {
+  'keyword-fallback': 'The AI grader was unavailable, so this was checked by keyword matching.',
+};
+
+/**
+ * Render the rubric score with a per-kind tally. Concepts are listed once
+ * the server includes them (after the case is closed).
+ */
+function renderRubric(result) {
+  const criteria = result.criteria || [];
+  const tally = (kind) => {
+    const items = criteria.filter(c => c.kind === kind);
+    return { met: items.filter(c => c.rating === 'met').length, total: items.length };
+  };
+  const required = tally('required');
+  const supporting = tally('supporting');
+  const misconceptions = tally('misconception');
+
+  const parts = [];
+  if (required.total > 0) parts.push(`required ${required.met}/${required.total}`);
+  if (supporting.total > 0) parts.push(`supporting ${supporting.met}/${supporting.total}`);
+  if (misconceptions.met > 0) parts.push(`${misconceptions.met} misconception${misconceptions.met === 1 ? '' : 's'}`);
+
+  let html = `<p class="rubric-score">Rubric score: ${result.rubricScore}/100${parts.length ? ` · ${parts.join(' · ')}` : ''}</p>`;
+
+  const withConcepts = criteria.filter(c => c.concept);
+  if (withConcepts.length > 0) {
+    html += `<ul class="rubric-criteria">${withConcepts.map(c => `
+      <li class="rubric-criterion ${c.rating}">${escapeHtml(c.concept)} <span class="rubric-weight">(${c.kind}, ×${c.weight})</span></li>
+    `).join('')}</ul>`;
+  }
+  return html;
+}
+
 /**
  * Update diagnosis feedback
  */
-export function showDiagnosisFeedback(container, result) {
+export function showDiagnosisFeedback(container, result, onAppeal) {
   const feedback = container.querySelector('#diagnosis-feedback');
   if (!feedback) return;
 
@@ -490,30 +743,186 @@ export function showDiagnosisFeedback(container, result) {
 
   let html = `<p class="feedback-message">${result.feedback}</p>`;
 
-  if (result.hint) {
-    html += `<p class="feedback-hint">${result.hint}</p>`;
+  // Incorrect verdicts already lead with the red-herring feedback
+  if (result.redHerring && result.partial) {
+    html += `<p class="red-herring-note">${escapeHtml(result.redHerring)}</p>`;
+  }
+
+  if (result.suggestedHint) {
+    html += `<p class="feedback-hint">💡 Stuck? Hint level ${result.suggestedHint.level} on the ladder points at what this answer missed.</p>`;
   }
 
   if (result.matchedKeywords && result.matchedKeywords.length > 0) {
     html += `<p class="matched-keywords">Keywords matched: ${result.matchedKeywords.join(', ')}</p>`;
   }
 
+  if (typeof result.rubricScore === 'number') {
+    html += renderRubric(result);
+  }
+
+  const fallbackNote = FALLBACK_NOTES[result.evaluatedBy];
+  if (fallbackNote) {
+    html += `<p class="evaluation-note">${fallbackNote}</p>`;
+  }
+
+  if (result.secondOpinion) {
+    html += '<p class="evaluation-note">This verdict was borderline, so a second grader reviewed it.</p>';
+  }
+
+  // Keyword fallbacks are not model verdicts, so there is nothing to review
+  const canAppeal = onAppeal && !result.correct && result.evaluatedBy && result.evaluatedBy !== 'keyword-fallback';
+  if (canAppeal) {
+    html += `
+      <div class="appeal-actions">
+        <button class="btn btn-ghost btn-appeal" id="btn-appeal">
+          <i data-lucide="scale"></i> Appeal Verdict
+        </button>
+      </div>
+    `;
+  }
+
   feedback.innerHTML = html;
+
+  if (canAppeal) {
+    feedback.querySelector('#btn-appeal').addEventListener('click', async (e) => {
+      const button = e.currentTarget;
+      const reason = prompt('Why do you think this verdict is wrong? (optional)');
+      if (reason === null) return;
+
+      button.disabled = true;
+      button.textContent = 'Filing appeal...';
+      try {
+        await onAppeal(reason);
+        button.textContent = 'Appeal filed for review';
+      } catch (error) {
+        button.disabled = false;
+        button.textContent = error.message;
+      }
+    });
+  }
+
+  if (window.lucide) {
+    window.lucide.createIcons();
+  }
+}
+
+/**
+ * Show a persona's name, description and greeting in the chat panel
+ */
+function applyPersona(container, persona, caseTitle) {
+  container.querySelector('#mentor-name').textContent = persona.name;
+  container.querySelector('#mentor-description').textContent = persona.description;
+  container.querySelector('#chat-input')?.setAttribute('placeholder', `Share your thoughts with ${persona.name}...`);
+
+  const greeting = container.querySelector('#chat-greeting .message-content');
+  if (greeting) {
+    greeting.innerHTML = persona.greeting
+      .map((paragraph) => `<p>${escapeHtml(paragraph.replace('{case}', caseTitle))}</p>`)
+      .join('');
+  }
+}
+
+/**
+ * Fill the mentor persona picker in the chat panel
+ * @param {Object} options
+ * @param {Array} options.personas - Personas from the server
+ * @param {string} options.selected - Id of the persona chosen for this case
+ * @param {string} options.caseTitle - Title used in the greeting
+ * @param {Function} options.onChange - Called with the newly chosen persona id
+ */
+export function renderPersonaPicker(container, { personas, selected, caseTitle, onChange }) {
+  const picker = container.querySelector('#persona-picker');
+  const select = container.querySelector('#persona-select');
+  if (!picker || !select || !personas?.length) return;
+
+  select.innerHTML = personas
+    .map((p) => `<option value="${p.id}" ${p.id === selected ? 'selected' : ''}>${escapeHtml(p.name)}</option>`)
+    .join('');
+  picker.classList.remove('hidden');
+
+  const current = personas.find((p) => p.id === selected);
+  if (current) {
+    applyPersona(container, current, caseTitle);
+  }
+
+  select.addEventListener('change', async () => {
+    const persona = personas.find((p) => p.id === select.value);
+    if (!persona) return;
+
+    select.disabled = true;
+    try {
+      await onChange(persona.id);
+      applyPersona(container, persona, caseTitle);
+    } catch (error) {
+      console.error('Failed to change mentor:', error);
+      select.value = selected;
+    } finally {
+      select.disabled = false;
+    }
+    selected = select.value;
+  });
+}
+
+/**
+ * Render links to the clue cards a mentor reply cited
+ */
+function renderCitations(citations) {
+  if (!citations?.length) return '';
+
+  return `
+    <div class="message-citations">
+      <span class="citations-label">Evidence:</span>
+      ${citations.map((c) => `
+        <button type="button" class="citation-link" data-clue-id="${c.clueId}" title="${escapeHtml(c.title)}">Clue ${c.clueId}</button>
+      `).join('')}
+    </div>
+  `;
+}
+
+/**
+ * Scroll to a clue card and flash it
+ */
+function focusClueCard(container, clueId) {
+  const card = container.querySelector(`.clue-card[data-clue-id="${clueId}"]`);
+  if (!card) return;
+
+  card.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  card.classList.remove('cited');
+  // Restart the highlight animation on repeated clicks
+  void card.offsetWidth;
+  card.classList.add('cited');
+}
+
+/**
+ * Render the pin toggle for a stored chat message
+ */
+function renderPinToggle(message) {
+  if (!message?.id) return '';
+
+  return `
+    <button type="button" class="pin-toggle" data-message-id="${message.id}" aria-pressed="${Boolean(message.pinned)}"
+      title="${message.pinned ? 'Unpin' : 'Pin for the mentor to keep in mind'}"><i data-lucide="pin"></i></button>
+  `;
 }
 
 /**
  * Add a message to the chat
+ * @param {Object} message - Stored chat message ({ id, role, content, citations?, pinned? })
  */
-export function addChatMessage(container, role, content) {
+export function addChatMessage(container, message) {
   const messagesContainer = container.querySelector('#chat-messages');
   if (!messagesContainer) return;
 
   const messageDiv = document.createElement('div');
-  messageDiv.className = `chat-message ${role}`;
-  messageDiv.innerHTML = `<div class="message-content"><p>${escapeHtml(content)}</p></div>`;
+  messageDiv.className = `chat-message ${message.role}${message.pinned ? ' pinned' : ''}`;
+  messageDiv.innerHTML = `${renderPinToggle(message)}<div class="message-content"><p>${escapeHtml(message.content)}</p></div>${renderCitations(message.citations)}`;
 
   messagesContainer.appendChild(messageDiv);
   messagesContainer.scrollTop = messagesContainer.scrollHeight;
+
+  if (window.lucide) {
+    window.lucide.createIcons();
+  }
 }
 
 /**
@@ -535,11 +944,21 @@ export function addStreamingMessage(container) {
 
 /**
  * Finalize a streaming message
+ * @param {string} mode - Mentor mode reported by the server ('socratic' or 'debrief')
+ * @param {Object} [message] - The stored reply, with the clues it cited
  */
-export function finalizeStreamingMessage(container) {
+export function finalizeStreamingMessage(container, mode, message) {
   const streaming = container.querySelector('.chat-message.streaming');
   if (streaming) {
     streaming.classList.remove('streaming');
+    if (mode === 'debrief') {
+      streaming.classList.add('debrief');
+    }
+    streaming.insertAdjacentHTML('afterbegin', renderPinToggle(message));
+    streaming.insertAdjacentHTML('beforeend', renderCitations(message?.citations));
+    if (window.lucide) {
+      window.lucide.createIcons();
+    }
   }
 }
 
@@ -634,20 +1053,19 @@ export function injectNewClue(container, newClue, cluesRevealed, totalClues, onH
   // Attach hint handler for the new clue
   const hintBtn = clueCard.querySelector('.btn-show-hint');
   if (hintBtn) {
-    hintBtn.addEventListener('click', (e) => {
+    hintBtn.addEventListener('click', async (e) => {
       e.preventDefault();
       e.stopPropagation();
       const hintId = hintBtn.dataset.hintId;
       const hintEl = clueCard.querySelector(`.clue-hint[data-hint-id="${hintId}"]`);
-      if (hintEl) {
+      if (hintEl && onHintViewed) {
+        const { hint, hintsViewed } = await onHintViewed(hintId);
+        hintEl.textContent = hint;
         hintEl.classList.remove('hidden');
         hintBtn.style.display = 'none';
-        if (onHintViewed) {
-          const newCount = onHintViewed(hintId);
-          const hintsCountEl = container.querySelector('#hints-count');
-          if (hintsCountEl) {
-            hintsCountEl.textContent = newCount;
-          }
+        const hintsCountEl = container.querySelector('#hints-count');
+        if (hintsCountEl) {
+          hintsCountEl.textContent = hintsViewed;
         }
       }
     });
@@ -672,11 +1090,11 @@ export function updateHintsCount(container, count) {
 /**
  * Set loading state on submit button
  * @param {HTMLElement} container - The main container
- * @param {number} phase - The phase (1 or 2)
+ * @param {number|string} phase - The phase (1, 2 or 3), or 'expert'
  * @param {boolean} isLoading - Whether to show loading state
  */
 export function setSubmitLoading(container, phase, isLoading) {
-  const btnId = phase === 1 ? '#btn-submit-phase1' : '#btn-submit-phase2';
+  const btnId = phase === 'expert' ? '#btn-submit-expert' : `#btn-submit-phase${phase}`;
   const btn = container.querySelector(btnId);
 
   if (!btn) return;
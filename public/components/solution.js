@@ -38,9 +38,16 @@ export function renderSolution(container, caseData, solution, wasSolved, onBack)
 
       <section class="solution-section prevention">
         <h2><i data-lucide="shield" class="section-icon"></i> Prevention Strategies</h2>
-        <ul class="prevention-list">
-          ${solution.prevention.map(p => `<li>${p}</li>`).join('')}
-        </ul>
+        ${solution.prevention.length > 0 ? `
+          <ul class="prevention-list">
+            ${solution.prevention.map(p => `<li>${p}</li>`).join('')}
+          </ul>
+        ` : `
+          <p class="phase-locked-message">
+            <i data-lucide="lock" class="inline-icon"></i>
+            Submit or skip Phase 3 on the case page to see the reference strategies.
+          </p>
+        `}
       </section>
 
       <section class="solution-section insights">
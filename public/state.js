@@ -1,16 +1,16 @@
 /**
- * State Management - localStorage-based progress tracking
+ * State Management - localStorage-based UI state
+ * Case progress and scoring live in the server-side investigation session.
  */
 
 const STORAGE_KEY = 'detective-progress';
+const SESSION_KEY = 'detective-session-id';
 
 /**
  * Default state structure
  */
 const defaultState = {
   currentCase: null,
-  caseProgress: {}, // { caseId: { cluesRevealed, attempts, solved, gaveUp } }
-  solvedCases: [],
   chatHistory: {}, // { caseId: messages[] }
 };
 
@@ -41,181 +41,37 @@ export function saveState(state) {
 }
 
 /**
- * Get or initialize progress for a specific case
+ * Get the investigation session id, creating one on first use.
+ * The server keys all case progress and scoring by this id.
  */
-export function getCaseProgress(state, caseId) {
-  if (!state.caseProgress[caseId]) {
-    state.caseProgress[caseId] = {
-      cluesRevealed: 2, // Start with 2 clues
-      attempts: 0,
-      solved: false,
-      gaveUp: false,
-      // New fields for two-phase diagnosis and scoring
-      startTime: null, // When investigation started (timestamp)
-      hintsViewed: [], // Array of hint IDs viewed
-      rootCauseCorrect: false, // Phase 1 completion
-      rootCauseAttempts: 0, // Attempts at phase 1
-      submittedRootCause: '', // The correct root cause answer
-      score: null, // Final score (calculated when solved)
-    };
-    saveState(state);
+export function getSessionId() {
+  let sessionId = localStorage.getItem(SESSION_KEY);
+  if (!sessionId) {
+    sessionId = crypto.randomUUID();
+    localStorage.setItem(SESSION_KEY, sessionId);
   }
-  // Migration: ensure new fields exist for existing progress
-  const progress = state.caseProgress[caseId];
-  if (progress.startTime === undefined) progress.startTime = null;
-  if (progress.hintsViewed === undefined) progress.hintsViewed = [];
-  if (progress.rootCauseCorrect === undefined) progress.rootCauseCorrect = false;
-  if (progress.rootCauseAttempts === undefined) progress.rootCauseAttempts = 0;
-  if (progress.submittedRootCause === undefined) progress.submittedRootCause = '';
-  if (progress.score === undefined) progress.score = null;
-  return progress;
-}
-
-/**
- * Reveal another clue for a case
- */
-export function revealClue(state, caseId, totalClues) {
-  const progress = getCaseProgress(state, caseId);
-  if (progress.cluesRevealed < totalClues) {
-    progress.cluesRevealed++;
-    saveState(state);
-  }
-  return progress.cluesRevealed;
-}
-
-/**
- * Record a diagnosis attempt
- */
-export function recordAttempt(state, caseId) {
-  const progress = getCaseProgress(state, caseId);
-  progress.attempts++;
-  saveState(state);
-  return progress.attempts;
-}
-
-/**
- * Mark a case as solved and save the score
- */
-export function markSolved(state, caseId, score = null) {
-  const progress = getCaseProgress(state, caseId);
-  progress.solved = true;
-  if (score !== null) {
-    progress.score = score;
-  }
-  if (!state.solvedCases.includes(caseId)) {
-    state.solvedCases.push(caseId);
-  }
-  saveState(state);
-}
-
-/**
- * Start the investigation timer for a case
- */
-export function startInvestigation(state, caseId) {
-  const progress = getCaseProgress(state, caseId);
-  if (!progress.startTime) {
-    progress.startTime = Date.now();
-    saveState(state);
-  }
-  return progress.startTime;
-}
-
-/**
- * Record a hint view for scoring
- */
-export function recordHintView(state, caseId, hintId) {
-  const progress = getCaseProgress(state, caseId);
-  if (!progress.hintsViewed.includes(hintId)) {
-    progress.hintsViewed.push(hintId);
-    saveState(state);
-  }
-  return progress.hintsViewed.length;
-}
-
-/**
- * Record a root cause attempt (Phase 1)
- */
-export function recordRootCauseAttempt(state, caseId) {
-  const progress = getCaseProgress(state, caseId);
-  progress.rootCauseAttempts++;
-  saveState(state);
-  return progress.rootCauseAttempts;
-}
-
-/**
- * Mark Phase 1 (root cause) as complete
- */
-export function markRootCauseCorrect(state, caseId, submittedRootCause) {
-  const progress = getCaseProgress(state, caseId);
-  progress.rootCauseCorrect = true;
-  progress.submittedRootCause = submittedRootCause;
-  saveState(state);
-}
-
-/**
- * Calculate the score for a case
- * @param {Object} progress - Case progress object
- * @param {string} difficulty - Case difficulty (junior, mid, senior, principal)
- * @returns {number} - Calculated score
- */
-export function calculateScore(progress, difficulty) {
-  const BASE_SCORE = 1000;
-  const TIME_PENALTY_PER_5_SEC = 1;
-  const TIME_PENALTY_CAP = 300;
-  const CLUE_PENALTY = 50; // Per clue beyond initial 2
-  const HINT_PENALTY = 25; // Per hint viewed
-  const ROOT_CAUSE_ATTEMPT_PENALTY = 100; // Per failed root cause attempt
-  const MIN_SCORE = 100;
-
-  const DIFFICULTY_MULTIPLIERS = {
-    junior: 1,
-    mid: 1.5,
-    senior: 2,
-    principal: 3,
-  };
-
-  let score = BASE_SCORE;
-
-  // Time penalty: -1 per 5 seconds, capped at -300
-  if (progress.startTime) {
-    const elapsedSeconds = Math.floor((Date.now() - progress.startTime) / 1000);
-    const timePenalty = Math.min(Math.floor(elapsedSeconds / 5) * TIME_PENALTY_PER_5_SEC, TIME_PENALTY_CAP);
-    score -= timePenalty;
-  }
-
-  // Clue penalty: -50 per clue beyond initial 2
-  const extraClues = Math.max(0, progress.cluesRevealed - 2);
-  score -= extraClues * CLUE_PENALTY;
-
-  // Hint penalty: -25 per hint viewed
-  score -= progress.hintsViewed.length * HINT_PENALTY;
-
-  // Root cause attempt penalty: -100 per failed attempt
-  // (successful attempt doesn't count, so it's attempts - 1 if solved)
-  const failedAttempts = Math.max(0, progress.rootCauseAttempts - 1);
-  score -= failedAttempts * ROOT_CAUSE_ATTEMPT_PENALTY;
-
-  // Apply minimum score
-  score = Math.max(score, MIN_SCORE);
-
-  // Apply difficulty multiplier
-  const multiplier = DIFFICULTY_MULTIPLIERS[difficulty] || 1;
-  score = Math.round(score * multiplier);
-
-  return score;
+  return sessionId;
 }
 
 /**
  * Estimate current score (live updating)
+ * Display only - mirrors the server's scoring rules so the estimate can tick
+ * down between requests. The final score is always computed by the server.
+ * @param {Object} progress - Case progress returned by the server
+ * @param {string} difficulty - Case difficulty (junior, mid, senior, principal)
+ * @returns {number} - Estimated score
  */
 export function estimateCurrentScore(progress, difficulty) {
-  // Same as calculateScore but assumes no more failed attempts
   const BASE_SCORE = 1000;
   const TIME_PENALTY_PER_5_SEC = 1;
   const TIME_PENALTY_CAP = 300;
   const CLUE_PENALTY = 50;
   const HINT_PENALTY = 25;
   const ROOT_CAUSE_ATTEMPT_PENALTY = 100;
+  const EXPERT_ATTEMPT_PENALTY = 150;
+  const EXPERT_MULTIPLIER = 1.5;
+  const RUBRIC_PENALTY_PER_POINT = 2;
+  const RUBRIC_PENALTY_CAP = 200;
   const MIN_SCORE = 100;
 
   const DIFFICULTY_MULTIPLIERS = {
@@ -228,11 +84,9 @@ export function estimateCurrentScore(progress, difficulty) {
   let score = BASE_SCORE;
 
   // Time penalty
-  if (progress.startTime) {
-    const elapsedSeconds = Math.floor((Date.now() - progress.startTime) / 1000);
-    const timePenalty = Math.min(Math.floor(elapsedSeconds / 5) * TIME_PENALTY_PER_5_SEC, TIME_PENALTY_CAP);
-    score -= timePenalty;
-  }
+  const elapsedSeconds = Math.floor((Date.now() - progress.startedAt) / 1000);
+  const timePenalty = Math.min(Math.floor(elapsedSeconds / 5) * TIME_PENALTY_PER_5_SEC, TIME_PENALTY_CAP);
+  score -= timePenalty;
 
   // Clue penalty
   const extraClues = Math.max(0, progress.cluesRevealed - 2);
@@ -241,31 +95,36 @@ export function estimateCurrentScore(progress, difficulty) {
   // Hint penalty
   score -= progress.hintsViewed.length * HINT_PENALTY;
 
+  // Hint ladder penalty (cost of the rungs taken)
+  score -= progress.hintLadderPenalty || 0;
+
   // Root cause attempt penalty (count all failed attempts so far)
   const failedAttempts = progress.rootCauseCorrect
     ? Math.max(0, progress.rootCauseAttempts - 1)
     : progress.rootCauseAttempts;
   score -= failedAttempts * ROOT_CAUSE_ATTEMPT_PENALTY;
 
+  // Expert attempt penalty (failed single-shot attempts)
+  score -= (progress.expertAttempts || 0) * EXPERT_ATTEMPT_PENALTY;
+
+  // Rubric penalty (rubric scores of the accepted answers so far)
+  const rubricScores = [progress.rootCauseRubricScore, progress.solutionRubricScore]
+    .filter((rubricScore) => typeof rubricScore === 'number');
+  if (rubricScores.length > 0) {
+    const average = rubricScores.reduce((total, rubricScore) => total + rubricScore, 0) / rubricScores.length;
+    score -= Math.min(Math.round((100 - average) * RUBRIC_PENALTY_PER_POINT), RUBRIC_PENALTY_CAP);
+  }
+
   // Apply minimum
   score = Math.max(score, MIN_SCORE);
 
   // Apply multiplier
-  const multiplier = DIFFICULTY_MULTIPLIERS[difficulty] || 1;
+  const multiplier = (DIFFICULTY_MULTIPLIERS[difficulty] || 1) * (progress.mode === 'expert' ? EXPERT_MULTIPLIER : 1);
   score = Math.round(score * multiplier);
 
   return score;
 }
 
-/**
- * Mark a case as gave up
- */
-export function markGaveUp(state, caseId) {
-  const progress = getCaseProgress(state, caseId);
-  progress.gaveUp = true;
-  saveState(state);
-}
-
 /**
  * Set current case
  */
@@ -283,12 +142,13 @@ export function getChatHistory(state, caseId) {
 
 /**
  * Add message to chat history
+ * Each message gets an id so it can be pinned later.
  */
 export function addChatMessage(state, caseId, message) {
   if (!state.chatHistory[caseId]) {
     state.chatHistory[caseId] = [];
   }
-  state.chatHistory[caseId].push(message);
+  state.chatHistory[caseId].push({ id: crypto.randomUUID(), ...message });
 
   // Keep only last 50 messages per case
   if (state.chatHistory[caseId].length > 50) {
@@ -298,6 +158,20 @@ export function addChatMessage(state, caseId, message) {
   saveState(state);
 }
 
+/**
+ * Pin or unpin a chat message. The mentor always keeps pinned messages in
+ * mind, however long the chat gets.
+ * @returns {boolean} Whether the message is now pinned
+ */
+export function toggleChatMessagePin(state, caseId, messageId) {
+  const message = getChatHistory(state, caseId).find((m) => m.id === messageId);
+  if (!message) return false;
+
+  message.pinned = !message.pinned;
+  saveState(state);
+  return message.pinned;
+}
+
 /**
  * Clear chat history for a case
  */
@@ -308,27 +182,10 @@ export function clearChatHistory(state, caseId) {
 
 /**
  * Reset all progress
+ * Dropping the session id starts a fresh server-side session.
  */
 export function resetAllProgress() {
   localStorage.removeItem(STORAGE_KEY);
+  localStorage.removeItem(SESSION_KEY);
   return { ...defaultState };
 }
-
-/**
- * Get statistics
- */
-export function getStats(state) {
-  const totalCases = 16; // We have 16 cases
-  const solved = state.solvedCases.length;
-  const inProgress = Object.keys(state.caseProgress).filter(id => {
-    const p = state.caseProgress[id];
-    return !p.solved && !p.gaveUp && p.attempts > 0;
-  }).length;
-
-  return {
-    solved,
-    inProgress,
-    totalCases,
-    percentComplete: Math.round((solved / totalCases) * 100),
-  };
-}
@@ -0,0 +1,33 @@
+/**
+ * Appeal Ledger - Durable Object holding appeals filed for human review.
+ *
+ * A single instance keeps every appeal, so reviewers can list them in one
+ * place. Appeals are only ever added; reviewing them happens outside the game.
+ */
+
+import { DurableObject } from "cloudflare:workers";
+import type { Appeal, Env } from "../types";
+
+/**
+ * Storage key for an appeal. Keys sort by filing time.
+ */
+function appealKey(appeal: Appeal): string {
+	return `appeal:${String(appeal.createdAt).padStart(15, "0")}:${appeal.id}`;
+}
+
+export class AppealLedger extends DurableObject<Env> {
+	/**
+	 * File an appeal.
+	 */
+	async file(appeal: Appeal): Promise<void> {
+		await this.ctx.storage.put(appealKey(appeal), appeal);
+	}
+
+	/**
+	 * List the most recent appeals, newest first.
+	 */
+	async list(limit: number): Promise<Appeal[]> {
+		const entries = await this.ctx.storage.list<Appeal>({ prefix: "appeal:", reverse: true, limit });
+		return [...entries.values()];
+	}
+}
@@ -0,0 +1,69 @@
+/**
+ * Appeals - disputed grader verdicts, kept for human review.
+ *
+ * An appeal records the submission, the verdict the player was shown, a
+ * second grader's verdict and both explanations. Appeals never change a
+ * verdict or a score; they are evidence for tuning the graders.
+ */
+
+import type { Appeal, Env } from "../types";
+
+export { AppealLedger } from "./appeal-ledger";
+
+/**
+ * Most appeals returned by one listing.
+ */
+export const MAX_APPEALS_LISTED = 100;
+
+/**
+ * Backing store for appeals.
+ */
+export interface AppealStore {
+	file(appeal: Appeal): Promise<void>;
+	list(limit: number): Promise<Appeal[]>;
+}
+
+/**
+ * Store backed by a single AppealLedger Durable Object.
+ */
+export class DurableAppealStore implements AppealStore {
+	constructor(private readonly namespace: Env["APPEAL_LEDGER"]) {}
+
+	file(appeal: Appeal): Promise<void> {
+		return this.ledger().file(appeal);
+	}
+
+	list(limit: number): Promise<Appeal[]> {
+		return this.ledger().list(limit);
+	}
+
+	private ledger() {
+		return this.namespace.get(this.namespace.idFromName("appeals"));
+	}
+}
+
+/**
+ * Store that keeps appeals in isolate memory. Used for local runs; appeals
+ * are lost when the isolate is evicted.
+ */
+export class InMemoryAppealStore implements AppealStore {
+	private readonly appeals: Appeal[] = [];
+
+	async file(appeal: Appeal): Promise<void> {
+		this.appeals.push(appeal);
+	}
+
+	async list(limit: number): Promise<Appeal[]> {
+		return this.appeals.slice(-limit).reverse();
+	}
+}
+
+// Shared across requests handled by the same isolate
+const memoryStore = new InMemoryAppealStore();
+
+/**
+ * Pick the store configured by APPEAL_STORE.
+ */
+export function getAppealStore(env: Env): AppealStore {
+	return env.APPEAL_STORE === "memory" ? memoryStore : new DurableAppealStore(env.APPEAL_LEDGER);
+}
@@ -0,0 +1,17 @@
+import type { GoldenSet } from "../../types";
+
+export const databaseDisappearingActGolden: GoldenSet = {
+	caseId: "database-disappearing-act",
+	examples: [
+		{ phase: 1, label: "correct", submission: "The session service grabs a DB connection and never releases it, so the pool slowly leaks until it is exhausted and requests time out waiting for a connection." },
+		{ phase: 1, label: "correct", submission: "connection leak - updateSession never returns connections to the pool" },
+		{ phase: 1, label: "partial", submission: "The database connection pool is too small for the afternoon traffic, so requests queue up waiting for a connection." },
+		{ phase: 1, label: "incorrect", submission: "The database server is overloaded and running out of CPU in the afternoon." },
+		{ phase: 2, label: "correct", submission: "Release the connection in a finally block after every query, or use a helper that acquires and always releases the connection." },
+		{ phase: 2, label: "correct", submission: "Route every query through a withConnection(fn) helper that acquires a connection, runs fn and releases it in finally, and make SessionService use it." },
+		{ phase: 2, label: "partial", submission: "Make sure updateSession calls connection.release() at the end once the queries succeed." },
+		{ phase: 2, label: "partial", submission: "Alert when in-use pool connections stay above 90% so we catch the leak before users do." },
+		{ phase: 2, label: "partial", submission: "Wrap the queries in try/finally so the connection is always released, and raise the pool max to 300 to be safe." },
+		{ phase: 2, label: "incorrect", submission: "Increase the pool max from 100 to 500 connections and restart the app servers nightly." },
+	],
+};
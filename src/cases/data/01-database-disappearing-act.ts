@@ -159,6 +159,22 @@ Total:      100
 			"getConnection",
 			"release",
 		],
+		rubric: {
+			rootCause: [
+				{ kind: "required", concept: "Connections are acquired but never released back to the pool", weight: 3, keywords: ["connection leak", "unreleased connection", "connection not released", "never releases", "not released", "leak"] },
+				{ kind: "required", concept: "The connection pool is exhausted, so requests wait and time out", weight: 2, keywords: ["pool exhaustion", "pool full", "pool exhausted", "exhausted"] },
+				{ kind: "supporting", concept: "The leak is in SessionService.updateSession / getConnection", weight: 1, keywords: ["updateSession", "getConnection", "session service"] },
+				{ kind: "supporting", concept: "Connections leak gradually, explaining the afternoon degradation and the restart fix", weight: 1, keywords: ["gradual", "over time", "restart", "throughout the day"] },
+				{ kind: "misconception", concept: "The pool is simply too small for the traffic", weight: 2, keywords: ["pool too small", "increase pool", "more connections"] },
+				{ kind: "misconception", concept: "The database server itself is overloaded", weight: 2, keywords: ["database overloaded", "cpu", "slow queries"] },
+			],
+			solution: [
+				{ kind: "required", concept: "Always release the connection, e.g. in a finally block", weight: 3, keywords: ["finally", "always release", "release the connection", "connection.release"] },
+				{ kind: "supporting", concept: "Wrap acquire/release in a helper so callers cannot forget", weight: 2, keywords: ["wrapper", "helper", "withConnection"] },
+				{ kind: "supporting", concept: "Monitor pool usage or add leak detection", weight: 1, keywords: ["monitor", "leak detection", "alert", "metrics"] },
+				{ kind: "misconception", concept: "Raising the pool size or restarting servers fixes it", weight: 2, keywords: ["increase the pool", "bigger pool", "restart"] },
+			],
+		},
 		rootCause: `The SessionService.updateSession() method acquires a database connection but never explicitly releases it. The code comment suggests reliance on garbage collection, but in Node.js/connection pooling, connections are not automatically returned to the pool when a function exits.
 
 Over time, connections are acquired but never returned, causing the pool to fill up. New requests wait for connections (up to 30 seconds) before timing out. The pool appears "healthy" because the connections exist - they're just never available.
@@ -241,4 +257,41 @@ The morning-to-afternoon degradation pattern occurs because connections slowly l
 			"Idle connections in the database != available connections in your app",
 		],
 	},
+
+	hintLadder: {
+		rootCause: [
+			{ text: "Only long-running sessions fail, while logins and static queries work. What do those requests need that the others do not?" },
+			{ text: "Compare the pool's active and idle counts with the database's own connection view. Do they agree on what is in use?", criteria: ["R2"] },
+			{ text: "Read SessionService.updateSession closely: every connection it takes should go back somewhere.", criteria: ["S1"] },
+			{ text: "Connections taken in updateSession are never released, so the pool slowly fills up over the day until requests time out waiting.", criteria: ["R1", "R2", "S2"] },
+		],
+		solution: [
+			{ text: "A fix should hold up no matter how a request ends, including when it throws." },
+			{ text: "Think about where cleanup code runs regardless of errors in JavaScript.", criteria: ["R1"] },
+			{ text: "Release the connection in a finally block, and consider a helper that acquires and releases so no caller can forget.", criteria: ["R1", "S1"] },
+		],
+	},
+
+	redHerrings: [
+		{
+			phrases: ["database overloaded", "database down", "database crash", "database slow", "slow queries", "database cpu"],
+			feedback: "Database health checks pass, static data queries work and the admin dashboard is fully functional. The database server has capacity to spare; look at what happens between the application and the database.",
+		},
+		{
+			phrases: ["network issue", "network problem", "network latency", "network partition", "packet loss"],
+			feedback: "Login, new sessions and static queries travel the same network and work fine. A network fault would not pick out only long-running sessions and session updates.",
+		},
+		{
+			phrases: ["increase pool", "bigger pool", "larger pool", "pool size", "max connections", "increase connections"],
+			feedback: "The pool already has 100 connections and most of them sit idle. A bigger pool only delays the same failure by a few hours.",
+			phase: 2,
+			clues: [6],
+		},
+		{
+			phrases: ["restart", "reboot"],
+			feedback: "Restarting is what the team has been doing, and the problem comes back every afternoon. Something keeps filling the pool again.",
+			phase: 2,
+			clues: [5],
+		},
+	],
 };
@@ -0,0 +1,16 @@
+import type { GoldenSet } from "../../types";
+
+export const blackFridayDisasterGolden: GoldenSet = {
+	caseId: "black-friday-disaster",
+	examples: [
+		{ phase: 1, label: "correct", submission: "Each notification event fans out into more messages, so 50M notifications became 150M+ messages, RabbitMQ hit its memory alarm and flow control blocked every publisher, including the API." },
+		{ phase: 1, label: "correct", submission: "Fan-out amplification filled the message queue memory and the broker's flow control blocked the API services that publish to it." },
+		{ phase: 1, label: "partial", submission: "RabbitMQ ran out of memory because too many notification messages were published at once." },
+		{ phase: 1, label: "incorrect", submission: "The login service could not handle 50 million users hitting the site at the same time." },
+		{ phase: 2, label: "correct", submission: "Send bulk notifications in rate-limited batches and put API publishing on a separate connection or broker so flow control on bulk traffic cannot block critical paths." },
+		{ phase: 2, label: "partial", submission: "Throttle the notification job so it publishes in rate-limited batches instead of all 50M at once." },
+		{ phase: 2, label: "partial", submission: "Give API event publishing a 100ms timeout and buffer events locally so requests never hang on the broker." },
+		{ phase: 2, label: "partial", submission: "Move the API's telemetry events to their own RabbitMQ cluster and add more API servers for the holiday traffic." },
+		{ phase: 2, label: "incorrect", submission: "Add more API servers behind the load balancer to handle the Black Friday traffic." },
+	],
+};
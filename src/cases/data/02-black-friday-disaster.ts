@@ -211,6 +211,21 @@ Connection Count: 9,876/10,000
 			"blocking publisher",
 			"rabbitmq",
 		],
+		rubric: {
+			rootCause: [
+				{ kind: "required", concept: "Notification fan-out amplifies each event into many queue messages", weight: 3, keywords: ["fan-out", "fan out", "amplification", "amplified"] },
+				{ kind: "required", concept: "Broker memory exhaustion triggers flow control that blocks all publishers, including the API", weight: 3, keywords: ["flow control", "blocking publisher", "blocked publishers", "memory alarm"] },
+				{ kind: "supporting", concept: "The message queue (RabbitMQ) runs out of memory", weight: 1, keywords: ["memory exhaustion", "rabbitmq", "message queue"] },
+				{ kind: "supporting", concept: "A shared broker turns a bulk-traffic problem into a cascading outage", weight: 1, keywords: ["cascade", "cascading", "shared broker"] },
+				{ kind: "misconception", concept: "The API or login tier could not handle user traffic", weight: 2, keywords: ["too many users", "login service", "api servers overloaded"] },
+			],
+			solution: [
+				{ kind: "required", concept: "Separate critical API publishing from bulk notification traffic", weight: 3, keywords: ["separate", "dedicated connection", "separate broker", "isolate"] },
+				{ kind: "supporting", concept: "Send bulk notifications in rate-limited batches", weight: 2, keywords: ["batch", "rate limit", "throttle"] },
+				{ kind: "supporting", concept: "Make API publishing non-blocking with timeouts or a local buffer", weight: 1, keywords: ["non-blocking", "timeout", "buffer", "outbox"] },
+				{ kind: "misconception", concept: "Adding API servers fixes it", weight: 2, keywords: ["more api servers", "scale the api", "add servers"] },
+			],
+		},
 		rootCause: `This is a cascading failure caused by message fan-out amplification:
 
 1. The notification service published 50M messages to 'notification-events'
@@ -315,4 +330,35 @@ class EventPublisher {
 			"Always separate 'must succeed' from 'nice to have' in your event architecture",
 		],
 	},
+
+	hintLadder: {
+		rootCause: [
+			{ text: "The outage started with a notification send, not a traffic spike. How many messages did one flash sale produce?", criteria: ["R1"] },
+			{ text: "Look at the broker's memory and what it does when it crosses its limit.", criteria: ["S1"] },
+			{ text: "The API service publishes to the same broker. What happens to it when the broker stops accepting publishes?", criteria: ["R2", "S2"] },
+			{ text: "Fan-out turned one event into a flood of messages, the broker hit its memory alarm, and flow control blocked every publisher, including the API.", criteria: ["R1", "R2"] },
+		],
+		solution: [
+			{ text: "Bulk traffic and user-facing traffic should not be able to block each other." },
+			{ text: "Give critical API publishing its own connection or broker, away from notifications.", criteria: ["R1"] },
+			{ text: "Also send notifications in rate-limited batches and never let the API block on a publish.", criteria: ["S1", "S2"] },
+		],
+	},
+
+	redHerrings: [
+		{
+			phrases: ["too many users", "api servers overloaded", "login service overloaded", "not enough servers", "ddos"],
+			feedback: "Individual services still respond to direct health checks, and internal admin tools work. The API servers are not out of capacity; they are stuck waiting on something they all share.",
+		},
+		{
+			phrases: ["database overloaded", "database down", "database connections exhausted", "slow queries"],
+			feedback: "Database connections are fine for the whole incident. The database is not what the frozen services are waiting on.",
+		},
+		{
+			phrases: ["add api servers", "scale the api", "add servers", "autoscaling"],
+			feedback: "The API servers were idle, blocked on a shared dependency. New servers would block in exactly the same way.",
+			phase: 2,
+			clues: [6],
+		},
+	],
 };
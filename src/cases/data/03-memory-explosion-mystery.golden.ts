@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const memoryExplosionMysteryGolden: GoldenSet = {
+	caseId: "memory-explosion-mystery",
+	examples: [
+		{ phase: 1, label: "correct", submission: "The match event streams in Redis are never deleted or trimmed after a match ends, and they have no TTL, so they pile up until Redis runs out of memory." },
+		{ phase: 1, label: "correct", submission: "match:events streams accumulate forever - no XTRIM, no expiry, no cleanup on match end" },
+		{ phase: 1, label: "partial", submission: "Some Redis keys have no TTL so memory keeps growing." },
+		{ phase: 1, label: "incorrect", submission: "Redis memory fragmentation from too many small writes during live matches." },
+		{ phase: 2, label: "correct", submission: "Delete the match events stream when the match ends, cap streams with XTRIM MAXLEN, and run a cleanup job for orphaned streams." },
+		{ phase: 2, label: "partial", submission: "Run XTRIM MAXLEN on the match streams so each one stays small." },
+		{ phase: 2, label: "incorrect", submission: "Upgrade the Redis cluster to bigger nodes so it has more memory." },
+	],
+};
@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const ghostUsersProblemGolden: GoldenSet = {
+	caseId: "ghost-users-problem",
+	examples: [
+		{ phase: 1, label: "correct", submission: "Users are only marked offline when endSession is called on a clean logout. Crashes, network drops and force-quits never call it, so their presence entries stay online forever." },
+		{ phase: 1, label: "correct", submission: "Presence has no heartbeat or expiry, so abnormal disconnects leave ghost online entries." },
+		{ phase: 1, label: "partial", submission: "The logout handler has a bug and does not always set users offline." },
+		{ phase: 1, label: "incorrect", submission: "The friends list is cached in the client and is not refreshed often enough." },
+		{ phase: 2, label: "correct", submission: "Store presence with a short TTL that the client refreshes with a heartbeat, so users drop offline automatically when heartbeats stop." },
+		{ phase: 2, label: "partial", submission: "Add a nightly job that marks everyone offline who has not been active for a day." },
+		{ phase: 2, label: "incorrect", submission: "Ask users to log out properly and show a warning when they close the app." },
+	],
+};
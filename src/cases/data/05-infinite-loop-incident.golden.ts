@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const infiniteLoopIncidentGolden: GoldenSet = {
+	caseId: "infinite-loop-incident",
+	examples: [
+		{ phase: 1, label: "correct", submission: "Only one refresh token is stored per user, so when two devices refresh they keep overwriting each other's token and invalidating the other device, which then logs out and in again." },
+		{ phase: 1, label: "correct", submission: "Single refresh token per user plus 5-second refresh causes a multi-device race that invalidates tokens." },
+		{ phase: 1, label: "partial", submission: "There is a race condition when refreshing tokens." },
+		{ phase: 1, label: "incorrect", submission: "The access token expiry is set too short so users get logged out." },
+		{ phase: 2, label: "correct", submission: "Store refresh tokens per device (keyed by user and device id) so one device refreshing does not invalidate another." },
+		{ phase: 2, label: "partial", submission: "Add random jitter to the refresh timer on each device so they do not refresh at the same moment." },
+		{ phase: 2, label: "incorrect", submission: "Increase the token refresh interval from 5 seconds to 5 minutes." },
+	],
+};
@@ -0,0 +1,15 @@
+import type { GoldenSet } from "../../types";
+
+export const mysteriousMemoryLeakGolden: GoldenSet = {
+	caseId: "mysterious-memory-leak",
+	examples: [
+		{ phase: 1, label: "correct", submission: "It is not a JS leak: sharp's libvips keeps an operation cache per libuv thread and native allocations fragment the heap, so RSS grows outside the V8 heap." },
+		{ phase: 1, label: "correct", submission: "Native memory growth from libvips caches in the thread pool plus malloc fragmentation." },
+		{ phase: 1, label: "partial", submission: "The image processing library is using a lot of native memory." },
+		{ phase: 1, label: "incorrect", submission: "A JavaScript closure is holding references to old request objects so the V8 heap keeps growing." },
+		{ phase: 2, label: "correct", submission: "Limit sharp's cache with sharp.cache(false) or small limits, reduce the UV thread pool size and use jemalloc or MALLOC_ARENA_MAX to reduce fragmentation." },
+		{ phase: 2, label: "partial", submission: "Call sharp.cache(false) to turn off the libvips cache." },
+		{ phase: 2, label: "partial", submission: "Recycle the image workers every few hundred jobs so their memory goes back to the OS." },
+		{ phase: 2, label: "incorrect", submission: "Increase the Node.js heap size with --max-old-space-size." },
+	],
+};
@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const silentAuthCrisisGolden: GoldenSet = {
+	caseId: "silent-auth-crisis",
+	examples: [
+		{ phase: 1, label: "correct", submission: "The certificate rollout only updated origin load balancers; some CDN edge locations still served the old certificate chain from their SSL cache, so users in those regions got mixed chains and failed to log in." },
+		{ phase: 1, label: "correct", submission: "Race between the cert deployment and CDN edge caches - stale/mixed certificate chains at some edges." },
+		{ phase: 1, label: "partial", submission: "There is an SSL certificate problem in some regions." },
+		{ phase: 1, label: "incorrect", submission: "The authentication database is slow in Asia and Europe so logins time out." },
+		{ phase: 2, label: "correct", submission: "Deploy certificates to CDN edges as part of the rollout, purge edge SSL caches and validate the full chain from every region before finishing." },
+		{ phase: 2, label: "partial", submission: "Purge the CDN's SSL cache after the new certificate is deployed." },
+		{ phase: 2, label: "incorrect", submission: "Tell affected users to clear their browser cache and cookies." },
+	],
+};
@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const vanishingAchievementsGolden: GoldenSet = {
+	caseId: "vanishing-achievements",
+	examples: [
+		{ phase: 1, label: "correct", submission: "The cache key uses oduserId instead of userId, which is undefined, so every user shares the key achievements:undefined and overwrites each other's cached achievements." },
+		{ phase: 1, label: "correct", submission: "Typo in the cache key variable makes all users share one cache entry." },
+		{ phase: 1, label: "partial", submission: "The achievements cache is getting overwritten by other users." },
+		{ phase: 1, label: "incorrect", submission: "The database insert fails silently so achievements are never saved." },
+		{ phase: 2, label: "correct", submission: "Fix the typo to use userId and build cache keys through a typed helper, with a lint rule that catches undefined variables." },
+		{ phase: 2, label: "partial", submission: "Flush the achievements cache so everyone's data is rebuilt from the database." },
+		{ phase: 2, label: "incorrect", submission: "Disable the achievements cache and always read from the database." },
+	],
+};
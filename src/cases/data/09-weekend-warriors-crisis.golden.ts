@@ -0,0 +1,15 @@
+import type { GoldenSet } from "../../types";
+
+export const weekendWarriorsCrisisGolden: GoldenSet = {
+	caseId: "weekend-warriors-crisis",
+	examples: [
+		{ phase: 1, label: "correct", submission: "Cache warming only runs on weekdays but the TTL is 24 hours, so the cache expires on Saturday morning and stays cold all weekend until Monday's warm-up." },
+		{ phase: 1, label: "correct", submission: "24h TTL with a Monday-Friday warming job leaves a cold cache every weekend." },
+		{ phase: 1, label: "partial", submission: "The cache is expiring on weekends." },
+		{ phase: 1, label: "incorrect", submission: "Weekend batch jobs are competing with API traffic for database resources." },
+		{ phase: 2, label: "correct", submission: "Run the cache warming job every day, or make the TTL longer than the gap between warming runs." },
+		{ phase: 2, label: "partial", submission: "Add random jitter to the TTLs so the keys do not all expire at the same time." },
+		{ phase: 2, label: "partial", submission: "Pre-scale the database on Saturday mornings to absorb the cache misses." },
+		{ phase: 2, label: "incorrect", submission: "Add read replicas for the weekend traffic." },
+	],
+};
@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const mysteriousSlowLoginsGolden: GoldenSet = {
+	caseId: "mysterious-slow-logins",
+	examples: [
+		{ phase: 1, label: "correct", submission: "findByUsername uses SQL LIKE without escaping, so underscores in usernames act as single-character wildcards and the query does a full table scan." },
+		{ phase: 1, label: "correct", submission: "Unescaped underscore wildcards in a LIKE query cause full table scans for some usernames." },
+		{ phase: 1, label: "partial", submission: "The login query is slow for some usernames because it is not using an index." },
+		{ phase: 1, label: "incorrect", submission: "The password hashing cost factor is too high for some users." },
+		{ phase: 2, label: "correct", submission: "Use an exact equality match on username instead of LIKE, or escape % and _ before building the pattern." },
+		{ phase: 2, label: "partial", submission: "Add an index on the username column so the LIKE lookup is faster." },
+		{ phase: 2, label: "incorrect", submission: "Add a cache in front of the login query so repeated logins are fast." },
+	],
+};
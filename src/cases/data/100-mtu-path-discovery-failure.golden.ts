@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const mtuPathDiscoveryFailureGolden: GoldenSet = {
+	caseId: "mtu-path-discovery-failure",
+	examples: [
+		{ phase: 1, label: "correct", submission: "The new firewall blocks all ICMP, including Fragmentation Needed, so Path MTU Discovery cannot tell senders to shrink packets and large packets are silently dropped." },
+		{ phase: 1, label: "correct", submission: "ICMP blocked, breaking PMTUD and black-holing large packets." },
+		{ phase: 1, label: "partial", submission: "Large packets are being dropped." },
+		{ phase: 1, label: "incorrect", submission: "The servers have too little bandwidth." },
+		{ phase: 2, label: "correct", submission: "Allow ICMP type 3 code 4 through the firewall, and clamp TCP MSS as a workaround." },
+		{ phase: 2, label: "partial", submission: "Clamp the TCP MSS to 1360 on the edge router." },
+		{ phase: 2, label: "incorrect", submission: "Increase the server MTU to 9000." },
+	],
+};
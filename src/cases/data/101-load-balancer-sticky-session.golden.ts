@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const loadBalancerStickySessionGolden: GoldenSet = {
+	caseId: "load-balancer-sticky-session",
+	examples: [
+		{ phase: 1, label: "correct", submission: "Stickiness with a 24-hour cookie pins returning users to the server they first hit, and cookies keep refreshing, so one server keeps most users and new servers get almost no traffic." },
+		{ phase: 1, label: "correct", submission: "Long sticky session duration creates permanent user-to-server affinity." },
+		{ phase: 1, label: "partial", submission: "The load balancer distributes traffic unevenly." },
+		{ phase: 1, label: "incorrect", submission: "The overloaded server has slower hardware." },
+		{ phase: 2, label: "correct", submission: "Move session state to an external store like Redis and drop or shorten stickiness so traffic rebalances." },
+		{ phase: 2, label: "partial", submission: "Lower the stickiness duration from 24 hours to 1 hour." },
+		{ phase: 2, label: "incorrect", submission: "Add more servers to the target group." },
+	],
+};
@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const websocketProxyBufferingGolden: GoldenSet = {
+	caseId: "websocket-proxy-buffering",
+	examples: [
+		{ phase: 1, label: "correct", submission: "nginx has proxy_buffering on for the WebSocket location, so small frames sit in the buffer until it fills and messages arrive in bursts." },
+		{ phase: 1, label: "correct", submission: "NGINX proxy buffering delays small WebSocket frames." },
+		{ phase: 1, label: "partial", submission: "The proxy is delaying messages." },
+		{ phase: 1, label: "incorrect", submission: "The WebSocket server is overloaded." },
+		{ phase: 2, label: "correct", submission: "Turn off proxy_buffering for the WebSocket location (or send X-Accel-Buffering: no) and set the Upgrade/Connection headers and timeouts." },
+		{ phase: 2, label: "partial", submission: "Set proxy_read_timeout to 3600s on the WebSocket location so connections stay open." },
+		{ phase: 2, label: "incorrect", submission: "Switch the client to long polling." },
+	],
+};
@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const circuitBreakerHalfOpenGolden: GoldenSet = {
+	caseId: "circuit-breaker-half-open",
+	examples: [
+		{ phase: 1, label: "correct", submission: "The gateway fell back to its V1 API, whose responses lack processor_id, so probe calls in half-open succeed at the gateway but fail our response validation and the breaker counts them as failures and reopens." },
+		{ phase: 1, label: "correct", submission: "Validation errors on a fallback API version are counted as breaker failures, keeping it open." },
+		{ phase: 1, label: "partial", submission: "The circuit breaker keeps reopening." },
+		{ phase: 1, label: "incorrect", submission: "The payment gateway is still down." },
+		{ phase: 2, label: "correct", submission: "Only count transport and 5xx failures toward the breaker, and handle the V1 schema separately from circuit-breaking." },
+		{ phase: 2, label: "partial", submission: "Allow more probe requests in half-open before deciding to re-open the breaker." },
+		{ phase: 2, label: "incorrect", submission: "Shorten the open-state timeout so the breaker retries sooner." },
+	],
+};
@@ -0,0 +1,15 @@
+import type { GoldenSet } from "../../types";
+
+export const retryStormAmplificationGolden: GoldenSet = {
+	caseId: "retry-storm-amplification",
+	examples: [
+		{ phase: 1, label: "correct", submission: "Every tier retries independently without backoff or budgets, so one request becomes 5 x 3 x 3 = 45 downstream calls and a brief blip turns into a retry storm." },
+		{ phase: 1, label: "correct", submission: "Multiplicative retries across tiers with no backoff or retry budget." },
+		{ phase: 1, label: "partial", submission: "Retries made the outage worse." },
+		{ phase: 1, label: "incorrect", submission: "The network was flaky." },
+		{ phase: 2, label: "correct", submission: "Retry at one layer only, with exponential backoff, jitter and a retry budget, and propagate deadlines." },
+		{ phase: 2, label: "partial", submission: "Add exponential backoff to the order service's retries." },
+		{ phase: 2, label: "partial", submission: "Add load shedding at the gateway so the order service rejects requests when it is saturated." },
+		{ phase: 2, label: "incorrect", submission: "Increase the retry count so requests eventually succeed." },
+	],
+};
@@ -503,5 +503,41 @@ app.use(async (req, res, next) => {
       'A 30-second blip can cause a 2-hour outage through retry amplification',
       'The feedback loop: Retries -> Queues -> Timeouts -> More Retries'
     ]
-  }
+  },
+
+  hintLadder: {
+    rootCause: [
+      { text: 'The network recovered after 30 seconds, but the outage lasted two hours. What kept the load up after the trigger was gone?' },
+      { text: 'Request volume grew 25x while users stayed flat. Who was sending all the extra requests?', criteria: ['S1'] },
+      { text: 'Multiply the retry counts along one request path, tier by tier.', criteria: ['S2', 'S11'] },
+      { text: 'Retries at every tier multiply into a retry storm, and with no backoff, jitter or retry budget nothing lets the system recover.', criteria: ['S1', 'S4', 'S5', 'S6'] }
+    ],
+    solution: [
+      { text: 'A fix has to cap how much extra load failures can create, across all tiers at once.' },
+      { text: 'Spread retries out in time, and make sure clients do not retry in lockstep.', criteria: ['S4', 'S5'] },
+      { text: 'Add retry budgets, retry at only one tier, propagate deadlines and shed load when overloaded.', criteria: ['S6', 'S7', 'S8'] }
+    ]
+  },
+
+  redHerrings: [
+    {
+      phrases: ['network flaky', 'flaky network', 'network blip', 'network issue', 'network problem', 'network outage', 'packet loss', 'network instability'],
+      feedback: 'The network blip lasted 30 seconds and connectivity is fully restored, yet the outage lasted two hours. Something kept the system down long after the network recovered - notice that request volume grew 25x while the number of users stayed flat.',
+      clues: [1]
+    },
+    {
+      phrases: ['database overloaded', 'database too small', 'connection pool exhaustion', 'pool exhausted', 'not enough database connections'],
+      feedback: 'The database is healthy at normal load, and its pool only filled up after request volume exploded. The exhausted pool is a symptom here - ask what multiplied the queries.'
+    },
+    {
+      phrases: ['memory leak', 'code bug'],
+      feedback: 'No code bugs or memory leaks were found, and every service works fine in isolation. The OOMs came from the load, not from the code.'
+    },
+    {
+      phrases: ['increase pool', 'bigger pool', 'scale database', 'add servers', 'autoscaling'],
+      feedback: 'A single checkout already fans out into more than a hundred downstream calls. Extra capacity only raises the ceiling the storm hits; it does not stop the storm.',
+      phase: 2,
+      clues: [3]
+    }
+  ]
 };
@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const bulkheadIsolationBreachGolden: GoldenSet = {
+	caseId: "bulkhead-isolation-breach",
+	examples: [
+		{ phase: 1, label: "correct", submission: "The bulkhead limits calls to the slow recommendation service, but request threads block waiting on it, so the shared HTTP thread pool is exhausted and every feature fails." },
+		{ phase: 1, label: "correct", submission: "Blocking waits exhaust the shared upstream thread pool despite downstream bulkheads." },
+		{ phase: 1, label: "partial", submission: "The bulkhead did not isolate the failure." },
+		{ phase: 1, label: "incorrect", submission: "The recommendation service crashed." },
+		{ phase: 2, label: "correct", submission: "Make the calls non-blocking with timeouts and fallbacks, fail fast when the bulkhead is full, or give each feature its own thread pool." },
+		{ phase: 2, label: "partial", submission: "Add a 2 second timeout to the recommendation calls so request threads are freed sooner." },
+		{ phase: 2, label: "incorrect", submission: "Increase the HTTP server's thread pool size." },
+	],
+};
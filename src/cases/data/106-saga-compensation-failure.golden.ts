@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const sagaCompensationFailureGolden: GoldenSet = {
+	caseId: "saga-compensation-failure",
+	examples: [
+		{ phase: 1, label: "correct", submission: "The saga has no state tracking, so compensation tries to undo steps that never ran or undoes steps twice, and compensations are not idempotent or retried, leaving data inconsistent." },
+		{ phase: 1, label: "correct", submission: "No saga state machine, idempotency or compensation retry." },
+		{ phase: 1, label: "partial", submission: "Compensation steps fail sometimes." },
+		{ phase: 1, label: "incorrect", submission: "The database transaction isolation level is too low." },
+		{ phase: 2, label: "correct", submission: "Track saga state per step, compensate only completed steps with idempotent, retried actions, and publish events through a transactional outbox." },
+		{ phase: 2, label: "partial", submission: "Make the compensation steps idempotent and retry them until they succeed." },
+		{ phase: 2, label: "incorrect", submission: "Wrap the whole saga in one distributed database transaction." },
+	],
+};
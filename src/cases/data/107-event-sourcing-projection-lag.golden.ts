@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const eventSourcingProjectionLagGolden: GoldenSet = {
+	caseId: "event-sourcing-projection-lag",
+	examples: [
+		{ phase: 1, label: "correct", submission: "The projection processes events one at a time with a DB write each, capping it around 200 events/sec, so it falls behind under load and decisions are made on the stale read model." },
+		{ phase: 1, label: "correct", submission: "Sequential projection throughput plus trusting a stale read model." },
+		{ phase: 1, label: "partial", submission: "The read model is behind." },
+		{ phase: 1, label: "incorrect", submission: "The event store loses events." },
+		{ phase: 2, label: "correct", submission: "Batch and partition projection processing and check projection staleness before relying on it." },
+		{ phase: 2, label: "partial", submission: "Process projection events in batches of 500 instead of one at a time." },
+		{ phase: 2, label: "incorrect", submission: "Rebuild the projection from scratch every hour." },
+	],
+};
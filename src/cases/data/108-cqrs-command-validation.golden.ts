@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const cqrsCommandValidationGolden: GoldenSet = {
+	caseId: "cqrs-command-validation",
+	examples: [
+		{ phase: 1, label: "correct", submission: "Commands are validated against the read model, which lags the event store, so stale data lets invalid commands through or rejects valid ones." },
+		{ phase: 1, label: "correct", submission: "Command validation uses the stale read model instead of the aggregate." },
+		{ phase: 1, label: "partial", submission: "The read model is stale." },
+		{ phase: 1, label: "incorrect", submission: "The events are published out of order." },
+		{ phase: 2, label: "correct", submission: "Load the aggregate from the event store to validate commands and retry on optimistic concurrency conflicts." },
+		{ phase: 2, label: "partial", submission: "Check the event stream version when appending so concurrent commands conflict." },
+		{ phase: 2, label: "incorrect", submission: "Make the projection update faster." },
+	],
+};
@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const idempotencyKeyCollisionGolden: GoldenSet = {
+	caseId: "idempotency-key-collision",
+	examples: [
+		{ phase: 1, label: "correct", submission: "The new idempotency key hashes only customer id and amount, truncated to 8 characters, so different orders with the same amount get the same key and are treated as duplicates." },
+		{ phase: 1, label: "correct", submission: "Idempotency key lost the order id, so distinct payments collide." },
+		{ phase: 1, label: "partial", submission: "Idempotency keys collide." },
+		{ phase: 1, label: "incorrect", submission: "The payment provider is deduplicating incorrectly on its side." },
+		{ phase: 2, label: "correct", submission: "Use a unique key per payment attempt, such as the order id or a client-generated UUID, and verify the request body matches on replay." },
+		{ phase: 2, label: "partial", submission: "Add a timestamp to the idempotency key so every payment gets a unique key." },
+		{ phase: 2, label: "incorrect", submission: "Disable idempotency keys." },
+	],
+};
@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const phantomFriendRequestsGolden: GoldenSet = {
+	caseId: "phantom-friend-requests",
+	examples: [
+		{ phase: 1, label: "correct", submission: "The friend suggestion query excludes existing friends and pending requests but never excludes the user's own id, so the user is suggested to themselves." },
+		{ phase: 1, label: "correct", submission: "Missing self-exclusion (candidate != user_id) in the suggestions query." },
+		{ phase: 1, label: "partial", submission: "The suggestions query has a bug in how it filters results." },
+		{ phase: 1, label: "incorrect", submission: "A caching bug serves another user's suggestions." },
+		{ phase: 2, label: "correct", submission: "Add a condition excluding the requesting user's id from the candidates and a constraint preventing self-friendships." },
+		{ phase: 2, label: "partial", submission: "Delete the existing self-friendship rows and add a CHECK constraint that user_id differs from friend_id." },
+		{ phase: 2, label: "incorrect", submission: "Filter out the user's own profile on the frontend before rendering." },
+	],
+};
@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const twoPhaseCommitTimeoutGolden: GoldenSet = {
+	caseId: "two-phase-commit-timeout",
+	examples: [
+		{ phase: 1, label: "correct", submission: "The coordinator did not durably log its commit decision before crashing, so participants stuck in prepared state cannot learn the outcome and keep their locks." },
+		{ phase: 1, label: "correct", submission: "No durable coordinator log, so prepared participants cannot resolve." },
+		{ phase: 1, label: "partial", submission: "The coordinator crashed during 2PC." },
+		{ phase: 1, label: "incorrect", submission: "The participants' databases are deadlocked." },
+		{ phase: 2, label: "correct", submission: "Write the decision to a durable log before sending commit, recover from it on restart, and let participants query the coordinator." },
+		{ phase: 2, label: "partial", submission: "Run COMMIT PREPARED on the stuck shards to release the locks." },
+		{ phase: 2, label: "incorrect", submission: "Have participants commit automatically after a timeout." },
+	],
+};
@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const optimisticLockingConflictGolden: GoldenSet = {
+	caseId: "optimistic-locking-conflict",
+	examples: [
+		{ phase: 1, label: "correct", submission: "Hundreds of requests update the same inventory row with optimistic locking and retry immediately, so nearly all of them conflict again and the retries pile up." },
+		{ phase: 1, label: "correct", submission: "Immediate retries under high contention cause optimistic-lock thrashing." },
+		{ phase: 1, label: "partial", submission: "There are version conflicts on updates." },
+		{ phase: 1, label: "incorrect", submission: "The database is deadlocked." },
+		{ phase: 2, label: "correct", submission: "Use an atomic conditional decrement (UPDATE ... WHERE stock > 0) or a Redis counter for hot items, with backoff and jitter on retries." },
+		{ phase: 2, label: "partial", submission: "Add exponential backoff with jitter to the conflict retry loop." },
+		{ phase: 2, label: "incorrect", submission: "Retry conflicts in a tight loop until they succeed." },
+	],
+};
@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const ciPipelineCacheCorruptionGolden: GoldenSet = {
+	caseId: "ci-pipeline-cache-corruption",
+	examples: [
+		{ phase: 1, label: "correct", submission: "All runners share one read-write npm cache directory, and concurrent builds write the same entries at once and corrupt them." },
+		{ phase: 1, label: "correct", submission: "Concurrent writes corrupt a shared npm cache." },
+		{ phase: 1, label: "partial", submission: "The npm cache is corrupted." },
+		{ phase: 1, label: "incorrect", submission: "The npm registry is unreliable." },
+		{ phase: 2, label: "correct", submission: "Use per-job caches keyed on the lockfile hash and restore them read-only, or run npm ci with an isolated cache." },
+		{ phase: 2, label: "partial", submission: "Give each CI runner its own npm cache directory." },
+		{ phase: 2, label: "incorrect", submission: "Run npm cache clean before every build." },
+	],
+};
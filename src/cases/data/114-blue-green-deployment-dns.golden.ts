@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const blueGreenDeploymentDnsGolden: GoldenSet = {
+	caseId: "blue-green-deployment-dns",
+	examples: [
+		{ phase: 1, label: "correct", submission: "The switch changes a CNAME with a 1-hour TTL, so resolvers and clients keep sending users to the old blue load balancer for up to an hour." },
+		{ phase: 1, label: "correct", submission: "High DNS TTL keeps the old CNAME cached." },
+		{ phase: 1, label: "partial", submission: "DNS has not propagated." },
+		{ phase: 1, label: "incorrect", submission: "The green deployment failed." },
+		{ phase: 2, label: "correct", submission: "Switch traffic at the load balancer (or weighted routing) instead of DNS, or lower the TTL well before the cutover." },
+		{ phase: 2, label: "partial", submission: "Lower the DNS TTL to 60 seconds on the record." },
+		{ phase: 2, label: "incorrect", submission: "Delete the blue environment right after switching." },
+	],
+};
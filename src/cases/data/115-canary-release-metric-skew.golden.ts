@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const canaryReleaseMetricSkewGolden: GoldenSet = {
+	caseId: "canary-release-metric-skew",
+	examples: [
+		{ phase: 1, label: "correct", submission: "The bug returns 200 with success:true while no order is created, and it only affects EU PayPal users, about 2.5% of traffic, so error-rate canary metrics did not see it." },
+		{ phase: 1, label: "correct", submission: "Silent business failure in a small segment is invisible to technical canary metrics." },
+		{ phase: 1, label: "partial", submission: "The canary metrics missed the bug." },
+		{ phase: 1, label: "incorrect", submission: "The canary got too little traffic overall." },
+		{ phase: 2, label: "correct", submission: "Add business metrics like orders per payment to canary analysis, analyze by segment, and make the code fail explicitly." },
+		{ phase: 2, label: "partial", submission: "Alert on payments that have no matching order." },
+		{ phase: 2, label: "incorrect", submission: "Run the canary for longer." },
+	],
+};
@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const databaseMigrationLockGolden: GoldenSet = {
+	caseId: "database-migration-lock",
+	examples: [
+		{ phase: 1, label: "correct", submission: "CREATE INDEX CONCURRENTLY has to wait for every transaction that started before it, and a long-running analytics transaction kept it waiting indefinitely." },
+		{ phase: 1, label: "correct", submission: "Long analytics transaction blocks CREATE INDEX CONCURRENTLY." },
+		{ phase: 1, label: "partial", submission: "The migration is blocked by locks." },
+		{ phase: 1, label: "incorrect", submission: "The table is too big to index." },
+		{ phase: 2, label: "correct", submission: "Find and end the blocking transaction, keep analytics transactions short or on a replica, and check for long transactions before migrating." },
+		{ phase: 2, label: "partial", submission: "Kill the long-running analytics transaction so the index build can finish." },
+		{ phase: 2, label: "incorrect", submission: "Use a regular CREATE INDEX instead." },
+	],
+};
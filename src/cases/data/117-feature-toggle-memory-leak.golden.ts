@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const featureToggleMemoryLeakGolden: GoldenSet = {
+	caseId: "feature-toggle-memory-leak",
+	examples: [
+		{ phase: 1, label: "correct", submission: "The flag evaluation cache is keyed on the whole context, including timestamp and requestId, so every request creates a new entry and the cache grows without bound." },
+		{ phase: 1, label: "correct", submission: "Unique per-request fields in cache keys make the flag cache unbounded." },
+		{ phase: 1, label: "partial", submission: "The feature flag cache leaks memory." },
+		{ phase: 1, label: "incorrect", submission: "Feature flags are fetched too often." },
+		{ phase: 2, label: "correct", submission: "Key the cache only on stable attributes like user id and flag key, and bound it with an LRU and size monitoring." },
+		{ phase: 2, label: "partial", submission: "Cap the flag evaluation cache at 10,000 entries with an LRU." },
+		{ phase: 2, label: "incorrect", submission: "Restart the service daily." },
+	],
+};
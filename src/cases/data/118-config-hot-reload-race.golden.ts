@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const configHotReloadRaceGolden: GoldenSet = {
+	caseId: "config-hot-reload-race",
+	examples: [
+		{ phase: 1, label: "correct", submission: "Reload updates config properties one at a time across awaits, so in-flight requests read a mix of old and new values." },
+		{ phase: 1, label: "correct", submission: "Non-atomic config reload exposes mixed versions." },
+		{ phase: 1, label: "partial", submission: "Config reloads cause inconsistent behavior." },
+		{ phase: 1, label: "incorrect", submission: "The config file is corrupted." },
+		{ phase: 2, label: "correct", submission: "Build a new immutable config object and swap the reference atomically; handlers take a snapshot at request start." },
+		{ phase: 2, label: "partial", submission: "Put a lock around the reload function so two reloads cannot run at once." },
+		{ phase: 2, label: "incorrect", submission: "Reload config less often." },
+	],
+};
@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const zeroDowntimeDeployFailureGolden: GoldenSet = {
+	caseId: "zero-downtime-deploy-failure",
+	examples: [
+		{ phase: 1, label: "correct", submission: "When a pod terminates, SIGTERM and endpoint removal happen in parallel, and the app exits before kube-proxy and the load balancer stop routing to it, so connections are dropped." },
+		{ phase: 1, label: "correct", submission: "Traffic reaches terminating pods during endpoint propagation." },
+		{ phase: 1, label: "partial", submission: "Rolling updates drop connections." },
+		{ phase: 1, label: "incorrect", submission: "The readiness probe is misconfigured." },
+		{ phase: 2, label: "correct", submission: "Add a preStop sleep and graceful shutdown that drains connections, with terminationGracePeriodSeconds long enough." },
+		{ phase: 2, label: "partial", submission: "Raise terminationGracePeriodSeconds to 60 seconds." },
+		{ phase: 2, label: "incorrect", submission: "Use a Recreate deployment strategy." },
+	],
+};
@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const midnightDataSwapGolden: GoldenSet = {
+	caseId: "midnight-data-swap",
+	examples: [
+		{ phase: 1, label: "correct", submission: "The app cached Redis cluster slot numbers locally; during rebalancing the cached slot-to-node mappings went stale and requests read keys from the wrong node." },
+		{ phase: 1, label: "correct", submission: "Stale local slot routing during slot migration served data from the wrong keys." },
+		{ phase: 1, label: "partial", submission: "Cluster rebalancing caused data to be routed incorrectly." },
+		{ phase: 1, label: "incorrect", submission: "A session fixation bug lets users reuse each other's session tokens." },
+		{ phase: 2, label: "correct", submission: "Remove the local slot cache and let the cluster-aware client handle MOVED/ASK redirects, or invalidate the cache on topology changes." },
+		{ phase: 2, label: "partial", submission: "Put the application in maintenance mode while the cluster is rebalancing." },
+		{ phase: 2, label: "incorrect", submission: "Never rebalance the Redis cluster during business hours." },
+	],
+};
@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const terraformStateCorruptionGolden: GoldenSet = {
+	caseId: "terraform-state-corruption",
+	examples: [
+		{ phase: 1, label: "correct", submission: "A resource was renamed in code without terraform state mv and people changed things in the console, so the state no longer matches reality and plans want to destroy and recreate resources." },
+		{ phase: 1, label: "correct", submission: "State drift from manual changes and renames without state moves." },
+		{ phase: 1, label: "partial", submission: "The Terraform state is out of date." },
+		{ phase: 1, label: "incorrect", submission: "The Terraform provider has a bug." },
+		{ phase: 2, label: "correct", submission: "Refresh to see drift, use terraform state mv (or moved blocks) for renames, import or codify manual changes, and lock down console access." },
+		{ phase: 2, label: "partial", submission: "Run terraform refresh and import the manually created resources." },
+		{ phase: 2, label: "incorrect", submission: "Delete the state file and apply again." },
+	],
+};
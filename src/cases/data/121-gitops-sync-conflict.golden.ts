@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const gitopsSyncConflictGolden: GoldenSet = {
+	caseId: "gitops-sync-conflict",
+	examples: [
+		{ phase: 1, label: "correct", submission: "ArgoCD's selfHeal reverts any change that is not in Git, so manual kubectl hotfixes during incidents are undone within minutes." },
+		{ phase: 1, label: "correct", submission: "selfHeal automatically reverts manual cluster changes." },
+		{ phase: 1, label: "partial", submission: "ArgoCD overwrites changes." },
+		{ phase: 1, label: "incorrect", submission: "The kubectl user lacks permissions." },
+		{ phase: 2, label: "correct", submission: "Make hotfixes through Git, and have an emergency procedure to pause auto-sync for the app when needed." },
+		{ phase: 2, label: "partial", submission: "Pause auto-sync for the application whenever someone needs to hotfix in production." },
+		{ phase: 2, label: "incorrect", submission: "Disable ArgoCD permanently." },
+	],
+};
@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const secretRotationFailureGolden: GoldenSet = {
+	caseId: "secret-rotation-failure",
+	examples: [
+		{ phase: 1, label: "correct", submission: "The app reads DB credentials once at startup and caches them forever, and rotation revoked the old password immediately, so new connections fail with stale credentials." },
+		{ phase: 1, label: "correct", submission: "Credentials cached at startup are never refreshed when rotated." },
+		{ phase: 1, label: "partial", submission: "Secret rotation broke the database connection." },
+		{ phase: 1, label: "incorrect", submission: "The database is down." },
+		{ phase: 2, label: "correct", submission: "Refresh credentials on auth failure and periodically, and rotate with an overlap (dual users) so old credentials stay valid until clients pick up new ones." },
+		{ phase: 2, label: "partial", submission: "Restart the application pods after each rotation so they read the new password." },
+		{ phase: 2, label: "incorrect", submission: "Stop rotating the secret." },
+	],
+};
@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const databaseInconsistencyGolden: GoldenSet = {
+	caseId: "database-inconsistency",
+	examples: [
+		{ phase: 1, label: "correct", submission: "Reads were moved to async replicas, so a read right after a write hits a replica that has not yet replicated the commit and returns old values." },
+		{ phase: 1, label: "correct", submission: "Read-after-write inconsistency from replica lag." },
+		{ phase: 1, label: "partial", submission: "The replicas are slow." },
+		{ phase: 1, label: "incorrect", submission: "The transaction is not actually committed because autocommit is off." },
+		{ phase: 2, label: "correct", submission: "Read from the primary for a short window after a user's writes (read-your-own-writes), or return the updated data in the write response." },
+		{ phase: 2, label: "partial", submission: "Update the UI optimistically with the purchased item instead of re-fetching it." },
+		{ phase: 2, label: "incorrect", submission: "Add a 5 second sleep after every purchase before refreshing the page." },
+	],
+};
@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const invisibleApiGolden: GoldenSet = {
+	caseId: "invisible-api",
+	examples: [
+		{ phase: 1, label: "correct", submission: "The server only sends the leaf certificate without the intermediate, and iOS ATS refuses an incomplete chain while other clients fetch the intermediate themselves." },
+		{ phase: 1, label: "correct", submission: "Missing intermediate CA in the certificate chain breaks iOS validation." },
+		{ phase: 1, label: "partial", submission: "There is something wrong with the SSL certificate on the new server." },
+		{ phase: 1, label: "incorrect", submission: "The iOS app is using an outdated HTTP library that does not support HTTP/2." },
+		{ phase: 2, label: "correct", submission: "Configure nginx with the full chain (leaf plus intermediate) and verify the chain with openssl or an SSL checker." },
+		{ phase: 2, label: "partial", submission: "Check the certificate chain with an SSL checker after each renewal." },
+		{ phase: 2, label: "incorrect", submission: "Add an ATS exception (NSAllowsArbitraryLoads) in the iOS app." },
+	],
+};
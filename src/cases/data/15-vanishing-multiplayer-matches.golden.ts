@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const vanishingMultiplayerMatchesGolden: GoldenSet = {
+	caseId: "vanishing-multiplayer-matches",
+	examples: [
+		{ phase: 1, label: "correct", submission: "UDP has no connection, so NAT devices drop the port mapping after a couple of minutes without traffic and the player's packets no longer reach them." },
+		{ phase: 1, label: "correct", submission: "NAT mapping timeout on idle UDP flows disconnects players." },
+		{ phase: 1, label: "partial", submission: "Players are disconnected by some network timeout." },
+		{ phase: 1, label: "incorrect", submission: "The game server runs out of memory after 10 minutes and kills matches." },
+		{ phase: 2, label: "correct", submission: "Send UDP keepalive packets every 15-30 seconds in both directions to keep the NAT mapping alive." },
+		{ phase: 2, label: "partial", submission: "Raise the NLB's UDP idle timeout to 10 minutes." },
+		{ phase: 2, label: "incorrect", submission: "Switch the load balancer to round-robin so players are spread more evenly." },
+	],
+};
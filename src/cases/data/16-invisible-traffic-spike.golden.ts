@@ -0,0 +1,15 @@
+import type { GoldenSet } from "../../types";
+
+export const invisibleTrafficSpikeGolden: GoldenSet = {
+	caseId: "invisible-traffic-spike",
+	examples: [
+		{ phase: 1, label: "correct", submission: "AP-SOUTH has no GeoDNS record for inventory-service, so calls fall back to US-EAST, which calls back into AP-SOUTH, creating a cross-region loop that amplifies traffic." },
+		{ phase: 1, label: "correct", submission: "Missing regional DNS record caused a cross-region call loop and traffic amplification." },
+		{ phase: 1, label: "partial", submission: "There is a DNS misconfiguration in one region." },
+		{ phase: 1, label: "incorrect", submission: "A DDoS attack from bots that do not show up in analytics." },
+		{ phase: 2, label: "correct", submission: "Add the missing AP-SOUTH record for inventory-service and alert when service discovery falls back to another region." },
+		{ phase: 2, label: "correct", submission: "Create the inventory-service record for AP-SOUTH in GeoDNS." },
+		{ phase: 2, label: "partial", submission: "Alert when service discovery falls back to a service in another region." },
+		{ phase: 2, label: "incorrect", submission: "Autoscale the US-EAST cluster to handle the extra traffic." },
+	],
+};
@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const kubernetesPodMysteryGolden: GoldenSet = {
+	caseId: "kubernetes-pod-mystery",
+	examples: [
+		{ phase: 1, label: "correct", submission: "The liveness probe calls a health endpoint that checks the external payment API, whose p99 is over 2 seconds, but the probe timeout is 1 second, so slow responses fail the probe and Kubernetes restarts healthy pods." },
+		{ phase: 1, label: "correct", submission: "Liveness probe timeout is too short for the external dependency in the health check." },
+		{ phase: 1, label: "partial", submission: "The health check is failing sometimes." },
+		{ phase: 1, label: "incorrect", submission: "The pods are getting OOMKilled because of a memory limit." },
+		{ phase: 2, label: "correct", submission: "Remove external dependencies from the liveness probe, keep them in readiness, and raise timeoutSeconds/failureThreshold." },
+		{ phase: 2, label: "partial", submission: "Raise the liveness probe's timeoutSeconds from 1 to 10." },
+		{ phase: 2, label: "incorrect", submission: "Disable the liveness probe entirely on production pods." },
+	],
+};
@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const kafkaConsumerLagGolden: GoldenSet = {
+	caseId: "kafka-consumer-lag",
+	examples: [
+		{ phase: 1, label: "correct", submission: "The topic has 10 partitions, so only 10 consumers in the group get assignments; the other 20 are idle and scaling consumers did nothing." },
+		{ phase: 1, label: "correct", submission: "More consumers than partitions - extra consumers sit idle." },
+		{ phase: 1, label: "partial", submission: "The consumers are not keeping up with the producers." },
+		{ phase: 1, label: "incorrect", submission: "The consumers are slow because they commit offsets synchronously." },
+		{ phase: 2, label: "correct", submission: "Increase the partition count to match the desired parallelism, or process messages concurrently within each consumer." },
+		{ phase: 2, label: "partial", submission: "Scale the consumer group down to match the partition count." },
+		{ phase: 2, label: "incorrect", submission: "Add another 30 consumers to the group." },
+	],
+};
@@ -0,0 +1,15 @@
+import type { GoldenSet } from "../../types";
+
+export const graphqlNPlusOneGolden: GoldenSet = {
+	caseId: "graphql-n-plus-one",
+	examples: [
+		{ phase: 1, label: "correct", submission: "Each post resolver fetches its author separately, so a feed of 50 posts runs one query for posts and 50+ queries for authors - the N+1 problem, with no DataLoader batching." },
+		{ phase: 1, label: "correct", submission: "N+1 queries from per-field resolvers without batching." },
+		{ phase: 1, label: "partial", submission: "The GraphQL resolvers make too many database queries." },
+		{ phase: 1, label: "incorrect", submission: "The database is missing an index on the posts table." },
+		{ phase: 2, label: "correct", submission: "Use DataLoader, created per request, to batch and cache author lookups." },
+		{ phase: 2, label: "partial", submission: "Create one DataLoader at startup and share it across all requests." },
+		{ phase: 2, label: "partial", submission: "Add an index on posts.author_id so each author query is faster." },
+		{ phase: 2, label: "incorrect", submission: "Cache the whole feed response in Redis for 10 minutes." },
+	],
+};
@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const websocketMemoryLeakGolden: GoldenSet = {
+	caseId: "websocket-memory-leak",
+	examples: [
+		{ phase: 1, label: "correct", submission: "When a socket closes without a leave message, the user is never removed from the presence set and its event listeners are never removed, so memory grows with every unclean disconnect." },
+		{ phase: 1, label: "correct", submission: "Missing cleanup on disconnect leaks presence entries and listeners." },
+		{ phase: 1, label: "partial", submission: "The server is leaking memory from WebSocket connections." },
+		{ phase: 1, label: "incorrect", submission: "The server keeps too many document versions in memory." },
+		{ phase: 2, label: "correct", submission: "Remove presence entries and listeners in the close/error handler, and use heartbeat-based presence with a TTL." },
+		{ phase: 2, label: "partial", submission: "Remove the user from the presence map in the close handler." },
+		{ phase: 2, label: "incorrect", submission: "Restart the server every 5 hours with a cron job." },
+	],
+};
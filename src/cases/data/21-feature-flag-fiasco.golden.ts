@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const featureFlagFiascoGolden: GoldenSet = {
+	caseId: "feature-flag-fiasco",
+	examples: [
+		{ phase: 1, label: "correct", submission: "The rollout hash is biased: short sequential user ids hash to small values, so the oldest, highest-value customers land in the 10% bucket far more often than random." },
+		{ phase: 1, label: "correct", submission: "Biased bucketing hash over-represents low user IDs (top customers) in the rollout." },
+		{ phase: 1, label: "partial", submission: "The feature flag is not splitting users evenly." },
+		{ phase: 1, label: "incorrect", submission: "The new feature has a bug that crashes checkout for everyone who sees it." },
+		{ phase: 2, label: "correct", submission: "Bucket users with a well-distributed hash such as murmur3 or SHA-256 of flag key plus user id, and check the bucket distribution against revenue before rolling out." },
+		{ phase: 2, label: "partial", submission: "Switch the bucketing hash to MD5 of the user id." },
+		{ phase: 2, label: "incorrect", submission: "Lower the rollout to 1% so fewer users are affected." },
+	],
+};
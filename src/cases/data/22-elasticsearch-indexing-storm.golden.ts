@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const elasticsearchIndexingStormGolden: GoldenSet = {
+	caseId: "elasticsearch-indexing-storm",
+	examples: [
+		{ phase: 1, label: "correct", submission: "The ensure_indexed check on every search compares the DB row to the ES document, but ES adds _indexed_at metadata, so they never match and every search triggers a re-index." },
+		{ phase: 1, label: "correct", submission: "Read-path freshness check always fails on a metadata field, so searches cause writes." },
+		{ phase: 1, label: "partial", submission: "The search service writes to Elasticsearch too often." },
+		{ phase: 1, label: "incorrect", submission: "A bulk import job is flooding the cluster with writes." },
+		{ phase: 2, label: "correct", submission: "Compare by version or updated_at instead of the full document, and move re-indexing to the write path when products change." },
+		{ phase: 2, label: "partial", submission: "Rate limit re-indexing to 100 documents per second." },
+		{ phase: 2, label: "incorrect", submission: "Add more data nodes to the Elasticsearch cluster to absorb the writes." },
+	],
+};
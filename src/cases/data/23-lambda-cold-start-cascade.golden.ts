@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const lambdaColdStartCascadeGolden: GoldenSet = {
+	caseId: "lambda-cold-start-cascade",
+	examples: [
+		{ phase: 1, label: "correct", submission: "VPC Lambda cold starts must create an ENI, which takes 10-25 seconds, and the /26 subnets run out of IPs, so cold starts time out and the timeouts cascade to callers." },
+		{ phase: 1, label: "correct", submission: "ENI creation delay plus subnet IP exhaustion for VPC Lambdas." },
+		{ phase: 1, label: "partial", submission: "Lambda cold starts are too slow." },
+		{ phase: 1, label: "incorrect", submission: "The Lambda functions run out of memory under load." },
+		{ phase: 2, label: "correct", submission: "Expand the subnets so there are enough IPs, use provisioned concurrency for the critical functions, and add a circuit breaker so callers fail fast." },
+		{ phase: 2, label: "partial", submission: "Add provisioned concurrency to the checkout functions." },
+		{ phase: 2, label: "incorrect", submission: "Raise the Lambda timeout from 30 seconds to 15 minutes." },
+	],
+};
@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const s3EventualConsistencyGolden: GoldenSet = {
+	caseId: "s3-eventual-consistency",
+	examples: [
+		{ phase: 1, label: "correct", submission: "Reads go to the nearest region before cross-region replication has finished, and both regions accept writes, so reads miss new files and concurrent writes silently overwrite each other." },
+		{ phase: 1, label: "correct", submission: "Reading replicas before async CRR completes plus active-active write conflicts." },
+		{ phase: 1, label: "partial", submission: "S3 replication between regions is slow." },
+		{ phase: 1, label: "incorrect", submission: "S3 is throttling requests from the EU region." },
+		{ phase: 2, label: "correct", submission: "Read recent objects from the primary region, use versioned writes with conflict detection, or keep a single write region and serve globally through CloudFront." },
+		{ phase: 2, label: "partial", submission: "Retry reads in the secondary region until the object shows up." },
+		{ phase: 2, label: "incorrect", submission: "Enable S3 Transfer Acceleration on both buckets." },
+	],
+};
@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const dynamodbHotPartitionGolden: GoldenSet = {
+	caseId: "dynamodb-hot-partition",
+	examples: [
+		{ phase: 1, label: "correct", submission: "The partition key is the event date, so all of today's writes go to one partition and exceed its 1,000 WCU limit even though the table has lots of capacity." },
+		{ phase: 1, label: "correct", submission: "Low-cardinality date partition key creates a hot partition." },
+		{ phase: 1, label: "partial", submission: "DynamoDB throughput is too low for the write volume." },
+		{ phase: 1, label: "incorrect", submission: "The GSI is throttling because it was not provisioned." },
+		{ phase: 2, label: "correct", submission: "Use a high-cardinality partition key or add a random shard suffix to the date so writes spread across partitions." },
+		{ phase: 2, label: "partial", submission: "Switch the table to on-demand capacity so it scales with the writes." },
+		{ phase: 2, label: "incorrect", submission: "Double the table's provisioned write capacity." },
+	],
+};
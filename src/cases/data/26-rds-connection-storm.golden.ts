@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const rdsConnectionStormGolden: GoldenSet = {
+	caseId: "rds-connection-storm",
+	examples: [
+		{ phase: 1, label: "correct", submission: "The new inventory service keeps 10-20 connections per pod with no idle timeout, and pods from rolling deploys leave orphaned connections, so together they exhaust RDS's 200 connection limit." },
+		{ phase: 1, label: "correct", submission: "Aggressive pool settings plus orphaned connections from deploys exhausted max_connections." },
+		{ phase: 1, label: "partial", submission: "The database has too many connections." },
+		{ phase: 1, label: "incorrect", submission: "A slow query is locking the tables." },
+		{ phase: 2, label: "correct", submission: "Lower pool min and max, set an idle timeout, add a preStop hook so pods close connections on shutdown, and consider RDS Proxy." },
+		{ phase: 2, label: "partial", submission: "Kill the orphaned idle connections on the database." },
+		{ phase: 2, label: "incorrect", submission: "Upgrade the RDS instance to the largest size." },
+	],
+};
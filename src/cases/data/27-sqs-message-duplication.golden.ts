@@ -0,0 +1,15 @@
+import type { GoldenSet } from "../../types";
+
+export const sqsMessageDuplicationGolden: GoldenSet = {
+	caseId: "sqs-message-duplication",
+	examples: [
+		{ phase: 1, label: "correct", submission: "The visibility timeout is 30 seconds but payment processing can take 45, so the message reappears and another worker charges again, and the handler is not idempotent." },
+		{ phase: 1, label: "correct", submission: "Visibility timeout shorter than processing time plus non-idempotent payment handler." },
+		{ phase: 1, label: "partial", submission: "SQS delivers some messages twice." },
+		{ phase: 1, label: "incorrect", submission: "Customers are double-clicking the pay button." },
+		{ phase: 2, label: "correct", submission: "Make the charge idempotent using the order id as Stripe's idempotency key, check order status before charging, and extend the visibility timeout during processing." },
+		{ phase: 2, label: "partial", submission: "Raise the visibility timeout to 15 minutes." },
+		{ phase: 2, label: "partial", submission: "Check the order's payment status before charging." },
+		{ phase: 2, label: "incorrect", submission: "Switch to a standard queue with more consumers." },
+	],
+};
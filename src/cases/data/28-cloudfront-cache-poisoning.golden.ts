@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const cloudfrontCachePoisoningGolden: GoldenSet = {
+	caseId: "cloudfront-cache-poisoning",
+	examples: [
+		{ phase: 1, label: "correct", submission: "Personalized pages are cached by CloudFront without cookies or Accept-Language in the cache key and without Vary headers, so one user's page is served to others." },
+		{ phase: 1, label: "correct", submission: "Cache key ignores personalization inputs, so personalized responses are shared." },
+		{ phase: 1, label: "partial", submission: "CloudFront is caching pages it should not cache." },
+		{ phase: 1, label: "incorrect", submission: "An attacker injected content into the origin server." },
+		{ phase: 2, label: "correct", submission: "Send Cache-Control: private for personalized responses or add the session cookie and Accept-Language to the cache key, and split public and personal paths into separate cache behaviors." },
+		{ phase: 2, label: "partial", submission: "Add Vary: Cookie to the personalized responses." },
+		{ phase: 2, label: "incorrect", submission: "Invalidate the whole CloudFront distribution every hour." },
+	],
+};
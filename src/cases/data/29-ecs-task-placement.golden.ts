@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const ecsTaskPlacementGolden: GoldenSet = {
+	caseId: "ecs-task-placement",
+	examples: [
+		{ phase: 1, label: "correct", submission: "The Datadog sidecar binds hostPorts 8125 and 8126, so only one task per host can bind them and the scheduler cannot place more tasks even with free CPU and memory." },
+		{ phase: 1, label: "correct", submission: "hostPort on the sidecar limits placement to one task per instance." },
+		{ phase: 1, label: "partial", submission: "There is a port conflict on the ECS hosts." },
+		{ phase: 1, label: "incorrect", submission: "The cluster does not have enough memory for the new tasks." },
+		{ phase: 2, label: "correct", submission: "Remove the hostPort mappings from the sidecar or run the Datadog agent as a daemon service and point apps at it." },
+		{ phase: 2, label: "partial", submission: "Place one task per instance with a distinctInstance constraint and add instances." },
+		{ phase: 2, label: "incorrect", submission: "Add more EC2 instances to the cluster." },
+	],
+};
@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const secretsManagerRateLimitGolden: GoldenSet = {
+	caseId: "secrets-manager-rate-limit",
+	examples: [
+		{ phase: 1, label: "correct", submission: "After the upgrade all 50 pods started at once and each fetched 5 secrets, the burst got throttled by Secrets Manager, and with no retries the pods crashed and restarted into the same throttle." },
+		{ phase: 1, label: "correct", submission: "Thundering herd on Secrets Manager at startup with no backoff." },
+		{ phase: 1, label: "partial", submission: "Pods cannot read their secrets at startup." },
+		{ phase: 1, label: "incorrect", submission: "The IAM role for the pods lost permission to read secrets." },
+		{ phase: 2, label: "correct", submission: "Retry secret fetches with exponential backoff and jitter, cache secrets, or sync them with External Secrets so pods do not call the API on startup." },
+		{ phase: 2, label: "partial", submission: "Cache each secret in memory after the first fetch." },
+		{ phase: 2, label: "incorrect", submission: "Request a higher Secrets Manager quota from AWS." },
+	],
+};
@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const albTargetDeregistrationGolden: GoldenSet = {
+	caseId: "alb-target-deregistration",
+	examples: [
+		{ phase: 1, label: "correct", submission: "Kubernetes sends SIGTERM and the pod stops before the ALB has deregistered it, so the load balancer keeps sending requests to a pod that is gone and returns 502." },
+		{ phase: 1, label: "correct", submission: "Pods terminate before the ALB finishes draining them." },
+		{ phase: 1, label: "partial", submission: "Deployments cause 502 errors on the load balancer." },
+		{ phase: 1, label: "incorrect", submission: "The new version has a bug that returns 502." },
+		{ phase: 2, label: "correct", submission: "Add a preStop sleep longer than the deregistration delay and handle SIGTERM gracefully by draining in-flight requests." },
+		{ phase: 2, label: "partial", submission: "Handle SIGTERM by finishing in-flight requests before exiting." },
+		{ phase: 2, label: "incorrect", submission: "Increase the ALB idle timeout." },
+	],
+};
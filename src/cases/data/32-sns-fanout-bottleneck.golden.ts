@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const snsFanoutBottleneckGolden: GoldenSet = {
+	caseId: "sns-fanout-bottleneck",
+	examples: [
+		{ phase: 1, label: "correct", submission: "SNS fans every order out to 12 queues and some consumers are much slower than the incoming rate, so backlogs grow, retries cause duplicates, and processing falls hours behind." },
+		{ phase: 1, label: "correct", submission: "Fan-out volume overwhelms slow consumers, building SQS backlog and duplicate deliveries." },
+		{ phase: 1, label: "partial", submission: "Some of the consumers are slow." },
+		{ phase: 1, label: "incorrect", submission: "SNS is dropping messages." },
+		{ phase: 2, label: "correct", submission: "Make consumers idempotent, use filter policies so each queue only gets messages it needs, and autoscale consumers on queue depth." },
+		{ phase: 2, label: "partial", submission: "Autoscale the consumers on queue depth." },
+		{ phase: 2, label: "incorrect", submission: "Switch from SNS to a single SQS queue shared by all consumers." },
+	],
+};
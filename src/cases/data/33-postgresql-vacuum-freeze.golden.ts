@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const postgresqlVacuumFreezeGolden: GoldenSet = {
+	caseId: "postgresql-vacuum-freeze",
+	examples: [
+		{ phase: 1, label: "correct", submission: "Autovacuum was disabled on the users table for 18 months, so transaction IDs approached wraparound and PostgreSQL launched an aggressive anti-wraparound freeze vacuum that grinds everything to a halt." },
+		{ phase: 1, label: "correct", submission: "Transaction ID wraparound forced an anti-wraparound vacuum freeze." },
+		{ phase: 1, label: "partial", submission: "A vacuum is running on a big table." },
+		{ phase: 1, label: "incorrect", submission: "The users table is missing an index." },
+		{ phase: 2, label: "correct", submission: "Let the freeze finish with higher vacuum cost limits, re-enable and tune autovacuum for the table, and monitor age(relfrozenxid)." },
+		{ phase: 2, label: "partial", submission: "Raise autovacuum_vacuum_cost_limit so the running freeze finishes faster." },
+		{ phase: 2, label: "incorrect", submission: "Cancel the vacuum and disable autovacuum on all tables." },
+	],
+};
@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const mongodbWriteConcernGolden: GoldenSet = {
+	caseId: "mongodb-write-concern",
+	examples: [
+		{ phase: 1, label: "correct", submission: "Writes use w:1, so they are acknowledged by the primary before replicating; when the primary failed, those writes were rolled back and lost." },
+		{ phase: 1, label: "correct", submission: "w:1 write concern lost acknowledged writes in the failover." },
+		{ phase: 1, label: "partial", submission: "Data was lost during the replica set failover." },
+		{ phase: 1, label: "incorrect", submission: "The application retried the writes and overwrote the orders." },
+		{ phase: 2, label: "correct", submission: "Use writeConcern majority (with journaling) for orders so acknowledged writes survive failover." },
+		{ phase: 2, label: "partial", submission: "Set j: true on order writes so they are journaled before being acknowledged." },
+		{ phase: 2, label: "incorrect", submission: "Add more secondaries to the replica set." },
+	],
+};
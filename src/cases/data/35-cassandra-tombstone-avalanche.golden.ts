@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const cassandraTombstoneAvalancheGolden: GoldenSet = {
+	caseId: "cassandra-tombstone-avalanche",
+	examples: [
+		{ phase: 1, label: "correct", submission: "The retention job DELETEs old events inside wide user partitions, creating tombstones that reads must scan, so queries hit the tombstone limits and time out." },
+		{ phase: 1, label: "correct", submission: "Tombstone accumulation in wide partitions causes read amplification." },
+		{ phase: 1, label: "partial", submission: "Cassandra reads are slow for active users." },
+		{ phase: 1, label: "incorrect", submission: "The cluster is running out of disk space." },
+		{ phase: 2, label: "correct", submission: "Use TTLs instead of DELETE, limit partition width with time buckets, and compact to purge eligible tombstones." },
+		{ phase: 2, label: "partial", submission: "Lower gc_grace_seconds on the table and run a major compaction." },
+		{ phase: 2, label: "incorrect", submission: "Increase read timeouts on the client." },
+	],
+};
@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const mysqlReplicationLagGolden: GoldenSet = {
+	caseId: "mysql-replication-lag",
+	examples: [
+		{ phase: 1, label: "correct", submission: "The batch job updates 5 million rows in one transaction, and the replica applies it as a single event on a single SQL thread, so replication falls further and further behind." },
+		{ phase: 1, label: "correct", submission: "One huge transaction blocks single-threaded replication." },
+		{ phase: 1, label: "partial", submission: "Replication lag on the replica is high." },
+		{ phase: 1, label: "incorrect", submission: "The replica has slower disks than the primary." },
+		{ phase: 2, label: "correct", submission: "Split the batch into small chunks and enable parallel replication on the replica." },
+		{ phase: 2, label: "partial", submission: "Enable parallel replication on the replica." },
+		{ phase: 2, label: "incorrect", submission: "Promote the replica to a bigger instance type." },
+	],
+};
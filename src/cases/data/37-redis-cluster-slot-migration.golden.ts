@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const redisClusterSlotMigrationGolden: GoldenSet = {
+	caseId: "redis-cluster-slot-migration",
+	examples: [
+		{ phase: 1, label: "correct", submission: "The app uses a plain Redis client against one node of a cluster, so when slots move it cannot follow MOVED/ASK redirects and requests fail or miss." },
+		{ phase: 1, label: "correct", submission: "Non-cluster-aware client cannot handle slot redirects." },
+		{ phase: 1, label: "partial", submission: "Redis errors happen during rebalancing." },
+		{ phase: 1, label: "incorrect", submission: "The cache keys have too short a TTL." },
+		{ phase: 2, label: "correct", submission: "Switch to a cluster-aware client configured with the cluster nodes so redirects are followed automatically." },
+		{ phase: 2, label: "partial", submission: "Catch MOVED errors in the application and retry the command." },
+		{ phase: 2, label: "incorrect", submission: "Stop rebalancing the cluster." },
+	],
+};
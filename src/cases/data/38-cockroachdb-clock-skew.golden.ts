@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const cockroachdbClockSkewGolden: GoldenSet = {
+	caseId: "cockroachdb-clock-skew",
+	examples: [
+		{ phase: 1, label: "correct", submission: "NTP maintenance left DC-West nodes without time sync, their clocks drifted past max_clock_offset, and CockroachDB rejects transactions and kills nodes to protect consistency." },
+		{ phase: 1, label: "correct", submission: "Clock drift beyond max offset after NTP failure." },
+		{ phase: 1, label: "partial", submission: "Some nodes have wrong clocks." },
+		{ phase: 1, label: "incorrect", submission: "Network partition between the two data centers." },
+		{ phase: 2, label: "correct", submission: "Restore NTP sources on the affected nodes, alert on clock offset, and manage NTP config consistently." },
+		{ phase: 2, label: "partial", submission: "Restart the nodes whose clocks drifted." },
+		{ phase: 2, label: "incorrect", submission: "Increase max_clock_offset to 5 seconds." },
+	],
+};
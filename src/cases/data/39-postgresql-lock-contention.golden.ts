@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const postgresqlLockContentionGolden: GoldenSet = {
+	caseId: "postgresql-lock-contention",
+	examples: [
+		{ phase: 1, label: "correct", submission: "Orders update inventory rows in cart order, so two transactions lock the same products in different orders and deadlock." },
+		{ phase: 1, label: "correct", submission: "Inconsistent lock ordering creates deadlock cycles." },
+		{ phase: 1, label: "partial", submission: "Transactions are waiting on row locks." },
+		{ phase: 1, label: "incorrect", submission: "The inventory table needs a bigger connection pool." },
+		{ phase: 2, label: "correct", submission: "Sort the product ids before locking or updating rows so every transaction acquires locks in the same order, and retry deadlock failures." },
+		{ phase: 2, label: "partial", submission: "Retry transactions that fail with a deadlock error, with backoff." },
+		{ phase: 2, label: "incorrect", submission: "Use serializable isolation for all order transactions." },
+	],
+};
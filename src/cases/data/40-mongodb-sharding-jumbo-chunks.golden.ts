@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const mongodbShardingJumboChunksGolden: GoldenSet = {
+	caseId: "mongodb-sharding-jumbo-chunks",
+	examples: [
+		{ phase: 1, label: "correct", submission: "The shard key is the timestamp: it is monotonic, so all inserts hit one shard, and too many docs share the same value, so chunks cannot split and become jumbo." },
+		{ phase: 1, label: "correct", submission: "Monotonic low-cardinality shard key produces jumbo chunks and a hot shard." },
+		{ phase: 1, label: "partial", submission: "The cluster is unbalanced." },
+		{ phase: 1, label: "incorrect", submission: "The balancer is disabled." },
+		{ phase: 2, label: "correct", submission: "Reshard on a compound, high-cardinality key such as a hashed device id plus timestamp, migrating to a new collection if needed." },
+		{ phase: 2, label: "partial", submission: "Clear the jumbo flag on the chunks so the balancer can move them." },
+		{ phase: 2, label: "incorrect", submission: "Add more shards to the cluster." },
+	],
+};
@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const mysqlIndexCardinalityGolden: GoldenSet = {
+	caseId: "mysql-index-cardinality",
+	examples: [
+		{ phase: 1, label: "correct", submission: "The status index has only 4 distinct values and 'active' matches 86% of rows, so the optimizer correctly prefers a full scan over the useless low-cardinality index." },
+		{ phase: 1, label: "correct", submission: "Low-cardinality status index is ignored by the optimizer for the common value." },
+		{ phase: 1, label: "partial", submission: "MySQL is not using the index on status." },
+		{ phase: 1, label: "incorrect", submission: "The index is corrupted and needs to be rebuilt." },
+		{ phase: 2, label: "correct", submission: "Create a composite or covering index that matches the query, e.g. (status, created_at) for the filter plus ORDER BY, so the index is selective and avoids the sort." },
+		{ phase: 2, label: "partial", submission: "Add an index on created_at for the ORDER BY." },
+		{ phase: 2, label: "incorrect", submission: "Force the optimizer to use the status index with FORCE INDEX." },
+	],
+};
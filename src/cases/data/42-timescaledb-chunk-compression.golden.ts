@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const timescaledbChunkCompressionGolden: GoldenSet = {
+	caseId: "timescaledb-chunk-compression",
+	examples: [
+		{ phase: 1, label: "correct", submission: "TimescaleDB was upgraded at the package level but ALTER EXTENSION was never run, so the catalog is still on the old version and the compression policy job keeps failing, leaving chunks uncompressed." },
+		{ phase: 1, label: "correct", submission: "Incomplete extension upgrade breaks the compression job, so disk fills." },
+		{ phase: 1, label: "partial", submission: "The compression policy is not running." },
+		{ phase: 1, label: "incorrect", submission: "The retention policy deletes the wrong chunks." },
+		{ phase: 2, label: "correct", submission: "Run ALTER EXTENSION timescaledb UPDATE, compress the backlog of chunks manually, and alert on failed background jobs." },
+		{ phase: 2, label: "partial", submission: "Compress the backlog of chunks manually with compress_chunk()." },
+		{ phase: 2, label: "incorrect", submission: "Add a bigger disk to the database server." },
+	],
+};
@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const rabbitmqMemoryAlarmGolden: GoldenSet = {
+	caseId: "rabbitmq-memory-alarm",
+	examples: [
+		{ phase: 1, label: "correct", submission: "Slow order processing let queues grow until RabbitMQ crossed its memory high watermark, and the memory alarm blocks every publisher connection." },
+		{ phase: 1, label: "correct", submission: "Memory high watermark alarm is blocking publishers." },
+		{ phase: 1, label: "partial", submission: "RabbitMQ is running out of memory." },
+		{ phase: 1, label: "incorrect", submission: "The producers lost their connection because of a network partition." },
+		{ phase: 2, label: "correct", submission: "Drain or scale consumers to bring memory down, set queue length limits or lazy queues, and make publishers detect connection.blocked instead of hanging." },
+		{ phase: 2, label: "partial", submission: "Make publishers handle connection.blocked and time out instead of hanging." },
+		{ phase: 2, label: "incorrect", submission: "Set vm_memory_high_watermark to 1.0 so the alarm never fires." },
+	],
+};
@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const kafkaRebalanceStormGolden: GoldenSet = {
+	caseId: "kafka-rebalance-storm",
+	examples: [
+		{ phase: 1, label: "correct", submission: "Processing a batch now takes longer than the poll interval and session timeout, so consumers are considered dead, the group rebalances, and rebalances keep interrupting processing." },
+		{ phase: 1, label: "correct", submission: "Slow processing blocks heartbeats/poll and exceeds the session timeout, causing constant rebalances." },
+		{ phase: 1, label: "partial", submission: "The consumer group keeps rebalancing." },
+		{ phase: 1, label: "incorrect", submission: "A broker is down so partitions keep moving." },
+		{ phase: 2, label: "correct", submission: "Reduce max.poll.records, raise max.poll.interval.ms and session timeout appropriately, and move slow work off the poll loop with pause/resume." },
+		{ phase: 2, label: "partial", submission: "Raise session.timeout.ms to 60 seconds." },
+		{ phase: 2, label: "incorrect", submission: "Add more consumers to the group." },
+	],
+};
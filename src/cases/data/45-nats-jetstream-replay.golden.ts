@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const natsJetstreamReplayGolden: GoldenSet = {
+	caseId: "nats-jetstream-replay",
+	examples: [
+		{ phase: 1, label: "correct", submission: "The consumer uses DeliverPolicy.All and the subscription recreates the consumer on restart instead of binding to the existing durable, so the whole stream is replayed." },
+		{ phase: 1, label: "correct", submission: "Recreated consumer with DeliverPolicy.All replays the stream from the beginning." },
+		{ phase: 1, label: "partial", submission: "Messages are redelivered after restart." },
+		{ phase: 1, label: "incorrect", submission: "The stream's retention policy is wrong." },
+		{ phase: 2, label: "correct", submission: "Bind to the existing durable consumer so its ack floor is kept, and make processing idempotent with dedupe on message id." },
+		{ phase: 2, label: "partial", submission: "Deduplicate messages on their message id in the consumer." },
+		{ phase: 2, label: "incorrect", submission: "Delete the stream after each deployment." },
+	],
+};
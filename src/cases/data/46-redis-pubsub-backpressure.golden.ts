@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const redisPubsubBackpressureGolden: GoldenSet = {
+	caseId: "redis-pubsub-backpressure",
+	examples: [
+		{ phase: 1, label: "correct", submission: "The new analytics subscriber processes 2 messages a second, its client output buffer fills up, and Redis stalls delivering PUBLISH to it, which slows every publisher." },
+		{ phase: 1, label: "correct", submission: "Slow subscriber fills its output buffer and backs up PUBLISH." },
+		{ phase: 1, label: "partial", submission: "Redis Pub/Sub is slow." },
+		{ phase: 1, label: "incorrect", submission: "The chat service has too many Redis connections." },
+		{ phase: 2, label: "correct", submission: "Move analytics to Redis Streams with consumer groups, or buffer locally and process asynchronously, and set client-output-buffer-limit for pubsub." },
+		{ phase: 2, label: "partial", submission: "Set client-output-buffer-limit for pubsub so the slow subscriber gets disconnected." },
+		{ phase: 2, label: "incorrect", submission: "Give Redis more CPU." },
+	],
+};
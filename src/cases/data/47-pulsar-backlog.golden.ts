@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const pulsarBacklogGolden: GoldenSet = {
+	caseId: "pulsar-backlog",
+	examples: [
+		{ phase: 1, label: "correct", submission: "An abandoned analytics-export subscription never acknowledges messages, and Pulsar keeps messages until every subscription has acked them, so the backlog grows forever." },
+		{ phase: 1, label: "correct", submission: "Unacked abandoned subscription prevents deletion regardless of retention." },
+		{ phase: 1, label: "partial", submission: "The topic's retention is too long." },
+		{ phase: 1, label: "incorrect", submission: "The producers are publishing too fast." },
+		{ phase: 2, label: "correct", submission: "Delete or unsubscribe the abandoned subscription and set backlog quotas or subscription expiration." },
+		{ phase: 2, label: "partial", submission: "Set a backlog quota on the namespace." },
+		{ phase: 2, label: "incorrect", submission: "Shorten the topic's retention time to one day." },
+	],
+};
@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const celeryVisibilityTimeoutGolden: GoldenSet = {
+	caseId: "celery-visibility-timeout",
+	examples: [
+		{ phase: 1, label: "correct", submission: "Video tasks run longer than the Redis broker's 1-hour visibility timeout, so Redis hands the unacked task to another worker while the first is still running." },
+		{ phase: 1, label: "correct", submission: "Visibility timeout shorter than task runtime causes redelivery." },
+		{ phase: 1, label: "partial", submission: "Celery runs some tasks twice." },
+		{ phase: 1, label: "incorrect", submission: "The Celery beat scheduler is scheduling tasks twice." },
+		{ phase: 2, label: "correct", submission: "Raise the visibility timeout above the longest task runtime and make tasks idempotent with a lock or dedupe key." },
+		{ phase: 2, label: "partial", submission: "Make the tasks idempotent with a dedupe key." },
+		{ phase: 2, label: "incorrect", submission: "Set acks_late to False for all tasks." },
+	],
+};
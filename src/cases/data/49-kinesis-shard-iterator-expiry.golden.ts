@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const kinesisShardIteratorExpiryGolden: GoldenSet = {
+	caseId: "kinesis-shard-iterator-expiry",
+	examples: [
+		{ phase: 1, label: "correct", submission: "On ExpiredIteratorException the consumer requests a LATEST iterator, skipping every record since the last read, instead of resuming AT or AFTER the last processed sequence number." },
+		{ phase: 1, label: "correct", submission: "Falling back to LATEST after iterator expiry skips records." },
+		{ phase: 1, label: "partial", submission: "The shard iterator expires during maintenance." },
+		{ phase: 1, label: "incorrect", submission: "Kinesis retention is too short." },
+		{ phase: 2, label: "correct", submission: "Checkpoint sequence numbers and get a new iterator with AFTER_SEQUENCE_NUMBER when one expires, or use the KCL." },
+		{ phase: 2, label: "partial", submission: "Get a new TRIM_HORIZON iterator when the old one expires." },
+		{ phase: 2, label: "incorrect", submission: "Call GetRecords more often." },
+	],
+};
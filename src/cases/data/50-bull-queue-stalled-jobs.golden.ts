@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const bullQueueStalledJobsGolden: GoldenSet = {
+	caseId: "bull-queue-stalled-jobs",
+	examples: [
+		{ phase: 1, label: "correct", submission: "The job lock expires before processing finishes, so Bull marks the job stalled and another worker retries it while the first one is still running, creating duplicates." },
+		{ phase: 1, label: "correct", submission: "lockDuration shorter than processing time causes stalled jobs and duplicates." },
+		{ phase: 1, label: "partial", submission: "Bull marks some jobs as stalled." },
+		{ phase: 1, label: "incorrect", submission: "The Redis instance is evicting the queue keys." },
+		{ phase: 2, label: "correct", submission: "Increase lockDuration (or renew the lock), avoid blocking the event loop, and make the job idempotent." },
+		{ phase: 2, label: "partial", submission: "Make the job idempotent so a duplicate run does not send the email twice." },
+		{ phase: 2, label: "incorrect", submission: "Set maxStalledCount to 0." },
+	],
+};
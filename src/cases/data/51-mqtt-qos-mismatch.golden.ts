@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const mqttQosMismatchGolden: GoldenSet = {
+	caseId: "mqtt-qos-mismatch",
+	examples: [
+		{ phase: 1, label: "correct", submission: "Vehicles publish at QoS 1 but the subscriber subscribes at QoS 0, and delivery uses the lower of the two, so messages dropped on the network are never redelivered." },
+		{ phase: 1, label: "correct", submission: "Subscriber QoS 0 downgrades delivery to at-most-once." },
+		{ phase: 1, label: "partial", submission: "Some MQTT messages are lost." },
+		{ phase: 1, label: "incorrect", submission: "The broker runs out of memory." },
+		{ phase: 2, label: "correct", submission: "Subscribe with QoS 1 and a persistent session, and configure the broker to queue QoS 1 messages." },
+		{ phase: 2, label: "partial", submission: "Change the subscriber to QoS 1." },
+		{ phase: 2, label: "incorrect", submission: "Publish every message twice." },
+	],
+};
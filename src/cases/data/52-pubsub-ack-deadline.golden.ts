@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const pubsubAckDeadlineGolden: GoldenSet = {
+	caseId: "pubsub-ack-deadline",
+	examples: [
+		{ phase: 1, label: "correct", submission: "Processing takes longer than the ack deadline, even the 600s maximum, so Pub/Sub redelivers the message and it is processed again." },
+		{ phase: 1, label: "correct", submission: "Processing time exceeds the ack deadline, causing redelivery." },
+		{ phase: 1, label: "partial", submission: "Pub/Sub redelivers messages." },
+		{ phase: 1, label: "incorrect", submission: "The publisher sends duplicates." },
+		{ phase: 2, label: "correct", submission: "Make processing idempotent with dedupe and split the work into smaller steps acked quickly, or use Dataflow for exactly-once." },
+		{ phase: 2, label: "partial", submission: "Extend the ack deadline with modifyAckDeadline while the message is processing." },
+		{ phase: 2, label: "incorrect", submission: "Set the ack deadline to 24 hours." },
+	],
+};
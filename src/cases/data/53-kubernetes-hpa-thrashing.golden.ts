@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const kubernetesHpaThrashingGolden: GoldenSet = {
+	caseId: "kubernetes-hpa-thrashing",
+	examples: [
+		{ phase: 1, label: "correct", submission: "The batch job makes CPU spike every 30 seconds, and after the metrics change the HPA sees the spikes and has no stabilization window, so it scales up and down constantly." },
+		{ phase: 1, label: "correct", submission: "Bursty CPU with aggressive HPA scaling behavior and no stabilization." },
+		{ phase: 1, label: "partial", submission: "The HPA scales too often." },
+		{ phase: 1, label: "incorrect", submission: "The cluster autoscaler keeps adding nodes." },
+		{ phase: 2, label: "correct", submission: "Add scaleDown stabilizationWindowSeconds and scaling policies to the HPA and smooth out the batch CPU spikes." },
+		{ phase: 2, label: "partial", submission: "Raise the HPA CPU target from 50% to 80%." },
+		{ phase: 2, label: "incorrect", submission: "Set minReplicas equal to maxReplicas." },
+	],
+};
@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const istioSidecarInjectionFailureGolden: GoldenSet = {
+	caseId: "istio-sidecar-injection-failure",
+	examples: [
+		{ phase: 1, label: "correct", submission: "The namespace's PodSecurityPolicy drops all capabilities, but istio-init needs NET_ADMIN and NET_RAW to set up iptables, so the init container fails and pods stay in Init." },
+		{ phase: 1, label: "correct", submission: "Restrictive PSP blocks the Istio init container's capabilities." },
+		{ phase: 1, label: "partial", submission: "The Istio init container is failing." },
+		{ phase: 1, label: "incorrect", submission: "The Istio control plane is down." },
+		{ phase: 2, label: "correct", submission: "Enable the Istio CNI plugin so pods do not need NET_ADMIN, or allow those capabilities for the init container only." },
+		{ phase: 2, label: "partial", submission: "Give the whole namespace a privileged PodSecurityPolicy." },
+		{ phase: 2, label: "incorrect", submission: "Remove the namespace from the mesh." },
+	],
+};
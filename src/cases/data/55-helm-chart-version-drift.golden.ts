@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const helmChartVersionDriftGolden: GoldenSet = {
+	caseId: "helm-chart-version-drift",
+	examples: [
+		{ phase: 1, label: "correct", submission: "Production's values file was not updated as the chart evolved, so prod runs on old and default values while staging has the new structure, and the environments drifted." },
+		{ phase: 1, label: "correct", submission: "Values files drifted between environments as the chart changed." },
+		{ phase: 1, label: "partial", submission: "Staging and production use different configuration." },
+		{ phase: 1, label: "incorrect", submission: "Someone edited production resources with kubectl." },
+		{ phase: 2, label: "correct", submission: "Use a shared base values file with small environment overlays and add CI drift detection (helm diff) between environments." },
+		{ phase: 2, label: "partial", submission: "Run helm diff between staging and production before each release." },
+		{ phase: 2, label: "incorrect", submission: "Copy staging's values file to production." },
+	],
+};
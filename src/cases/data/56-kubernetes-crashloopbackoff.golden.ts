@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const kubernetesCrashLoopBackOffGolden: GoldenSet = {
+	caseId: "kubernetes-crashloopbackoff",
+	examples: [
+		{ phase: 1, label: "correct", submission: "The deployment references the secret user-service-secrets, which does not exist after the rename, so the required env variable is missing and the container exits at startup." },
+		{ phase: 1, label: "correct", submission: "Missing Secret (renamed) means the env var is absent and the pod crashes." },
+		{ phase: 1, label: "partial", submission: "The pod is missing a configuration value." },
+		{ phase: 1, label: "incorrect", submission: "The container image is broken." },
+		{ phase: 2, label: "correct", submission: "Create the secret with the new name, or point the deployment at the existing one, and manage secrets in Git with sealed-secrets." },
+		{ phase: 2, label: "partial", submission: "Mark the secret reference optional so the pod starts even when it is missing." },
+		{ phase: 2, label: "incorrect", submission: "Increase the restart backoff limit." },
+	],
+};
@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const serviceMeshMtlsExpiryGolden: GoldenSet = {
+	caseId: "service-mesh-mtls-expiry",
+	examples: [
+		{ phase: 1, label: "correct", submission: "Istio was installed with the default self-signed root CA, which expired after one year, so Istiod cannot issue workload certificates and mTLS between services fails." },
+		{ phase: 1, label: "correct", submission: "The mesh root CA expired." },
+		{ phase: 1, label: "partial", submission: "Certificates in the mesh have expired." },
+		{ phase: 1, label: "incorrect", submission: "A network policy is blocking traffic between services." },
+		{ phase: 2, label: "correct", submission: "Rotate to a new root CA (ideally an external or intermediate CA with longer validity) and alert on certificate expiry." },
+		{ phase: 2, label: "partial", submission: "Add Prometheus alerts on mesh certificate expiry." },
+		{ phase: 2, label: "incorrect", submission: "Disable mTLS in the mesh." },
+	],
+};
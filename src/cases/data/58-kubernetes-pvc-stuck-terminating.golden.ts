@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const kubernetesPvcStuckTerminatingGolden: GoldenSet = {
+	caseId: "kubernetes-pvc-stuck-terminating",
+	examples: [
+		{ phase: 1, label: "correct", submission: "The pvc-protection finalizer keeps the PVC because a postgres-exporter pod in the monitoring namespace still mounts it." },
+		{ phase: 1, label: "correct", submission: "A pod elsewhere is still using the PVC, so the protection finalizer blocks deletion." },
+		{ phase: 1, label: "partial", submission: "A finalizer prevents the PVC from deleting." },
+		{ phase: 1, label: "incorrect", submission: "The storage class does not support deletion." },
+		{ phase: 2, label: "correct", submission: "Find and delete or fix the pod that mounts the PVC so the finalizer can complete." },
+		{ phase: 2, label: "correct", submission: "Run kubectl describe on the PVC to find the pod still using it, then delete that pod." },
+		{ phase: 2, label: "incorrect", submission: "Remove the finalizer with kubectl patch immediately." },
+	],
+};
@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const dockerLayerCacheInvalidationGolden: GoldenSet = {
+	caseId: "docker-layer-cache-invalidation",
+	examples: [
+		{ phase: 1, label: "correct", submission: "The Dockerfile now copies all source files before npm install, so every code change invalidates the install layer and dependencies are reinstalled on each build." },
+		{ phase: 1, label: "correct", submission: "COPY . before npm install breaks layer caching." },
+		{ phase: 1, label: "partial", submission: "Docker is not using its cache." },
+		{ phase: 1, label: "incorrect", submission: "The CI runners have slow disks." },
+		{ phase: 2, label: "correct", submission: "Copy package.json and the lockfile first, run npm ci, then copy the rest of the source, with a .dockerignore." },
+		{ phase: 2, label: "partial", submission: "Add a .dockerignore that excludes node_modules and .git." },
+		{ phase: 2, label: "incorrect", submission: "Use a bigger CI runner." },
+	],
+};
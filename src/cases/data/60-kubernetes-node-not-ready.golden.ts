@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const kubernetesNodeNotReadyGolden: GoldenSet = {
+	caseId: "kubernetes-node-not-ready",
+	examples: [
+		{ phase: 1, label: "correct", submission: "Old container images pile up on the nodes' 100GB root volumes until disk pressure makes the kubelet mark the node NotReady and evict pods." },
+		{ phase: 1, label: "correct", submission: "Image accumulation causes disk pressure on the root volume." },
+		{ phase: 1, label: "partial", submission: "The nodes run out of disk." },
+		{ phase: 1, label: "incorrect", submission: "The nodes run out of memory." },
+		{ phase: 2, label: "correct", submission: "Clean up unused images, tune kubelet image GC thresholds, rotate container logs, and give nodes larger volumes." },
+		{ phase: 2, label: "partial", submission: "Run docker image prune on the affected nodes." },
+		{ phase: 2, label: "incorrect", submission: "Reboot the affected nodes." },
+	],
+};
@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const envoyProxyCircuitBreakGolden: GoldenSet = {
+	caseId: "envoy-proxy-circuit-break",
+	examples: [
+		{ phase: 1, label: "correct", submission: "With 500 rps and a 2.5s p99, about 1,250 requests are in flight at peak, far above Envoy's max_connections and max_pending_requests of 100, so the circuit breaker trips and returns 503s while backends are healthy." },
+		{ phase: 1, label: "correct", submission: "Undersized circuit breaker limits combined with long-tail latency trip the breaker." },
+		{ phase: 1, label: "partial", submission: "The Envoy circuit breaker is opening." },
+		{ phase: 1, label: "incorrect", submission: "Outlier detection is ejecting the healthy backends." },
+		{ phase: 2, label: "correct", submission: "Size the circuit breaker limits from peak concurrency (Little's Law), and add timeouts so slow payment calls do not hold connections." },
+		{ phase: 2, label: "partial", submission: "Add a 5 second timeout to the payment provider calls." },
+		{ phase: 2, label: "incorrect", submission: "Remove the circuit breaker from the cluster config." },
+	],
+};
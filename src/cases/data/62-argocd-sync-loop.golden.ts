@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const argocdSyncLoopGolden: GoldenSet = {
+	caseId: "argocd-sync-loop",
+	examples: [
+		{ phase: 1, label: "correct", submission: "Kubernetes normalizes cpu \"1\" to 1000m and a webhook mutates it further, so the live object never matches Git, ArgoCD sees it as out of sync and keeps re-syncing." },
+		{ phase: 1, label: "correct", submission: "External mutations not covered by ignoreDifferences keep the app out of sync." },
+		{ phase: 1, label: "partial", submission: "ArgoCD thinks the manifests differ from the cluster." },
+		{ phase: 1, label: "incorrect", submission: "Someone is changing the Git repo in a loop." },
+		{ phase: 2, label: "correct", submission: "Add ignoreDifferences for the mutated fields, or write the normalized values in Git." },
+		{ phase: 2, label: "partial", submission: "Write the replicas value the webhook sets into Git." },
+		{ phase: 2, label: "incorrect", submission: "Turn off auto-sync for the application." },
+	],
+};
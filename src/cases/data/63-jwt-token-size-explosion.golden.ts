@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const jwtTokenSizeExplosionGolden: GoldenSet = {
+	caseId: "jwt-token-size-explosion",
+	examples: [
+		{ phase: 1, label: "correct", submission: "Every granular permission is embedded in the JWT, so enterprise users with 250+ permissions get tokens that exceed the proxy's header size limit and requests are rejected." },
+		{ phase: 1, label: "correct", submission: "Permissions in the JWT payload blow past HTTP header limits." },
+		{ phase: 1, label: "partial", submission: "The JWT is too big for some users." },
+		{ phase: 1, label: "incorrect", submission: "The JWT signing key was rotated." },
+		{ phase: 2, label: "correct", submission: "Keep only minimal claims like user id and roles in the token and look up permissions server-side, with caching." },
+		{ phase: 2, label: "partial", submission: "Compress the JWT payload before encoding it." },
+		{ phase: 2, label: "incorrect", submission: "Raise the header size limit on every proxy to 64KB." },
+	],
+};
@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const oauth2RefreshTokenRaceGolden: GoldenSet = {
+	caseId: "oauth2-refresh-token-race",
+	examples: [
+		{ phase: 1, label: "correct", submission: "Refresh tokens are single-use, and several tabs refresh at the same moment with the same token; the first wins and the rest are treated as reuse and get revoked, logging the user out." },
+		{ phase: 1, label: "correct", submission: "Concurrent refreshes race on a rotating one-time refresh token." },
+		{ phase: 1, label: "partial", submission: "Users get logged out when the token refreshes." },
+		{ phase: 1, label: "incorrect", submission: "The access token lifetime is too short." },
+		{ phase: 2, label: "correct", submission: "Give the old refresh token a short grace period on the server and coordinate refreshes across tabs with a single-flight queue or BroadcastChannel." },
+		{ phase: 2, label: "partial", submission: "Coordinate refreshes across tabs with BroadcastChannel so only one tab refreshes." },
+		{ phase: 2, label: "incorrect", submission: "Disable refresh token rotation." },
+	],
+};
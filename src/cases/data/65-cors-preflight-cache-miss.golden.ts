@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const corsPreflightCacheMissGolden: GoldenSet = {
+	caseId: "cors-preflight-cache-miss",
+	examples: [
+		{ phase: 1, label: "correct", submission: "After moving to a cross-origin API, every non-simple request needs an OPTIONS preflight, and without Access-Control-Max-Age browsers do not cache it, doubling the round trips." },
+		{ phase: 1, label: "correct", submission: "Missing Access-Control-Max-Age means preflights are never cached." },
+		{ phase: 1, label: "partial", submission: "The browser sends a lot of OPTIONS requests." },
+		{ phase: 1, label: "incorrect", submission: "The API server is slow to respond to GET requests." },
+		{ phase: 2, label: "correct", submission: "Set Access-Control-Max-Age (e.g. 86400) on preflight responses, or serve the API same-origin." },
+		{ phase: 2, label: "partial", submission: "Cache the OPTIONS responses at the CDN." },
+		{ phase: 2, label: "incorrect", submission: "Add Access-Control-Allow-Origin: * to all responses." },
+	],
+};
@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const apiRateLimitLeakGolden: GoldenSet = {
+	caseId: "api-rate-limit-leak",
+	examples: [
+		{ phase: 1, label: "correct", submission: "The rate limiter does a separate GET and SET, so concurrent requests in a burst all see a fresh window and bypass the limit, while anonymous users share one IP bucket behind NAT." },
+		{ phase: 1, label: "correct", submission: "Non-atomic check-then-set lets bursts bypass the limiter, and IP fallback throttles shared NAT users." },
+		{ phase: 1, label: "partial", submission: "The rate limiter does not handle bursts." },
+		{ phase: 1, label: "incorrect", submission: "The Redis server is too slow for rate limiting." },
+		{ phase: 2, label: "correct", submission: "Make the check atomic with INCR plus EXPIRE in a Lua script, use a sliding window, and identify anonymous clients better than by IP." },
+		{ phase: 2, label: "partial", submission: "Make the rate limit check atomic with a Lua script." },
+		{ phase: 2, label: "incorrect", submission: "Lower the rate limit for everyone." },
+	],
+};
@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const grpcDeadlinePropagationGolden: GoldenSet = {
+	caseId: "grpc-deadline-propagation",
+	examples: [
+		{ phase: 1, label: "correct", submission: "Services start each downstream call from context.Background() with a fresh timeout instead of propagating the incoming deadline, so timeouts do not match the caller's remaining budget and work continues after callers gave up." },
+		{ phase: 1, label: "correct", submission: "Deadlines are not propagated; each hop creates a new one." },
+		{ phase: 1, label: "partial", submission: "The gRPC timeouts are misconfigured." },
+		{ phase: 1, label: "incorrect", submission: "A slow database query in the last service." },
+		{ phase: 2, label: "correct", submission: "Pass the incoming context through so the deadline propagates, and derive shorter child timeouts from the remaining budget." },
+		{ phase: 2, label: "partial", submission: "Pass the incoming context through in the order service." },
+		{ phase: 2, label: "incorrect", submission: "Set every service's timeout to 60 seconds." },
+	],
+};
@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const restApiPaginationDriftGolden: GoldenSet = {
+	caseId: "rest-api-pagination-drift",
+	examples: [
+		{ phase: 1, label: "correct", submission: "Pagination uses OFFSET, so when new products are inserted between page requests, rows shift and users see duplicates and miss items." },
+		{ phase: 1, label: "correct", submission: "OFFSET pagination drifts when inserts happen between pages." },
+		{ phase: 1, label: "partial", submission: "Pagination shows duplicate items." },
+		{ phase: 1, label: "incorrect", submission: "The product query is missing ORDER BY." },
+		{ phase: 2, label: "correct", submission: "Switch to cursor (keyset) pagination on created_at plus id." },
+		{ phase: 2, label: "partial", submission: "Deduplicate items by id on the client as pages load." },
+		{ phase: 2, label: "incorrect", submission: "Cache the first 10 pages of results." },
+	],
+};
@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const graphqlQueryComplexityAttackGolden: GoldenSet = {
+	caseId: "graphql-query-complexity-attack",
+	examples: [
+		{ phase: 1, label: "correct", submission: "The GraphQL API has no depth or complexity limits, so a deeply nested circular query like friends of friends multiplies into millions of resolved items and takes the service down." },
+		{ phase: 1, label: "correct", submission: "Missing depth/complexity limits allow nested query DoS." },
+		{ phase: 1, label: "partial", submission: "Some GraphQL queries are very expensive." },
+		{ phase: 1, label: "incorrect", submission: "A network-level DDoS flood." },
+		{ phase: 2, label: "correct", submission: "Add query depth limiting and complexity analysis, cap list sizes with pagination, and reject queries over budget." },
+		{ phase: 2, label: "partial", submission: "Limit queries to a maximum depth of 7." },
+		{ phase: 2, label: "incorrect", submission: "Rate limit the API to 10 requests per minute per IP." },
+	],
+};
@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const openapiSchemaDriftGolden: GoldenSet = {
+	caseId: "openapi-schema-drift",
+	examples: [
+		{ phase: 1, label: "correct", submission: "The backend renamed fields and changed types and updated its internal spec, but the public docs were never updated, so external clients following the docs send invalid requests and get 400s." },
+		{ phase: 1, label: "correct", submission: "Schema drift between the implementation and published docs." },
+		{ phase: 1, label: "partial", submission: "The API changed in a breaking way." },
+		{ phase: 1, label: "incorrect", submission: "The clients have a serialization bug." },
+		{ phase: 2, label: "correct", submission: "Version the API for breaking changes and publish docs from the same spec in CI, with contract tests." },
+		{ phase: 2, label: "partial", submission: "Update the public docs to match the current schema." },
+		{ phase: 2, label: "incorrect", submission: "Return more detailed 400 error messages." },
+	],
+};
@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const mtlsClientCertificateRotationGolden: GoldenSet = {
+	caseId: "mtls-client-certificate-rotation",
+	examples: [
+		{ phase: 1, label: "correct", submission: "The rotation replaced the trust stores with only the new CA, so pods not yet rolled still present certificates from the old CA and are rejected." },
+		{ phase: 1, label: "correct", submission: "Trust stores dropped the old CA before all clients moved to new certs." },
+		{ phase: 1, label: "partial", submission: "Certificate rotation broke mTLS." },
+		{ phase: 1, label: "incorrect", submission: "The new certificates have the wrong hostname." },
+		{ phase: 2, label: "correct", submission: "Rotate in phases: add the new CA to trust stores first, roll out new certs, then remove the old CA." },
+		{ phase: 2, label: "partial", submission: "Add the old CA back to the trust stores." },
+		{ phase: 2, label: "incorrect", submission: "Disable client certificate verification during deploys." },
+	],
+};
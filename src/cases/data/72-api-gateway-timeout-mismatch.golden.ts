@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const apiGatewayTimeoutMismatchGolden: GoldenSet = {
+	caseId: "api-gateway-timeout-mismatch",
+	examples: [
+		{ phase: 1, label: "correct", submission: "API Gateway has a hard 29-second integration timeout, but the report endpoint can take longer, so the gateway returns 504 even though the backend finishes." },
+		{ phase: 1, label: "correct", submission: "Backend work exceeds API Gateway's 29s hard limit." },
+		{ phase: 1, label: "partial", submission: "The timeouts are inconsistent between layers." },
+		{ phase: 1, label: "incorrect", submission: "The backend Lambda is cold starting." },
+		{ phase: 2, label: "correct", submission: "Make long operations async: return a job id and let the client poll or receive progress by SSE or a webhook." },
+		{ phase: 2, label: "partial", submission: "Add indexes so most reports finish in under 29 seconds." },
+		{ phase: 2, label: "incorrect", submission: "Raise the API Gateway timeout to 120 seconds." },
+	],
+};
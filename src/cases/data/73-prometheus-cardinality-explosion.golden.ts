@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const prometheusCardinalityExplosionGolden: GoldenSet = {
+	caseId: "prometheus-cardinality-explosion",
+	examples: [
+		{ phase: 1, label: "correct", submission: "Labels like user_id, request_id and trace_id create a new time series for every value, multiplied by histogram buckets, so series grow without bound and Prometheus OOMs." },
+		{ phase: 1, label: "correct", submission: "High-cardinality labels cause series explosion." },
+		{ phase: 1, label: "partial", submission: "Prometheus has too many metrics." },
+		{ phase: 1, label: "incorrect", submission: "The scrape interval is too short." },
+		{ phase: 2, label: "correct", submission: "Remove unbounded labels, keep low-cardinality ones like route and status, and use exemplars for trace correlation." },
+		{ phase: 2, label: "partial", submission: "Drop the user_id label with a relabeling rule." },
+		{ phase: 2, label: "incorrect", submission: "Give Prometheus more memory." },
+	],
+};
@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const datadogAgentCpuSpikeGolden: GoldenSet = {
+	caseId: "datadog-agent-cpu-spike",
+	examples: [
+		{ phase: 1, label: "correct", submission: "A log processing regex like [A-Za-z0-9+/=]{32,} backtracks catastrophically on the long JWTs in the new JSON logs, pegging the agent CPU." },
+		{ phase: 1, label: "correct", submission: "Catastrophic regex backtracking on the new log format." },
+		{ phase: 1, label: "partial", submission: "The log processing rules are expensive." },
+		{ phase: 1, label: "incorrect", submission: "The agent is collecting too many metrics." },
+		{ phase: 2, label: "correct", submission: "Replace the rule with a bounded, specific pattern or parse the structured JSON fields instead of regexing the raw line." },
+		{ phase: 2, label: "partial", submission: "Disable the slow parsing rule in the agent." },
+		{ phase: 2, label: "incorrect", submission: "Limit the agent to one CPU core." },
+	],
+};
@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const elkStackIndexBloatGolden: GoldenSet = {
+	caseId: "elk-stack-index-bloat",
+	examples: [
+		{ phase: 1, label: "correct", submission: "The ILM policy exists but was never attached to the index template, so daily indices are created unmanaged and never deleted, and the cluster fills up." },
+		{ phase: 1, label: "correct", submission: "ILM policy not referenced by the index template, so no retention runs." },
+		{ phase: 1, label: "partial", submission: "Old log indices are not deleted." },
+		{ phase: 1, label: "incorrect", submission: "The log volume suddenly increased." },
+		{ phase: 2, label: "correct", submission: "Delete old indices now, add the policy to the index template, and apply it to the existing indices." },
+		{ phase: 2, label: "partial", submission: "Delete the old indices manually." },
+		{ phase: 2, label: "incorrect", submission: "Add more data nodes to the cluster." },
+	],
+};
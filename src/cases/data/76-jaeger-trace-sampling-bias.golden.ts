@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const jaegerTraceSamplingBiasGolden: GoldenSet = {
+	caseId: "jaeger-trace-sampling-bias",
+	examples: [
+		{ phase: 1, label: "correct", submission: "Head-based 1% sampling decides before the request fails, so errors are sampled at the same 1% as everything else and most error traces are never kept." },
+		{ phase: 1, label: "correct", submission: "Head-based sampling cannot prefer errors." },
+		{ phase: 1, label: "partial", submission: "Sampling is dropping error traces." },
+		{ phase: 1, label: "incorrect", submission: "Jaeger's storage is dropping spans." },
+		{ phase: 2, label: "correct", submission: "Use tail-based sampling (e.g. in the OTel Collector) that keeps all error and slow traces." },
+		{ phase: 2, label: "partial", submission: "Force sampling at the edge for requests that return an error status." },
+		{ phase: 2, label: "incorrect", submission: "Set the sampling rate to 100% everywhere." },
+	],
+};
@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const pagerdutyAlertFatigueGolden: GoldenSet = {
+	caseId: "pagerduty-alert-fatigue",
+	examples: [
+		{ phase: 1, label: "correct", submission: "On-call gets 200+ pages a shift and 95% auto-resolve, so they learned to ack and wait, and ignored the real database alert." },
+		{ phase: 1, label: "correct", submission: "Alert fatigue from noisy, mostly false-positive alerts." },
+		{ phase: 1, label: "partial", submission: "There are too many alerts." },
+		{ phase: 1, label: "incorrect", submission: "PagerDuty failed to deliver the critical alert." },
+		{ phase: 2, label: "correct", submission: "Alert on customer-facing symptoms and SLOs, remove or downgrade non-actionable alerts, and separate urgency tiers." },
+		{ phase: 2, label: "partial", submission: "Delete the ten alerts that fired most often last month." },
+		{ phase: 2, label: "incorrect", submission: "Add a second on-call engineer." },
+	],
+};
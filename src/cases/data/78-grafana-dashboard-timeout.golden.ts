@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const grafanaDashboardTimeoutGolden: GoldenSet = {
+	caseId: "grafana-dashboard-timeout",
+	examples: [
+		{ phase: 1, label: "correct", submission: "The dashboard panels query 7-day ranges over high-cardinality series, scanning hundreds of millions of samples, so Prometheus queries time out." },
+		{ phase: 1, label: "correct", submission: "Expensive long-range, high-cardinality dashboard queries." },
+		{ phase: 1, label: "partial", submission: "The dashboard queries are slow." },
+		{ phase: 1, label: "incorrect", submission: "Grafana's database is too small." },
+		{ phase: 2, label: "correct", submission: "Pre-aggregate with recording rules and point the panels at them, reducing cardinality and ranges." },
+		{ phase: 2, label: "partial", submission: "Limit dashboard time ranges to 24 hours." },
+		{ phase: 2, label: "incorrect", submission: "Increase Grafana's query timeout." },
+	],
+};
@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const newRelicApmOverheadGolden: GoldenSet = {
+	caseId: "new-relic-apm-overhead",
+	examples: [
+		{ phase: 1, label: "correct", submission: "The agent traces every transaction with wildcard class instrumentation, producing hundreds of spans per request with many attributes, which adds about 30% overhead." },
+		{ phase: 1, label: "correct", submission: "Over-instrumentation from trace-everything config." },
+		{ phase: 1, label: "partial", submission: "The APM agent adds overhead." },
+		{ phase: 1, label: "incorrect", submission: "The app has a memory leak unrelated to APM." },
+		{ phase: 2, label: "correct", submission: "Restore a transaction threshold and sampling, remove wildcard instrumentation, and instrument only key methods." },
+		{ phase: 2, label: "partial", submission: "Lower the trace sampling rate to 10%." },
+		{ phase: 2, label: "incorrect", submission: "Remove the APM agent entirely." },
+	],
+};
@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const opentelemetryContextLossGolden: GoldenSet = {
+	caseId: "opentelemetry-context-loss",
+	examples: [
+		{ phase: 1, label: "correct", submission: "Auto-instrumentation propagates context over HTTP but not through Kafka or the job queue, so each consumer starts a new trace and traces break at async boundaries." },
+		{ phase: 1, label: "correct", submission: "Context not injected/extracted across message queues." },
+		{ phase: 1, label: "partial", submission: "Traces are broken." },
+		{ phase: 1, label: "incorrect", submission: "The tracing backend drops spans." },
+		{ phase: 2, label: "correct", submission: "Inject trace context into message headers when producing and extract and activate it when consuming." },
+		{ phase: 2, label: "partial", submission: "Inject the trace context into the Kafka message headers." },
+		{ phase: 2, label: "incorrect", submission: "Raise the sampling rate." },
+	],
+};
@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const cloudwatchLogInsightsCostGolden: GoldenSet = {
+	caseId: "cloudwatch-log-insights-cost",
+	examples: [
+		{ phase: 1, label: "correct", submission: "A dashboard runs Log Insights queries over 30 days of all log groups and refreshes every 5 minutes, so each refresh scans about 370 GB and the per-GB charge adds up to $50K a month." },
+		{ phase: 1, label: "correct", submission: "Frequent dashboard refreshes scanning 30 days of logs drive the scan cost." },
+		{ phase: 1, label: "partial", submission: "Log Insights queries are expensive." },
+		{ phase: 1, label: "incorrect", submission: "Log ingestion volume tripled." },
+		{ phase: 2, label: "correct", submission: "Narrow the time range and log groups, refresh rarely, and replace the panels with metric filters." },
+		{ phase: 2, label: "partial", submission: "Change the dashboard refresh from 5 minutes to 1 hour." },
+		{ phase: 2, label: "incorrect", submission: "Move the logs to a cheaper storage class." },
+	],
+};
@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const sentryEventFloodGolden: GoldenSet = {
+	caseId: "sentry-event-flood",
+	examples: [
+		{ phase: 1, label: "correct", submission: "Sentry captures 100% of errors with no sampling or rate limits, and a TypeError on every logged-out page load generated tens of thousands of events a minute, burning the monthly quota in an hour." },
+		{ phase: 1, label: "correct", submission: "Hot-path bug plus no client sampling or rate limiting flooded Sentry." },
+		{ phase: 1, label: "partial", submission: "Too many errors are sent to Sentry." },
+		{ phase: 1, label: "incorrect", submission: "Sentry's quota was lowered by the vendor." },
+		{ phase: 2, label: "correct", submission: "Fix the TypeError, set a sample rate, add beforeSend filtering and per-issue rate limits or spike protection." },
+		{ phase: 2, label: "partial", submission: "Fix the TypeError on the product page." },
+		{ phase: 2, label: "incorrect", submission: "Buy a larger Sentry plan." },
+	],
+};
@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const nodejsEventLoopStarvationGolden: GoldenSet = {
+	caseId: "nodejs-event-loop-starvation",
+	examples: [
+		{ phase: 1, label: "correct", submission: "The perceptual hash runs a synchronous O(n^2) DCT on the main thread, blocking the event loop so no other requests, timers or health checks run." },
+		{ phase: 1, label: "correct", submission: "CPU-bound sync work blocks the Node.js event loop." },
+		{ phase: 1, label: "partial", submission: "Image processing makes the API slow." },
+		{ phase: 1, label: "incorrect", submission: "The API has a memory leak." },
+		{ phase: 2, label: "correct", submission: "Move the hashing to worker threads (e.g. a Piscina pool) so the main thread stays free." },
+		{ phase: 2, label: "partial", submission: "Lower the bcrypt cost factor so each hash takes less time." },
+		{ phase: 2, label: "incorrect", submission: "Wrap the hash function in an async function." },
+	],
+};
@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const javaGcStopTheWorldGolden: GoldenSet = {
+	caseId: "java-gc-stop-the-world",
+	examples: [
+		{ phase: 1, label: "correct", submission: "CMS does not compact, the old generation fragments, promotions fail and trigger a concurrent mode failure that falls back to a serial full GC on the huge heap, freezing the app for 30 seconds." },
+		{ phase: 1, label: "correct", submission: "CMS concurrent mode failures cause serial stop-the-world Full GCs." },
+		{ phase: 1, label: "partial", submission: "Garbage collection pauses are too long." },
+		{ phase: 1, label: "incorrect", submission: "The application threads are deadlocked." },
+		{ phase: 2, label: "correct", submission: "Switch to G1 (or ZGC) with a pause-time target and reduce large in-heap caches, e.g. move them off-heap." },
+		{ phase: 2, label: "partial", submission: "Lower CMSInitiatingOccupancyFraction so CMS starts collecting earlier." },
+		{ phase: 2, label: "incorrect", submission: "Double the heap size." },
+	],
+};
@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const goGoroutineLeakGolden: GoldenSet = {
+	caseId: "go-goroutine-leak",
+	examples: [
+		{ phase: 1, label: "correct", submission: "After a timeout the caller stops reading the unbuffered response channel, so the worker blocks forever on its send and goroutines pile up." },
+		{ phase: 1, label: "correct", submission: "Workers block sending to abandoned unbuffered channels after timeouts." },
+		{ phase: 1, label: "partial", submission: "Goroutines are leaking." },
+		{ phase: 1, label: "incorrect", submission: "The garbage collector is not running often enough." },
+		{ phase: 2, label: "correct", submission: "Use a buffered channel of size 1 or pass a context and select on ctx.Done() when sending." },
+		{ phase: 2, label: "partial", submission: "Alert when runtime.NumGoroutine keeps growing." },
+		{ phase: 2, label: "incorrect", submission: "Increase GOMAXPROCS." },
+	],
+};
@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const pythonGilContentionGolden: GoldenSet = {
+	caseId: "python-gil-contention",
+	examples: [
+		{ phase: 1, label: "correct", submission: "The work is CPU-bound pure Python, and the GIL lets only one thread run bytecode at a time, so extra threads just add contention and switching overhead." },
+		{ phase: 1, label: "correct", submission: "GIL contention makes threads slower for CPU-bound code." },
+		{ phase: 1, label: "partial", submission: "Python threads are not running in parallel." },
+		{ phase: 1, label: "incorrect", submission: "The thread pool is too small." },
+		{ phase: 2, label: "correct", submission: "Use a ProcessPoolExecutor or multiprocessing for CPU-bound work, or vectorize with numpy, which releases the GIL." },
+		{ phase: 2, label: "partial", submission: "Reduce the thread pool to a single thread." },
+		{ phase: 2, label: "incorrect", submission: "Increase the number of threads to 64." },
+	],
+};
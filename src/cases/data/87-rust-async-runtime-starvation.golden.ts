@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const rustAsyncRuntimeStarvationGolden: GoldenSet = {
+	caseId: "rust-async-runtime-starvation",
+	examples: [
+		{ phase: 1, label: "correct", submission: "The synchronous image resize runs inside an async task, never yields, and blocks a Tokio worker thread, so other tasks on that runtime stop making progress." },
+		{ phase: 1, label: "correct", submission: "Blocking CPU work in async context starves the Tokio runtime." },
+		{ phase: 1, label: "partial", submission: "Some Tokio tasks are slow." },
+		{ phase: 1, label: "incorrect", submission: "There is a deadlock on a mutex." },
+		{ phase: 2, label: "correct", submission: "Run the resize in tokio::task::spawn_blocking or a rayon pool." },
+		{ phase: 2, label: "partial", submission: "Add more worker threads to the Tokio runtime." },
+		{ phase: 2, label: "incorrect", submission: "Add more .await calls around the resize." },
+	],
+};
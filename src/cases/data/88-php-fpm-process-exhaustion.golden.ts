@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const phpFpmProcessExhaustionGolden: GoldenSet = {
+	caseId: "php-fpm-process-exhaustion",
+	examples: [
+		{ phase: 1, label: "correct", submission: "The product search query takes 5-15 seconds (LIKE '%...%' with no index and no LIMIT), so all 50 PHP-FPM workers are busy waiting on it and nginx returns 502." },
+		{ phase: 1, label: "correct", submission: "Slow queries hold every PHP-FPM worker, exhausting the pool." },
+		{ phase: 1, label: "partial", submission: "PHP-FPM runs out of workers." },
+		{ phase: 1, label: "incorrect", submission: "Nginx's worker_connections is too low." },
+		{ phase: 2, label: "correct", submission: "Fix the query (full-text index, LIMIT, or search engine) and tune max_children and request timeouts." },
+		{ phase: 2, label: "partial", submission: "Set request_terminate_timeout so stuck workers get killed." },
+		{ phase: 2, label: "incorrect", submission: "Raise max_children to 500." },
+	],
+};
@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const rubyThreadPoolDeadlockGolden: GoldenSet = {
+	caseId: "ruby-thread-pool-deadlock",
+	examples: [
+		{ phase: 1, label: "correct", submission: "Each request thread holds a DB connection and spawns child threads that each need another connection, so with a pool of 5 the children wait on connections held by their parents and everything deadlocks." },
+		{ phase: 1, label: "correct", submission: "Nested parallelism exhausts the connection pool and deadlocks." },
+		{ phase: 1, label: "partial", submission: "Puma threads wait for database connections." },
+		{ phase: 1, label: "incorrect", submission: "The database has row-level lock contention." },
+		{ phase: 2, label: "correct", submission: "Process items sequentially inside the request, or size the pool for parents plus children and release the parent's connection first." },
+		{ phase: 2, label: "partial", submission: "Increase the database pool size to 50." },
+		{ phase: 2, label: "incorrect", submission: "Increase the Puma thread count." },
+	],
+};
@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const dotnetLohFragmentationGolden: GoldenSet = {
+	caseId: "dotnet-loh-fragmentation",
+	examples: [
+		{ phase: 1, label: "correct", submission: "Large byte arrays over 85KB go on the Large Object Heap, which is not compacted, so it fragments and big allocations fail even though total free memory is high." },
+		{ phase: 1, label: "correct", submission: "LOH fragmentation causes OutOfMemoryException." },
+		{ phase: 1, label: "partial", submission: "The app allocates lots of memory." },
+		{ phase: 1, label: "incorrect", submission: "The container memory limit is too low." },
+		{ phase: 2, label: "correct", submission: "Reuse buffers with ArrayPool, stream data instead of allocating huge arrays, and compact the LOH when needed." },
+		{ phase: 2, label: "partial", submission: "Periodically compact the LOH with GCSettings.LargeObjectHeapCompactionMode." },
+		{ phase: 2, label: "incorrect", submission: "Call GC.Collect after every document." },
+	],
+};
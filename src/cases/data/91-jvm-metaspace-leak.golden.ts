@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const jvmMetaspaceLeakGolden: GoldenSet = {
+	caseId: "jvm-metaspace-leak",
+	examples: [
+		{ phase: 1, label: "correct", submission: "Every compile creates classes in a new GroovyClassLoader, and Groovy's global MetaClass registry keeps references to them, so class loaders are never collected and Metaspace fills up." },
+		{ phase: 1, label: "correct", submission: "Class loaders retained by Groovy's registry leak Metaspace." },
+		{ phase: 1, label: "partial", submission: "Metaspace keeps growing." },
+		{ phase: 1, label: "incorrect", submission: "The heap is too small." },
+		{ phase: 2, label: "correct", submission: "Cache compiled scripts instead of recompiling, and clear the class cache/metaclass entries when scripts are discarded." },
+		{ phase: 2, label: "partial", submission: "Call clearCache() on the GroovyClassLoader after each script runs." },
+		{ phase: 2, label: "incorrect", submission: "Raise MaxMetaspaceSize." },
+	],
+};
@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const nodejsBufferPoolExhaustionGolden: GoldenSet = {
+	caseId: "nodejs-buffer-pool-exhaustion",
+	examples: [
+		{ phase: 1, label: "correct", submission: "Uploads are fully buffered in memory with memoryStorage and each transform creates another full Buffer, so concurrent large uploads exhaust memory." },
+		{ phase: 1, label: "correct", submission: "Too many large Buffers held concurrently from in-memory file processing." },
+		{ phase: 1, label: "partial", submission: "Node runs out of memory on uploads." },
+		{ phase: 1, label: "incorrect", submission: "The V8 heap limit is too low." },
+		{ phase: 2, label: "correct", submission: "Stream uploads through disk or pipelines instead of buffering, and limit concurrency with something like p-limit." },
+		{ phase: 2, label: "partial", submission: "Limit concurrent uploads to 5 with p-limit." },
+		{ phase: 2, label: "incorrect", submission: "Increase --max-old-space-size." },
+	],
+};
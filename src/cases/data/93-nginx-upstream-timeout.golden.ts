@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const nginxUpstreamTimeoutGolden: GoldenSet = {
+	caseId: "nginx-upstream-timeout",
+	examples: [
+		{ phase: 1, label: "correct", submission: "proxy_read_timeout is 60 seconds but some endpoints, like the annual report, legitimately take 85-120 seconds, so nginx gives up and returns 504." },
+		{ phase: 1, label: "correct", submission: "proxy_read_timeout too low for slow endpoints." },
+		{ phase: 1, label: "partial", submission: "Some requests time out at nginx." },
+		{ phase: 1, label: "incorrect", submission: "The backends are unhealthy." },
+		{ phase: 2, label: "correct", submission: "Raise the timeout only for the slow locations, or move those endpoints to async jobs." },
+		{ phase: 2, label: "partial", submission: "Raise proxy_read_timeout to 300s globally." },
+		{ phase: 2, label: "incorrect", submission: "Add more backend servers." },
+	],
+};
@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const haproxyHealthCheckFlapGolden: GoldenSet = {
+	caseId: "haproxy-health-check-flap",
+	examples: [
+		{ phase: 1, label: "correct", submission: "The health endpoint checks every dependency, including the payment service, and when any of them is slow the check exceeds HAProxy's 5-second timeout, so backends flap up and down." },
+		{ phase: 1, label: "correct", submission: "Deep health check with a too-aggressive timeout causes flapping." },
+		{ phase: 1, label: "partial", submission: "Health checks fail intermittently." },
+		{ phase: 1, label: "incorrect", submission: "The backends are crashing." },
+		{ phase: 2, label: "correct", submission: "Use a shallow liveness endpoint for HAProxy, keep deep checks separate, and relax timeouts with rise/fall thresholds." },
+		{ phase: 2, label: "partial", submission: "Raise the health check timeout to 10 seconds." },
+		{ phase: 2, label: "incorrect", submission: "Disable health checks." },
+	],
+};
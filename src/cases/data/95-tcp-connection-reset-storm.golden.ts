@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const tcpConnectionResetStormGolden: GoldenSet = {
+	caseId: "tcp-connection-reset-storm",
+	examples: [
+		{ phase: 1, label: "correct", submission: "The firewall drops idle connection tracking entries after 60 seconds, but TCP keep-alive only probes after 2 hours, so idle connections are forgotten and then reset." },
+		{ phase: 1, label: "correct", submission: "Conntrack timeout shorter than keep-alive interval." },
+		{ phase: 1, label: "partial", submission: "The firewall is resetting connections." },
+		{ phase: 1, label: "incorrect", submission: "The server runs out of file descriptors." },
+		{ phase: 2, label: "correct", submission: "Set TCP keep-alive (or app-level pings) shorter than the firewall timeout, or raise the firewall timeout." },
+		{ phase: 2, label: "partial", submission: "Retry a request once when it fails with ECONNRESET." },
+		{ phase: 2, label: "incorrect", submission: "Retry every failed request." },
+	],
+};
@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const dnsTtlCachePoisoningGolden: GoldenSet = {
+	caseId: "dns-ttl-cache-poisoning",
+	examples: [
+		{ phase: 1, label: "correct", submission: "The record had a 24-hour TTL that was not lowered before the IP change, so resolvers kept the old IP cached for up to a day." },
+		{ phase: 1, label: "correct", submission: "TTL was not reduced ahead of the migration." },
+		{ phase: 1, label: "partial", submission: "DNS caches are stale." },
+		{ phase: 1, label: "incorrect", submission: "The new server's certificate is invalid." },
+		{ phase: 2, label: "correct", submission: "Lower the TTL days before a migration, keep the old servers running until caches expire, and fix JVM DNS caching." },
+		{ phase: 2, label: "partial", submission: "Flush the DNS caches on our servers." },
+		{ phase: 2, label: "incorrect", submission: "Change the IP back and forth until it propagates." },
+	],
+};
@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const tlsHandshakeTimeoutGolden: GoldenSet = {
+	caseId: "tls-handshake-timeout",
+	examples: [
+		{ phase: 1, label: "correct", submission: "The certificate chain includes root certificates and extra cross-signed intermediates, making the handshake about 13KB, which needs extra round trips on slow mobile links and times out." },
+		{ phase: 1, label: "correct", submission: "Bloated certificate chain makes the TLS handshake too big." },
+		{ phase: 1, label: "partial", submission: "TLS handshakes are slow." },
+		{ phase: 1, label: "incorrect", submission: "The certificate has expired." },
+		{ phase: 2, label: "correct", submission: "Serve only the leaf plus the needed intermediate, no roots, and enable session resumption and OCSP stapling." },
+		{ phase: 2, label: "partial", submission: "Enable TLS session resumption." },
+		{ phase: 2, label: "incorrect", submission: "Disable TLS on mobile endpoints." },
+	],
+};
@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const http2StreamMultiplexingGolden: GoldenSet = {
+	caseId: "http2-stream-multiplexing",
+	examples: [
+		{ phase: 1, label: "correct", submission: "A 13MB report is sent over the same HTTP/2 connection, and because of proxy buffering and TCP-level head-of-line blocking it monopolizes the connection, delaying the small requests." },
+		{ phase: 1, label: "correct", submission: "TCP head-of-line blocking from a large response on the shared HTTP/2 connection." },
+		{ phase: 1, label: "partial", submission: "HTTP/2 responses block each other." },
+		{ phase: 1, label: "incorrect", submission: "The backend is slow." },
+		{ phase: 2, label: "correct", submission: "Disable proxy buffering for streaming responses, serve large downloads over a separate connection or domain, and use stream priorities." },
+		{ phase: 2, label: "partial", submission: "Serve the large downloads from a separate domain." },
+		{ phase: 2, label: "incorrect", submission: "Switch back to HTTP/1.0." },
+	],
+};
@@ -0,0 +1,14 @@
+import type { GoldenSet } from "../../types";
+
+export const bgpRouteLeakGolden: GoldenSet = {
+	caseId: "bgp-route-leak",
+	examples: [
+		{ phase: 1, label: "correct", submission: "The transit provider removed prefix filters and re-announced our prefix to networks without a valid return path, so traffic was routed into a black hole." },
+		{ phase: 1, label: "correct", submission: "BGP route leak by the transit provider." },
+		{ phase: 1, label: "partial", submission: "There is a BGP routing issue." },
+		{ phase: 1, label: "incorrect", submission: "A DDoS attack on our network." },
+		{ phase: 2, label: "correct", submission: "Have the provider restore export filtering, sign our prefixes with RPKI ROAs, and monitor BGP announcements." },
+		{ phase: 2, label: "partial", submission: "Ask the transit provider to fix their export filters." },
+		{ phase: 2, label: "incorrect", submission: "Change our IP addresses." },
+	],
+};
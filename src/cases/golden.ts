@@ -0,0 +1,261 @@
+/**
+ * Golden Sets - human-labeled submissions for measuring grader accuracy.
+ *
+ * Each case's set lives next to its case file as `<case>.golden.ts`. Replay
+ * them with `npm run eval:graders` after changing grading prompts or models.
+ */
+
+import type { GoldenSet } from "../types";
+
+import { databaseDisappearingActGolden } from "./data/01-database-disappearing-act.golden";
+import { blackFridayDisasterGolden } from "./data/02-black-friday-disaster.golden";
+import { memoryExplosionMysteryGolden } from "./data/03-memory-explosion-mystery.golden";
+import { ghostUsersProblemGolden } from "./data/04-ghost-users-problem.golden";
+import { infiniteLoopIncidentGolden } from "./data/05-infinite-loop-incident.golden";
+import { mysteriousMemoryLeakGolden } from "./data/06-mysterious-memory-leak.golden";
+import { silentAuthCrisisGolden } from "./data/07-silent-auth-crisis.golden";
+import { vanishingAchievementsGolden } from "./data/08-vanishing-achievements.golden";
+import { weekendWarriorsCrisisGolden } from "./data/09-weekend-warriors-crisis.golden";
+import { mysteriousSlowLoginsGolden } from "./data/10-mysterious-slow-logins.golden";
+import { phantomFriendRequestsGolden } from "./data/11-phantom-friend-requests.golden";
+import { midnightDataSwapGolden } from "./data/12-midnight-data-swap.golden";
+import { databaseInconsistencyGolden } from "./data/13-database-inconsistency.golden";
+import { invisibleApiGolden } from "./data/14-invisible-api.golden";
+import { vanishingMultiplayerMatchesGolden } from "./data/15-vanishing-multiplayer-matches.golden";
+import { invisibleTrafficSpikeGolden } from "./data/16-invisible-traffic-spike.golden";
+import { kubernetesPodMysteryGolden } from "./data/17-kubernetes-pod-mystery.golden";
+import { kafkaConsumerLagGolden } from "./data/18-kafka-consumer-lag.golden";
+import { graphqlNPlusOneGolden } from "./data/19-graphql-n-plus-one.golden";
+import { websocketMemoryLeakGolden } from "./data/20-websocket-memory-leak.golden";
+import { featureFlagFiascoGolden } from "./data/21-feature-flag-fiasco.golden";
+import { elasticsearchIndexingStormGolden } from "./data/22-elasticsearch-indexing-storm.golden";
+import { lambdaColdStartCascadeGolden } from "./data/23-lambda-cold-start-cascade.golden";
+import { s3EventualConsistencyGolden } from "./data/24-s3-eventual-consistency.golden";
+import { dynamodbHotPartitionGolden } from "./data/25-dynamodb-hot-partition.golden";
+import { rdsConnectionStormGolden } from "./data/26-rds-connection-storm.golden";
+import { sqsMessageDuplicationGolden } from "./data/27-sqs-message-duplication.golden";
+import { cloudfrontCachePoisoningGolden } from "./data/28-cloudfront-cache-poisoning.golden";
+import { ecsTaskPlacementGolden } from "./data/29-ecs-task-placement.golden";
+import { secretsManagerRateLimitGolden } from "./data/30-secrets-manager-rate-limit.golden";
+import { albTargetDeregistrationGolden } from "./data/31-alb-target-deregistration.golden";
+import { snsFanoutBottleneckGolden } from "./data/32-sns-fanout-bottleneck.golden";
+import { postgresqlVacuumFreezeGolden } from "./data/33-postgresql-vacuum-freeze.golden";
+import { mongodbWriteConcernGolden } from "./data/34-mongodb-write-concern.golden";
+import { cassandraTombstoneAvalancheGolden } from "./data/35-cassandra-tombstone-avalanche.golden";
+import { mysqlReplicationLagGolden } from "./data/36-mysql-replication-lag.golden";
+import { redisClusterSlotMigrationGolden } from "./data/37-redis-cluster-slot-migration.golden";
+import { cockroachdbClockSkewGolden } from "./data/38-cockroachdb-clock-skew.golden";
+import { postgresqlLockContentionGolden } from "./data/39-postgresql-lock-contention.golden";
+import { mongodbShardingJumboChunksGolden } from "./data/40-mongodb-sharding-jumbo-chunks.golden";
+import { mysqlIndexCardinalityGolden } from "./data/41-mysql-index-cardinality.golden";
+import { timescaledbChunkCompressionGolden } from "./data/42-timescaledb-chunk-compression.golden";
+import { rabbitmqMemoryAlarmGolden } from "./data/43-rabbitmq-memory-alarm.golden";
+import { kafkaRebalanceStormGolden } from "./data/44-kafka-rebalance-storm.golden";
+import { natsJetstreamReplayGolden } from "./data/45-nats-jetstream-replay.golden";
+import { redisPubsubBackpressureGolden } from "./data/46-redis-pubsub-backpressure.golden";
+import { pulsarBacklogGolden } from "./data/47-pulsar-backlog.golden";
+import { celeryVisibilityTimeoutGolden } from "./data/48-celery-visibility-timeout.golden";
+import { kinesisShardIteratorExpiryGolden } from "./data/49-kinesis-shard-iterator-expiry.golden";
+import { bullQueueStalledJobsGolden } from "./data/50-bull-queue-stalled-jobs.golden";
+import { mqttQosMismatchGolden } from "./data/51-mqtt-qos-mismatch.golden";
+import { pubsubAckDeadlineGolden } from "./data/52-pubsub-ack-deadline.golden";
+import { kubernetesHpaThrashingGolden } from "./data/53-kubernetes-hpa-thrashing.golden";
+import { istioSidecarInjectionFailureGolden } from "./data/54-istio-sidecar-injection-failure.golden";
+import { helmChartVersionDriftGolden } from "./data/55-helm-chart-version-drift.golden";
+import { kubernetesCrashLoopBackOffGolden } from "./data/56-kubernetes-crashloopbackoff.golden";
+import { serviceMeshMtlsExpiryGolden } from "./data/57-service-mesh-mtls-expiry.golden";
+import { kubernetesPvcStuckTerminatingGolden } from "./data/58-kubernetes-pvc-stuck-terminating.golden";
+import { dockerLayerCacheInvalidationGolden } from "./data/59-docker-layer-cache-invalidation.golden";
+import { kubernetesNodeNotReadyGolden } from "./data/60-kubernetes-node-not-ready.golden";
+import { envoyProxyCircuitBreakGolden } from "./data/61-envoy-proxy-circuit-break.golden";
+import { argocdSyncLoopGolden } from "./data/62-argocd-sync-loop.golden";
+import { jwtTokenSizeExplosionGolden } from "./data/63-jwt-token-size-explosion.golden";
+import { oauth2RefreshTokenRaceGolden } from "./data/64-oauth2-refresh-token-race.golden";
+import { corsPreflightCacheMissGolden } from "./data/65-cors-preflight-cache-miss.golden";
+import { apiRateLimitLeakGolden } from "./data/66-api-rate-limit-leak.golden";
+import { grpcDeadlinePropagationGolden } from "./data/67-grpc-deadline-propagation.golden";
+import { restApiPaginationDriftGolden } from "./data/68-rest-api-pagination-drift.golden";
+import { graphqlQueryComplexityAttackGolden } from "./data/69-graphql-query-complexity-attack.golden";
+import { openapiSchemaDriftGolden } from "./data/70-openapi-schema-drift.golden";
+import { mtlsClientCertificateRotationGolden } from "./data/71-mtls-client-certificate-rotation.golden";
+import { apiGatewayTimeoutMismatchGolden } from "./data/72-api-gateway-timeout-mismatch.golden";
+import { prometheusCardinalityExplosionGolden } from "./data/73-prometheus-cardinality-explosion.golden";
+import { datadogAgentCpuSpikeGolden } from "./data/74-datadog-agent-cpu-spike.golden";
+import { elkStackIndexBloatGolden } from "./data/75-elk-stack-index-bloat.golden";
+import { jaegerTraceSamplingBiasGolden } from "./data/76-jaeger-trace-sampling-bias.golden";
+import { pagerdutyAlertFatigueGolden } from "./data/77-pagerduty-alert-fatigue.golden";
+import { grafanaDashboardTimeoutGolden } from "./data/78-grafana-dashboard-timeout.golden";
+import { newRelicApmOverheadGolden } from "./data/79-new-relic-apm-overhead.golden";
+import { opentelemetryContextLossGolden } from "./data/80-opentelemetry-context-loss.golden";
+import { cloudwatchLogInsightsCostGolden } from "./data/81-cloudwatch-log-insights-cost.golden";
+import { sentryEventFloodGolden } from "./data/82-sentry-event-flood.golden";
+import { nodejsEventLoopStarvationGolden } from "./data/83-nodejs-event-loop-starvation.golden";
+import { javaGcStopTheWorldGolden } from "./data/84-java-gc-stop-the-world.golden";
+import { goGoroutineLeakGolden } from "./data/85-go-goroutine-leak.golden";
+import { pythonGilContentionGolden } from "./data/86-python-gil-contention.golden";
+import { rustAsyncRuntimeStarvationGolden } from "./data/87-rust-async-runtime-starvation.golden";
+import { phpFpmProcessExhaustionGolden } from "./data/88-php-fpm-process-exhaustion.golden";
+import { rubyThreadPoolDeadlockGolden } from "./data/89-ruby-thread-pool-deadlock.golden";
+import { dotnetLohFragmentationGolden } from "./data/90-dotnet-loh-fragmentation.golden";
+import { jvmMetaspaceLeakGolden } from "./data/91-jvm-metaspace-leak.golden";
+import { nodejsBufferPoolExhaustionGolden } from "./data/92-nodejs-buffer-pool-exhaustion.golden";
+import { nginxUpstreamTimeoutGolden } from "./data/93-nginx-upstream-timeout.golden";
+import { haproxyHealthCheckFlapGolden } from "./data/94-haproxy-health-check-flap.golden";
+import { tcpConnectionResetStormGolden } from "./data/95-tcp-connection-reset-storm.golden";
+import { dnsTtlCachePoisoningGolden } from "./data/96-dns-ttl-cache-poisoning.golden";
+import { tlsHandshakeTimeoutGolden } from "./data/97-tls-handshake-timeout.golden";
+import { http2StreamMultiplexingGolden } from "./data/98-http2-stream-multiplexing.golden";
+import { bgpRouteLeakGolden } from "./data/99-bgp-route-leak.golden";
+import { mtuPathDiscoveryFailureGolden } from "./data/100-mtu-path-discovery-failure.golden";
+import { loadBalancerStickySessionGolden } from "./data/101-load-balancer-sticky-session.golden";
+import { websocketProxyBufferingGolden } from "./data/102-websocket-proxy-buffering.golden";
+import { circuitBreakerHalfOpenGolden } from "./data/103-circuit-breaker-half-open.golden";
+import { retryStormAmplificationGolden } from "./data/104-retry-storm-amplification.golden";
+import { bulkheadIsolationBreachGolden } from "./data/105-bulkhead-isolation-breach.golden";
+import { sagaCompensationFailureGolden } from "./data/106-saga-compensation-failure.golden";
+import { eventSourcingProjectionLagGolden } from "./data/107-event-sourcing-projection-lag.golden";
+import { cqrsCommandValidationGolden } from "./data/108-cqrs-command-validation.golden";
+import { idempotencyKeyCollisionGolden } from "./data/109-idempotency-key-collision.golden";
+import { twoPhaseCommitTimeoutGolden } from "./data/110-two-phase-commit-timeout.golden";
+import { optimisticLockingConflictGolden } from "./data/111-optimistic-locking-conflict.golden";
+import { ciPipelineCacheCorruptionGolden } from "./data/113-ci-pipeline-cache-corruption.golden";
+import { blueGreenDeploymentDnsGolden } from "./data/114-blue-green-deployment-dns.golden";
+import { canaryReleaseMetricSkewGolden } from "./data/115-canary-release-metric-skew.golden";
+import { databaseMigrationLockGolden } from "./data/116-database-migration-lock.golden";
+import { featureToggleMemoryLeakGolden } from "./data/117-feature-toggle-memory-leak.golden";
+import { configHotReloadRaceGolden } from "./data/118-config-hot-reload-race.golden";
+import { zeroDowntimeDeployFailureGolden } from "./data/119-zero-downtime-deploy-failure.golden";
+import { terraformStateCorruptionGolden } from "./data/120-terraform-state-corruption.golden";
+import { gitopsSyncConflictGolden } from "./data/121-gitops-sync-conflict.golden";
+import { secretRotationFailureGolden } from "./data/122-secret-rotation-failure.golden";
+
+export const goldenSets: GoldenSet[] = [
+	databaseDisappearingActGolden,
+	blackFridayDisasterGolden,
+	memoryExplosionMysteryGolden,
+	ghostUsersProblemGolden,
+	infiniteLoopIncidentGolden,
+	mysteriousMemoryLeakGolden,
+	silentAuthCrisisGolden,
+	vanishingAchievementsGolden,
+	weekendWarriorsCrisisGolden,
+	mysteriousSlowLoginsGolden,
+	phantomFriendRequestsGolden,
+	midnightDataSwapGolden,
+	databaseInconsistencyGolden,
+	invisibleApiGolden,
+	vanishingMultiplayerMatchesGolden,
+	invisibleTrafficSpikeGolden,
+	kubernetesPodMysteryGolden,
+	kafkaConsumerLagGolden,
+	graphqlNPlusOneGolden,
+	websocketMemoryLeakGolden,
+	featureFlagFiascoGolden,
+	elasticsearchIndexingStormGolden,
+	lambdaColdStartCascadeGolden,
+	s3EventualConsistencyGolden,
+	dynamodbHotPartitionGolden,
+	rdsConnectionStormGolden,
+	sqsMessageDuplicationGolden,
+	cloudfrontCachePoisoningGolden,
+	ecsTaskPlacementGolden,
+	secretsManagerRateLimitGolden,
+	albTargetDeregistrationGolden,
+	snsFanoutBottleneckGolden,
+	postgresqlVacuumFreezeGolden,
+	mongodbWriteConcernGolden,
+	cassandraTombstoneAvalancheGolden,
+	mysqlReplicationLagGolden,
+	redisClusterSlotMigrationGolden,
+	cockroachdbClockSkewGolden,
+	postgresqlLockContentionGolden,
+	mongodbShardingJumboChunksGolden,
+	mysqlIndexCardinalityGolden,
+	timescaledbChunkCompressionGolden,
+	rabbitmqMemoryAlarmGolden,
+	kafkaRebalanceStormGolden,
+	natsJetstreamReplayGolden,
+	redisPubsubBackpressureGolden,
+	pulsarBacklogGolden,
+	celeryVisibilityTimeoutGolden,
+	kinesisShardIteratorExpiryGolden,
+	bullQueueStalledJobsGolden,
+	mqttQosMismatchGolden,
+	pubsubAckDeadlineGolden,
+	kubernetesHpaThrashingGolden,
+	istioSidecarInjectionFailureGolden,
+	helmChartVersionDriftGolden,
+	kubernetesCrashLoopBackOffGolden,
+	serviceMeshMtlsExpiryGolden,
+	kubernetesPvcStuckTerminatingGolden,
+	dockerLayerCacheInvalidationGolden,
+	kubernetesNodeNotReadyGolden,
+	envoyProxyCircuitBreakGolden,
+	argocdSyncLoopGolden,
+	jwtTokenSizeExplosionGolden,
+	oauth2RefreshTokenRaceGolden,
+	corsPreflightCacheMissGolden,
+	apiRateLimitLeakGolden,
+	grpcDeadlinePropagationGolden,
+	restApiPaginationDriftGolden,
+	graphqlQueryComplexityAttackGolden,
+	openapiSchemaDriftGolden,
+	mtlsClientCertificateRotationGolden,
+	apiGatewayTimeoutMismatchGolden,
+	prometheusCardinalityExplosionGolden,
+	datadogAgentCpuSpikeGolden,
+	elkStackIndexBloatGolden,
+	jaegerTraceSamplingBiasGolden,
+	pagerdutyAlertFatigueGolden,
+	grafanaDashboardTimeoutGolden,
+	newRelicApmOverheadGolden,
+	opentelemetryContextLossGolden,
+	cloudwatchLogInsightsCostGolden,
+	sentryEventFloodGolden,
+	nodejsEventLoopStarvationGolden,
+	javaGcStopTheWorldGolden,
+	goGoroutineLeakGolden,
+	pythonGilContentionGolden,
+	rustAsyncRuntimeStarvationGolden,
+	phpFpmProcessExhaustionGolden,
+	rubyThreadPoolDeadlockGolden,
+	dotnetLohFragmentationGolden,
+	jvmMetaspaceLeakGolden,
+	nodejsBufferPoolExhaustionGolden,
+	nginxUpstreamTimeoutGolden,
+	haproxyHealthCheckFlapGolden,
+	tcpConnectionResetStormGolden,
+	dnsTtlCachePoisoningGolden,
+	tlsHandshakeTimeoutGolden,
+	http2StreamMultiplexingGolden,
+	bgpRouteLeakGolden,
+	mtuPathDiscoveryFailureGolden,
+	loadBalancerStickySessionGolden,
+	websocketProxyBufferingGolden,
+	circuitBreakerHalfOpenGolden,
+	retryStormAmplificationGolden,
+	bulkheadIsolationBreachGolden,
+	sagaCompensationFailureGolden,
+	eventSourcingProjectionLagGolden,
+	cqrsCommandValidationGolden,
+	idempotencyKeyCollisionGolden,
+	twoPhaseCommitTimeoutGolden,
+	optimisticLockingConflictGolden,
+	ciPipelineCacheCorruptionGolden,
+	blueGreenDeploymentDnsGolden,
+	canaryReleaseMetricSkewGolden,
+	databaseMigrationLockGolden,
+	featureToggleMemoryLeakGolden,
+	configHotReloadRaceGolden,
+	zeroDowntimeDeployFailureGolden,
+	terraformStateCorruptionGolden,
+	gitopsSyncConflictGolden,
+	secretRotationFailureGolden,
+];
+
+/**
+ * Get the golden set for a case
+ */
+export function getGoldenSet(caseId: string): GoldenSet | undefined {
+	return goldenSets.find((set) => set.caseId === caseId);
+}
@@ -2,7 +2,7 @@
  * Case Registry - exports all detective cases and provides lookup utilities.
  */
 
-import type { DetectiveCase, CaseSummary, CaseView } from "../types";
+import type { DetectiveCase, CaseSummary, CaseView, Clue, ClueView } from "../types";
 
 // Import all cases
 import { databaseDisappearingAct } from "./data/01-database-disappearing-act";
@@ -444,6 +444,19 @@ export function getAllCaseSummaries(): CaseSummary[] {
 	});
 }
 
+/**
+ * Strip the hint from a clue before sending it to the player.
+ */
+export function toClueView(clue: Clue): ClueView {
+	return {
+		id: clue.id,
+		title: clue.title,
+		type: clue.type,
+		content: clue.content,
+		hasHint: Boolean(clue.hint),
+	};
+}
+
 /**
  * Get a case view with progressive clue reveal.
  * @param id Case ID
@@ -465,7 +478,7 @@ export function getCaseView(id: string, cluesRevealed: number): CaseView | undef
 		category: c.category,
 		crisis: c.crisis,
 		symptoms: c.symptoms,
-		clues: c.clues.slice(0, revealed),
+		clues: c.clues.slice(0, revealed).map(toClueView),
 		totalClues,
 		cluesRevealed: revealed,
 	};
@@ -0,0 +1,104 @@
+/**
+ * Grader eval CLI.
+ *
+ *   npm run eval:graders -- [--replay FILE | --record FILE] [--provider workers-ai|openai]
+ *     [--base-url URL] [--model MODEL] [--case ID]... [--phase 1|2] [--min-accuracy N]
+ *
+ * Without --replay the graders call the chosen provider: Workers AI over the
+ * REST API (CLOUDFLARE_ACCOUNT_ID, CLOUDFLARE_API_TOKEN) or an
+ * OpenAI-compatible endpoint at --base-url (OPENAI_API_KEY if it needs one).
+ * --model overrides the default grading model. --record saves the replies
+ * so later runs can --replay them offline. Exits non-zero when accuracy is
+ * below --min-accuracy or any example labeled incorrect is graded correct.
+ */
+
+import { readFileSync, writeFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+import { goldenSets } from "../cases/golden";
+import { DEFAULT_TASK_CONFIGS, type LlmProvider, type LlmTask, OpenAiCompatibleProvider, type TaskModel, WorkersAiProvider } from "../llm";
+import { RecordedProvider, Recording, RecordingProvider } from "./recorded-provider";
+import { formatReport } from "./report";
+import { CloudflareRestAi } from "./rest-ai";
+import { runGraderEval } from "./runner";
+
+const { values } = parseArgs({
+	options: {
+		replay: { type: "string" },
+		record: { type: "string" },
+		provider: { type: "string", default: "workers-ai" },
+		"base-url": { type: "string" },
+		model: { type: "string" },
+		case: { type: "string", multiple: true },
+		phase: { type: "string" },
+		"min-accuracy": { type: "string" },
+	},
+});
+
+function liveProvider(): LlmProvider {
+	if (values.provider === "openai") {
+		if (!values["base-url"]) {
+			throw new Error("--provider openai needs --base-url");
+		}
+		return new OpenAiCompatibleProvider({ baseUrl: values["base-url"], apiKey: process.env.OPENAI_API_KEY });
+	}
+	if (values.provider !== "workers-ai") {
+		throw new Error(`Unknown provider: ${values.provider}`);
+	}
+
+	const accountId = process.env.CLOUDFLARE_ACCOUNT_ID;
+	const apiToken = process.env.CLOUDFLARE_API_TOKEN;
+	if (!accountId || !apiToken) {
+		throw new Error("Set CLOUDFLARE_ACCOUNT_ID and CLOUDFLARE_API_TOKEN, or pass --replay FILE");
+	}
+	return new WorkersAiProvider(new CloudflareRestAi(accountId, apiToken));
+}
+
+function taskModel(provider: LlmProvider, task: LlmTask): TaskModel {
+	const { provider: _name, ...settings } = DEFAULT_TASK_CONFIGS[task];
+	return { provider, ...settings, model: values.model ?? settings.model };
+}
+
+async function main(): Promise<void> {
+	if (values.replay && values.record) {
+		throw new Error("--replay and --record cannot be combined");
+	}
+
+	const recorded = values.replay ? new RecordedProvider(JSON.parse(readFileSync(values.replay, "utf8")) as Recording) : null;
+	const recording = values.record ? new RecordingProvider(liveProvider()) : null;
+	const provider = recorded ?? recording ?? liveProvider();
+
+	const report = await runGraderEval({
+		rootCause: taskModel(provider, "rootCauseGrading"),
+		solution: taskModel(provider, "solutionGrading"),
+	}, goldenSets, {
+		caseIds: values.case,
+		phases: values.phase ? [Number(values.phase) as 1 | 2] : undefined,
+		onResult: (result) => process.stderr.write(result.expected === result.actual ? "." : "x"),
+	});
+	process.stderr.write("\n");
+
+	console.log(formatReport(report));
+
+	if (recorded && recorded.misses > 0) {
+		console.log(`\n${recorded.misses} request(s) had no recording and used the grader fallback; re-record after prompt changes.`);
+	}
+	if (recording && values.record) {
+		writeFileSync(values.record, `${JSON.stringify(recording.recording, null, "\t")}\n`);
+		console.log(`\nRecorded ${Object.keys(recording.recording).length} responses to ${values.record}`);
+	}
+
+	const minAccuracy = values["min-accuracy"] ? Number(values["min-accuracy"]) : 0;
+	if (report.accuracy < minAccuracy) {
+		console.error(`Accuracy ${report.accuracy.toFixed(3)} is below the required ${minAccuracy}`);
+		process.exitCode = 1;
+	}
+	if (report.falseAccepts.length > 0) {
+		console.error(`${report.falseAccepts.length} example(s) labeled incorrect were graded correct`);
+		process.exitCode = 1;
+	}
+}
+
+main().catch((error) => {
+	console.error(error instanceof Error ? error.message : error);
+	process.exitCode = 1;
+});
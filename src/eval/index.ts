@@ -0,0 +1,10 @@
+/**
+ * Grader eval - measure grader agreement with the golden sets.
+ */
+
+export { runGraderEval, verdictOf, VERDICTS } from "./runner";
+export type { ConfusionMatrix, EvalOptions, EvalReport, ExampleResult, GraderModels, PhaseReport } from "./runner";
+export { RecordedProvider, RecordingProvider, requestKey } from "./recorded-provider";
+export type { Recording } from "./recorded-provider";
+export { CloudflareRestAi } from "./rest-ai";
+export { formatReport } from "./report";
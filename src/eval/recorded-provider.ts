@@ -0,0 +1,65 @@
+/**
+ * Recorded providers - replay grader model calls without hitting the model.
+ *
+ * A recording maps a hash of each completion request to the model's reply.
+ * Record once against the real model, commit the file, and later runs
+ * replay it so prompt-independent changes can be checked offline.
+ */
+
+import type { CompletionRequest, CompletionResult, LlmProvider } from "../llm";
+
+/**
+ * Model replies keyed by request hash.
+ */
+export type Recording = Record<string, CompletionResult>;
+
+/**
+ * Stable key for a completion request.
+ */
+export async function requestKey(request: CompletionRequest): Promise<string> {
+	const data = new TextEncoder().encode(JSON.stringify(request));
+	const digest = await crypto.subtle.digest("SHA-256", data);
+	return [...new Uint8Array(digest)].map((byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Provider that answers from a recording. Requests that were never recorded
+ * throw, so the grader takes its fallback path; `misses` counts them.
+ */
+export class RecordedProvider implements LlmProvider {
+	misses = 0;
+
+	constructor(private readonly recording: Recording) {}
+
+	async complete(request: CompletionRequest): Promise<CompletionResult> {
+		const key = await requestKey(request);
+		if (!(key in this.recording)) {
+			this.misses++;
+			throw new Error(`No recorded response for request ${key.slice(0, 12)}`);
+		}
+		return this.recording[key];
+	}
+
+	async stream(): Promise<ReadableStream<Uint8Array>> {
+		throw new Error("Recorded providers do not support streaming");
+	}
+}
+
+/**
+ * Provider that forwards to another provider and records every reply.
+ */
+export class RecordingProvider implements LlmProvider {
+	readonly recording: Recording = {};
+
+	constructor(private readonly inner: LlmProvider) {}
+
+	async complete(request: CompletionRequest): Promise<CompletionResult> {
+		const result = await this.inner.complete(request);
+		this.recording[await requestKey(request)] = result;
+		return result;
+	}
+
+	async stream(): Promise<ReadableStream<Uint8Array>> {
+		throw new Error("Recorded providers do not support streaming");
+	}
+}
@@ -0,0 +1,66 @@
+/**
+ * Plain-text formatting of grader eval reports.
+ */
+
+import type { ConfusionMatrix, EvalReport, PhaseReport } from "./runner";
+import { VERDICTS } from "./runner";
+
+function percent(value: number): string {
+	return `${(value * 100).toFixed(1)}%`;
+}
+
+function formatConfusion(confusion: ConfusionMatrix): string[] {
+	const width = 11;
+	const header = "expected \\ actual".padEnd(19) + VERDICTS.map((verdict) => verdict.padStart(width)).join("");
+	const rows = VERDICTS.map((expected) =>
+		expected.padEnd(19) + VERDICTS.map((actual) => String(confusion[expected][actual]).padStart(width)).join("")
+	);
+	return [header, ...rows];
+}
+
+function formatPhase(phase: 1 | 2, report: PhaseReport): string[] {
+	if (report.total === 0) {
+		return [`Phase ${phase}: no examples`];
+	}
+	return [
+		`Phase ${phase}: ${report.agreed}/${report.total} agree (${percent(report.accuracy)})`,
+		...formatConfusion(report.confusion).map((line) => `  ${line}`),
+	];
+}
+
+function formatPaths(paths: EvalReport["paths"]): string {
+	const counts = Object.entries(paths).map(([path, count]) => `${path} ${count}`);
+	return `Evaluation paths: ${counts.length > 0 ? counts.join(", ") : "none"}`;
+}
+
+/**
+ * Render a report: overall accuracy, how verdicts were produced, a confusion
+ * matrix per phase, the false accepts, then every disagreement grouped by case.
+ */
+export function formatReport(report: EvalReport): string {
+	const lines = [
+		`Grader accuracy: ${report.agreed}/${report.total} (${percent(report.accuracy)})`,
+		formatPaths(report.paths),
+		"",
+		...formatPhase(1, report.phases[1]),
+		"",
+		...formatPhase(2, report.phases[2]),
+		"",
+		`False accepts (incorrect graded correct): ${report.falseAccepts.length}`,
+	];
+
+	if (report.disagreements.length > 0) {
+		lines.push("", `Disagreements (${report.disagreements.length}):`);
+		let currentCase = "";
+		for (const result of report.disagreements) {
+			if (result.caseId !== currentCase) {
+				currentCase = result.caseId;
+				lines.push(`  ${currentCase}`);
+			}
+			lines.push(`    [phase ${result.phase}] expected ${result.expected}, got ${result.actual} (${result.evaluatedBy ?? "unknown"}): ${result.submission}`);
+			lines.push(`      grader: ${result.feedback}`);
+		}
+	}
+
+	return lines.join("\n");
+}
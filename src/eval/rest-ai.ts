@@ -0,0 +1,32 @@
+/**
+ * Workers AI over the Cloudflare REST API, for running the graders outside
+ * a Worker (e.g. from the eval CLI).
+ */
+
+import type { AiBinding } from "../llm";
+
+export class CloudflareRestAi implements AiBinding {
+	constructor(
+		private readonly accountId: string,
+		private readonly apiToken: string
+	) {}
+
+	async run(model: string, inputs: Parameters<AiBinding["run"]>[1]): Promise<unknown> {
+		const response = await fetch(
+			`https://api.cloudflare.com/client/v4/accounts/${this.accountId}/ai/run/${model}`,
+			{
+				method: "POST",
+				headers: {
+					"Authorization": `Bearer ${this.apiToken}`,
+					"Content-Type": "application/json",
+				},
+				body: JSON.stringify(inputs),
+			}
+		);
+		if (!response.ok) {
+			throw new Error(`Workers AI request failed: ${response.status} ${await response.text()}`);
+		}
+		const body = await response.json() as { result: unknown };
+		return body.result;
+	}
+}
@@ -0,0 +1,157 @@
+/**
+ * Grader eval runner - replays golden sets through the graders and compares
+ * each verdict with its human label.
+ */
+
+import type { DiagnosisResult, EvaluationPath, GoldenSet, Verdict } from "../types";
+import { getCase } from "../cases";
+import { evaluateRootCauseWithLLM, evaluateSolutionWithLLM } from "../grading";
+import type { TaskModel } from "../llm";
+
+export const VERDICTS: Verdict[] = ["correct", "partial", "incorrect"];
+
+/**
+ * Counts of actual verdicts per expected label: `confusion[expected][actual]`.
+ */
+export type ConfusionMatrix = Record<Verdict, Record<Verdict, number>>;
+
+/**
+ * Outcome of grading one golden example.
+ */
+export interface ExampleResult {
+	caseId: string;
+	phase: 1 | 2;
+	submission: string;
+	expected: Verdict;
+	actual: Verdict;
+	feedback: string;
+	evaluatedBy?: EvaluationPath;
+}
+
+export interface PhaseReport {
+	total: number;
+	agreed: number;
+	accuracy: number;
+	confusion: ConfusionMatrix;
+}
+
+export interface EvalReport {
+	total: number;
+	agreed: number;
+	accuracy: number;
+	phases: Record<1 | 2, PhaseReport>;
+	/** How many verdicts each evaluation path produced */
+	paths: Partial<Record<EvaluationPath, number>>;
+	disagreements: ExampleResult[];
+	/** Examples labeled incorrect that were graded correct, which would close a case or phase */
+	falseAccepts: ExampleResult[];
+}
+
+/**
+ * Models used for each grading phase.
+ */
+export interface GraderModels {
+	rootCause: TaskModel;
+	solution: TaskModel;
+}
+
+export interface EvalOptions {
+	/** Only replay these cases */
+	caseIds?: string[];
+	/** Only replay these phases */
+	phases?: (1 | 2)[];
+	/** Called after each example, e.g. for progress output */
+	onResult?: (result: ExampleResult) => void;
+}
+
+/**
+ * Map a grader result back to the verdict that produced it.
+ */
+export function verdictOf(result: DiagnosisResult): Verdict {
+	if (result.correct) {
+		return "correct";
+	}
+	return result.partial ? "partial" : "incorrect";
+}
+
+function emptyConfusion(): ConfusionMatrix {
+	return {
+		correct: { correct: 0, partial: 0, incorrect: 0 },
+		partial: { correct: 0, partial: 0, incorrect: 0 },
+		incorrect: { correct: 0, partial: 0, incorrect: 0 },
+	};
+}
+
+function phaseReport(results: ExampleResult[]): PhaseReport {
+	const confusion = emptyConfusion();
+	for (const result of results) {
+		confusion[result.expected][result.actual]++;
+	}
+	const agreed = results.filter((result) => result.expected === result.actual).length;
+	return {
+		total: results.length,
+		agreed,
+		accuracy: results.length > 0 ? agreed / results.length : 0,
+		confusion,
+	};
+}
+
+/**
+ * Grade every golden example with the given models and summarize the
+ * agreement with the labels. Examples run one at a time to stay under
+ * provider rate limits.
+ */
+export async function runGraderEval(models: GraderModels, sets: GoldenSet[], options: EvalOptions = {}): Promise<EvalReport> {
+	const results: ExampleResult[] = [];
+
+	for (const set of sets) {
+		if (options.caseIds && !options.caseIds.includes(set.caseId)) {
+			continue;
+		}
+		const caseData = getCase(set.caseId);
+		if (!caseData) {
+			throw new Error(`Golden set references unknown case: ${set.caseId}`);
+		}
+
+		for (const example of set.examples) {
+			if (options.phases && !options.phases.includes(example.phase)) {
+				continue;
+			}
+			const graded = example.phase === 1
+				? await evaluateRootCauseWithLLM(models.rootCause, example.submission, caseData.solution, caseData.id)
+				: await evaluateSolutionWithLLM(models.solution, example.submission, caseData.solution, caseData.id);
+
+			const result: ExampleResult = {
+				caseId: set.caseId,
+				phase: example.phase,
+				submission: example.submission,
+				expected: example.label,
+				actual: verdictOf(graded),
+				feedback: graded.feedback,
+				evaluatedBy: graded.evaluatedBy,
+			};
+			results.push(result);
+			options.onResult?.(result);
+		}
+	}
+
+	const overall = phaseReport(results);
+	const paths: Partial<Record<EvaluationPath, number>> = {};
+	for (const result of results) {
+		if (result.evaluatedBy) {
+			paths[result.evaluatedBy] = (paths[result.evaluatedBy] ?? 0) + 1;
+		}
+	}
+	return {
+		total: overall.total,
+		agreed: overall.agreed,
+		accuracy: overall.accuracy,
+		phases: {
+			1: phaseReport(results.filter((result) => result.phase === 1)),
+			2: phaseReport(results.filter((result) => result.phase === 2)),
+		},
+		paths,
+		disagreements: results.filter((result) => result.expected !== result.actual),
+		falseAccepts: results.filter((result) => result.expected === "incorrect" && result.actual === "correct"),
+	};
+}
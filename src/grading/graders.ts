@@ -0,0 +1,719 @@
+/**
+ * Graders - LLM evaluation of player submissions.
+ *
+ * Each phase has its own grading prompt. Submissions go through the grader
+ * guard before and after the model call, and a failed model call falls back
+ * to lexical matching. Every result records which evaluation path produced it.
+ * Low-confidence or borderline verdicts can be reviewed by a second opinion.
+ * Bump GRADER_PROMPT_VERSION in ./verdict-cache when a prompt changes.
+ */
+
+import type { JsonSchema, LlmTask, TaskModel } from "../llm";
+import type {
+	CriterionRating,
+	CriterionScore,
+	DiagnosisResult,
+	EvaluationPath,
+	GraderEvaluation,
+	GraderOpinion,
+	GradingPhase,
+	SecondOpinion,
+	Solution,
+	Verdict,
+} from "../types";
+import { matchDiagnosis, matchPrevention, matchSolution, rateByCoverage, rateByKeywords } from "../utils/diagnosis-matcher";
+import { detectInjection, guardVerdict, logSuspiciousSubmission, UNTRUSTED_INPUT_NOTICE, wrapUntrustedInput } from "../utils/grader-guard";
+import { array, type Infer, number, object, oneOf, optional, string, type Validator } from "../validation";
+import { CRITERION_RATINGS, formatRubricForPrompt, meetsRequirements, type RubricCriterion, rubricCriteria, scoreRubric } from "./rubric";
+import { majorityVerdict, needsSecondOpinion, SAMPLE_TEMPERATURE, type SecondOpinionSettings } from "./second-opinion";
+import { runStructured, type StructuredOutcome } from "./structured-output";
+
+const VERDICTS = ["correct", "partial", "incorrect"] as const;
+
+const VERDICT_JSON_SCHEMA = { type: "string", enum: VERDICTS };
+
+/**
+ * Expected grader output, as a validator and as the JSON schema sent to the model.
+ */
+const evaluationValidator = object({
+	verdict: oneOf(VERDICTS),
+	explanation: string(),
+	matchedConcepts: optional(array(string())),
+	criteria: optional(array(object({ id: string(), rating: oneOf(CRITERION_RATINGS) }))),
+	confidence: optional(number({ min: 0, max: 1 })),
+});
+
+const EVALUATION_JSON_SCHEMA: JsonSchema = {
+	type: "object",
+	properties: {
+		verdict: VERDICT_JSON_SCHEMA,
+		explanation: { type: "string" },
+		matchedConcepts: { type: "array", items: { type: "string" } },
+		criteria: {
+			type: "array",
+			items: {
+				type: "object",
+				properties: { id: { type: "string" }, rating: { type: "string", enum: CRITERION_RATINGS } },
+				required: ["id", "rating"],
+			},
+		},
+		confidence: { type: "number", minimum: 0, maximum: 1 },
+	},
+	required: ["verdict", "explanation", "criteria", "confidence"],
+};
+
+const CONFIDENCE_INSTRUCTIONS = `CONFIDENCE: Set "confidence" from 0 to 1 for how sure you are of the verdict. Use a low value when the submission is vague, ambiguous or sits between two verdicts.`;
+
+const RUBRIC_INSTRUCTIONS = `RUBRIC: Rate every rubric item as "met", "partial" or "missed" in "criteria". Required and supporting items are met when the submission covers that concept in any wording. Misconception items are met when the submission makes that mistake.`;
+
+/**
+ * Rated criteria from the model, with lexical ratings for any item it skipped.
+ */
+function rateCriteria(
+	criteria: RubricCriterion[],
+	submission: string,
+	rated: { id: string; rating: CriterionRating }[] = [],
+	rateLexically: typeof rateByKeywords = rateByKeywords
+): CriterionScore[] {
+	const modelRatings = new Map(rated.map(({ id, rating }) => [id, rating]));
+	return rateLexically(submission, criteria).map((score) => ({
+		...score,
+		rating: modelRatings.get(score.id) ?? score.rating,
+	}));
+}
+
+const ratedCriteriaValidator = array(object({ id: string(), rating: oneOf(CRITERION_RATINGS) }));
+
+/**
+ * The combined grader scores each half and rates each half against its own rubric.
+ */
+const combinedEvaluationValidator = object({
+	verdict: oneOf(VERDICTS),
+	explanation: string(),
+	matchedConcepts: optional(array(string())),
+	diagnosisScore: oneOf(VERDICTS),
+	solutionScore: oneOf(VERDICTS),
+	diagnosisCriteria: optional(ratedCriteriaValidator),
+	solutionCriteria: optional(ratedCriteriaValidator),
+	confidence: optional(number({ min: 0, max: 1 })),
+});
+
+const { criteria: CRITERIA_JSON_SCHEMA, ...EVALUATION_PROPERTIES } = EVALUATION_JSON_SCHEMA.properties as Record<string, JsonSchema>;
+
+const COMBINED_EVALUATION_JSON_SCHEMA: JsonSchema = {
+	type: "object",
+	properties: {
+		...EVALUATION_PROPERTIES,
+		diagnosisScore: VERDICT_JSON_SCHEMA,
+		solutionScore: VERDICT_JSON_SCHEMA,
+		diagnosisCriteria: CRITERIA_JSON_SCHEMA,
+		solutionCriteria: CRITERIA_JSON_SCHEMA,
+	},
+	required: ["verdict", "explanation", "diagnosisScore", "solutionScore", "diagnosisCriteria", "solutionCriteria", "confidence"],
+};
+
+const PATH_BY_OUTCOME: Record<StructuredOutcome, EvaluationPath> = {
+	parsed: "llm",
+	repaired: "llm-repaired",
+	retried: "llm-retry",
+};
+
+/**
+ * Run a grading prompt and return the validated evaluation after the injection
+ * guard, with the evaluation path that produced it. Suspicious submissions are
+ * logged and a "correct" verdict is downgraded to "partial" when it cannot be
+ * trusted. Throws if the model never returns a valid evaluation.
+ */
+type GraderOutput = Omit<GraderEvaluation, "matchedConcepts"> & { matchedConcepts?: string[] };
+
+async function runGuardedGrader<T extends GraderOutput>(
+	taskModel: TaskModel,
+	validator: Validator<T>,
+	schema: JsonSchema,
+	systemPrompt: string,
+	userPrompt: string,
+	submission: string,
+	caseId: string,
+	phase: GradingPhase | "expert"
+): Promise<{ evaluation: T & GraderEvaluation; path: EvaluationPath }> {
+	const injectionPatterns = detectInjection(submission);
+
+	const { value, outcome } = await runStructured(taskModel, [
+		{ role: "system", content: systemPrompt },
+		{ role: "user", content: userPrompt },
+	], { schema, validator });
+
+	const { evaluation, reasons } = guardVerdict({ ...value, matchedConcepts: value.matchedConcepts ?? [] }, injectionPatterns);
+	logSuspiciousSubmission({
+		caseId,
+		phase,
+		submission,
+		injectionPatterns,
+		reasons,
+		verdict: evaluation.verdict,
+	});
+	return { evaluation: evaluation as T & GraderEvaluation, path: PATH_BY_OUTCOME[outcome] };
+}
+
+type Evaluation = Infer<typeof evaluationValidator> & GraderEvaluation;
+
+/**
+ * What review and rubric enforcement need from any grader's evaluation.
+ */
+type ReviewableEvaluation = Pick<Evaluation, "verdict" | "explanation" | "confidence">;
+
+function opinionOf(evaluation: ReviewableEvaluation): GraderOpinion {
+	return { verdict: evaluation.verdict, confidence: evaluation.confidence ?? null, explanation: evaluation.explanation };
+}
+
+/**
+ * Hold a "correct" verdict to the rubric, as the lexical fallback does: it
+ * becomes "partial" when a required item is not met or a misconception is.
+ */
+function enforceRubric<E extends ReviewableEvaluation>(evaluation: E, criteria: CriterionScore[]): E {
+	if (evaluation.verdict !== "correct" || meetsRequirements(criteria)) {
+		return evaluation;
+	}
+	return {
+		...evaluation,
+		verdict: "partial",
+		explanation: `${evaluation.explanation} Some of what this answer needs is still missing, or it includes a common misconception.`.trim(),
+	};
+}
+
+type ReviewedGrade<E extends ReviewableEvaluation> = { evaluation: E; path: EvaluationPath; criteria: CriterionScore[]; secondOpinion?: SecondOpinion };
+
+/**
+ * Run a grader, review an uncertain verdict (see takeSecondOpinion) and hold
+ * the final verdict to the rubric.
+ */
+async function gradeWithReview<E extends ReviewableEvaluation>(
+	run: (taskModel: TaskModel) => Promise<{ evaluation: E; path: EvaluationPath }>,
+	taskModel: TaskModel,
+	rate: (evaluation: E) => CriterionScore[],
+	review?: SecondOpinionSettings
+): Promise<ReviewedGrade<E>> {
+	const graded = await takeSecondOpinion(run, taskModel, rate, review);
+	return { ...graded, evaluation: enforceRubric(graded.evaluation, graded.criteria) };
+}
+
+/**
+ * Run a grader and, when its verdict is uncertain, take a second opinion:
+ * the same prompt on a larger model, or a majority vote over extra samples.
+ * A failed second opinion keeps the first verdict.
+ */
+async function takeSecondOpinion<E extends ReviewableEvaluation>(
+	run: (taskModel: TaskModel) => Promise<{ evaluation: E; path: EvaluationPath }>,
+	taskModel: TaskModel,
+	rate: (evaluation: E) => CriterionScore[],
+	review?: SecondOpinionSettings
+): Promise<ReviewedGrade<E>> {
+	const first = await run(taskModel);
+	const criteria = rate(first.evaluation);
+	if (!review || !(review.force || needsSecondOpinion(opinionOf(first.evaluation), criteria, review.minConfidence))) {
+		return { ...first, criteria };
+	}
+
+	try {
+		if (review.strategy === "larger-model") {
+			const second = await run(review.taskModel);
+			return {
+				...second,
+				criteria: rate(second.evaluation),
+				secondOpinion: { strategy: review.strategy, initial: opinionOf(first.evaluation) },
+			};
+		}
+
+		const samples = await Promise.all(
+			Array.from({ length: review.samples }, () => run({ ...taskModel, temperature: SAMPLE_TEMPERATURE }))
+		);
+		const votes: Verdict[] = [first, ...samples].map(({ evaluation }) => evaluation.verdict);
+		const majority = majorityVerdict(votes);
+		const chosen = [first, ...samples].find(({ evaluation }) => evaluation.verdict === majority) ?? first;
+		return {
+			...chosen,
+			criteria: rate(chosen.evaluation),
+			secondOpinion: { strategy: review.strategy, initial: opinionOf(first.evaluation), votes },
+		};
+	} catch (error) {
+		console.error("Second opinion failed:", error);
+		return { ...first, criteria };
+	}
+}
+
+/**
+ * Phase 1: Use LLM to evaluate if the user correctly identified the root cause
+ */
+export async function evaluateRootCauseWithLLM(
+	taskModel: TaskModel,
+	userDiagnosis: string,
+	solution: Solution,
+	caseId: string,
+	review?: SecondOpinionSettings
+): Promise<DiagnosisResult> {
+	const rubric = rubricCriteria(solution, 1);
+	const systemPrompt = `You are an expert evaluator for a backend engineering debugging game. Your job is to determine if the user correctly identified the ROOT CAUSE of a production incident.
+
+You must respond with ONLY a valid JSON object in this exact format, no other text:
+{"verdict": "correct" | "partial" | "incorrect", "explanation": "brief explanation", "matchedConcepts": ["concept1", "concept2"], "criteria": [{"id": "R1", "rating": "met" | "partial" | "missed"}], "confidence": 0.9}
+
+EVALUATION CRITERIA for ROOT CAUSE:
+- CORRECT: User identified the core root cause, even with different terminology. They understand WHY the problem occurred.
+- PARTIAL: User is on the right track - identified symptoms or contributing factors, but not the exact root cause.
+- INCORRECT: User's diagnosis is unrelated or fundamentally misunderstands the problem.
+
+Be generous - if the user demonstrates understanding of the core issue, give credit even if wording differs from official answer.
+
+${RUBRIC_INSTRUCTIONS}
+
+${CONFIDENCE_INSTRUCTIONS}
+
+${UNTRUSTED_INPUT_NOTICE}`;
+
+	const userPrompt = `## Actual Root Cause
+${solution.diagnosis}
+
+## Full Explanation
+${solution.rootCause}
+
+## Rubric
+${formatRubricForPrompt(rubric)}
+
+---
+
+## User's Root Cause Analysis
+${wrapUntrustedInput(userDiagnosis)}
+
+---
+
+Evaluate if the user correctly identified the root cause. Respond with ONLY the JSON object.`;
+
+	try {
+		const { evaluation, path, criteria, secondOpinion } = await gradeWithReview(
+			(model) => runGuardedGrader(
+				model, evaluationValidator, EVALUATION_JSON_SCHEMA, systemPrompt, userPrompt, userDiagnosis, caseId, 1
+			),
+			taskModel,
+			(result) => rateCriteria(rubric, userDiagnosis, result.criteria),
+			review
+		);
+		const grading = {
+			evaluatedBy: path,
+			criteria,
+			rubricScore: scoreRubric(criteria),
+			confidence: evaluation.confidence,
+			secondOpinion,
+		};
+
+		if (evaluation.verdict === "correct") {
+			return {
+				correct: true,
+				partial: false,
+				feedback: `✓ Root Cause Identified! ${evaluation.explanation} Now propose a solution to fix it.`,
+				matchedKeywords: evaluation.matchedConcepts || [],
+				...grading,
+			};
+		} else if (evaluation.verdict === "partial") {
+			return {
+				correct: false,
+				partial: true,
+				feedback: `🔍 Getting Warmer! ${evaluation.explanation}`,
+				matchedKeywords: evaluation.matchedConcepts || [],
+				...grading,
+			};
+		} else {
+			return {
+				correct: false,
+				partial: false,
+				feedback: `❌ Not Quite! ${evaluation.explanation || "Review the clues and try again."}`,
+				matchedKeywords: evaluation.matchedConcepts || [],
+				...grading,
+			};
+		}
+	} catch (error) {
+		console.error("LLM evaluation error:", error);
+		return { ...matchDiagnosis(userDiagnosis, solution), evaluatedBy: "keyword-fallback" };
+	}
+}
+
+/**
+ * Phase 2: Use LLM to evaluate if the user proposed a valid solution
+ */
+export async function evaluateSolutionWithLLM(
+	taskModel: TaskModel,
+	userProposedSolution: string,
+	solution: Solution,
+	caseId: string,
+	review?: SecondOpinionSettings
+): Promise<DiagnosisResult> {
+	const rubric = rubricCriteria(solution, 2);
+	const systemPrompt = `You are an expert evaluator for a backend engineering debugging game. Your job is to determine if the user proposed a VALID SOLUTION to fix a production incident.
+
+You must respond with ONLY a valid JSON object in this exact format, no other text:
+{"verdict": "correct" | "partial" | "incorrect", "explanation": "brief explanation", "matchedConcepts": ["concept1", "concept2"], "criteria": [{"id": "R1", "rating": "met" | "partial" | "missed"}], "confidence": 0.9}
+
+EVALUATION CRITERIA for PROPOSED SOLUTION:
+- CORRECT: User's fix would actually resolve the issue. It doesn't have to match exactly, but must address the root cause effectively.
+- PARTIAL: User's solution would help but not fully fix the issue, or is missing key elements.
+- INCORRECT: User's solution wouldn't fix the problem or might make it worse.
+
+Be generous - if the user proposes a reasonable fix that addresses the core issue, give credit even if it differs from the official solution.
+
+${RUBRIC_INSTRUCTIONS}
+
+${CONFIDENCE_INSTRUCTIONS}
+
+${UNTRUSTED_INPUT_NOTICE}`;
+
+	const userPrompt = `## Root Cause of the Issue
+${solution.diagnosis}
+
+## Full Explanation
+${solution.rootCause}
+
+## Example Correct Solutions
+${solution.codeExamples.map(ex => `- ${ex.description}`).join("\n")}
+
+## Rubric
+${formatRubricForPrompt(rubric)}
+
+---
+
+## User's Proposed Solution
+${wrapUntrustedInput(userProposedSolution)}
+
+---
+
+Evaluate if the user's proposed solution would effectively fix the issue. Respond with ONLY the JSON object.`;
+
+	try {
+		const { evaluation, path, criteria, secondOpinion } = await gradeWithReview(
+			(model) => runGuardedGrader(
+				model, evaluationValidator, EVALUATION_JSON_SCHEMA, systemPrompt, userPrompt, userProposedSolution, caseId, 2
+			),
+			taskModel,
+			(result) => rateCriteria(rubric, userProposedSolution, result.criteria),
+			review
+		);
+		const grading = {
+			evaluatedBy: path,
+			criteria,
+			rubricScore: scoreRubric(criteria),
+			confidence: evaluation.confidence,
+			secondOpinion,
+		};
+
+		if (evaluation.verdict === "correct") {
+			return {
+				correct: true,
+				partial: false,
+				feedback: `🎉 Case Closed! ${evaluation.explanation}`,
+				matchedKeywords: evaluation.matchedConcepts || [],
+				...grading,
+				solution,
+			};
+		} else if (evaluation.verdict === "partial") {
+			return {
+				correct: false,
+				partial: true,
+				feedback: `🔍 Almost There! ${evaluation.explanation}`,
+				matchedKeywords: evaluation.matchedConcepts || [],
+				...grading,
+			};
+		} else {
+			return {
+				correct: false,
+				partial: false,
+				feedback: `❌ Not Quite! ${evaluation.explanation || "Think about what would actually address the root cause."}`,
+				matchedKeywords: evaluation.matchedConcepts || [],
+				...grading,
+			};
+		}
+	} catch (error) {
+		console.error("LLM evaluation error:", error);
+		return { ...matchSolution(userProposedSolution, solution), evaluatedBy: "keyword-fallback" };
+	}
+}
+
+/**
+ * Phase 3: Use LLM to evaluate how well the user would stop the incident from recurring
+ */
+export async function evaluatePreventionWithLLM(
+	taskModel: TaskModel,
+	userPrevention: string,
+	solution: Solution,
+	caseId: string,
+	review?: SecondOpinionSettings
+): Promise<DiagnosisResult> {
+	const rubric = rubricCriteria(solution, 3);
+	const systemPrompt = `You are an expert evaluator for a backend engineering debugging game. The user has already found and fixed a production incident. Your job is to determine if their PREVENTION STRATEGY would stop it from happening again.
+
+You must respond with ONLY a valid JSON object in this exact format, no other text:
+{"verdict": "correct" | "partial" | "incorrect", "explanation": "brief explanation", "matchedConcepts": ["concept1", "concept2"], "criteria": [{"id": "S1", "rating": "met" | "partial" | "missed"}], "confidence": 0.9}
+
+EVALUATION CRITERIA for PREVENTION STRATEGY:
+- CORRECT: The plan would catch this class of incident early or keep it from recurring, through monitoring, alerting, testing, tooling or process changes aimed at this root cause.
+- PARTIAL: The plan helps but is generic (e.g. "add more monitoring") or covers only part of the problem.
+- INCORRECT: The plan would not prevent or detect a recurrence, or only repeats the fix.
+
+The user does not have to match the reference strategies; credit any sound prevention measure aimed at this root cause.
+
+${RUBRIC_INSTRUCTIONS}
+
+${CONFIDENCE_INSTRUCTIONS}
+
+${UNTRUSTED_INPUT_NOTICE}`;
+
+	const userPrompt = `## Root Cause of the Issue
+${solution.diagnosis}
+
+## Reference Prevention Strategies
+${solution.prevention.map((strategy) => `- ${strategy}`).join("\n")}
+
+## Rubric
+${formatRubricForPrompt(rubric)}
+
+---
+
+## User's Prevention Strategy
+${wrapUntrustedInput(userPrevention)}
+
+---
+
+Evaluate if the user's prevention strategy would stop this incident from happening again. Respond with ONLY the JSON object.`;
+
+	try {
+		const { evaluation, path, criteria, secondOpinion } = await gradeWithReview(
+			(model) => runGuardedGrader(
+				model, evaluationValidator, EVALUATION_JSON_SCHEMA, systemPrompt, userPrompt, userPrevention, caseId, 3
+			),
+			taskModel,
+			(result) => rateCriteria(rubric, userPrevention, result.criteria, rateByCoverage),
+			review
+		);
+		const grading = {
+			evaluatedBy: path,
+			criteria,
+			rubricScore: scoreRubric(criteria),
+			confidence: evaluation.confidence,
+			secondOpinion,
+		};
+
+		if (evaluation.verdict === "correct") {
+			return {
+				correct: true,
+				partial: false,
+				feedback: `🛡️ Well Defended! ${evaluation.explanation}`,
+				matchedKeywords: evaluation.matchedConcepts || [],
+				...grading,
+			};
+		} else if (evaluation.verdict === "partial") {
+			return {
+				correct: false,
+				partial: true,
+				feedback: `🔍 Partly Covered. ${evaluation.explanation}`,
+				matchedKeywords: evaluation.matchedConcepts || [],
+				...grading,
+			};
+		} else {
+			return {
+				correct: false,
+				partial: false,
+				feedback: `❌ Not Quite. ${evaluation.explanation || "That plan would not keep this incident from happening again."}`,
+				matchedKeywords: evaluation.matchedConcepts || [],
+				...grading,
+			};
+		}
+	} catch (error) {
+		console.error("LLM evaluation error:", error);
+		return { ...matchPrevention(userPrevention, solution), evaluatedBy: "keyword-fallback" };
+	}
+}
+
+/**
+ * The grader and model task for each phase.
+ */
+export const PHASE_GRADERS: Record<GradingPhase, { task: LlmTask; grade: typeof evaluateRootCauseWithLLM }> = {
+	1: { task: "rootCauseGrading", grade: evaluateRootCauseWithLLM },
+	2: { task: "solutionGrading", grade: evaluateSolutionWithLLM },
+	3: { task: "preventionGrading", grade: evaluatePreventionWithLLM },
+};
+
+type CombinedEvaluation = Infer<typeof combinedEvaluationValidator> & GraderEvaluation;
+
+/**
+ * Hold a "correct" overall verdict to the half scores: it becomes "partial"
+ * unless both the root cause and the fix are scored "correct".
+ */
+function enforceHalves(evaluation: CombinedEvaluation): CombinedEvaluation {
+	if (evaluation.verdict !== "correct" || (evaluation.diagnosisScore === "correct" && evaluation.solutionScore === "correct")) {
+		return evaluation;
+	}
+	return { ...evaluation, verdict: "partial" };
+}
+
+/**
+ * Expert mode: use LLM to evaluate if the user's diagnosis and proposed
+ * solution are both correct. Each half is rated against its own rubric, and
+ * the verdict goes through the same review and rubric checks as guided mode.
+ */
+export async function evaluateDiagnosisWithLLM(
+	taskModel: TaskModel,
+	userDiagnosis: string,
+	userProposedSolution: string,
+	solution: Solution,
+	caseId: string,
+	review?: SecondOpinionSettings
+): Promise<DiagnosisResult> {
+	const rootCauseRubric = rubricCriteria(solution, 1);
+	const solutionRubric = rubricCriteria(solution, 2);
+	const systemPrompt = `You are an expert evaluator for a backend engineering debugging game. Your job is to determine if the user correctly identified the root cause AND proposed a valid fix for a production incident.
+
+You must respond with ONLY a valid JSON object in this exact format, no other text:
+{"verdict": "correct" | "partial" | "incorrect", "explanation": "brief explanation", "matchedConcepts": ["concept1", "concept2"], "diagnosisScore": "correct" | "partial" | "incorrect", "solutionScore": "correct" | "partial" | "incorrect", "diagnosisCriteria": [{"id": "R1", "rating": "met" | "partial" | "missed"}], "solutionCriteria": [{"id": "R1", "rating": "met" | "partial" | "missed"}], "confidence": 0.9}
+
+EVALUATION CRITERIA:
+
+For ROOT CAUSE (diagnosisScore):
+- CORRECT: User identified the core root cause, even with different terminology. They understand WHY the problem occurred.
+- PARTIAL: User is on the right track - identified symptoms or contributing factors, but not the exact root cause.
+- INCORRECT: User's diagnosis is unrelated or fundamentally misunderstands the problem.
+
+For PROPOSED SOLUTION (solutionScore):
+- CORRECT: User's fix would actually resolve the issue. It doesn't have to match exactly, but must address the root cause.
+- PARTIAL: User's solution would help but not fully fix the issue, or is missing key elements.
+- INCORRECT: User's solution wouldn't fix the problem or might make it worse.
+
+OVERALL VERDICT:
+- CORRECT: Both diagnosisScore AND solutionScore are "correct"
+- PARTIAL: At least one is "correct" or "partial", but not both "correct"
+- INCORRECT: Both are "incorrect"
+
+Be generous - if the user demonstrates understanding, give credit even if wording differs from official answer.
+
+${RUBRIC_INSTRUCTIONS} Rate the root cause against the Root Cause Rubric in "diagnosisCriteria" and the fix against the Solution Rubric in "solutionCriteria".
+
+${CONFIDENCE_INSTRUCTIONS}
+
+${UNTRUSTED_INPUT_NOTICE}`;
+
+	const userPrompt = `## Actual Root Cause
+${solution.diagnosis}
+
+## Full Explanation
+${solution.rootCause}
+
+## Example Correct Solutions
+${solution.codeExamples.map(ex => `- ${ex.description}`).join("\n")}
+
+## Root Cause Rubric
+${formatRubricForPrompt(rootCauseRubric)}
+
+## Solution Rubric
+${formatRubricForPrompt(solutionRubric)}
+
+---
+
+## User's Root Cause Analysis
+${wrapUntrustedInput(userDiagnosis)}
+
+## User's Proposed Solution
+${wrapUntrustedInput(userProposedSolution || "(No solution provided)")}
+
+---
+
+Evaluate if the user correctly identified the root cause AND proposed a valid fix. Respond with ONLY the JSON object.`;
+
+	const rateHalves = (result: CombinedEvaluation) => ({
+		rootCause: rateCriteria(rootCauseRubric, userDiagnosis, result.diagnosisCriteria),
+		solution: rateCriteria(solutionRubric, userProposedSolution, result.solutionCriteria),
+	});
+
+	try {
+		const { evaluation, path, secondOpinion } = await gradeWithReview(
+			async (model) => {
+				const graded = await runGuardedGrader(
+					model,
+					combinedEvaluationValidator,
+					COMBINED_EVALUATION_JSON_SCHEMA,
+					systemPrompt,
+					userPrompt,
+					`${userDiagnosis}\n${userProposedSolution}`,
+					caseId,
+					"expert"
+				);
+				return { ...graded, evaluation: enforceHalves(graded.evaluation) };
+			},
+			taskModel,
+			(result) => {
+				const halves = rateHalves(result);
+				return [...halves.rootCause, ...halves.solution];
+			},
+			review
+		);
+		const halves = rateHalves(evaluation);
+		const grading = {
+			evaluatedBy: path,
+			rubricScores: { rootCause: scoreRubric(halves.rootCause), solution: scoreRubric(halves.solution) },
+			confidence: evaluation.confidence,
+			secondOpinion,
+		};
+
+		// Build detailed feedback based on individual scores
+		const diagFeedback = evaluation.diagnosisScore === "correct" ? "✓ Root cause identified" :
+			evaluation.diagnosisScore === "partial" ? "~ Root cause partially correct" : "✗ Root cause incorrect";
+		const solFeedback = evaluation.solutionScore === "correct" ? "✓ Solution valid" :
+			evaluation.solutionScore === "partial" ? "~ Solution partially valid" : "✗ Solution needs work";
+		const feedbackPrefix = `[${diagFeedback}] [${solFeedback}]\n`;
+
+		if (evaluation.verdict === "correct") {
+			return {
+				correct: true,
+				partial: false,
+				feedback: `🎉 Case Closed! ${feedbackPrefix}${evaluation.explanation}`,
+				matchedKeywords: evaluation.matchedConcepts || [],
+				...grading,
+				solution,
+			};
+		} else if (evaluation.verdict === "partial") {
+			return {
+				correct: false,
+				partial: true,
+				feedback: `🔍 Getting Warmer! ${feedbackPrefix}${evaluation.explanation}`,
+				matchedKeywords: evaluation.matchedConcepts || [],
+				...grading,
+			};
+		} else {
+			return {
+				correct: false,
+				partial: false,
+				feedback: `❌ Not Quite! ${feedbackPrefix}${evaluation.explanation || "Review the clues and try again."}`,
+				matchedKeywords: evaluation.matchedConcepts || [],
+				...grading,
+			};
+		}
+	} catch (error) {
+		console.error("LLM evaluation error:", error);
+		// Fallback to keyword matching if LLM fails; both halves must match to close the case
+		return { ...matchCombined(userDiagnosis, userProposedSolution, solution), evaluatedBy: "keyword-fallback" };
+	}
+}
+
+/**
+ * Lexical fallback for a combined submission: the root cause and the fix are
+ * matched separately and the weaker verdict wins. A fix is never accepted
+ * lexically, so neither is a combined submission.
+ */
+function matchCombined(userDiagnosis: string, userProposedSolution: string, solution: Solution): DiagnosisResult {
+	const diagnosis = matchDiagnosis(userDiagnosis, solution);
+	const fix = matchSolution(userProposedSolution, solution);
+	const matchedKeywords = [...new Set([...diagnosis.matchedKeywords, ...fix.matchedKeywords])];
+
+	const weaker = diagnosis.correct ? fix : diagnosis;
+	return {
+		correct: false,
+		partial: diagnosis.correct || diagnosis.partial || fix.partial,
+		feedback: weaker.feedback,
+		matchedKeywords,
+	};
+}
@@ -0,0 +1,50 @@
+/**
+ * Grading - evaluate root-cause and solution submissions.
+ */
+
+export {
+	evaluateDiagnosisWithLLM,
+	evaluatePreventionWithLLM,
+	evaluateRootCauseWithLLM,
+	evaluateSolutionWithLLM,
+	PHASE_GRADERS,
+} from "./graders";
+export {
+	CRITERION_RATINGS,
+	formatRubricForPrompt,
+	meetsRequirements,
+	rubricCriteria,
+	scoreCriteria,
+	scoreRubric,
+	withoutConcepts,
+} from "./rubric";
+export type { RubricCriterion } from "./rubric";
+export { findRedHerring, revealedRedHerrings, withRedHerringFeedback } from "./red-herrings";
+export {
+	DEFAULT_MIN_CONFIDENCE,
+	DEFAULT_SAMPLES,
+	getSecondOpinionSettings,
+	majorityVerdict,
+	needsSecondOpinion,
+	opinionOf,
+	SAMPLE_TEMPERATURE,
+} from "./second-opinion";
+export type { SecondOpinionSettings } from "./second-opinion";
+export {
+	extractJson,
+	parseStructured,
+	repairJson,
+	runStructured,
+	StructuredOutputError,
+} from "./structured-output";
+export type { StructuredOutcome, StructuredResult } from "./structured-output";
+export {
+	CacheApiVerdictStore,
+	getVerdictCacheStore,
+	GRADER_PROMPT_VERSION,
+	gradeWithCache,
+	InMemoryVerdictStore,
+	KvVerdictStore,
+	verdictCacheKey,
+} from "./verdict-cache";
+export type { CachedVerdict, VerdictCacheStore, VerdictKeyParts } from "./verdict-cache";
@@ -0,0 +1,94 @@
+/**
+ * Red herrings - targeted feedback for known wrong answers.
+ *
+ * Cases can list plausible answers that their evidence rules out. When a
+ * submission that was not accepted relies on one, the player is told why
+ * the evidence rules it out instead of getting a generic "not quite".
+ * Feedback that cites a clue is held back until the session has revealed it.
+ */
+
+import type { DetectiveCase, DiagnosisResult, GradingPhase, RedHerring } from "../types";
+import { analyze } from "../utils/lexical";
+
+// Terms that, just before a phrase, mean the player is ruling it out
+const NEGATIONS = new Set(["not", "no"]);
+const NEGATION_WINDOW = 2;
+
+// Phrase terms may be this many terms apart ("network was really flaky")
+const MAX_GAP = 2;
+
+/**
+ * Position where the phrase's terms start, in order and close together, or -1.
+ */
+function phraseStart(terms: string[], phraseTerms: string[]): number {
+	for (let start = terms.indexOf(phraseTerms[0]); start !== -1; start = terms.indexOf(phraseTerms[0], start + 1)) {
+		let position = start;
+		const found = phraseTerms.slice(1).every((term) => {
+			const next = terms.slice(position + 1, position + 2 + MAX_GAP).indexOf(term);
+			position += next + 1;
+			return next !== -1;
+		});
+		if (found) {
+			return start;
+		}
+	}
+	return -1;
+}
+
+/**
+ * True when the submission contains the phrase and does not negate it
+ * ("not a network issue").
+ */
+function mentions(terms: string[], phrase: string): boolean {
+	const phraseTerms = analyze(phrase);
+	if (phraseTerms.length === 0) {
+		return false;
+	}
+
+	const start = phraseStart(terms, phraseTerms);
+	return start !== -1 && !terms.slice(Math.max(0, start - NEGATION_WINDOW), start).some((term) => NEGATIONS.has(term));
+}
+
+/**
+ * A case's red herrings whose feedback only cites clues the session has revealed.
+ */
+export function revealedRedHerrings(caseData: DetectiveCase, cluesRevealed: number): RedHerring[] {
+	const revealed = new Set(caseData.clues.slice(0, cluesRevealed).map((clue) => clue.id));
+	return (caseData.redHerrings ?? []).filter((herring) => (herring.clues ?? []).every((id) => revealed.has(id)));
+}
+
+/**
+ * The first red herring for this phase that a submission relies on.
+ */
+export function findRedHerring(submission: string, redHerrings: RedHerring[], phase: GradingPhase): RedHerring | null {
+	const terms = analyze(submission);
+	return redHerrings.find((herring) =>
+		(herring.phase ?? 1) === phase && herring.phrases.some((phrase) => mentions(terms, phrase))
+	) ?? null;
+}
+
+/**
+ * Attach red-herring feedback to a verdict that was not accepted. An
+ * incorrect verdict's feedback is replaced; a partial one keeps the grader's
+ * feedback and carries the red herring alongside it.
+ */
+export function withRedHerringFeedback(
+	result: DiagnosisResult,
+	submission: string,
+	redHerrings: RedHerring[] | undefined,
+	phase: GradingPhase
+): DiagnosisResult {
+	if (result.correct || !redHerrings?.length) {
+		return result;
+	}
+
+	const herring = findRedHerring(submission, redHerrings, phase);
+	if (!herring) {
+		return result;
+	}
+	return {
+		...result,
+		feedback: result.partial ? result.feedback : `❌ Red Herring! ${herring.feedback}`,
+		redHerring: herring.feedback,
+	};
+}
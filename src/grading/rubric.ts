@@ -0,0 +1,117 @@
+/**
+ * Rubric - weighted grading criteria per case and phase.
+ *
+ * Required and supporting items earn their weight when met (half when
+ * partially met); misconceptions subtract theirs. The result is scaled to
+ * 0-100 against the total positive weight.
+ */
+
+import type { CriterionRating, CriterionScore, GradingPhase, RubricItem, RubricItemKind, Solution } from "../types";
+
+export const CRITERION_RATINGS = ["met", "partial", "missed"] as const;
+
+const RATING_VALUES: Record<CriterionRating, number> = {
+	met: 1,
+	partial: 0.5,
+	missed: 0,
+};
+
+const ID_PREFIXES: Record<RubricItemKind, string> = {
+	required: "R",
+	supporting: "S",
+	misconception: "M",
+};
+
+/**
+ * A rubric item with its positional id.
+ */
+export interface RubricCriterion extends RubricItem {
+	id: string;
+}
+
+/**
+ * Authored or default rubric items for a phase. Cases without a rubric get
+ * one supporting item of weight 1 per keyword, which reproduces the old flat
+ * matching; phase 3 defaults to one per prevention strategy.
+ */
+function rubricItems(solution: Solution, phase: GradingPhase): RubricItem[] {
+	if (phase === 3) {
+		return solution.rubric?.prevention
+			?? solution.prevention.map((strategy): RubricItem => ({ kind: "supporting", concept: strategy, weight: 1 }));
+	}
+	if (solution.rubric) {
+		return phase === 1 ? solution.rubric.rootCause : solution.rubric.solution;
+	}
+	return solution.keywords.map((keyword): RubricItem => ({ kind: "supporting", concept: keyword, weight: 1 }));
+}
+
+/**
+ * Rubric criteria for a phase, with positional ids.
+ */
+export function rubricCriteria(solution: Solution, phase: GradingPhase): RubricCriterion[] {
+	const items = rubricItems(solution, phase);
+
+	const counts: Record<RubricItemKind, number> = { required: 0, supporting: 0, misconception: 0 };
+	return items.map((item) => ({ ...item, id: `${ID_PREFIXES[item.kind]}${++counts[item.kind]}` }));
+}
+
+/**
+ * Pair each criterion with its rating.
+ */
+export function scoreCriteria(criteria: RubricCriterion[], ratings: Record<string, CriterionRating>): CriterionScore[] {
+	return criteria.map((criterion) => ({
+		id: criterion.id,
+		kind: criterion.kind,
+		weight: criterion.weight,
+		rating: ratings[criterion.id] ?? "missed",
+		concept: criterion.concept,
+	}));
+}
+
+/**
+ * Weighted 0-100 score for a set of rated criteria.
+ */
+export function scoreRubric(scores: CriterionScore[]): number {
+	let possible = 0;
+	let earned = 0;
+	for (const score of scores) {
+		const value = RATING_VALUES[score.rating] * score.weight;
+		if (score.kind === "misconception") {
+			earned -= value;
+		} else {
+			possible += score.weight;
+			earned += value;
+		}
+	}
+	if (possible === 0) {
+		return 0;
+	}
+	return Math.min(100, Math.max(0, Math.round((earned / possible) * 100)));
+}
+
+/**
+ * True when every required item is met and no misconception is present.
+ */
+export function meetsRequirements(scores: CriterionScore[]): boolean {
+	return scores.every((score) =>
+		score.kind === "required" ? score.rating === "met"
+			: score.kind === "misconception" ? score.rating === "missed"
+			: true
+	);
+}
+
+/**
+ * Drop concept text so ratings can be shown while the case is still open.
+ */
+export function withoutConcepts(scores: CriterionScore[]): CriterionScore[] {
+	return scores.map(({ concept: _concept, ...score }) => score);
+}
+
+/**
+ * Render criteria as a rubric section for a grading prompt.
+ */
+export function formatRubricForPrompt(criteria: RubricCriterion[]): string {
+	return criteria
+		.map((criterion) => `- ${criterion.id} (${criterion.kind}, weight ${criterion.weight}): ${criterion.concept}`)
+		.join("\n");
+}
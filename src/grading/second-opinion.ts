@@ -0,0 +1,85 @@
+/**
+ * Second opinions - review low-confidence or borderline grader verdicts.
+ *
+ * A verdict is reviewed when the grader's confidence is low or when it
+ * contradicts the rubric ratings: "correct" with a required item missed or
+ * a misconception present, or "incorrect" with every requirement met.
+ */
+
+import { getTaskModel, type TaskModel } from "../llm";
+import type { CriterionScore, DiagnosisResult, Env, GraderOpinion, SecondOpinionStrategy, Verdict } from "../types";
+import { meetsRequirements } from "./rubric";
+
+export const DEFAULT_MIN_CONFIDENCE = 0.6;
+export const DEFAULT_SAMPLES = 2;
+
+/**
+ * Temperature for majority-vote samples, high enough that samples can disagree.
+ */
+export const SAMPLE_TEMPERATURE = 0.7;
+
+/**
+ * Resolved second-opinion settings.
+ */
+export interface SecondOpinionSettings {
+	strategy: SecondOpinionStrategy;
+	/** Review verdicts automatically during grading */
+	automatic: boolean;
+	minConfidence: number;
+	samples: number;
+	/** Model for the larger-model strategy */
+	taskModel: TaskModel;
+	/** Review regardless of confidence, as for an appeal */
+	force?: boolean;
+}
+
+/**
+ * Second-opinion settings from LLM_CONFIG, with defaults.
+ */
+export function getSecondOpinionSettings(env: Env): SecondOpinionSettings {
+	const config = env.LLM_CONFIG?.secondOpinion;
+	return {
+		strategy: config?.strategy ?? "larger-model",
+		automatic: config?.automatic ?? true,
+		minConfidence: config?.minConfidence ?? DEFAULT_MIN_CONFIDENCE,
+		samples: config?.samples ?? DEFAULT_SAMPLES,
+		taskModel: getTaskModel(env, "secondOpinionGrading"),
+	};
+}
+
+/**
+ * True when a verdict is uncertain enough to be reviewed.
+ */
+export function needsSecondOpinion(opinion: GraderOpinion, criteria: CriterionScore[], minConfidence: number): boolean {
+	if (opinion.confidence !== null && opinion.confidence < minConfidence) {
+		return true;
+	}
+	const meetsRubric = meetsRequirements(criteria);
+	return opinion.verdict === "correct" ? !meetsRubric : opinion.verdict === "incorrect" && meetsRubric;
+}
+
+// Ties go to the more cautious verdict
+const TIE_ORDER: Verdict[] = ["partial", "incorrect", "correct"];
+
+/**
+ * Most common verdict among votes.
+ */
+export function majorityVerdict(votes: Verdict[]): Verdict {
+	const counts = new Map<Verdict, number>();
+	for (const vote of votes) {
+		counts.set(vote, (counts.get(vote) ?? 0) + 1);
+	}
+	const top = Math.max(...counts.values());
+	return TIE_ORDER.find((verdict) => counts.get(verdict) === top) ?? votes[0];
+}
+
+/**
+ * The verdict a grading result shows, as an opinion.
+ */
+export function opinionOf(result: DiagnosisResult): GraderOpinion {
+	return {
+		verdict: result.correct ? "correct" : result.partial ? "partial" : "incorrect",
+		confidence: result.confidence ?? null,
+		explanation: result.feedback,
+	};
+}
@@ -0,0 +1,195 @@
+/**
+ * Structured Output - get a schema-valid JSON object out of a chat model.
+ *
+ * Asks for JSON-schema-constrained output where the provider supports it, then
+ * parses the reply defensively: JSON is pulled out of code fences and
+ * surrounding prose, common mistakes are repaired, and the result is
+ * validated. If that still fails, the model is asked once to correct itself.
+ */
+
+import { completionRequest, type CompletionResult, type JsonSchema, type TaskModel } from "../llm";
+import type { ChatMessage } from "../types";
+import { validate, type Validator } from "../validation";
+
+/**
+ * How a structured value was obtained.
+ * - parsed: the first reply was valid as-is (after extraction)
+ * - repaired: the first reply needed syntax repair
+ * - retried: the first reply was unusable and the corrective retry succeeded
+ */
+export type StructuredOutcome = "parsed" | "repaired" | "retried";
+
+export interface StructuredResult<T> {
+	value: T;
+	outcome: StructuredOutcome;
+}
+
+/**
+ * Thrown when neither the first reply nor the retry yields a valid object.
+ */
+export class StructuredOutputError extends Error {
+	constructor(message: string, readonly rawResponses: string[]) {
+		super(message);
+		this.name = "StructuredOutputError";
+	}
+}
+
+/**
+ * Pull the first balanced JSON object out of a reply that may contain code
+ * fences or prose around it. Returns null if there is no opening brace.
+ */
+export function extractJson(text: string): string | null {
+	const start = text.indexOf("{");
+	if (start === -1) {
+		return null;
+	}
+
+	let depth = 0;
+	let inString = false;
+	for (let i = start; i < text.length; i++) {
+		const char = text[i];
+		if (inString) {
+			if (char === "\\") {
+				i++;
+			} else if (char === "\"") {
+				inString = false;
+			}
+		} else if (char === "\"") {
+			inString = true;
+		} else if (char === "{") {
+			depth++;
+		} else if (char === "}") {
+			depth--;
+			if (depth === 0) {
+				return text.slice(start, i + 1);
+			}
+		}
+	}
+
+	// Unbalanced: return the tail so repair can try to close it
+	return text.slice(start);
+}
+
+/**
+ * Fix the mistakes small models make most often: smart quotes, single-quoted
+ * strings, unquoted keys, Python literals, trailing commas and missing
+ * closing brackets.
+ */
+export function repairJson(text: string): string {
+	let repaired = text
+		.replace(/[\u201c\u201d]/g, "\"")
+		.replace(/[\u2018\u2019]/g, "'")
+		// 'value' -> "value" (only when not inside a double-quoted string)
+		.replace(/'([^'"\\]*)'(?=\s*[:,}\]])/g, "\"$1\"")
+		// {key: -> {"key":
+		.replace(/([{,]\s*)([A-Za-z_][A-Za-z0-9_]*)\s*:/g, "$1\"$2\":")
+		.replace(/:\s*True\b/g, ": true")
+		.replace(/:\s*False\b/g, ": false")
+		.replace(/:\s*None\b/g, ": null")
+		.replace(/,\s*([}\]])/g, "$1");
+
+	// Close unterminated strings, arrays and objects
+	const stack: string[] = [];
+	let inString = false;
+	for (let i = 0; i < repaired.length; i++) {
+		const char = repaired[i];
+		if (inString) {
+			if (char === "\\") {
+				i++;
+			} else if (char === "\"") {
+				inString = false;
+			}
+		} else if (char === "\"") {
+			inString = true;
+		} else if (char === "{" || char === "[") {
+			stack.push(char === "{" ? "}" : "]");
+		} else if (char === "}" || char === "]") {
+			stack.pop();
+		}
+	}
+	if (inString) {
+		repaired += "\"";
+	}
+	return repaired.replace(/,\s*$/, "") + stack.reverse().join("");
+}
+
+/**
+ * Parse a model reply against a validator.
+ * @returns The value and whether repair was needed, or the reason it failed
+ */
+export function parseStructured<T>(
+	raw: unknown,
+	validator: Validator<T>
+): { ok: true; value: T; repaired: boolean } | { ok: false; error: string } {
+	// Providers may hand back an already-parsed object
+	if (raw !== null && typeof raw === "object") {
+		const result = validate(validator, raw);
+		return result.ok
+			? { ok: true, value: result.value, repaired: false }
+			: { ok: false, error: describeErrors(result.details) };
+	}
+
+	const json = extractJson(String(raw ?? ""));
+	if (json === null) {
+		return { ok: false, error: "no JSON object found" };
+	}
+
+	for (const [candidate, repaired] of [[json, false], [repairJson(json), true]] as const) {
+		let parsed: unknown;
+		try {
+			parsed = JSON.parse(candidate);
+		} catch {
+			continue;
+		}
+		const result = validate(validator, parsed);
+		if (result.ok) {
+			return { ok: true, value: result.value, repaired };
+		}
+		return { ok: false, error: describeErrors(result.details) };
+	}
+	return { ok: false, error: "reply is not valid JSON" };
+}
+
+function describeErrors(details: { field: string; message: string }[]): string {
+	return details.map(({ field, message }) => `${field} ${message}`).join("; ");
+}
+
+/**
+ * Run a chat completion and return a validated object. The first unusable
+ * reply triggers one retry that shows the model its reply and the problem.
+ * The schema is also sent to providers that can constrain output with it;
+ * the validator is the real contract. Throws StructuredOutputError when both
+ * attempts fail.
+ */
+export async function runStructured<T>(
+	taskModel: TaskModel,
+	messages: ChatMessage[],
+	options: { schema: JsonSchema; validator: Validator<T> }
+): Promise<StructuredResult<T>> {
+	const call = (conversation: ChatMessage[]): Promise<CompletionResult> =>
+		taskModel.provider.complete(completionRequest(taskModel, conversation, options.schema));
+
+	const first = await call(messages);
+	const firstResult = parseStructured(first.json ?? first.text, options.validator);
+	if (firstResult.ok) {
+		return { value: firstResult.value, outcome: firstResult.repaired ? "repaired" : "parsed" };
+	}
+
+	const retry = await call([
+		...messages,
+		{ role: "assistant", content: first.text },
+		{
+			role: "user",
+			content: `Your reply could not be used (${firstResult.error}). Respond again with ONLY a JSON object matching this schema, no other text:\n${JSON.stringify(options.schema)}`,
+		},
+	]);
+	const retryResult = parseStructured(retry.json ?? retry.text, options.validator);
+	if (retryResult.ok) {
+		return { value: retryResult.value, outcome: "retried" };
+	}
+
+	throw new StructuredOutputError(
+		`Model did not return valid structured output: ${retryResult.error}`,
+		[first.text, retry.text]
+	);
+}
@@ -0,0 +1,199 @@
+/**
+ * Verdict cache - reuse grader verdicts for repeated submissions.
+ *
+ * Verdicts are keyed by case, phase, grader prompt version, model and a hash
+ * of the normalized submission, so resubmitting the same text (or the same
+ * text with different casing and punctuation) returns the same verdict
+ * without another model call. Only model verdicts are cached; keyword
+ * fallbacks are recomputed so a transient model failure is not remembered.
+ */
+
+import type { DiagnosisResult, Env, GradingPhase, Solution } from "../types";
+import { normalize } from "../utils/lexical";
+
+/**
+ * Bump whenever a grading prompt, its output schema, the rubric format or
+ * the checks applied to a verdict change so verdicts graded with older
+ * prompts are not reused.
+ */
+export const GRADER_PROMPT_VERSION = 4;
+
+/**
+ * How long a cached verdict is kept.
+ */
+export const VERDICT_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+/**
+ * What a cached verdict depends on.
+ */
+export interface VerdictKeyParts {
+	caseId: string;
+	/** A grading phase, or "expert" for single-shot expert submissions */
+	phase: GradingPhase | "expert";
+	model: string;
+	submission: string;
+}
+
+/**
+ * A cached verdict. The solution is left out and re-attached on a hit.
+ */
+export type CachedVerdict = Omit<DiagnosisResult, "solution" | "cached">;
+
+/**
+ * Backing store for cached verdicts.
+ */
+export interface VerdictCacheStore {
+	get(key: string): Promise<CachedVerdict | null>;
+	put(key: string, verdict: CachedVerdict): Promise<void>;
+}
+
+async function sha256Hex(text: string): Promise<string> {
+	const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+	return [...new Uint8Array(digest)].map((byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Cache key for a submission.
+ */
+export async function verdictCacheKey({ caseId, phase, model, submission }: VerdictKeyParts): Promise<string> {
+	return `verdict:v${GRADER_PROMPT_VERSION}:${caseId}:${phase}:${model}:${await sha256Hex(normalize(submission))}`;
+}
+
+/**
+ * Store backed by the Workers Cache API. Entries are local to the data
+ * center that graded them.
+ */
+export class CacheApiVerdictStore implements VerdictCacheStore {
+	constructor(private readonly cache: Cache = caches.default) {}
+
+	async get(key: string): Promise<CachedVerdict | null> {
+		const response = await this.cache.match(this.request(key));
+		return response ? response.json<CachedVerdict>() : null;
+	}
+
+	async put(key: string, verdict: CachedVerdict): Promise<void> {
+		await this.cache.put(this.request(key), new Response(JSON.stringify(verdict), {
+			headers: {
+				"Content-Type": "application/json",
+				"Cache-Control": `max-age=${VERDICT_TTL_SECONDS}`,
+			},
+		}));
+	}
+
+	// The Cache API only takes URLs as keys
+	private request(key: string): Request {
+		return new Request(`https://verdict-cache.internal/${encodeURIComponent(key)}`);
+	}
+}
+
+/**
+ * Store backed by a KV namespace, shared across data centers.
+ */
+export class KvVerdictStore implements VerdictCacheStore {
+	constructor(private readonly namespace: KVNamespace) {}
+
+	get(key: string): Promise<CachedVerdict | null> {
+		return this.namespace.get<CachedVerdict>(key, "json");
+	}
+
+	async put(key: string, verdict: CachedVerdict): Promise<void> {
+		await this.namespace.put(key, JSON.stringify(verdict), { expirationTtl: VERDICT_TTL_SECONDS });
+	}
+}
+
+/**
+ * Store that keeps verdicts in isolate memory. Used for local runs; the
+ * oldest entry is evicted once the store is full.
+ */
+export class InMemoryVerdictStore implements VerdictCacheStore {
+	private readonly entries = new Map<string, { verdict: CachedVerdict; expiresAt: number }>();
+
+	constructor(private readonly maxEntries = 1000, private readonly now: () => number = Date.now) {}
+
+	async get(key: string): Promise<CachedVerdict | null> {
+		const entry = this.entries.get(key);
+		if (!entry) {
+			return null;
+		}
+		if (entry.expiresAt <= this.now()) {
+			this.entries.delete(key);
+			return null;
+		}
+		return entry.verdict;
+	}
+
+	async put(key: string, verdict: CachedVerdict): Promise<void> {
+		this.entries.delete(key);
+		if (this.entries.size >= this.maxEntries) {
+			const oldest = this.entries.keys().next().value;
+			if (oldest !== undefined) {
+				this.entries.delete(oldest);
+			}
+		}
+		this.entries.set(key, { verdict, expiresAt: this.now() + VERDICT_TTL_SECONDS * 1000 });
+	}
+}
+
+// Shared across requests handled by the same isolate
+const memoryStore = new InMemoryVerdictStore();
+
+/**
+ * Pick the store configured by VERDICT_CACHE_STORE, or null when caching is off.
+ */
+export function getVerdictCacheStore(env: Env): VerdictCacheStore | null {
+	switch (env.VERDICT_CACHE_STORE ?? "cache") {
+		case "off":
+			return null;
+		case "memory":
+			return memoryStore;
+		case "kv":
+			if (!env.VERDICT_CACHE) {
+				throw new Error("The VERDICT_CACHE KV binding is required when VERDICT_CACHE_STORE is \"kv\"");
+			}
+			return new KvVerdictStore(env.VERDICT_CACHE);
+		case "cache":
+			return new CacheApiVerdictStore();
+	}
+}
+
+/**
+ * Return the cached verdict for a submission, or grade it and cache the
+ * result. Cache errors never fail grading; they only cost a model call.
+ *
+ * @param solution Re-attached to correct phase 2 and expert verdicts served from the cache
+ */
+export async function gradeWithCache(
+	store: VerdictCacheStore | null,
+	parts: VerdictKeyParts,
+	solution: Solution,
+	grade: () => Promise<DiagnosisResult>
+): Promise<DiagnosisResult> {
+	if (!store) {
+		return grade();
+	}
+
+	const key = await verdictCacheKey(parts);
+	try {
+		const hit = await store.get(key);
+		if (hit) {
+			return {
+				...hit,
+				...(hit.correct && (parts.phase === 2 || parts.phase === "expert") ? { solution } : {}),
+				cached: true,
+			};
+		}
+	} catch (error) {
+		console.error("Verdict cache read failed:", error);
+	}
+
+	const result = await grade();
+	if (result.evaluatedBy && result.evaluatedBy !== "keyword-fallback") {
+		const { solution: _solution, cached: _cached, ...verdict } = result;
+		try {
+			await store.put(key, verdict);
+		} catch (error) {
+			console.error("Verdict cache write failed:", error);
+		}
+	}
+	return result;
+}
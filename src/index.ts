@@ -6,13 +6,93 @@
  *
  * @license MIT
  */
-import { Env, ChatMessage, ChatRequest, DiagnosisResult, Solution } from "./types";
-import { getAllCaseSummaries, getCaseView, getCase, getCaseSolution } from "./cases";
-import { matchDiagnosis, generateHint } from "./utils/diagnosis-matcher";
+import { Appeal, Env, CaseProgress, Clue, DetectiveCase, HintView, MentorMode, NextHint, Solution } from "./types";
+import { getAllCaseSummaries, getCaseView, getCase, getCaseSolution, toClueView } from "./cases";
+import { hintLadder, hintPhase, nextHint, suggestHint, takenHints } from "./utils/hint-ladder";
 import { buildCaseContextPrompt, buildGeneralPrompt, buildVictoryPrompt } from "./utils/prompt-builder";
-
-// Model ID for Workers AI
-const MODEL_ID = "@cf/meta/llama-3.1-8b-instruct-fp8";
+import { INITIAL_CLUES, summarizeProgress } from "./utils/scoring";
+import { createLeakageGuard } from "./utils/output-guard";
+import { createCitationTracker } from "./utils/clue-evidence";
+import { fitChatContext } from "./utils/context-window";
+import { DEFAULT_PERSONA_ID, getPersona, listPersonas } from "./utils/personas";
+import { normalize } from "./utils/lexical";
+import {
+	evaluateDiagnosisWithLLM,
+	getSecondOpinionSettings,
+	getVerdictCacheStore,
+	gradeWithCache,
+	opinionOf,
+	PHASE_GRADERS,
+	revealedRedHerrings,
+	withoutConcepts,
+	withRedHerringFeedback,
+} from "./grading";
+import { getAppealStore, MAX_APPEALS_LISTED } from "./appeals";
+import { completionRequest, getTaskModel } from "./llm";
+import { awaitsPrevention, caseMode, chatSummaryStore, isClosed, SESSION_HEADER, SessionStub } from "./session";
+import {
+	appealRequestSchema,
+	chatRequestSchema,
+	checkRequestSchema,
+	FieldError,
+	parseJsonBody,
+	personaRequestSchema,
+} from "./validation";
+import {
+	cors,
+	errorHandler,
+	jsonResponse,
+	rateLimited,
+	REQUEST_ID_HEADER,
+	requestId,
+	requireSession,
+	resolveSession,
+	Router,
+	timing,
+} from "./router";
+
+export { AppealLedger } from "./appeals";
+export { InvestigationSession } from "./session";
+export { RateLimiter } from "./rate-limit";
+
+// Response header telling the UI which mentor persona answered a chat
+const MENTOR_MODE_HEADER = "X-Mentor-Mode";
+
+// Response header naming the persona whose voice the chat reply is in
+const MENTOR_PERSONA_HEADER = "X-Mentor-Persona";
+
+const router = new Router()
+	.use(cors({
+		allowHeaders: ["Content-Type", SESSION_HEADER, REQUEST_ID_HEADER],
+		exposeHeaders: ["Retry-After", MENTOR_MODE_HEADER, MENTOR_PERSONA_HEADER, REQUEST_ID_HEADER, "Server-Timing"],
+	}))
+	.use(requestId())
+	.use(timing())
+	.use(errorHandler())
+	.use(resolveSession())
+	.get("/api/cases", () => handleListCases())
+	.get("/api/personas", () => handleListPersonas())
+	.get("/api/progress", requireSession(({ session }) => handleListProgress(session)))
+	.get("/api/cases/:id", requireSession(({ params, session }) => handleGetCase(params.id, session)))
+	.post("/api/cases/:id/clues/next", requireSession(({ params, session }) => handleRevealNextClue(params.id, session)))
+	.post("/api/cases/:id/check", requireSession(rateLimited("grading", ({ params, request, env, session }) =>
+		handleCheckDiagnosis(params.id, request, env, session)
+	)))
+	.get("/api/cases/:id/clues/:clueId/hint", requireSession(({ params, session }) =>
+		handleGetHint(params.id, Number(params.clueId), session)
+	))
+	.post("/api/cases/:id/hints/next", requireSession(({ params, session }) => handleTakeHint(params.id, session)))
+	.post("/api/cases/:id/appeal", requireSession(rateLimited("grading", ({ params, request, env, session, sessionId }) =>
+		handleAppeal(params.id, request, env, session, sessionId)
+	)))
+	.post("/api/cases/:id/prevention/skip", requireSession(({ params, session }) => handleSkipPrevention(params.id, session)))
+	.post("/api/cases/:id/give-up", requireSession(({ params, session }) => handleGiveUp(params.id, session)))
+	.post("/api/cases/:id/persona", requireSession(({ params, request, session }) =>
+		handleSetPersona(params.id, request, session)
+	))
+	.get("/api/cases/:id/solution", requireSession(({ params, session }) => handleGetSolution(params.id, session)))
+	.post("/api/chat", rateLimited("chat", ({ request, env, session }) => handleChatRequest(request, env, session)))
+	.get("/api/appeals", ({ request, env }) => handleListAppeals(request, env));
 
 export default {
 	/**
@@ -21,94 +101,24 @@ export default {
 	async fetch(
 		request: Request,
 		env: Env,
-		_ctx: ExecutionContext,
+		ctx: ExecutionContext,
 	): Promise<Response> {
 		const url = new URL(request.url);
 
-		// Handle CORS preflight
-		if (request.method === "OPTIONS") {
-			return handleCors();
-		}
-
 		// Handle static assets (frontend)
-		if (url.pathname === "/" || !url.pathname.startsWith("/api/")) {
+		if (!url.pathname.startsWith("/api/") && request.method !== "OPTIONS") {
 			return env.ASSETS.fetch(request);
 		}
 
-		// API Routes
-		try {
-			// List all cases
-			if (url.pathname === "/api/cases" && request.method === "GET") {
-				return handleListCases();
-			}
-
-			// Get specific case
-			const caseMatch = url.pathname.match(/^\/api\/cases\/([^/]+)$/);
-			if (caseMatch && request.method === "GET") {
-				const caseId = caseMatch[1];
-				const cluesParam = url.searchParams.get("clues");
-				const cluesRevealed = cluesParam ? parseInt(cluesParam, 10) : 2;
-				return handleGetCase(caseId, cluesRevealed);
-			}
-
-			// Check diagnosis
-			const checkMatch = url.pathname.match(/^\/api\/cases\/([^/]+)\/check$/);
-			if (checkMatch && request.method === "POST") {
-				const caseId = checkMatch[1];
-				return handleCheckDiagnosis(caseId, request, env);
-			}
-
-			// Get solution (for give up)
-			const solutionMatch = url.pathname.match(/^\/api\/cases\/([^/]+)\/solution$/);
-			if (solutionMatch && request.method === "GET") {
-				const caseId = solutionMatch[1];
-				return handleGetSolution(caseId);
-			}
-
-			// Chat endpoint
-			if (url.pathname === "/api/chat" && request.method === "POST") {
-				return handleChatRequest(request, env);
-			}
-
-			// Method not allowed
-			if (url.pathname.startsWith("/api/")) {
-				return jsonResponse({ error: "Method not allowed" }, 405);
-			}
-		} catch (error) {
-			console.error("API Error:", error);
-			return jsonResponse({ error: "Internal server error" }, 500);
-		}
-
-		return jsonResponse({ error: "Not found" }, 404);
+		return router.handle(request, env, ctx);
 	},
 } satisfies ExportedHandler<Env>;
 
 /**
- * Handle CORS preflight requests
- */
-function handleCors(): Response {
-	return new Response(null, {
-		status: 204,
-		headers: {
-			"Access-Control-Allow-Origin": "*",
-			"Access-Control-Allow-Methods": "GET, POST, OPTIONS",
-			"Access-Control-Allow-Headers": "Content-Type",
-			"Access-Control-Max-Age": "86400",
-		},
-	});
-}
-
-/**
- * Create a JSON response with CORS headers
+ * Response for a request body that failed validation
  */
-function jsonResponse(data: unknown, status = 200): Response {
-	return new Response(JSON.stringify(data), {
-		status,
-		headers: {
-			"Content-Type": "application/json",
-			"Access-Control-Allow-Origin": "*",
-		},
-	});
+function invalidRequestResponse(result: { error: string; details: FieldError[] }): Response {
+	return jsonResponse({ error: result.error, details: result.details }, 400);
 }
 
 /**
@@ -120,455 +130,561 @@ function handleListCases(): Response {
 }
 
 /**
- * GET /api/cases/:id - Get a specific case with clues
+ * GET /api/personas - List the mentor personas
  */
-function handleGetCase(caseId: string, cluesRevealed: number): Response {
-	const caseView = getCaseView(caseId, cluesRevealed);
-	if (!caseView) {
-		return jsonResponse({ error: "Case not found" }, 404);
-	}
-	return jsonResponse({ case: caseView });
+function handleListPersonas(): Response {
+	return jsonResponse({ personas: listPersonas(), default: DEFAULT_PERSONA_ID });
 }
 
 /**
- * POST /api/cases/:id/check - Check a diagnosis attempt using LLM evaluation
- * Supports two-phase system:
- * - Phase 1: Evaluate only the root cause (diagnosis)
- * - Phase 2: Evaluate only the proposed solution
+ * GET /api/progress - List progress for every case in the session
+ */
+async function handleListProgress(session: SessionStub): Promise<Response> {
+	const progress = await session.listProgress();
+	return jsonResponse({ progress, summary: summarizeProgress(progress) });
+}
+
+/**
+ * GET /api/cases/:id - Get a specific case with the clues the session has unlocked
  */
-async function handleCheckDiagnosis(caseId: string, request: Request, env: Env): Promise<Response> {
+async function handleGetCase(caseId: string, session: SessionStub): Promise<Response> {
 	const caseData = getCase(caseId);
 	if (!caseData) {
 		return jsonResponse({ error: "Case not found" }, 404);
 	}
 
-	const body = await request.json() as {
-		phase?: number;
-		diagnosis: string;
-		proposedSolution?: string;
-		attemptCount?: number;
-		cluesRevealed?: number;
-	};
-	const { phase = 1, diagnosis, proposedSolution = "", attemptCount = 1, cluesRevealed = 2 } = body;
-
-	// Validate based on phase
-	if (phase === 1) {
-		if (!diagnosis || typeof diagnosis !== "string") {
-			return jsonResponse({ error: "Diagnosis is required for Phase 1" }, 400);
-		}
-		// Phase 1: Evaluate only root cause
-		const result = await evaluateRootCauseWithLLM(env, diagnosis, caseData.solution);
-
-		if (!result.correct) {
-			const hint = generateHint(attemptCount, cluesRevealed, caseData.clues.length);
-			return jsonResponse({
-				...result,
-				hint,
-			});
-		}
-		return jsonResponse(result);
-	} else if (phase === 2) {
-		if (!proposedSolution || typeof proposedSolution !== "string") {
-			return jsonResponse({ error: "Proposed solution is required for Phase 2" }, 400);
-		}
-		// Phase 2: Evaluate only solution
-		const result = await evaluateSolutionWithLLM(env, proposedSolution, caseData.solution);
-
-		if (!result.correct) {
-			const hint = generateHint(attemptCount, cluesRevealed, caseData.clues.length);
-			return jsonResponse({
-				...result,
-				hint,
-			});
-		}
-		return jsonResponse(result);
-	} else {
-		return jsonResponse({ error: "Invalid phase. Must be 1 or 2." }, 400);
-	}
+	const progress = await session.getProgress(caseId);
+	const caseView = getCaseView(caseId, progress.cluesRevealed);
+	return jsonResponse({ case: caseView, progress, hints: hintLadderView(caseData, progress) });
 }
 
 /**
- * Phase 1: Use LLM to evaluate if the user correctly identified the root cause
+ * POST /api/cases/:id/clues/next - Unlock the next clue (recorded for scoring)
  */
-async function evaluateRootCauseWithLLM(
-	env: Env,
-	userDiagnosis: string,
-	solution: Solution
-): Promise<DiagnosisResult> {
-	const systemPrompt = `You are an expert evaluator for a backend engineering debugging game. Your job is to determine if the user correctly identified the ROOT CAUSE of a production incident.
-
-You must respond with ONLY a valid JSON object in this exact format, no other text:
-{"verdict": "correct" | "partial" | "incorrect", "explanation": "brief explanation", "matchedConcepts": ["concept1", "concept2"]}
-
-EVALUATION CRITERIA for ROOT CAUSE:
-- CORRECT: User identified the core root cause, even with different terminology. They understand WHY the problem occurred.
-- PARTIAL: User is on the right track - identified symptoms or contributing factors, but not the exact root cause.
-- INCORRECT: User's diagnosis is unrelated or fundamentally misunderstands the problem.
+async function handleRevealNextClue(caseId: string, session: SessionStub): Promise<Response> {
+	const caseData = getCase(caseId);
+	if (!caseData) {
+		return jsonResponse({ error: "Case not found" }, 404);
+	}
 
-Be generous - if the user demonstrates understanding of the core issue, give credit even if wording differs from official answer.`;
+	const progress = await session.revealNextClue(caseId, caseData.clues.length);
+	if (!progress) {
+		return jsonResponse({ error: "No more clues to reveal" }, 409);
+	}
 
-	const userPrompt = `## Actual Root Cause
-${solution.diagnosis}
+	const clue = toClueView(caseData.clues[progress.cluesRevealed - 1]);
+	return jsonResponse({ clue, progress });
+}
 
-## Full Explanation
-${solution.rootCause}
+/**
+ * GET /api/cases/:id/clues/:clueId/hint - Get a clue's hint
+ * Only unlocked clues can be asked for; the view is recorded for scoring.
+ */
+async function handleGetHint(caseId: string, clueId: number, session: SessionStub): Promise<Response> {
+	const caseData = getCase(caseId);
+	if (!caseData) {
+		return jsonResponse({ error: "Case not found" }, 404);
+	}
 
-## Key Concepts
-${solution.keywords.join(", ")}
+	const clueIndex = caseData.clues.findIndex((clue) => clue.id === clueId);
+	const clue = caseData.clues[clueIndex];
+	if (!clue?.hint) {
+		return jsonResponse({ error: "Hint not found" }, 404);
+	}
 
----
+	const current = await session.getProgress(caseId);
+	if (clueIndex >= current.cluesRevealed) {
+		return jsonResponse({ error: "Clue has not been revealed yet" }, 403);
+	}
 
-## User's Root Cause Analysis
-"${userDiagnosis}"
+	const progress = await session.recordHintView(caseId, clueId);
+	return jsonResponse({ hint: clue.hint, progress });
+}
 
----
+/**
+ * The hint ladder rungs a session has taken, and the next one on offer
+ * while the case is open.
+ */
+function hintLadderView(caseData: DetectiveCase, progress: CaseProgress): { taken: HintView[]; next: NextHint | null } {
+	return {
+		taken: takenHints(caseData, progress),
+		next: isClosed(progress) ? null : nextHint(caseData, progress, hintPhase(progress)),
+	};
+}
 
-Evaluate if the user correctly identified the root cause. Respond with ONLY the JSON object.`;
+/**
+ * POST /api/cases/:id/hints/next - Take the next rung of the hint ladder
+ * Serves the current phase's next hint and records its cost for scoring.
+ */
+async function handleTakeHint(caseId: string, session: SessionStub): Promise<Response> {
+	const caseData = getCase(caseId);
+	if (!caseData) {
+		return jsonResponse({ error: "Case not found" }, 404);
+	}
 
-	try {
-		const response = await env.AI.run(MODEL_ID, {
-			messages: [
-				{ role: "system", content: systemPrompt },
-				{ role: "user", content: userPrompt },
-			],
-			max_tokens: 512,
-			temperature: 0.1,
-		}) as { response?: string };
-
-		const responseText = response.response || "";
-		let jsonStr = responseText.trim();
-		if (jsonStr.startsWith("```")) {
-			jsonStr = jsonStr.replace(/```json?\n?/g, "").replace(/```/g, "").trim();
-		}
+	const current = await session.getProgress(caseId);
+	if (isClosed(current)) {
+		return jsonResponse({ error: "Case is already closed" }, 409);
+	}
 
-		const evaluation = JSON.parse(jsonStr) as {
-			verdict: "correct" | "partial" | "incorrect";
-			explanation: string;
-			matchedConcepts: string[];
-		};
-
-		if (evaluation.verdict === "correct") {
-			return {
-				correct: true,
-				partial: false,
-				feedback: `✓ Root Cause Identified! ${evaluation.explanation} Now propose a solution to fix it.`,
-				matchedKeywords: evaluation.matchedConcepts || [],
-			};
-		} else if (evaluation.verdict === "partial") {
-			return {
-				correct: false,
-				partial: true,
-				feedback: `🔍 Getting Warmer! ${evaluation.explanation}`,
-				matchedKeywords: evaluation.matchedConcepts || [],
-			};
-		} else {
-			return {
-				correct: false,
-				partial: false,
-				feedback: `❌ Not Quite! ${evaluation.explanation || "Review the clues and try again."}`,
-				matchedKeywords: evaluation.matchedConcepts || [],
-			};
-		}
-	} catch (error) {
-		console.error("LLM evaluation error:", error);
-		return matchDiagnosis(userDiagnosis, solution);
+	const phase = hintPhase(current);
+	const ladder = hintLadder(caseData, current, phase).map((rung) => rung.text);
+	const progress = await session.takeHint(caseId, phase, ladder);
+	if (!progress) {
+		return jsonResponse({ error: "No more hints for this phase" }, 409);
 	}
+
+	const { taken, next } = hintLadderView(caseData, progress);
+	return jsonResponse({ hint: taken[taken.length - 1], next, progress });
 }
 
 /**
- * Phase 2: Use LLM to evaluate if the user proposed a valid solution
+ * POST /api/cases/:id/give-up - Give up on a case
  */
-async function evaluateSolutionWithLLM(
-	env: Env,
-	userProposedSolution: string,
-	solution: Solution
-): Promise<DiagnosisResult> {
-	const systemPrompt = `You are an expert evaluator for a backend engineering debugging game. Your job is to determine if the user proposed a VALID SOLUTION to fix a production incident.
+async function handleGiveUp(caseId: string, session: SessionStub): Promise<Response> {
+	if (!getCase(caseId)) {
+		return jsonResponse({ error: "Case not found" }, 404);
+	}
 
-You must respond with ONLY a valid JSON object in this exact format, no other text:
-{"verdict": "correct" | "partial" | "incorrect", "explanation": "brief explanation", "matchedConcepts": ["concept1", "concept2"]}
+	const progress = await session.giveUp(caseId);
+	return jsonResponse({ progress });
+}
 
-EVALUATION CRITERIA for PROPOSED SOLUTION:
-- CORRECT: User's fix would actually resolve the issue. It doesn't have to match exactly, but must address the root cause effectively.
-- PARTIAL: User's solution would help but not fully fix the issue, or is missing key elements.
-- INCORRECT: User's solution wouldn't fix the problem or might make it worse.
+/**
+ * POST /api/cases/:id/persona - Choose the mentor persona for a case's chat
+ */
+async function handleSetPersona(caseId: string, request: Request, session: SessionStub): Promise<Response> {
+	if (!getCase(caseId)) {
+		return jsonResponse({ error: "Case not found" }, 404);
+	}
+	const body = await parseJsonBody(request, personaRequestSchema);
+	if (!body.ok) {
+		return invalidRequestResponse(body);
+	}
 
-Be generous - if the user proposes a reasonable fix that addresses the core issue, give credit even if it differs from the official solution.`;
+	const progress = await session.setMentorPersona(caseId, body.value.persona);
+	return jsonResponse({ progress });
+}
 
-	const userPrompt = `## Root Cause of the Issue
-${solution.diagnosis}
+/**
+ * POST /api/cases/:id/prevention/skip - Skip the optional prevention phase
+ */
+async function handleSkipPrevention(caseId: string, session: SessionStub): Promise<Response> {
+	if (!getCase(caseId)) {
+		return jsonResponse({ error: "Case not found" }, 404);
+	}
 
-## Full Explanation
-${solution.rootCause}
+	const current = await session.getProgress(caseId);
+	if (!awaitsPrevention(current)) {
+		return jsonResponse({ error: "Prevention phase is not open" }, 409);
+	}
+	const progress = await session.skipPrevention(caseId);
+	return jsonResponse({ progress });
+}
 
-## Example Correct Solutions
-${solution.codeExamples.map(ex => `- ${ex.description}`).join("\n")}
+/**
+ * The solution as released to the player. Prevention strategies are held
+ * back while the prevention phase is still open.
+ */
+function releasedSolution(solution: Solution, progress: CaseProgress): Solution {
+	return awaitsPrevention(progress) ? { ...solution, prevention: [] } : solution;
+}
 
-## Key Concepts
-${solution.keywords.join(", ")}
+/**
+ * POST /api/cases/:id/check - Check a diagnosis attempt using LLM evaluation
+ * Supports three phases:
+ * - Phase 1: Evaluate only the root cause (diagnosis)
+ * - Phase 2: Evaluate only the proposed solution
+ * - Phase 3: Evaluate the prevention strategy (optional, once, after solving)
+ * Attempts and phase completion are recorded in the session; a correct
+ * phase 2 attempt closes the case with a server-computed score, and the
+ * phase 3 verdict adds a bonus to it.
+ * With "mode": "expert", phases 1 and 2 are replaced by one combined submission.
+ */
+async function handleCheckDiagnosis(
+	caseId: string,
+	request: Request,
+	env: Env,
+	session: SessionStub
+): Promise<Response> {
+	const caseData = getCase(caseId);
+	if (!caseData) {
+		return jsonResponse({ error: "Case not found" }, 404);
+	}
 
----
+	const body = await parseJsonBody(request, checkRequestSchema);
+	if (!body.ok) {
+		return invalidRequestResponse(body);
+	}
+	const { mode = "guided", phase = 1, diagnosis, proposedSolution = "", prevention = "" } = body.value;
 
-## User's Proposed Solution
-"${userProposedSolution}"
+	if (mode === "expert") {
+		return checkExpertSubmission(caseData, diagnosis ?? "", proposedSolution, env, session);
+	}
 
----
+	const current = await session.getProgress(caseId);
+	if (phase === 3) {
+		if (!current.solved) {
+			return jsonResponse({ error: "Phase 2 must be completed first" }, 409);
+		}
+		if (!awaitsPrevention(current)) {
+			return jsonResponse({ error: "Prevention phase is already finished" }, 409);
+		}
+	} else if (isClosed(current)) {
+		return jsonResponse({ error: "Case is already closed" }, 409);
+	} else if (caseMode(current) === "expert") {
+		return jsonResponse({ error: "Case is being played in expert mode" }, 409);
+	}
 
-Evaluate if the user's proposed solution would effectively fix the issue. Respond with ONLY the JSON object.`;
+	let submission: string;
 
-	try {
-		const response = await env.AI.run(MODEL_ID, {
-			messages: [
-				{ role: "system", content: systemPrompt },
-				{ role: "user", content: userPrompt },
-			],
-			max_tokens: 512,
-			temperature: 0.1,
-		}) as { response?: string };
-
-		const responseText = response.response || "";
-		let jsonStr = responseText.trim();
-		if (jsonStr.startsWith("```")) {
-			jsonStr = jsonStr.replace(/```json?\n?/g, "").replace(/```/g, "").trim();
+	// Validate based on phase
+	if (phase === 1) {
+		if (!diagnosis) {
+			return jsonResponse({ error: "Diagnosis is required for Phase 1" }, 400);
 		}
+		submission = diagnosis;
+	} else if (phase === 2) {
+		if (!current.rootCauseCorrect) {
+			return jsonResponse({ error: "Phase 1 must be completed first" }, 409);
+		}
+		if (!proposedSolution) {
+			return jsonResponse({ error: "Proposed solution is required for Phase 2" }, 400);
+		}
+		submission = proposedSolution;
+	} else {
+		if (!prevention) {
+			return jsonResponse({ error: "Prevention strategy is required for Phase 3" }, 400);
+		}
+		submission = prevention;
+	}
 
-		const evaluation = JSON.parse(jsonStr) as {
-			verdict: "correct" | "partial" | "incorrect";
-			explanation: string;
-			matchedConcepts: string[];
-		};
-
-		if (evaluation.verdict === "correct") {
-			return {
-				correct: true,
-				partial: false,
-				feedback: `🎉 Case Closed! ${evaluation.explanation}`,
-				matchedKeywords: evaluation.matchedConcepts || [],
-				solution,
-			};
-		} else if (evaluation.verdict === "partial") {
-			return {
-				correct: false,
-				partial: true,
-				feedback: `🔍 Almost There! ${evaluation.explanation}`,
-				matchedKeywords: evaluation.matchedConcepts || [],
-			};
-		} else {
-			return {
-				correct: false,
-				partial: false,
-				feedback: `❌ Not Quite! ${evaluation.explanation || "Think about what would actually address the root cause."}`,
-				matchedKeywords: evaluation.matchedConcepts || [],
-			};
+	// Borderline verdicts get a second opinion when automatic review is on
+	const grader = PHASE_GRADERS[phase];
+	const taskModel = getTaskModel(env, grader.task);
+	const review = getSecondOpinionSettings(env);
+	let result = await gradeWithCache(
+		getVerdictCacheStore(env),
+		{ caseId, phase, model: taskModel.model, submission },
+		caseData.solution,
+		() => grader.grade(taskModel, submission, caseData.solution, caseId, review.automatic ? review : undefined)
+	);
+
+	result = withRedHerringFeedback(result, submission, revealedRedHerrings(caseData, current.cluesRevealed), phase);
+
+	const progress = await session.recordAttempt(caseId, {
+		phase,
+		correct: result.correct,
+		partial: result.partial,
+		submission,
+		rubricScore: result.rubricScore ?? null,
+		opinion: opinionOf(result),
+		evaluatedBy: result.evaluatedBy,
+		secondOpinion: result.secondOpinion,
+		redHerring: result.redHerring,
+	}, caseData.difficulty);
+
+	// The solution and rubric concepts are only released once the case is closed
+	if (!isClosed(progress)) {
+		delete result.solution;
+		if (result.criteria) {
+			result.criteria = withoutConcepts(result.criteria);
 		}
-	} catch (error) {
-		console.error("LLM evaluation error:", error);
-		// Fallback - be lenient for solution phase
-		return {
-			correct: false,
-			partial: true,
-			feedback: "Could not evaluate solution. Please try again.",
-			matchedKeywords: [],
-		};
+	} else if (result.solution || phase === 3) {
+		result.solution = releasedSolution(caseData.solution, progress);
+	}
+
+	if (phase === 3) {
+		return jsonResponse({ ...result, progress });
+	}
+
+	if (!result.correct) {
+		// Point at the ladder rung that covers what this attempt missed
+		const suggestedHint = suggestHint(caseData, progress, phase, result.criteria);
+		return jsonResponse({
+			...result,
+			suggestedHint,
+			progress,
+		});
 	}
+	return jsonResponse({ ...result, progress });
 }
 
 /**
- * Use LLM to evaluate if the user's diagnosis and proposed solution are correct
- * (Legacy function - kept for backwards compatibility)
+ * Expert mode: grade the root cause and the fix from one submission with the
+ * combined grader, with no phase 1 confirmation in between. Only available
+ * before a case's first guided attempt.
  */
-async function evaluateDiagnosisWithLLM(
+async function checkExpertSubmission(
+	caseData: DetectiveCase,
+	diagnosis: string,
+	proposedSolution: string,
 	env: Env,
-	userDiagnosis: string,
-	userProposedSolution: string,
-	solution: Solution
-): Promise<DiagnosisResult> {
-	const systemPrompt = `You are an expert evaluator for a backend engineering debugging game. Your job is to determine if the user correctly identified the root cause AND proposed a valid fix for a production incident.
-
-You must respond with ONLY a valid JSON object in this exact format, no other text:
-{"verdict": "correct" | "partial" | "incorrect", "explanation": "brief explanation", "matchedConcepts": ["concept1", "concept2"], "diagnosisScore": "correct" | "partial" | "incorrect", "solutionScore": "correct" | "partial" | "incorrect"}
-
-EVALUATION CRITERIA:
-
-For ROOT CAUSE (diagnosisScore):
-- CORRECT: User identified the core root cause, even with different terminology. They understand WHY the problem occurred.
-- PARTIAL: User is on the right track - identified symptoms or contributing factors, but not the exact root cause.
-- INCORRECT: User's diagnosis is unrelated or fundamentally misunderstands the problem.
-
-For PROPOSED SOLUTION (solutionScore):
-- CORRECT: User's fix would actually resolve the issue. It doesn't have to match exactly, but must address the root cause.
-- PARTIAL: User's solution would help but not fully fix the issue, or is missing key elements.
-- INCORRECT: User's solution wouldn't fix the problem or might make it worse.
-
-OVERALL VERDICT:
-- CORRECT: Both diagnosisScore AND solutionScore are "correct"
-- PARTIAL: At least one is "correct" or "partial", but not both "correct"
-- INCORRECT: Both are "incorrect"
-
-Be generous - if the user demonstrates understanding, give credit even if wording differs from official answer.`;
-
-	const userPrompt = `## Actual Root Cause
-${solution.diagnosis}
-
-## Full Explanation
-${solution.rootCause}
-
-## Key Concepts
-${solution.keywords.join(", ")}
+	session: SessionStub
+): Promise<Response> {
+	const current = await session.getProgress(caseData.id);
+	if (isClosed(current)) {
+		return jsonResponse({ error: "Case is already closed" }, 409);
+	}
+	if (caseMode(current) === "guided") {
+		return jsonResponse({ error: "Expert mode is only available before the first guided attempt" }, 409);
+	}
+	if (!diagnosis || !proposedSolution) {
+		return jsonResponse({ error: "Diagnosis and proposed solution are both required in expert mode" }, 400);
+	}
 
-## Example Correct Solutions
-${solution.codeExamples.map(ex => `- ${ex.description}`).join("\n")}
+	const taskModel = getTaskModel(env, "expertGrading");
+	const review = getSecondOpinionSettings(env);
+	// The normalized root cause's length keeps where the halves split in the cache key
+	const submission = `${normalize(diagnosis).length} ${diagnosis}\n${proposedSolution}`;
+	let result = await gradeWithCache(
+		getVerdictCacheStore(env),
+		{ caseId: caseData.id, phase: "expert", model: taskModel.model, submission },
+		caseData.solution,
+		() => evaluateDiagnosisWithLLM(
+			taskModel, diagnosis, proposedSolution, caseData.solution, caseData.id, review.automatic ? review : undefined
+		)
+	);
+
+	const redHerrings = revealedRedHerrings(caseData, current.cluesRevealed);
+	result = withRedHerringFeedback(result, diagnosis, redHerrings, 1);
+	if (!result.redHerring) {
+		result = withRedHerringFeedback(result, proposedSolution, redHerrings, 2);
+	}
 
----
+	const progress = await session.recordExpertAttempt(caseData.id, {
+		correct: result.correct,
+		diagnosis,
+		proposedSolution,
+		opinion: opinionOf(result),
+		rubricScores: result.rubricScores ?? null,
+		redHerring: result.redHerring,
+	}, caseData.difficulty);
+
+	if (!isClosed(progress)) {
+		delete result.solution;
+		const suggestedHint = suggestHint(caseData, progress, hintPhase(progress));
+		return jsonResponse({ ...result, suggestedHint, progress });
+	}
+	return jsonResponse({ ...result, solution: releasedSolution(caseData.solution, progress), progress });
+}
 
-## User's Root Cause Analysis
-"${userDiagnosis}"
+/**
+ * POST /api/cases/:id/appeal - Appeal the latest verdict for a phase
+ * Files the submission with two verdicts for human review: the one shown and
+ * a second opinion, reused from grading when one was taken. The verdict and
+ * score are not changed.
+ */
+async function handleAppeal(
+	caseId: string,
+	request: Request,
+	env: Env,
+	session: SessionStub,
+	sessionId: string
+): Promise<Response> {
+	const caseData = getCase(caseId);
+	if (!caseData) {
+		return jsonResponse({ error: "Case not found" }, 404);
+	}
 
-## User's Proposed Solution
-"${userProposedSolution || "(No solution provided)"}"
+	const body = await parseJsonBody(request, appealRequestSchema);
+	if (!body.ok) {
+		return invalidRequestResponse(body);
+	}
+	const { phase, reason = "" } = body.value;
 
----
+	const verdict = await session.getLastVerdict(caseId, phase);
+	if (!verdict) {
+		return jsonResponse({ error: "No verdict to appeal for this phase" }, 404);
+	}
+	if (verdict.opinion.verdict === "correct") {
+		return jsonResponse({ error: "Only rejected or partial verdicts can be appealed" }, 409);
+	}
+	if (verdict.appealId) {
+		return jsonResponse({ error: "Verdict has already been appealed" }, 409);
+	}
 
-Evaluate if the user correctly identified the root cause AND proposed a valid fix. Respond with ONLY the JSON object.`;
+	let firstOpinion = verdict.opinion;
+	let secondOpinion: Appeal["secondOpinion"];
+	let shown: Appeal["shown"] = "first";
+	if (verdict.secondOpinion) {
+		firstOpinion = verdict.secondOpinion.initial;
+		secondOpinion = { ...verdict.opinion, strategy: verdict.secondOpinion.strategy, votes: verdict.secondOpinion.votes };
+		shown = "second";
+	} else {
+		const settings = getSecondOpinionSettings(env);
+		const grader = PHASE_GRADERS[phase];
+		const review = settings.strategy === "larger-model"
+			? await grader.grade(settings.taskModel, verdict.submission, caseData.solution, caseId)
+			: await grader.grade(
+				getTaskModel(env, grader.task), verdict.submission, caseData.solution, caseId, { ...settings, force: true }
+			);
+		secondOpinion = { ...opinionOf(review), strategy: settings.strategy, votes: review.secondOpinion?.votes };
+	}
 
-	try {
-		const response = await env.AI.run(MODEL_ID, {
-			messages: [
-				{ role: "system", content: systemPrompt },
-				{ role: "user", content: userPrompt },
-			],
-			max_tokens: 512,
-			temperature: 0.1, // Low temperature for consistent evaluation
-		}) as { response?: string };
-
-		// Parse the LLM response
-		const responseText = response.response || "";
-
-		// Extract JSON from response (handle potential markdown code blocks)
-		let jsonStr = responseText.trim();
-		if (jsonStr.startsWith("```")) {
-			jsonStr = jsonStr.replace(/```json?\n?/g, "").replace(/```/g, "").trim();
-		}
+	const appeal: Appeal = {
+		id: crypto.randomUUID(),
+		sessionId,
+		caseId,
+		phase,
+		submission: verdict.submission,
+		reason,
+		firstOpinion,
+		secondOpinion,
+		shown,
+		createdAt: Date.now(),
+	};
+	// Marking first means a concurrent appeal of the same verdict is refused
+	if (!await session.markAppealed(caseId, phase, appeal.id)) {
+		return jsonResponse({ error: "Verdict has already been appealed" }, 409);
+	}
+	await getAppealStore(env).file(appeal);
+
+	return jsonResponse({
+		appeal: {
+			id: appeal.id,
+			firstVerdict: firstOpinion.verdict,
+			secondVerdict: secondOpinion.verdict,
+			shown,
+		},
+	});
+}
 
-		const evaluation = JSON.parse(jsonStr) as {
-			verdict: "correct" | "partial" | "incorrect";
-			explanation: string;
-			matchedConcepts: string[];
-			diagnosisScore?: "correct" | "partial" | "incorrect";
-			solutionScore?: "correct" | "partial" | "incorrect";
-		};
-
-		// Build detailed feedback based on individual scores
-		let feedbackPrefix = "";
-		if (evaluation.diagnosisScore && evaluation.solutionScore) {
-			const diagFeedback = evaluation.diagnosisScore === "correct" ? "✓ Root cause identified" :
-				evaluation.diagnosisScore === "partial" ? "~ Root cause partially correct" : "✗ Root cause incorrect";
-			const solFeedback = evaluation.solutionScore === "correct" ? "✓ Solution valid" :
-				evaluation.solutionScore === "partial" ? "~ Solution partially valid" : "✗ Solution needs work";
-			feedbackPrefix = `[${diagFeedback}] [${solFeedback}]\n`;
-		}
+/**
+ * True when the request carries the appeal review token.
+ */
+function hasReviewToken(request: Request, token: string): boolean {
+	const encoder = new TextEncoder();
+	const expected = encoder.encode(`Bearer ${token}`);
+	const actual = encoder.encode(request.headers.get("Authorization") ?? "");
+	return actual.byteLength === expected.byteLength && crypto.subtle.timingSafeEqual(actual, expected);
+}
 
-		if (evaluation.verdict === "correct") {
-			return {
-				correct: true,
-				partial: false,
-				feedback: `🎉 Case Closed! ${feedbackPrefix}${evaluation.explanation}`,
-				matchedKeywords: evaluation.matchedConcepts || [],
-				solution,
-			};
-		} else if (evaluation.verdict === "partial") {
-			return {
-				correct: false,
-				partial: true,
-				feedback: `🔍 Getting Warmer! ${feedbackPrefix}${evaluation.explanation}`,
-				matchedKeywords: evaluation.matchedConcepts || [],
-			};
-		} else {
-			return {
-				correct: false,
-				partial: false,
-				feedback: `❌ Not Quite! ${feedbackPrefix}${evaluation.explanation || "Review the clues and try again."}`,
-				matchedKeywords: evaluation.matchedConcepts || [],
-			};
-		}
-	} catch (error) {
-		console.error("LLM evaluation error:", error);
-		// Fallback to keyword matching if LLM fails
-		return matchDiagnosis(userDiagnosis, solution);
+/**
+ * GET /api/appeals - List recent appeals for human review
+ * Requires the APPEAL_REVIEW_TOKEN as a bearer token; disabled when it is unset.
+ */
+async function handleListAppeals(request: Request, env: Env): Promise<Response> {
+	if (!env.APPEAL_REVIEW_TOKEN) {
+		return jsonResponse({ error: "Not found" }, 404);
 	}
+	if (!hasReviewToken(request, env.APPEAL_REVIEW_TOKEN)) {
+		return jsonResponse({ error: "Forbidden" }, 403);
+	}
+
+	const requested = Number(new URL(request.url).searchParams.get("limit") ?? MAX_APPEALS_LISTED);
+	const limit = Number.isInteger(requested) ? Math.min(Math.max(requested, 1), MAX_APPEALS_LISTED) : MAX_APPEALS_LISTED;
+	const appeals = await getAppealStore(env).list(limit);
+	return jsonResponse({ appeals });
 }
 
 /**
  * GET /api/cases/:id/solution - Get the full solution
+ * Only available once the session has solved the case or given up on it.
  */
-function handleGetSolution(caseId: string): Response {
+async function handleGetSolution(caseId: string, session: SessionStub): Promise<Response> {
 	const solution = getCaseSolution(caseId);
 	if (!solution) {
 		return jsonResponse({ error: "Case not found" }, 404);
 	}
-	return jsonResponse({ solution });
+
+	const progress = await session.getProgress(caseId);
+	if (!isClosed(progress)) {
+		return jsonResponse({ error: "Solve the case or give up to view the solution" }, 403);
+	}
+	return jsonResponse({ solution: releasedSolution(solution, progress) });
 }
 
 /**
  * POST /api/chat - Chat with the AI detective mentor
+ * The debrief persona is only used once the session has closed the case;
+ * the X-Mentor-Mode response header tells the UI which one answered.
  */
 async function handleChatRequest(
 	request: Request,
 	env: Env,
+	session: SessionStub | null,
 ): Promise<Response> {
-	try {
-		const body = await request.json() as ChatRequest;
-		const { messages = [], caseContext } = body;
+	const body = await parseJsonBody(request, chatRequestSchema);
+	if (!body.ok) {
+		return invalidRequestResponse(body);
+	}
+	const { messages, caseContext } = body.value;
 
+	try {
 		// Build the appropriate system prompt
 		let systemPrompt: string;
+		let mentorMode: MentorMode = "socratic";
+		// A persona in the request wins over the one chosen for the case
+		let persona = getPersona(body.value.persona);
+		// Case whose answer must not leak into the reply: its root cause until
+		// the player identifies it, then its fix
+		let guardedCase: DetectiveCase | null = null;
+		let rootCauseIdentified = false;
+		// Clues the reply may cite
+		let revealedClues: Clue[] = [];
 
 		if (caseContext?.caseId) {
 			const caseData = getCase(caseContext.caseId);
 			if (caseData) {
-				// Check if this is a victory context (user solved it)
-				const lastMessage = messages[messages.length - 1];
-				const isVictory = lastMessage?.content?.toLowerCase().includes("solved") ||
-					lastMessage?.content?.toLowerCase().includes("got it") ||
-					lastMessage?.content?.toLowerCase().includes("figured it out");
-
-				if (isVictory) {
-					systemPrompt = buildVictoryPrompt(caseData);
+				// Only debrief once the server has recorded a solve or give-up
+				const progress = session ? await session.getProgress(caseData.id) : null;
+				persona = getPersona(body.value.persona ?? progress?.mentorPersona);
+
+				if (progress && isClosed(progress)) {
+					mentorMode = "debrief";
+					systemPrompt = buildVictoryPrompt(caseData, progress.solved, awaitsPrevention(progress), persona);
 				} else {
-					systemPrompt = buildCaseContextPrompt(
-						caseContext.caseId,
-						caseContext.cluesRevealed || 2
-					);
+					// The prompt carries clue content, so only trust the client's
+					// count up to the clues every player starts with
+					const cluesRevealed = progress?.cluesRevealed
+						?? Math.min(caseContext.cluesRevealed || INITIAL_CLUES, INITIAL_CLUES);
+					// Let the mentor respond to the player's attempts and hints so far
+					const briefing = session && progress
+						? { progress, attempts: await session.getAttemptHistory(caseData.id) }
+						: undefined;
+					guardedCase = caseData;
+					rootCauseIdentified = progress?.rootCauseCorrect === true;
+					revealedClues = caseData.clues.slice(0, cluesRevealed);
+					systemPrompt = buildCaseContextPrompt(caseData.id, cluesRevealed, briefing, persona);
 				}
 			} else {
-				systemPrompt = buildGeneralPrompt();
+				systemPrompt = buildGeneralPrompt(persona);
 			}
 		} else {
-			systemPrompt = buildGeneralPrompt();
+			systemPrompt = buildGeneralPrompt(persona);
 		}
 
-		// Prepare messages with system prompt
-		const messagesWithSystem: ChatMessage[] = [
-			{ role: "system", content: systemPrompt },
-			...messages.filter(m => m.role !== "system"),
-		];
-
-		const stream = await env.AI.run(
-			MODEL_ID,
-			{
-				messages: messagesWithSystem,
-				max_tokens: 1024,
-				stream: true,
-			},
-			{}
-		);
+		// Keep the system prompt, pinned turns and latest turns within the
+		// mentor's context, summarizing older turns
+		const mentor = getTaskModel(env, "mentor");
+		const summaryScope = caseContext?.caseId && getCase(caseContext.caseId) ? caseContext.caseId : "general";
+		const messagesWithSystem = await fitChatContext({
+			systemPrompt,
+			// Empty mentor replies stored by older clients add nothing
+			history: messages.filter((turn) => turn.content.trim()),
+			mentor,
+			summarizer: getTaskModel(env, "chatSummary"),
+			store: session ? chatSummaryStore(session, summaryScope) : null,
+		});
+
+		const stream = await mentor.provider.stream(completionRequest(mentor, messagesWithSystem));
+
+		// While the case is open, cut off replies that give the answer away
+		// and report which revealed clues the reply cited
+		const responseStream = guardedCase
+			? stream
+				.pipeThrough(createLeakageGuard(guardedCase.solution, guardedCase.id, rootCauseIdentified))
+				.pipeThrough(createCitationTracker(revealedClues))
+			: stream;
 
-		return new Response(stream, {
+		return new Response(responseStream, {
 			headers: {
 				"Content-Type": "text/event-stream; charset=utf-8",
 				"Cache-Control": "no-cache",
 				"Connection": "keep-alive",
-				"Access-Control-Allow-Origin": "*",
+				[MENTOR_MODE_HEADER]: mentorMode,
+				[MENTOR_PERSONA_HEADER]: persona.id,
 			},
 		});
 	} catch (error) {
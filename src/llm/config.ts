@@ -0,0 +1,100 @@
+/**
+ * Per-task model configuration.
+ *
+ * Each task picks a provider, model and generation parameters. Defaults
+ * apply for anything the LLM_CONFIG var in wrangler.jsonc leaves out.
+ */
+
+import type { ChatMessage, SecondOpinionStrategy } from "../types";
+import type { CompletionRequest, JsonSchema, LlmProvider } from "./provider";
+
+/**
+ * Tasks that call a model.
+ */
+export type LlmTask =
+	| "mentor"
+	| "rootCauseGrading"
+	| "solutionGrading"
+	| "preventionGrading"
+	| "expertGrading"
+	| "secondOpinionGrading"
+	| "chatSummary";
+
+export type ProviderName = "workers-ai" | "openai" | "scripted";
+
+export interface LlmTaskConfig {
+	provider: ProviderName;
+	model: string;
+	maxTokens: number;
+	temperature?: number;
+	/** Prompt and reply tokens allowed per request; the mentor summarizes older chat turns to fit */
+	contextTokens?: number;
+}
+
+/**
+ * Shape of the LLM_CONFIG var. Every field is optional.
+ */
+export interface LlmConfig {
+	providers?: {
+		/** OpenAI-compatible endpoint; the API key comes from the OPENAI_API_KEY secret */
+		openai?: { baseUrl: string; jsonSchema?: boolean };
+		/** Replies the scripted provider cycles through */
+		scripted?: { replies: string[] };
+	};
+	tasks?: Partial<Record<LlmTask, Partial<LlmTaskConfig>>>;
+	/** When and how graders get a second opinion */
+	secondOpinion?: {
+		strategy?: SecondOpinionStrategy;
+		/** Review verdicts automatically; appeals always get a second opinion */
+		automatic?: boolean;
+		/** Verdicts below this confidence are reviewed */
+		minConfidence?: number;
+		/** Extra samples for a majority vote */
+		samples?: number;
+	};
+}
+
+const DEFAULT_MODEL = "@cf/meta/llama-3.1-8b-instruct-fp8";
+const SECOND_OPINION_MODEL = "@cf/meta/llama-3.3-70b-instruct-fp8-fast";
+
+export const DEFAULT_TASK_CONFIGS: Record<LlmTask, LlmTaskConfig> = {
+	mentor: { provider: "workers-ai", model: DEFAULT_MODEL, maxTokens: 1024, contextTokens: 6144 },
+	// Low temperature for consistent evaluation
+	rootCauseGrading: { provider: "workers-ai", model: DEFAULT_MODEL, maxTokens: 512, temperature: 0.1 },
+	solutionGrading: { provider: "workers-ai", model: DEFAULT_MODEL, maxTokens: 512, temperature: 0.1 },
+	preventionGrading: { provider: "workers-ai", model: DEFAULT_MODEL, maxTokens: 512, temperature: 0.1 },
+	expertGrading: { provider: "workers-ai", model: DEFAULT_MODEL, maxTokens: 512, temperature: 0.1 },
+	secondOpinionGrading: { provider: "workers-ai", model: SECOND_OPINION_MODEL, maxTokens: 512, temperature: 0.1 },
+	chatSummary: { provider: "workers-ai", model: DEFAULT_MODEL, maxTokens: 300, temperature: 0.2 },
+};
+
+/**
+ * Task settings with configured overrides applied over the defaults.
+ */
+export function resolveTaskConfig(config: LlmConfig | undefined, task: LlmTask): LlmTaskConfig {
+	return { ...DEFAULT_TASK_CONFIGS[task], ...config?.tasks?.[task] };
+}
+
+/**
+ * A provider bound to the model and parameters of one task.
+ */
+export interface TaskModel {
+	provider: LlmProvider;
+	model: string;
+	maxTokens: number;
+	temperature?: number;
+	contextTokens?: number;
+}
+
+/**
+ * Build a completion request for a task's model.
+ */
+export function completionRequest(taskModel: TaskModel, messages: ChatMessage[], jsonSchema?: JsonSchema): CompletionRequest {
+	return {
+		model: taskModel.model,
+		messages,
+		maxTokens: taskModel.maxTokens,
+		temperature: taskModel.temperature,
+		jsonSchema,
+	};
+}
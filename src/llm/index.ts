@@ -0,0 +1,48 @@
+/**
+ * LLM - providers and per-task model selection.
+ */
+
+import type { Env } from "../types";
+import { type LlmTask, type ProviderName, resolveTaskConfig, type TaskModel } from "./config";
+import { OpenAiCompatibleProvider } from "./openai";
+import type { LlmProvider } from "./provider";
+import { ScriptedProvider } from "./scripted";
+import { WorkersAiProvider } from "./workers-ai";
+
+export { completionRequest, DEFAULT_TASK_CONFIGS, resolveTaskConfig } from "./config";
+export type { LlmConfig, LlmTask, LlmTaskConfig, ProviderName, TaskModel } from "./config";
+export { OpenAiCompatibleProvider } from "./openai";
+export type { OpenAiCompatibleOptions } from "./openai";
+export type { CompletionRequest, CompletionResult, JsonSchema, LlmProvider } from "./provider";
+export { ScriptedProvider } from "./scripted";
+export type { ScriptedReply } from "./scripted";
+export { WorkersAiProvider } from "./workers-ai";
+export type { AiBinding } from "./workers-ai";
+
+// Shared across requests handled by the same isolate so the script advances
+let scriptedProvider: ScriptedProvider | null = null;
+
+function getProvider(env: Env, name: ProviderName): LlmProvider {
+	switch (name) {
+		case "workers-ai":
+			return new WorkersAiProvider(env.AI);
+		case "openai": {
+			const openai = env.LLM_CONFIG?.providers?.openai;
+			if (!openai?.baseUrl) {
+				throw new Error("LLM_CONFIG.providers.openai.baseUrl is required for the openai provider");
+			}
+			return new OpenAiCompatibleProvider({ ...openai, apiKey: env.OPENAI_API_KEY });
+		}
+		case "scripted":
+			scriptedProvider ??= new ScriptedProvider(env.LLM_CONFIG?.providers?.scripted?.replies ?? [], true);
+			return scriptedProvider;
+	}
+}
+
+/**
+ * Provider, model and parameters configured for a task.
+ */
+export function getTaskModel(env: Env, task: LlmTask): TaskModel {
+	const { provider, ...settings } = resolveTaskConfig(env.LLM_CONFIG, task);
+	return { provider: getProvider(env, provider), ...settings };
+}
@@ -0,0 +1,61 @@
+/**
+ * Provider for any OpenAI-compatible chat completions endpoint
+ * (OpenAI, vLLM, llama.cpp server, Ollama, ...).
+ */
+
+import type { CompletionRequest, CompletionResult, LlmProvider } from "./provider";
+
+export interface OpenAiCompatibleOptions {
+	/** Base URL up to and including the version, e.g. `http://localhost:11434/v1` */
+	baseUrl: string;
+	apiKey?: string;
+	/** Send `response_format: json_schema` (default true); turn off for servers that reject it */
+	jsonSchema?: boolean;
+}
+
+export class OpenAiCompatibleProvider implements LlmProvider {
+	constructor(private readonly options: OpenAiCompatibleOptions) {}
+
+	async complete(request: CompletionRequest): Promise<CompletionResult> {
+		const response = await this.post({
+			...this.body(request),
+			...(request.jsonSchema && this.options.jsonSchema !== false
+				? { response_format: { type: "json_schema", json_schema: { name: "response", schema: request.jsonSchema } } }
+				: {}),
+		});
+		const body = await response.json() as { choices?: { message?: { content?: string | null } }[] };
+		return { text: body.choices?.[0]?.message?.content ?? "" };
+	}
+
+	async stream(request: CompletionRequest): Promise<ReadableStream<Uint8Array>> {
+		const response = await this.post({ ...this.body(request), stream: true });
+		if (!response.body) {
+			throw new Error("Chat completion stream has no body");
+		}
+		return response.body;
+	}
+
+	private body(request: CompletionRequest) {
+		return {
+			model: request.model,
+			messages: request.messages,
+			max_tokens: request.maxTokens,
+			temperature: request.temperature,
+		};
+	}
+
+	private async post(body: Record<string, unknown>): Promise<Response> {
+		const response = await fetch(`${this.options.baseUrl.replace(/\/+$/, "")}/chat/completions`, {
+			method: "POST",
+			headers: {
+				"Content-Type": "application/json",
+				...(this.options.apiKey ? { "Authorization": `Bearer ${this.options.apiKey}` } : {}),
+			},
+			body: JSON.stringify(body),
+		});
+		if (!response.ok) {
+			throw new Error(`Chat completion request failed: ${response.status} ${await response.text()}`);
+		}
+		return response;
+	}
+}
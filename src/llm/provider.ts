@@ -0,0 +1,48 @@
+/**
+ * LLM provider interface shared by the mentor and the graders.
+ */
+
+import type { ChatMessage } from "../types";
+
+/**
+ * JSON schema describing structured output. Kept loose: providers accept
+ * different subsets of JSON Schema.
+ */
+export type JsonSchema = Record<string, unknown>;
+
+/**
+ * A chat completion request.
+ */
+export interface CompletionRequest {
+	model: string;
+	messages: ChatMessage[];
+	maxTokens?: number;
+	temperature?: number;
+	/** Ask for output matching this schema where the model supports it */
+	jsonSchema?: JsonSchema;
+}
+
+/**
+ * A completed reply. `json` is set when the provider already returned the
+ * structured output as a parsed object.
+ */
+export interface CompletionResult {
+	text: string;
+	json?: unknown;
+}
+
+/**
+ * A source of chat completions.
+ */
+export interface LlmProvider {
+	/**
+	 * Complete a chat and return the whole reply.
+	 */
+	complete(request: CompletionRequest): Promise<CompletionResult>;
+
+	/**
+	 * Stream a chat reply as server-sent events in the Workers AI
+	 * (`{"response": ...}`) or OpenAI (`{"choices": [{"delta": ...}]}`) format.
+	 */
+	stream(request: CompletionRequest): Promise<ReadableStream<Uint8Array>>;
+}
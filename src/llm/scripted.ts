@@ -0,0 +1,52 @@
+/**
+ * Scripted provider - deterministic replies for tests and offline runs.
+ */
+
+import type { CompletionRequest, CompletionResult, LlmProvider } from "./provider";
+
+/**
+ * A reply, or a function that builds one from the request.
+ */
+export type ScriptedReply = string | ((request: CompletionRequest) => string);
+
+export class ScriptedProvider implements LlmProvider {
+	/** Every request received, in order */
+	readonly requests: CompletionRequest[] = [];
+	private next = 0;
+
+	/**
+	 * @param replies Replies returned in order
+	 * @param loop Start over after the last reply instead of throwing
+	 */
+	constructor(private readonly replies: ScriptedReply[], private readonly loop = false) {}
+
+	async complete(request: CompletionRequest): Promise<CompletionResult> {
+		return { text: this.reply(request) };
+	}
+
+	async stream(request: CompletionRequest): Promise<ReadableStream<Uint8Array>> {
+		const encoder = new TextEncoder();
+		const chunks = this.reply(request).match(/\S+\s*|\s+/g) ?? [];
+		return new ReadableStream({
+			start(controller) {
+				for (const chunk of chunks) {
+					controller.enqueue(encoder.encode(`data: ${JSON.stringify({ response: chunk })}\n\n`));
+				}
+				controller.enqueue(encoder.encode("data: [DONE]\n\n"));
+				controller.close();
+			},
+		});
+	}
+
+	private reply(request: CompletionRequest): string {
+		this.requests.push(request);
+		if (this.next >= this.replies.length) {
+			if (!this.loop || this.replies.length === 0) {
+				throw new Error(`Scripted provider has no reply for request ${this.requests.length}`);
+			}
+			this.next = 0;
+		}
+		const reply = this.replies[this.next++];
+		return typeof reply === "function" ? reply(request) : reply;
+	}
+}
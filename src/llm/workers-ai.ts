@@ -0,0 +1,69 @@
+/**
+ * Workers AI provider, backed by the AI binding or anything shaped like it.
+ */
+
+import type { ChatMessage } from "../types";
+import type { CompletionRequest, CompletionResult, JsonSchema, LlmProvider } from "./provider";
+
+/**
+ * The part of the Workers AI binding the providers use. The eval harness
+ * passes a REST-backed binding with the same shape.
+ */
+export interface AiBinding {
+	run(
+		model: string,
+		inputs: {
+			messages: ChatMessage[];
+			max_tokens?: number;
+			temperature?: number;
+			stream?: boolean;
+			response_format?: { type: "json_schema"; json_schema: JsonSchema };
+		}
+	): Promise<unknown>;
+}
+
+/**
+ * Models that accept `response_format: { type: "json_schema" }`.
+ */
+const JSON_MODE_MODELS = new Set([
+	"@cf/meta/llama-3.1-8b-instruct",
+	"@cf/meta/llama-3.1-8b-instruct-fast",
+	"@cf/meta/llama-3.1-8b-instruct-fp8",
+	"@cf/meta/llama-3.1-70b-instruct",
+	"@cf/meta/llama-3.3-70b-instruct-fp8-fast",
+]);
+
+export class WorkersAiProvider implements LlmProvider {
+	constructor(private readonly binding: AiBinding) {}
+
+	async complete(request: CompletionRequest): Promise<CompletionResult> {
+		const response = await this.binding.run(request.model, {
+			...this.inputs(request),
+			...(request.jsonSchema && JSON_MODE_MODELS.has(request.model)
+				? { response_format: { type: "json_schema", json_schema: request.jsonSchema } }
+				: {}),
+		}) as { response?: unknown };
+
+		// JSON mode may hand back an already-parsed object
+		const reply = response.response;
+		if (reply !== null && typeof reply === "object") {
+			return { text: JSON.stringify(reply), json: reply };
+		}
+		return { text: typeof reply === "string" ? reply : "" };
+	}
+
+	async stream(request: CompletionRequest): Promise<ReadableStream<Uint8Array>> {
+		return await this.binding.run(request.model, {
+			...this.inputs(request),
+			stream: true,
+		}) as ReadableStream<Uint8Array>;
+	}
+
+	private inputs(request: CompletionRequest) {
+		return {
+			messages: request.messages,
+			max_tokens: request.maxTokens,
+			temperature: request.temperature,
+		};
+	}
+}
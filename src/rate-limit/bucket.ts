@@ -0,0 +1,55 @@
+/**
+ * Token Bucket - pure refill/take logic shared by every rate limit store.
+ */
+
+/**
+ * Size and refill rate of one bucket.
+ */
+export interface BucketConfig {
+	capacity: number;
+	refillPerMinute: number;
+}
+
+/**
+ * Persisted state of one bucket.
+ */
+export interface BucketState {
+	tokens: number;
+	updatedAt: number;
+}
+
+/**
+ * Outcome of taking a token from a bucket.
+ */
+export interface TakeResult {
+	allowed: boolean;
+	retryAfterSeconds: number;
+}
+
+/**
+ * Refill a bucket for the time elapsed since its last update and try to take one token.
+ * A missing state is treated as a full bucket.
+ */
+export function takeToken(
+	state: BucketState | undefined,
+	config: BucketConfig,
+	now: number
+): { state: BucketState; result: TakeResult } {
+	const refillPerMs = config.refillPerMinute / 60_000;
+	const previous = state ?? { tokens: config.capacity, updatedAt: now };
+	const elapsed = Math.max(0, now - previous.updatedAt);
+	const tokens = Math.min(config.capacity, previous.tokens + elapsed * refillPerMs);
+
+	if (tokens >= 1) {
+		return {
+			state: { tokens: tokens - 1, updatedAt: now },
+			result: { allowed: true, retryAfterSeconds: 0 },
+		};
+	}
+
+	const retryAfterSeconds = refillPerMs > 0 ? Math.ceil((1 - tokens) / refillPerMs / 1000) : 60;
+	return {
+		state: { tokens, updatedAt: now },
+		result: { allowed: false, retryAfterSeconds },
+	};
+}
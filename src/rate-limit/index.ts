@@ -0,0 +1,105 @@
+/**
+ * Rate Limiting - token buckets per client for the AI-backed routes.
+ *
+ * Every limited request takes a token from two buckets: one keyed by the
+ * client IP and one keyed by the investigation session. Chat and grading
+ * have separate buckets so heavy chatting does not block submissions.
+ */
+
+import type { Env } from "../types";
+import { takeToken, type BucketConfig, type BucketState, type TakeResult } from "./bucket";
+
+export { RateLimiter } from "./rate-limiter";
+export type { BucketConfig, TakeResult } from "./bucket";
+
+/**
+ * Route groups with their own buckets.
+ */
+export type RateLimitBucket = "chat" | "grading";
+
+/**
+ * Limits per route group, per client dimension.
+ * Configured through the RATE_LIMITS var in wrangler.jsonc.
+ */
+export type RateLimitConfig = Record<RateLimitBucket, { ip: BucketConfig; session: BucketConfig }>;
+
+/**
+ * Defaults used when RATE_LIMITS is not configured.
+ */
+export const DEFAULT_RATE_LIMITS: RateLimitConfig = {
+	chat: {
+		ip: { capacity: 60, refillPerMinute: 30 },
+		session: { capacity: 20, refillPerMinute: 10 },
+	},
+	grading: {
+		ip: { capacity: 30, refillPerMinute: 10 },
+		session: { capacity: 10, refillPerMinute: 4 },
+	},
+};
+
+/**
+ * Backing store for token buckets.
+ */
+export interface RateLimitStore {
+	take(key: string, config: BucketConfig): Promise<TakeResult>;
+}
+
+/**
+ * Store backed by one RateLimiter Durable Object per bucket key.
+ */
+export class DurableRateLimitStore implements RateLimitStore {
+	constructor(private readonly namespace: Env["RATE_LIMITER"]) {}
+
+	take(key: string, config: BucketConfig): Promise<TakeResult> {
+		return this.namespace.get(this.namespace.idFromName(key)).take(config);
+	}
+}
+
+/**
+ * Store that keeps buckets in isolate memory. Used for local runs; limits
+ * are per isolate, so it is not suitable for production.
+ */
+export class InMemoryRateLimitStore implements RateLimitStore {
+	private readonly buckets = new Map<string, BucketState>();
+
+	constructor(private readonly now: () => number = Date.now) {}
+
+	async take(key: string, config: BucketConfig): Promise<TakeResult> {
+		const { state, result } = takeToken(this.buckets.get(key), config, this.now());
+		this.buckets.set(key, state);
+		return result;
+	}
+}
+
+// Shared across requests handled by the same isolate
+const memoryStore = new InMemoryRateLimitStore();
+
+/**
+ * Pick the store configured by RATE_LIMIT_STORE.
+ */
+export function getRateLimitStore(env: Env): RateLimitStore {
+	return env.RATE_LIMIT_STORE === "memory" ? memoryStore : new DurableRateLimitStore(env.RATE_LIMITER);
+}
+
+/**
+ * Take a token from the IP bucket and, when there is a session, the session
+ * bucket for a route group. The request is allowed only if both have tokens.
+ */
+export async function checkRateLimit(
+	store: RateLimitStore,
+	limits: RateLimitConfig,
+	bucket: RateLimitBucket,
+	clientIp: string,
+	sessionId: string | null
+): Promise<TakeResult> {
+	const checks = [store.take(`${bucket}:ip:${clientIp}`, limits[bucket].ip)];
+	if (sessionId) {
+		checks.push(store.take(`${bucket}:session:${sessionId}`, limits[bucket].session));
+	}
+
+	const results = await Promise.all(checks);
+	return {
+		allowed: results.every((result) => result.allowed),
+		retryAfterSeconds: Math.max(...results.map((result) => result.retryAfterSeconds)),
+	};
+}
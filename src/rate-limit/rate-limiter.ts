@@ -0,0 +1,22 @@
+/**
+ * Rate Limiter - Durable Object holding a single token bucket.
+ *
+ * One instance exists per bucket key (e.g. "chat:ip:203.0.113.7"), so every
+ * Worker isolate sees the same count for a client.
+ */
+
+import { DurableObject } from "cloudflare:workers";
+import type { Env } from "../types";
+import { takeToken, type BucketConfig, type BucketState, type TakeResult } from "./bucket";
+
+export class RateLimiter extends DurableObject<Env> {
+	/**
+	 * Try to take one token from this bucket.
+	 */
+	async take(config: BucketConfig): Promise<TakeResult> {
+		const current = await this.ctx.storage.get<BucketState>("bucket");
+		const { state, result } = takeToken(current, config, Date.now());
+		await this.ctx.storage.put("bucket", state);
+		return result;
+	}
+}
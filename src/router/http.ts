@@ -0,0 +1,47 @@
+/**
+ * HTTP helpers shared by the router and the route handlers.
+ */
+
+/**
+ * Error thrown by a handler or middleware to end the request with a status.
+ * Mapped to a JSON error response by the error middleware.
+ */
+export class HttpError extends Error {
+	constructor(
+		readonly status: number,
+		message: string,
+		readonly headers: Record<string, string> = {}
+	) {
+		super(message);
+		this.name = "HttpError";
+	}
+}
+
+/**
+ * Create a JSON response. CORS headers are added by the CORS middleware.
+ */
+export function jsonResponse(data: unknown, status = 200, headers: Record<string, string> = {}): Response {
+	return new Response(JSON.stringify(data), {
+		status,
+		headers: {
+			"Content-Type": "application/json",
+			...headers,
+		},
+	});
+}
+
+/**
+ * Copy a response with extra headers set. Responses returned by fetch have
+ * immutable headers, so middleware never edits a response in place.
+ */
+export function withHeaders(response: Response, headers: Record<string, string>): Response {
+	const merged = new Headers(response.headers);
+	for (const [name, value] of Object.entries(headers)) {
+		merged.set(name, value);
+	}
+	return new Response(response.body, {
+		status: response.status,
+		statusText: response.statusText,
+		headers: merged,
+	});
+}
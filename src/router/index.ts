@@ -0,0 +1,18 @@
+/**
+ * Router - declarative API routes with a middleware pipeline.
+ */
+
+export { Router } from "./router";
+export type { HttpMethod, Middleware, RouteContext, RouteHandler } from "./router";
+export { HttpError, jsonResponse, withHeaders } from "./http";
+export {
+	cors,
+	errorHandler,
+	rateLimited,
+	REQUEST_ID_HEADER,
+	requestId,
+	requireSession,
+	resolveSession,
+	timing,
+} from "./middleware";
+export type { SessionContext } from "./middleware";
@@ -0,0 +1,148 @@
+/**
+ * Middleware and route guards for the API router.
+ */
+
+import { checkRateLimit, DEFAULT_RATE_LIMITS, getRateLimitStore, RateLimitBucket } from "../rate-limit";
+import { getSession, getSessionId, SESSION_HEADER, SessionStub } from "../session";
+import { HttpError, jsonResponse, withHeaders } from "./http";
+import type { Middleware, RouteContext, RouteHandler } from "./router";
+
+export const REQUEST_ID_HEADER = "X-Request-Id";
+
+const REQUEST_ID_PATTERN = /^[\w-]{1,64}$/;
+
+/**
+ * Answer CORS preflights and add CORS headers to every response.
+ */
+export function cors(options: { allowHeaders: string[]; exposeHeaders: string[] }): Middleware {
+	return async (context, next) => {
+		if (context.request.method === "OPTIONS") {
+			return new Response(null, {
+				status: 204,
+				headers: {
+					"Access-Control-Allow-Origin": "*",
+					"Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+					"Access-Control-Allow-Headers": options.allowHeaders.join(", "),
+					"Access-Control-Max-Age": "86400",
+				},
+			});
+		}
+
+		const response = await next();
+		return withHeaders(response, {
+			"Access-Control-Allow-Origin": "*",
+			"Access-Control-Expose-Headers": options.exposeHeaders.join(", "),
+		});
+	};
+}
+
+/**
+ * Tag each request with an id, echoed in the X-Request-Id response header.
+ * A well-formed id sent by the client is reused so logs can be correlated.
+ */
+export function requestId(): Middleware {
+	return async (context, next) => {
+		const incoming = context.request.headers.get(REQUEST_ID_HEADER);
+		context.requestId = incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : crypto.randomUUID();
+
+		const response = await next();
+		return withHeaders(response, { [REQUEST_ID_HEADER]: context.requestId });
+	};
+}
+
+/**
+ * Log how long each request took and report it in a Server-Timing header.
+ * Streamed responses are timed to the first byte, not the end of the stream.
+ */
+export function timing(): Middleware {
+	return async (context, next) => {
+		const start = Date.now();
+		const response = await next();
+		const duration = Date.now() - start;
+
+		console.log("API request:", JSON.stringify({
+			requestId: context.requestId,
+			method: context.request.method,
+			path: context.url.pathname,
+			status: response.status,
+			durationMs: duration,
+		}));
+		return withHeaders(response, { "Server-Timing": `total;dur=${duration}` });
+	};
+}
+
+/**
+ * Map errors thrown further down the chain to JSON responses.
+ * HttpErrors keep their status; anything else is logged and becomes a 500.
+ */
+export function errorHandler(): Middleware {
+	return async (context, next) => {
+		try {
+			return await next();
+		} catch (error) {
+			if (error instanceof HttpError) {
+				return jsonResponse({ error: error.message }, error.status, error.headers);
+			}
+			console.error("API Error:", context.requestId, error);
+			return jsonResponse({ error: "Internal server error" }, 500);
+		}
+	};
+}
+
+/**
+ * Resolve the caller's investigation session from the X-Session-Id header.
+ * Routes that need one are wrapped in requireSession.
+ */
+export function resolveSession(): Middleware {
+	return async (context, next) => {
+		context.sessionId = getSessionId(context.request);
+		context.session = context.sessionId ? getSession(context.env, context.sessionId) : null;
+		return next();
+	};
+}
+
+/**
+ * Route context once requireSession has checked the session.
+ */
+export interface SessionContext extends RouteContext {
+	sessionId: string;
+	session: SessionStub;
+}
+
+/**
+ * Guard a route that needs an investigation session: requests without a
+ * valid X-Session-Id header get a 400.
+ */
+export function requireSession(handler: RouteHandler<SessionContext>): RouteHandler {
+	return (context) => {
+		if (!context.sessionId || !context.session) {
+			throw new HttpError(400, `Missing or invalid ${SESSION_HEADER} header`);
+		}
+		return handler(context as SessionContext);
+	};
+}
+
+/**
+ * Guard an AI-backed route with the per-IP and per-session token buckets.
+ * Clients over their limit get a 429 with a Retry-After header.
+ */
+export function rateLimited<C extends RouteContext>(bucket: RateLimitBucket, handler: RouteHandler<C>): RouteHandler<C> {
+	return async (context) => {
+		const clientIp = context.request.headers.get("CF-Connecting-IP") || "unknown";
+		const { allowed, retryAfterSeconds } = await checkRateLimit(
+			getRateLimitStore(context.env),
+			context.env.RATE_LIMITS ?? DEFAULT_RATE_LIMITS,
+			bucket,
+			clientIp,
+			context.sessionId
+		);
+		if (!allowed) {
+			return jsonResponse(
+				{ error: "Too many requests", retryAfter: retryAfterSeconds },
+				429,
+				{ "Retry-After": String(retryAfterSeconds) }
+			);
+		}
+		return handler(context);
+	};
+}
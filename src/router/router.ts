@@ -0,0 +1,140 @@
+/**
+ * Router - route table with path params and a middleware chain.
+ *
+ * Routes are declared with a method and a path pattern such as
+ * `/api/cases/:id/check`. Every request runs through the middleware chain in
+ * registration order before being dispatched to its route. A path that
+ * exists under another method gets a 405 with an `Allow` header.
+ */
+
+import type { Env } from "../types";
+import type { SessionStub } from "../session";
+import { jsonResponse } from "./http";
+
+export type HttpMethod = "GET" | "POST";
+
+/**
+ * Per-request state passed through middleware to the route handler.
+ */
+export interface RouteContext {
+	request: Request;
+	env: Env;
+	ctx: ExecutionContext;
+	url: URL;
+	/** Path params of the matched route */
+	params: Record<string, string>;
+	/** Set by the request id middleware */
+	requestId: string;
+	/** Set by the session middleware; null when the caller sent no valid session id */
+	sessionId: string | null;
+	session: SessionStub | null;
+}
+
+export type RouteHandler<C extends RouteContext = RouteContext> = (context: C) => Response | Promise<Response>;
+
+/**
+ * Middleware wraps the rest of the chain; call `next` to continue.
+ */
+export type Middleware = (context: RouteContext, next: () => Promise<Response>) => Promise<Response>;
+
+interface Route {
+	method: HttpMethod;
+	path: string;
+	pattern: RegExp;
+	paramNames: string[];
+	handler: RouteHandler;
+}
+
+/**
+ * Compile a path pattern to a regex. `:name` segments match one path segment.
+ */
+function compilePath(path: string): { pattern: RegExp; paramNames: string[] } {
+	const paramNames: string[] = [];
+	const source = path
+		.split("/")
+		.map((segment) => {
+			if (segment.startsWith(":")) {
+				paramNames.push(segment.slice(1));
+				return "([^/]+)";
+			}
+			return segment.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+		})
+		.join("/");
+	return { pattern: new RegExp(`^${source}$`), paramNames };
+}
+
+export class Router {
+	private readonly routes: Route[] = [];
+	private readonly middleware: Middleware[] = [];
+
+	/**
+	 * Add middleware to the chain. Runs for every request, including 404s and 405s.
+	 */
+	use(middleware: Middleware): this {
+		this.middleware.push(middleware);
+		return this;
+	}
+
+	get(path: string, handler: RouteHandler): this {
+		return this.add("GET", path, handler);
+	}
+
+	post(path: string, handler: RouteHandler): this {
+		return this.add("POST", path, handler);
+	}
+
+	add(method: HttpMethod, path: string, handler: RouteHandler): this {
+		this.routes.push({ method, path, handler, ...compilePath(path) });
+		return this;
+	}
+
+	/**
+	 * Run a request through the middleware chain and its route.
+	 */
+	handle(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
+		const context: RouteContext = {
+			request,
+			env,
+			ctx,
+			url: new URL(request.url),
+			params: {},
+			requestId: "",
+			sessionId: null,
+			session: null,
+		};
+		return this.runFrom(0, context);
+	}
+
+	// Awaited so a rejection reaches the error middleware without first
+	// surfacing as an unhandled rejection
+	private async runFrom(index: number, context: RouteContext): Promise<Response> {
+		const middleware = this.middleware[index];
+		if (!middleware) {
+			return await this.dispatch(context);
+		}
+		return await middleware(context, () => this.runFrom(index + 1, context));
+	}
+
+	private async dispatch(context: RouteContext): Promise<Response> {
+		const { pathname } = context.url;
+		const allowed: HttpMethod[] = [];
+
+		for (const route of this.routes) {
+			const match = route.pattern.exec(pathname);
+			if (!match) {
+				continue;
+			}
+			if (route.method !== context.request.method) {
+				allowed.push(route.method);
+				continue;
+			}
+			context.params = Object.fromEntries(route.paramNames.map((name, i) => [name, match[i + 1]]));
+			return route.handler(context);
+		}
+
+		if (allowed.length > 0) {
+			return jsonResponse({ error: "Method not allowed" }, 405, { Allow: [...allowed, "OPTIONS"].join(", ") });
+		}
+		return jsonResponse({ error: "Not found" }, 404);
+	}
+}
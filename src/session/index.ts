@@ -0,0 +1,51 @@
+/**
+ * Session helpers - resolve the caller's investigation session.
+ */
+
+import type { Env } from "../types";
+import type { ChatSummaryStore } from "../utils/context-window";
+import type { InvestigationSession } from "./investigation-session";
+
+export { awaitsPrevention, caseMode, InvestigationSession, isClosed } from "./investigation-session";
+
+/**
+ * RPC stub for a player's investigation session.
+ */
+export type SessionStub = DurableObjectStub<InvestigationSession>;
+
+/**
+ * Header the frontend uses to identify its investigation session.
+ */
+export const SESSION_HEADER = "X-Session-Id";
+
+const SESSION_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Read and validate the session id from a request.
+ * Returns null when the header is missing or not a UUID.
+ */
+export function getSessionId(request: Request): string | null {
+	const sessionId = request.headers.get(SESSION_HEADER);
+	if (!sessionId || !SESSION_ID_PATTERN.test(sessionId)) {
+		return null;
+	}
+	return sessionId.toLowerCase();
+}
+
+/**
+ * Get the Durable Object stub for a session.
+ */
+export function getSession(env: Env, sessionId: string): SessionStub {
+	return env.INVESTIGATIONS.get(env.INVESTIGATIONS.idFromName(sessionId));
+}
+
+/**
+ * Summary store for one of a session's chats.
+ * @param scope A case id, or "general" for the chat outside any case
+ */
+export function chatSummaryStore(session: SessionStub, scope: string): ChatSummaryStore {
+	return {
+		get: () => session.getChatSummary(scope),
+		put: (summary) => session.saveChatSummary(scope, summary),
+	};
+}
@@ -0,0 +1,382 @@
+/**
+ * Investigation Session - Durable Object that owns a player's progress.
+ *
+ * One instance exists per session id. It is the source of truth for clue
+ * reveals, hint views, attempts, phase completion, elapsed time and the
+ * final score, so none of those can be edited from the client. Solving the
+ * case closes it; the optional prevention phase can only add a bonus after.
+ * A case is played guided (phase by phase) or in expert mode (root cause and
+ * fix in one submission), fixed by its first graded attempt.
+ * The latest verdict for each phase is kept so the player can appeal it,
+ * and the most recent attempts so the mentor can discuss them. Each chat's
+ * running summary is kept so long chats fit the mentor's context.
+ */
+
+import { DurableObject } from "cloudflare:workers";
+import type {
+	AttemptRecord,
+	CaseDifficulty,
+	ChatSummary,
+	CaseMode,
+	CaseProgress,
+	Env,
+	ExpertAttempt,
+	GradedAttempt,
+	GradingPhase,
+	HintPhase,
+	MentorPersonaId,
+	RecordedVerdict,
+} from "../types";
+import { calculatePreventionBonus, calculateScore, hintLevelCost, INITIAL_CLUES } from "../utils/scoring";
+
+/**
+ * Storage key for a case's progress record.
+ */
+function progressKey(caseId: string): string {
+	return `case:${caseId}`;
+}
+
+/**
+ * Storage key for the latest verdict of a case phase.
+ */
+function verdictKey(caseId: string, phase: GradingPhase): string {
+	return `verdict:${caseId}:${phase}`;
+}
+
+/**
+ * Storage key for a case's attempt history.
+ */
+function attemptsKey(caseId: string): string {
+	return `attempts:${caseId}`;
+}
+
+/**
+ * Storage key for the running summary of a chat: a case id, or "general"
+ * for the chat outside any case.
+ */
+function chatSummaryKey(scope: string): string {
+	return `chat-summary:${scope}`;
+}
+
+/**
+ * Most attempts kept in a case's history; older ones are dropped.
+ */
+export const MAX_ATTEMPT_HISTORY = 10;
+
+export class InvestigationSession extends DurableObject<Env> {
+	/**
+	 * Get progress for a case, starting the investigation clock on first access.
+	 */
+	async getProgress(caseId: string): Promise<CaseProgress> {
+		const existing = await this.ctx.storage.get<CaseProgress>(progressKey(caseId));
+		if (existing) {
+			return existing;
+		}
+
+		const progress: CaseProgress = {
+			caseId,
+			startedAt: Date.now(),
+			cluesRevealed: INITIAL_CLUES,
+			hintsViewed: [],
+			rootCauseAttempts: 0,
+			solutionAttempts: 0,
+			rootCauseCorrect: false,
+			submittedRootCause: "",
+			expertAttempts: 0,
+			rootCauseHintLevel: 0,
+			solutionHintLevel: 0,
+			takenHints: [],
+			hintLadderPenalty: 0,
+			rootCauseRubricScore: null,
+			solutionRubricScore: null,
+			preventionStatus: "pending",
+			preventionRubricScore: null,
+			preventionBonus: 0,
+			solved: false,
+			gaveUp: false,
+			completedAt: null,
+			score: null,
+		};
+		await this.save(progress);
+		return progress;
+	}
+
+	/**
+	 * List progress for every case this session has opened.
+	 */
+	async listProgress(): Promise<CaseProgress[]> {
+		const entries = await this.ctx.storage.list<CaseProgress>({ prefix: "case:" });
+		return [...entries.values()];
+	}
+
+	/**
+	 * Reveal the next clue. Clues can never be hidden again.
+	 * Returns null when every clue is already revealed or the case is closed.
+	 */
+	async revealNextClue(caseId: string, totalClues: number): Promise<CaseProgress | null> {
+		const progress = await this.getProgress(caseId);
+		if (progress.cluesRevealed >= totalClues || isClosed(progress)) {
+			return null;
+		}
+		progress.cluesRevealed++;
+		await this.save(progress);
+		return progress;
+	}
+
+	/**
+	 * Record that the hint for a clue was viewed.
+	 */
+	async recordHintView(caseId: string, clueId: number): Promise<CaseProgress> {
+		const progress = await this.getProgress(caseId);
+		if (!progress.hintsViewed.includes(clueId) && !isClosed(progress)) {
+			progress.hintsViewed.push(clueId);
+			await this.save(progress);
+		}
+		return progress;
+	}
+
+	/**
+	 * Take the next rung of a phase's hint ladder, recording its cost and
+	 * its text as served. Returns null when the ladder is climbed or the
+	 * case is closed.
+	 */
+	async takeHint(caseId: string, phase: HintPhase, ladder: string[]): Promise<CaseProgress | null> {
+		const progress = await this.getProgress(caseId);
+		const level = ((phase === 1 ? progress.rootCauseHintLevel : progress.solutionHintLevel) ?? 0) + 1;
+		if (level > ladder.length || isClosed(progress)) {
+			return null;
+		}
+
+		if (phase === 1) {
+			progress.rootCauseHintLevel = level;
+		} else {
+			progress.solutionHintLevel = level;
+		}
+		const cost = hintLevelCost(level);
+		progress.takenHints = [...(progress.takenHints ?? []), { phase, level, text: ladder[level - 1], cost }];
+		progress.hintLadderPenalty = (progress.hintLadderPenalty ?? 0) + cost;
+		await this.save(progress);
+		return progress;
+	}
+
+	/**
+	 * Record a graded attempt. The rubric score of the accepted answer for
+	 * each phase is kept for scoring. A correct phase 2 attempt closes the
+	 * case and fixes the final score; the single phase 3 attempt adds its
+	 * bonus to it.
+	 */
+	async recordAttempt(caseId: string, attempt: GradedAttempt, difficulty: CaseDifficulty): Promise<CaseProgress> {
+		const progress = await this.getProgress(caseId);
+		if (attempt.phase === 3) {
+			return this.recordPrevention(progress, attempt, difficulty);
+		}
+		if (isClosed(progress)) {
+			return progress;
+		}
+		await this.saveVerdict(caseId, attempt);
+		await this.appendAttempt(caseId, attempt);
+		progress.mode ??= "guided";
+
+		if (attempt.phase === 1) {
+			progress.rootCauseAttempts++;
+			if (attempt.correct) {
+				progress.rootCauseCorrect = true;
+				progress.submittedRootCause = attempt.submission;
+				progress.rootCauseRubricScore = attempt.rubricScore;
+			}
+		} else {
+			progress.solutionAttempts++;
+			if (attempt.correct) {
+				progress.solutionRubricScore = attempt.rubricScore;
+				progress.solved = true;
+				progress.completedAt = Date.now();
+				progress.score = calculateScore(progress, difficulty);
+			}
+		}
+
+		await this.save(progress);
+		return progress;
+	}
+
+	/**
+	 * Record a single-shot expert attempt. A correct attempt completes both
+	 * phases at once, keeps both rubric scores for scoring and closes the case.
+	 */
+	async recordExpertAttempt(caseId: string, attempt: ExpertAttempt, difficulty: CaseDifficulty): Promise<CaseProgress> {
+		const progress = await this.getProgress(caseId);
+		if (isClosed(progress) || caseMode(progress) === "guided") {
+			return progress;
+		}
+
+		await this.appendAttempt(caseId, {
+			phase: "expert",
+			submission: `Root cause: ${attempt.diagnosis}\nFix: ${attempt.proposedSolution}`,
+			opinion: attempt.opinion,
+			redHerring: attempt.redHerring,
+		});
+		progress.mode = "expert";
+		progress.expertAttempts = (progress.expertAttempts ?? 0) + 1;
+		if (attempt.correct) {
+			progress.rootCauseCorrect = true;
+			progress.submittedRootCause = attempt.diagnosis;
+			progress.rootCauseRubricScore = attempt.rubricScores?.rootCause ?? null;
+			progress.solutionRubricScore = attempt.rubricScores?.solution ?? null;
+			progress.solved = true;
+			progress.completedAt = Date.now();
+			progress.score = calculateScore(progress, difficulty);
+		}
+
+		await this.save(progress);
+		return progress;
+	}
+
+	/**
+	 * The latest recorded verdict for a case phase, if any.
+	 */
+	async getLastVerdict(caseId: string, phase: GradingPhase): Promise<RecordedVerdict | null> {
+		return (await this.ctx.storage.get<RecordedVerdict>(verdictKey(caseId, phase))) ?? null;
+	}
+
+	/**
+	 * The case's most recent graded attempts, oldest first.
+	 */
+	async getAttemptHistory(caseId: string): Promise<AttemptRecord[]> {
+		return (await this.ctx.storage.get<AttemptRecord[]>(attemptsKey(caseId))) ?? [];
+	}
+
+	/**
+	 * Link the latest verdict for a case phase to its appeal.
+	 * Returns false when there is no verdict or it was already appealed.
+	 */
+	async markAppealed(caseId: string, phase: GradingPhase, appealId: string): Promise<boolean> {
+		const verdict = await this.getLastVerdict(caseId, phase);
+		if (!verdict || verdict.appealId) {
+			return false;
+		}
+		verdict.appealId = appealId;
+		await this.ctx.storage.put(verdictKey(caseId, phase), verdict);
+		return true;
+	}
+
+	/**
+	 * Choose the mentor persona for a case's chat. Allowed after the case is
+	 * closed too, for the debrief.
+	 */
+	async setMentorPersona(caseId: string, persona: MentorPersonaId): Promise<CaseProgress> {
+		const progress = await this.getProgress(caseId);
+		progress.mentorPersona = persona;
+		await this.save(progress);
+		return progress;
+	}
+
+	/**
+	 * The running summary of a chat, if it has outgrown the mentor's context.
+	 */
+	async getChatSummary(scope: string): Promise<ChatSummary | null> {
+		return (await this.ctx.storage.get<ChatSummary>(chatSummaryKey(scope))) ?? null;
+	}
+
+	/**
+	 * Replace the running summary of a chat.
+	 */
+	async saveChatSummary(scope: string, summary: ChatSummary): Promise<void> {
+		await this.ctx.storage.put(chatSummaryKey(scope), summary);
+	}
+
+	/**
+	 * Skip the prevention phase of a solved case, releasing the full solution.
+	 */
+	async skipPrevention(caseId: string): Promise<CaseProgress> {
+		const progress = await this.getProgress(caseId);
+		if (awaitsPrevention(progress)) {
+			progress.preventionStatus = "skipped";
+			await this.save(progress);
+		}
+		return progress;
+	}
+
+	/**
+	 * Mark a case as given up.
+	 * This is permanent: the case scores zero and can no longer be solved.
+	 */
+	async giveUp(caseId: string): Promise<CaseProgress> {
+		const progress = await this.getProgress(caseId);
+		if (!isClosed(progress)) {
+			progress.gaveUp = true;
+			progress.completedAt = Date.now();
+			progress.score = 0;
+			await this.save(progress);
+		}
+		return progress;
+	}
+
+	private async recordPrevention(progress: CaseProgress, attempt: GradedAttempt, difficulty: CaseDifficulty): Promise<CaseProgress> {
+		if (!awaitsPrevention(progress)) {
+			return progress;
+		}
+		await this.saveVerdict(progress.caseId, attempt);
+		await this.appendAttempt(progress.caseId, attempt);
+		progress.preventionStatus = "graded";
+		progress.preventionRubricScore = attempt.rubricScore;
+		progress.preventionBonus = calculatePreventionBonus(attempt);
+		// completedAt is unchanged, so only the bonus moves the score
+		progress.score = calculateScore(progress, difficulty);
+		await this.save(progress);
+		return progress;
+	}
+
+	private async saveVerdict(caseId: string, attempt: GradedAttempt): Promise<void> {
+		const verdict: RecordedVerdict = {
+			phase: attempt.phase,
+			submission: attempt.submission,
+			opinion: attempt.opinion,
+			evaluatedBy: attempt.evaluatedBy,
+			secondOpinion: attempt.secondOpinion,
+			gradedAt: Date.now(),
+			appealId: null,
+		};
+		await this.ctx.storage.put(verdictKey(caseId, attempt.phase), verdict);
+	}
+
+	private async appendAttempt(caseId: string, attempt: Omit<AttemptRecord, "gradedAt">): Promise<void> {
+		const record: AttemptRecord = {
+			phase: attempt.phase,
+			submission: attempt.submission,
+			opinion: attempt.opinion,
+			redHerring: attempt.redHerring,
+			gradedAt: Date.now(),
+		};
+		const history = await this.getAttemptHistory(caseId);
+		await this.ctx.storage.put(attemptsKey(caseId), [...history, record].slice(-MAX_ATTEMPT_HISTORY));
+	}
+
+	private async save(progress: CaseProgress): Promise<void> {
+		await this.ctx.storage.put(progressKey(progress.caseId), progress);
+	}
+}
+
+/**
+ * A case is closed once it has been solved or given up.
+ */
+export function isClosed(progress: CaseProgress): boolean {
+	return progress.solved || progress.gaveUp;
+}
+
+/**
+ * A solved case waits for its optional prevention phase until the player
+ * submits a strategy or skips it. Records from before phase 3 never do.
+ */
+export function awaitsPrevention(progress: CaseProgress): boolean {
+	return progress.solved && progress.preventionStatus === "pending";
+}
+
+/**
+ * The mode a case is played in, or null before its first graded attempt.
+ * Records from before expert mode that have attempts were played guided.
+ */
+export function caseMode(progress: CaseProgress): CaseMode | null {
+	if (progress.mode) {
+		return progress.mode;
+	}
+	return progress.rootCauseAttempts > 0 || progress.solutionAttempts > 0 ? "guided" : null;
+}
@@ -2,6 +2,12 @@
  * Type definitions for the Backend Engineer Detective application.
  */
 
+import type { AppealLedger } from "./appeals";
+import type { InvestigationSession } from "./session/investigation-session";
+import type { LlmConfig } from "./llm";
+import type { RateLimitConfig, RateLimiter } from "./rate-limit";
+import type { MentorPersonaId } from "./utils/personas";
+
 export interface Env {
 	/**
 	 * Binding for the Workers AI API.
@@ -12,6 +18,62 @@ export interface Env {
 	 * Binding for static assets.
 	 */
 	ASSETS: { fetch: (request: Request) => Promise<Response> };
+
+	/**
+	 * Binding for per-player investigation sessions.
+	 */
+	INVESTIGATIONS: DurableObjectNamespace<InvestigationSession>;
+
+	/**
+	 * Binding for token-bucket rate limiters on AI-backed routes.
+	 */
+	RATE_LIMITER: DurableObjectNamespace<RateLimiter>;
+
+	/**
+	 * Rate limits per route group and client dimension (defaults apply when unset).
+	 */
+	RATE_LIMITS?: RateLimitConfig;
+
+	/**
+	 * Rate limit store: "durable" (default) or "memory" for local runs.
+	 */
+	RATE_LIMIT_STORE?: "durable" | "memory";
+
+	/**
+	 * Provider, model and parameters per LLM task (defaults apply when unset).
+	 */
+	LLM_CONFIG?: LlmConfig;
+
+	/**
+	 * API key for the OpenAI-compatible provider.
+	 */
+	OPENAI_API_KEY?: string;
+
+	/**
+	 * Binding for the ledger of appealed verdicts.
+	 */
+	APPEAL_LEDGER: DurableObjectNamespace<AppealLedger>;
+
+	/**
+	 * Appeal store: "durable" (default) or "memory" for local runs.
+	 */
+	APPEAL_STORE?: "durable" | "memory";
+
+	/**
+	 * Bearer token for listing appeals for human review (listing is disabled when unset).
+	 */
+	APPEAL_REVIEW_TOKEN?: string;
+
+	/**
+	 * Verdict cache store: "cache" (default, Cache API), "kv", "memory" for
+	 * local runs, or "off".
+	 */
+	VERDICT_CACHE_STORE?: "cache" | "kv" | "memory" | "off";
+
+	/**
+	 * KV namespace for cached verdicts, used when VERDICT_CACHE_STORE is "kv".
+	 */
+	VERDICT_CACHE?: KVNamespace;
 }
 
 /**
@@ -22,6 +84,25 @@ export interface ChatMessage {
 	content: string;
 }
 
+/**
+ * A chat turn sent by the client. Pinned turns are always kept in the
+ * mentor's context.
+ */
+export interface ChatTurn {
+	role: "user" | "assistant";
+	content: string;
+	pinned?: boolean;
+}
+
+/**
+ * Running summary of the chat turns that no longer fit the mentor's context.
+ */
+export interface ChatSummary {
+	text: string;
+	/** Fingerprint of the last turns the summary covers */
+	anchor: string;
+}
+
 /**
  * Difficulty levels for detective cases.
  */
@@ -79,6 +160,18 @@ export interface Clue {
 	hint?: string;
 }
 
+/**
+ * A clue as sent to the player. Hints are served separately so that
+ * viewing one can be recorded and penalized.
+ */
+export interface ClueView {
+	id: number;
+	title: string;
+	type: ClueType;
+	content: string;
+	hasHint: boolean;
+}
+
 /**
  * Code example for the solution.
  */
@@ -88,18 +181,121 @@ export interface CodeExample {
 	description: string;
 }
 
+/**
+ * Role of a rubric item: a concept a correct answer must contain, a concept
+ * that strengthens it, or a misconception that counts against it.
+ */
+export type RubricItemKind = "required" | "supporting" | "misconception";
+
+/**
+ * One weighted grading criterion.
+ */
+export interface RubricItem {
+	kind: RubricItemKind;
+	concept: string;
+	weight: number;
+	/** Phrases keyword matching looks for (defaults to the concept itself) */
+	keywords?: string[];
+}
+
+/**
+ * Grading rubric for each phase of a case.
+ */
+export interface Rubric {
+	rootCause: RubricItem[];
+	solution: RubricItem[];
+	/** Without prevention items, each of the solution's prevention strategies is a supporting item */
+	prevention?: RubricItem[];
+}
+
+/**
+ * How well a submission meets a rubric item. For misconceptions, "met"
+ * means the submission makes that mistake.
+ */
+export type CriterionRating = "met" | "partial" | "missed";
+
+/**
+ * A rated rubric item. Ids are positional (R1, S1, M1...) so they reveal
+ * nothing; the concept is withheld until the case is closed.
+ */
+export interface CriterionScore {
+	id: string;
+	kind: RubricItemKind;
+	weight: number;
+	rating: CriterionRating;
+	concept?: string;
+}
+
 /**
  * Complete solution for a case.
  */
 export interface Solution {
 	diagnosis: string;
 	keywords: string[];
+	/** Weighted rubric; without one, every keyword is an equally weighted supporting concept */
+	rubric?: Rubric;
 	rootCause: string;
 	codeExamples: CodeExample[];
 	prevention: string[];
 	educationalInsights: string[];
 }
 
+/**
+ * A plausible wrong answer that the case evidence rules out.
+ */
+export interface RedHerring {
+	/** Phrases that signal this answer, matched in order after stemming and synonyms; any one matches */
+	phrases: string[];
+	/** Why the evidence rules it out, without naming the real root cause */
+	feedback: string;
+	/** Phase the red herring applies to (defaults to 1) */
+	phase?: GradingPhase;
+	/** Ids of the clues the feedback cites; it is only given once they are all revealed */
+	clues?: number[];
+}
+
+/**
+ * One rung of a hint ladder.
+ */
+export interface HintRung {
+	text: string;
+	/** Ids of the phase's rubric criteria (e.g. "R1") this rung points toward */
+	criteria?: string[];
+}
+
+/**
+ * Ordered hints per phase, from a gentle nudge to a strong pointer.
+ */
+export interface HintLadder {
+	rootCause: HintRung[];
+	solution: HintRung[];
+}
+
+/**
+ * Phases with a hint ladder.
+ */
+export type HintPhase = 1 | 2;
+
+/**
+ * A hint ladder rung as served to the player.
+ */
+export interface HintView {
+	phase: HintPhase;
+	/** 1-based position on the phase's ladder */
+	level: number;
+	text: string;
+	cost: number;
+}
+
+/**
+ * The next rung of a phase's ladder, without its text.
+ */
+export interface NextHint {
+	phase: HintPhase;
+	level: number;
+	cost: number;
+}
+
 /**
  * Complete detective case definition.
  */
@@ -113,6 +309,10 @@ export interface DetectiveCase {
 	symptoms: Symptoms;
 	clues: Clue[];
 	solution: Solution;
+	/** Known wrong answers with targeted feedback */
+	redHerrings?: RedHerring[];
+	/** Without one, a ladder is built from the clues and rubric */
+	hintLadder?: HintLadder;
 }
 
 /**
@@ -138,11 +338,79 @@ export interface CaseView {
 	category: CaseCategory;
 	crisis: Crisis;
 	symptoms: Symptoms;
-	clues: Clue[];
+	clues: ClueView[];
 	totalClues: number;
 	cluesRevealed: number;
 }
 
+/**
+ * Verdict returned by the LLM graders.
+ */
+export type Verdict = "correct" | "partial" | "incorrect";
+
+/**
+ * How a second opinion is formed: the same prompt on a larger model, or a
+ * majority vote over extra samples from the grader's own model.
+ */
+export type SecondOpinionStrategy = "larger-model" | "majority-vote";
+
+/**
+ * One grader's verdict with its reasoning.
+ */
+export interface GraderOpinion {
+	verdict: Verdict;
+	/** Model confidence from 0 to 1 (null for keyword fallback or when not given) */
+	confidence: number | null;
+	explanation: string;
+}
+
+/**
+ * A second opinion taken on a low-confidence or borderline verdict. The
+ * result it is attached to carries the final verdict.
+ */
+export interface SecondOpinion {
+	strategy: SecondOpinionStrategy;
+	/** The first grader's opinion, before review */
+	initial: GraderOpinion;
+	/** Every sampled verdict, for majority votes */
+	votes?: Verdict[];
+}
+
+/**
+ * Parsed JSON evaluation returned by an LLM grader.
+ */
+export interface GraderEvaluation {
+	verdict: Verdict;
+	explanation: string;
+	matchedConcepts: string[];
+}
+
+/**
+ * A submission labeled by a human, used to measure grader accuracy.
+ */
+export interface GoldenExample {
+	phase: 1 | 2;
+	submission: string;
+	label: Verdict;
+}
+
+/**
+ * Labeled submissions for one case, kept next to the case file.
+ */
+export interface GoldenSet {
+	caseId: string;
+	examples: GoldenExample[];
+}
+
+/**
+ * How a grading verdict was produced:
+ * - llm: the grader model's reply was valid as returned
+ * - llm-repaired: the reply needed JSON repair
+ * - llm-retry: the first reply was unusable and a corrective retry succeeded
+ * - keyword-fallback: the model failed and lexical matching decided
+ */
+export type EvaluationPath = "llm" | "llm-repaired" | "llm-retry" | "keyword-fallback";
+
 /**
  * Result of checking a diagnosis.
  */
@@ -152,6 +420,218 @@ export interface DiagnosisResult {
 	feedback: string;
 	matchedKeywords: string[];
 	solution?: Solution;
+	evaluatedBy?: EvaluationPath;
+	/** Per-criterion ratings against the case rubric */
+	criteria?: CriterionScore[];
+	/** Weighted rubric score from 0 to 100 */
+	rubricScore?: number;
+	/** Expert mode: the weighted rubric score of each half */
+	rubricScores?: { rootCause: number; solution: number };
+	/** True when the verdict was served from the verdict cache */
+	cached?: boolean;
+	/** Why the evidence rules out a known wrong answer the submission relies on */
+	redHerring?: string;
+	/** Grader confidence from 0 to 1 */
+	confidence?: number;
+	/** Present when a second grader reviewed the verdict */
+	secondOpinion?: SecondOpinion;
+}
+
+/**
+ * Grading phases: 1 root cause, 2 fix, 3 prevention (optional, after the case is solved).
+ */
+export type GradingPhase = 1 | 2 | 3;
+
+/**
+ * How a case is played: "guided" grades the root cause and the fix in
+ * separate phases, "expert" grades both from one submission.
+ */
+export type CaseMode = "guided" | "expert";
+
+/**
+ * Phase 3 is pending until the player submits a prevention strategy once or skips it.
+ */
+export type PreventionStatus = "pending" | "graded" | "skipped";
+
+/**
+ * A graded submission to record against a case.
+ */
+export interface GradedAttempt {
+	phase: GradingPhase;
+	correct: boolean;
+	partial: boolean;
+	submission: string;
+	rubricScore: number | null;
+	/** The verdict as shown to the player, kept for appeals */
+	opinion: GraderOpinion;
+	evaluatedBy?: EvaluationPath;
+	secondOpinion?: SecondOpinion;
+	/** Red-herring feedback the player was given */
+	redHerring?: string;
+}
+
+/**
+ * A graded single-shot submission in expert mode.
+ */
+export interface ExpertAttempt {
+	correct: boolean;
+	diagnosis: string;
+	proposedSolution: string;
+	opinion: GraderOpinion;
+	/** Rubric scores of the root cause and the fix, kept for scoring */
+	rubricScores: { rootCause: number; solution: number } | null;
+	redHerring?: string;
+}
+
+/**
+ * One graded attempt in a case's history, kept so the mentor can discuss
+ * the player's theories.
+ */
+export interface AttemptRecord {
+	/** A grading phase, or "expert" for single-shot expert submissions */
+	phase: GradingPhase | "expert";
+	submission: string;
+	opinion: GraderOpinion;
+	redHerring?: string;
+	gradedAt: number;
+}
+
+/**
+ * The latest graded attempt for a phase, kept so it can be appealed.
+ */
+export interface RecordedVerdict {
+	phase: GradingPhase;
+	submission: string;
+	opinion: GraderOpinion;
+	evaluatedBy?: EvaluationPath;
+	secondOpinion?: SecondOpinion;
+	gradedAt: number;
+	/** Set once the verdict has been appealed */
+	appealId: string | null;
+}
+
+/**
+ * A disputed verdict filed for human review.
+ */
+export interface Appeal {
+	id: string;
+	sessionId: string;
+	caseId: string;
+	phase: GradingPhase;
+	submission: string;
+	/** The player's reason for disputing the verdict */
+	reason: string;
+	/** The first grader's verdict */
+	firstOpinion: GraderOpinion;
+	/** Taken during grading when the verdict was borderline, otherwise for the appeal */
+	secondOpinion: GraderOpinion & { strategy: SecondOpinionStrategy; votes?: Verdict[] };
+	/** Which of the two verdicts the player was shown */
+	shown: "first" | "second";
+	createdAt: number;
+}
+
+/**
+ * Server-side progress for a single case within an investigation session.
+ */
+export interface CaseProgress {
+	caseId: string;
+	startedAt: number;
+	cluesRevealed: number;
+	hintsViewed: number[];
+	rootCauseAttempts: number;
+	solutionAttempts: number;
+	rootCauseCorrect: boolean;
+	submittedRootCause: string;
+	/** Fixed by the first graded attempt (absent on records from before expert mode, which are guided) */
+	mode?: CaseMode;
+	/** Single-shot attempts in expert mode */
+	expertAttempts?: number;
+	/** Hint ladder rungs taken per phase */
+	rootCauseHintLevel?: number;
+	solutionHintLevel?: number;
+	/** Rungs taken, as they read when taken (absent on records from before rungs were kept) */
+	takenHints?: HintView[];
+	/** Points the hint ladder rungs taken cost */
+	hintLadderPenalty?: number;
+	/** Mentor persona chosen for this case's chat (the default persona when unset) */
+	mentorPersona?: MentorPersonaId;
+	/** Rubric score of the accepted root cause (absent on records from before rubrics) */
+	rootCauseRubricScore?: number | null;
+	/** Rubric score of the accepted solution */
+	solutionRubricScore?: number | null;
+	/** Phase 3 state (absent on records from before phase 3, which never offer it) */
+	preventionStatus?: PreventionStatus;
+	/** Rubric score of the graded prevention strategy */
+	preventionRubricScore?: number | null;
+	/** Points the prevention strategy added before the difficulty multiplier */
+	preventionBonus?: number;
+	solved: boolean;
+	gaveUp: boolean;
+	completedAt: number | null;
+	score: number | null;
+}
+
+/**
+ * Session-wide totals used for rankings.
+ */
+export interface ProgressSummary {
+	casesOpened: number;
+	solved: number;
+	gaveUp: number;
+	totalScore: number;
+}
+
+/**
+ * Which mentor persona answered a chat request: Socratic guidance while the
+ * case is open, or an open debrief once it has been solved or given up.
+ */
+export type MentorMode = "socratic" | "debrief";
+
+/**
+ * Ids of the selectable mentor personas, the keys of the persona registry.
+ */
+export type { MentorPersonaId };
+
+/**
+ * How much a persona gives away while the case is open, from explaining
+ * concepts and pointing at clues to asking questions only.
+ */
+export type SocraticStrictness = "guiding" | "socratic" | "strict" | "questions-only";
+
+/**
+ * A mentor persona: its voice and how strictly it sticks to questions.
+ */
+export interface MentorPersona {
+	id: MentorPersonaId;
+	name: string;
+	description: string;
+	strictness: SocraticStrictness;
+	/** Who the mentor is and how it talks; opens every mentor prompt */
+	prompt: string;
+	/** Opening chat paragraphs; "{case}" is replaced with the case title */
+	greeting: string[];
+}
+
+/**
+ * A persona as listed to the player, without its prompt.
+ */
+export type MentorPersonaView = Omit<MentorPersona, "prompt">;
+
+/**
+ * What the mentor is told about the player's investigation of an open case.
+ */
+export interface InvestigationBriefing {
+	progress: CaseProgress;
+	/** Most recent graded attempts, oldest first */
+	attempts: AttemptRecord[];
+}
+
+/**
+ * A revealed clue the mentor cited in a reply.
+ */
+export interface ClueCitation {
+	clueId: number;
+	title: string;
 }
 
 /**
@@ -0,0 +1,170 @@
+/**
+ * Clue Evidence - digests of revealed clue content for the mentor prompt,
+ * and the clue citations the mentor makes in its replies.
+ *
+ * Clue content (logs, metrics tables, code) is summarized line by line: when
+ * a clue does not fit its share of the token budget, the lines carrying the
+ * most signal (errors, numbers, headings) are kept in their original order
+ * and the rest are marked as omitted. The mentor cites clues as "[Clue 3]";
+ * the citations of revealed clues are sent as a final SSE event so the UI
+ * can link back to the clue cards.
+ */
+
+import type { Clue, ClueCitation } from "../types";
+import { estimateTokens } from "./context-window";
+import { eventText } from "./output-guard";
+
+/**
+ * Token budget for the clue digests in one mentor prompt.
+ */
+export const EVIDENCE_TOKEN_BUDGET = 1200;
+
+// Lines that carry the evidence in logs, metrics and code
+const SIGNAL_PATTERN = /\b(error|errors|fail|failed|failure|exception|timeout|timed out|refused|denied|warn|warning|fatal|killed|exhausted|leak|dropped|retry|retries|oom|slow|lag|5\d\d)\b/i;
+
+const CITATION_PATTERN = /\[Clue (\d+)\]/gi;
+
+/**
+ * Content lines of a clue without code fences, blank lines or repeated
+ * spaces. Indentation is kept since config and code depend on it.
+ */
+function contentLines(content: string): string[] {
+	return content
+		.split("\n")
+		.filter((line) => line.trim() && !line.trim().startsWith("```"))
+		.map((line) => {
+			const indent = /^\s*/.exec(line)?.[0] ?? "";
+			return indent + line.trim().replace(/\s+/g, " ");
+		});
+}
+
+/**
+ * How much a line says about the incident.
+ */
+function salience(line: string): number {
+	let score = 0;
+	if (SIGNAL_PATTERN.test(line)) {
+		score += 3;
+	}
+	if (/\d/.test(line)) {
+		score += 1;
+	}
+	if (/^\s*(#|\*\*)/.test(line)) {
+		score += 1;
+	}
+	return score;
+}
+
+/**
+ * Summarize clue content to fit a token budget. The first line is always
+ * kept for context; the rest are chosen by salience, earlier lines first.
+ */
+export function summarizeClueContent(content: string, budgetTokens: number): string {
+	const lines = contentLines(content);
+	if (estimateTokens(lines.join("\n")) <= budgetTokens) {
+		return lines.join("\n");
+	}
+
+	const kept = new Set<number>();
+	let used = 0;
+	const ranked = lines
+		.map((line, i) => ({ i, score: i === 0 ? Infinity : salience(line) }))
+		.sort((a, b) => b.score - a.score || a.i - b.i);
+	for (const { i } of ranked) {
+		const cost = estimateTokens(lines[i]) + 1;
+		if (used + cost <= budgetTokens) {
+			kept.add(i);
+			used += cost;
+		}
+	}
+
+	const summary: string[] = [];
+	lines.forEach((line, i) => {
+		if (kept.has(i)) {
+			summary.push(line);
+		} else if (summary[summary.length - 1] !== "…") {
+			summary.push("…");
+		}
+	});
+	return `${summary.join("\n")}\n(${kept.size} of ${lines.length} lines shown)`;
+}
+
+/**
+ * Digest of the revealed clues for the mentor prompt. Clues that need less
+ * than their share of the budget leave the rest to longer ones.
+ */
+export function buildEvidenceDigest(clues: Clue[], budgetTokens = EVIDENCE_TOKEN_BUDGET): string {
+	const needs = clues.map((clue) => estimateTokens(contentLines(clue.content).join("\n")));
+	const budgets = new Map<number, number>();
+	let remaining = budgetTokens;
+	const bySize = clues.map((_, i) => i).sort((a, b) => needs[a] - needs[b]);
+	bySize.forEach((i, position) => {
+		const share = Math.floor(remaining / (bySize.length - position));
+		budgets.set(i, Math.min(needs[i], share));
+		remaining -= budgets.get(i) ?? 0;
+	});
+
+	return clues
+		.map((clue, i) => [
+			`[Clue ${clue.id}] ${clue.title} (${clue.type})`,
+			...(clue.hint ? [`Hint: ${clue.hint}`] : []),
+			summarizeClueContent(clue.content, budgets.get(i) ?? 0),
+		].join("\n"))
+		.join("\n\n");
+}
+
+/**
+ * Clue ids cited in a reply, in first-cited order.
+ */
+export function extractCitations(reply: string): number[] {
+	const ids = [...reply.matchAll(CITATION_PATTERN)].map((match) => Number(match[1]));
+	return [...new Set(ids)];
+}
+
+/**
+ * Create a stream transform that forwards mentor SSE events and, before the
+ * stream ends, emits a `{"citations": [...]}` event listing the revealed
+ * clues the reply cited. Citations of clues the player has not revealed are
+ * dropped.
+ */
+export function createCitationTracker(revealed: Clue[]): TransformStream<Uint8Array, Uint8Array> {
+	const decoder = new TextDecoder();
+	const encoder = new TextEncoder();
+	let buffer = "";
+	let reply = "";
+	let sent = false;
+
+	const citationEvent = (): Uint8Array => {
+		sent = true;
+		const citations: ClueCitation[] = extractCitations(reply)
+			.map((id) => revealed.find((clue) => clue.id === id))
+			.filter((clue): clue is Clue => clue !== undefined)
+			.map((clue) => ({ clueId: clue.id, title: clue.title }));
+		return encoder.encode(`data: ${JSON.stringify({ citations })}\n\n`);
+	};
+
+	return new TransformStream({
+		transform(chunk, controller) {
+			buffer += decoder.decode(chunk, { stream: true });
+			const events = buffer.split("\n\n");
+			buffer = events.pop() ?? "";
+
+			for (const event of events) {
+				if (!sent && event.trim() === "data: [DONE]") {
+					controller.enqueue(citationEvent());
+				}
+				reply += eventText(event) ?? "";
+				controller.enqueue(encoder.encode(`${event}\n\n`));
+			}
+		},
+		flush(controller) {
+			if (buffer) {
+				reply += eventText(buffer) ?? "";
+				controller.enqueue(encoder.encode(`${buffer}\n\n`));
+			}
+			if (!sent) {
+				controller.enqueue(citationEvent());
+			}
+		},
+	});
+}
@@ -0,0 +1,171 @@
+/**
+ * Hint Ladder - per-case hints that climb from a gentle nudge to a strong pointer.
+ *
+ * Cases can author a ladder per phase. Cases without one get a ladder built
+ * from their own material: the revealed clue that best explains the root
+ * cause, its authored hint, then the rubric's required concepts. Only clues
+ * the player has revealed are ranked, so a built ladder is kept per reveal
+ * count and never points past the reveal gate. Taken rungs are kept in the
+ * session as they read when taken, so a later reveal never rewords a hint
+ * already paid for. Rungs can name the rubric criteria they point toward,
+ * so a graded attempt can suggest the rung that covers what it missed.
+ */
+
+import { rubricCriteria } from "../grading/rubric";
+import type {
+	CaseProgress,
+	Clue,
+	CriterionScore,
+	DetectiveCase,
+	HintLadder,
+	HintPhase,
+	HintRung,
+	HintView,
+	NextHint,
+	Solution,
+} from "../types";
+import { Bm25Index } from "./lexical";
+import { hintLevelCost } from "./scoring";
+
+// Most concept rungs at the top of a built ladder
+const MAX_CONCEPT_RUNGS = 3;
+
+/**
+ * Strong pointers naming the phase's required concepts or, for cases
+ * without a rubric, its first keywords.
+ */
+function conceptRungs(solution: Solution, phase: HintPhase, lead: string): HintRung[] {
+	const criteria = rubricCriteria(solution, phase);
+	const required = criteria.filter((criterion) => criterion.kind === "required");
+	if (required.length > 0) {
+		return required
+			.slice(0, MAX_CONCEPT_RUNGS)
+			.map((criterion) => ({ text: `${lead} ${criterion.concept}`, criteria: [criterion.id] }));
+	}
+	return criteria
+		.filter((criterion) => criterion.kind === "supporting")
+		.slice(0, MAX_CONCEPT_RUNGS)
+		.map((criterion) => ({ text: `Key concept: ${criterion.concept}`, criteria: [criterion.id] }));
+}
+
+/**
+ * A ladder built from the revealed clues and the case's code examples and
+ * rubric.
+ */
+function buildLadder(caseData: DetectiveCase, clues: Clue[]): HintLadder {
+	const { solution } = caseData;
+	const index = new Bm25Index(clues.map((clue) => [clue.title, clue.content, clue.hint ?? ""].join("\n")));
+	const query = `${solution.diagnosis}\n${solution.rootCause}`;
+	const [key, runnerUp] = clues
+		.map((clue, i) => ({ clue, score: index.score(query, i) }))
+		.sort((a, b) => b.score - a.score)
+		.map(({ clue }) => clue);
+
+	const rootCause: HintRung[] = [];
+	if (key) {
+		rootCause.push({ text: `Start with the "${key.title}" clue. Something in it does not add up.` });
+		if (key.hint) {
+			rootCause.push({ text: `In "${key.title}": ${key.hint}` });
+		} else if (runnerUp) {
+			rootCause.push({ text: `Read "${key.title}" side by side with "${runnerUp.title}". What connects them?` });
+		}
+	}
+	rootCause.push(...conceptRungs(solution, 1, "Your diagnosis needs to explain this:"));
+
+	const fix: HintRung[] = [
+		{ text: "A fix has to remove the cause you identified, not just relieve its symptoms. What would stop it happening at all?" },
+	];
+	if (solution.codeExamples[0]) {
+		fix.push({ text: `A reference fix is described as "${solution.codeExamples[0].description}".` });
+	}
+	fix.push(...conceptRungs(solution, 2, "Your fix needs to cover this:"));
+
+	return { rootCause, solution: fix };
+}
+
+// Shared across requests handled by the same isolate, keyed by case and
+// reveal count
+const builtLadders = new Map<string, HintLadder>();
+
+/**
+ * The hint ladder for a case phase, given what the session has revealed.
+ */
+export function hintLadder(caseData: DetectiveCase, progress: CaseProgress, phase: HintPhase): HintRung[] {
+	const key = `${caseData.id}:${progress.cluesRevealed}`;
+	let ladder = caseData.hintLadder ?? builtLadders.get(key);
+	if (!ladder) {
+		ladder = buildLadder(caseData, caseData.clues.slice(0, progress.cluesRevealed));
+		builtLadders.set(key, ladder);
+	}
+	return phase === 1 ? ladder.rootCause : ladder.solution;
+}
+
+/**
+ * The phase hints are served for: the root cause until it is identified,
+ * then the fix. Expert mode climbs the root-cause ladder.
+ */
+export function hintPhase(progress: CaseProgress): HintPhase {
+	return progress.rootCauseCorrect ? 2 : 1;
+}
+
+/**
+ * Rungs taken so far on a phase's ladder.
+ */
+export function hintLevelTaken(progress: CaseProgress, phase: HintPhase): number {
+	return (phase === 1 ? progress.rootCauseHintLevel : progress.solutionHintLevel) ?? 0;
+}
+
+/**
+ * Every rung the session has taken, for both phases, as it read when taken.
+ * Records from before rungs were kept render the rest from the current ladder.
+ */
+export function takenHints(caseData: DetectiveCase, progress: CaseProgress): HintView[] {
+	return ([1, 2] as const).flatMap((phase) => {
+		const kept = (progress.takenHints ?? []).filter((hint) => hint.phase === phase);
+		const rendered = hintLadder(caseData, progress, phase)
+			.slice(kept.length, hintLevelTaken(progress, phase))
+			.map((rung, i) => ({ phase, level: kept.length + i + 1, text: rung.text, cost: hintLevelCost(kept.length + i + 1) }));
+		return [...kept, ...rendered];
+	});
+}
+
+/**
+ * The next rung of a phase's ladder, or null once it has been climbed.
+ */
+export function nextHint(caseData: DetectiveCase, progress: CaseProgress, phase: HintPhase): NextHint | null {
+	const level = hintLevelTaken(progress, phase) + 1;
+	return level <= hintLadder(caseData, progress, phase).length ? { phase, level, cost: hintLevelCost(level) } : null;
+}
+
+/**
+ * True when a criterion shows the attempt needs help: a required or
+ * supporting item not fully met, or a misconception the attempt makes.
+ */
+function needsHelp(criterion: CriterionScore): boolean {
+	return criterion.kind === "misconception" ? criterion.rating !== "missed" : criterion.rating !== "met";
+}
+
+/**
+ * The lowest rung not yet taken that points toward a criterion the last
+ * attempt missed, or the next rung when none does.
+ */
+export function suggestHint(
+	caseData: DetectiveCase,
+	progress: CaseProgress,
+	phase: HintPhase,
+	criteria: CriterionScore[] = []
+): NextHint | null {
+	const next = nextHint(caseData, progress, phase);
+	if (!next) {
+		return null;
+	}
+
+	const missed = new Set(criteria.filter(needsHelp).map((criterion) => criterion.id));
+	const ladder = hintLadder(caseData, progress, phase);
+	for (let level = next.level; level <= ladder.length; level++) {
+		if (ladder[level - 1].criteria?.some((id) => missed.has(id))) {
+			return { phase, level, cost: hintLevelCost(level) };
+		}
+	}
+	return next;
+}
@@ -0,0 +1,201 @@
+/**
+ * Lexical analysis - tokenization, stemming, synonyms and BM25 scoring for
+ * matching free-text submissions without a model.
+ */
+
+import { SYNONYMS } from "./synonyms";
+
+/**
+ * Words that carry no meaning for matching. Negations are kept on purpose:
+ * "not released" and "released" mean opposite things.
+ */
+const STOPWORDS = new Set([
+	"a", "about", "after", "all", "also", "an", "and", "any", "are", "as", "at", "be", "because", "been",
+	"before", "being", "between", "both", "but", "by", "can", "could", "did", "do", "does", "doing", "due",
+	"during", "each", "every", "for", "from", "had", "has", "have", "having", "how", "i", "if", "in", "into",
+	"is", "it", "its", "itself", "just", "like", "may", "might", "more", "most", "much", "must", "of", "on",
+	"once", "only", "or", "other", "our", "out", "over", "own", "same", "should", "so", "some", "such",
+	"than", "that", "the", "their", "them", "then", "there", "these", "they", "this", "those", "through",
+	"to", "too", "under", "until", "up", "very", "was", "we", "were", "what", "when", "where", "which",
+	"while", "who", "why", "will", "with", "would", "you", "your",
+]);
+
+/**
+ * Normalize text for comparison.
+ */
+export function normalize(text: string): string {
+	return text
+		.toLowerCase()
+		.replace(/[^a-z0-9\s]/g, " ") // Replace special chars with space
+		.replace(/\s+/g, " ") // Collapse multiple spaces
+		.trim();
+}
+
+const VOWEL = /[aeiouy]/;
+
+/**
+ * Light suffix-stripping stemmer, close to the first steps of Porter's
+ * algorithm: plurals, -ed/-ing, -ly, -ion after s/t and a final -e, so
+ * "releasing", "released" and "release" share a stem.
+ */
+export function stem(word: string): string {
+	if (word.length <= 3 || /\d/.test(word)) {
+		return word;
+	}
+
+	let result = word;
+	if (result.endsWith("ies") && result.length > 4) {
+		result = `${result.slice(0, -3)}y`;
+	} else if (result.endsWith("sses")) {
+		result = result.slice(0, -2);
+	} else if (result.endsWith("s") && !/(ss|us|is)$/.test(result)) {
+		result = result.slice(0, -1);
+	}
+
+	for (const suffix of ["ing", "ed"]) {
+		const base = result.slice(0, -suffix.length);
+		if (result.endsWith(suffix) && base.length >= 3 && VOWEL.test(base)) {
+			// Undouble: "dropped" -> "drop", but keep "stall" and "miss"
+			result = /([^aeiouylsz])\1$/.test(base) ? base.slice(0, -1) : base;
+			break;
+		}
+	}
+
+	if (result.endsWith("ly") && result.length > 5) {
+		result = result.slice(0, -2);
+	}
+	if (/[st]ion$/.test(result) && result.length > 6) {
+		result = result.slice(0, -3);
+	}
+	if (result.endsWith("e") && result.length > 4) {
+		result = result.slice(0, -1);
+	}
+	return result;
+}
+
+/**
+ * Stem a word unless it is a stopword. Stopwords are kept as written so
+ * synonym phrases like "did not" still match before they are dropped.
+ */
+function stemWord(word: string): string {
+	return STOPWORDS.has(word) ? word : stem(word);
+}
+
+/**
+ * Normalize and stem every word of a phrase.
+ */
+function stemPhrase(text: string): string {
+	return normalize(text).split(" ").filter(Boolean).map(stemWord).join(" ");
+}
+
+// Synonyms keyed on stems, so inflected forms ("deployed") match too.
+// Canonical phrases map to themselves: a variant inside one ("breaker" in
+// "circuit breaker") is left alone, so rewriting twice changes nothing.
+const CANONICAL_BY_STEMMED = new Map(
+	Object.entries(SYNONYMS).flatMap(([canonical, variants]) => {
+		const target = stemPhrase(canonical);
+		return [canonical, ...variants].map((phrase) => [stemPhrase(phrase), target] as const);
+	})
+);
+
+// Longest phrases first so "oom kill" wins over "oom"
+const STEMMED_PATTERN = new RegExp(
+	`\\b(${[...CANONICAL_BY_STEMMED.keys()].sort((a, b) => b.length - a.length).join("|")})\\b`,
+	"g"
+);
+
+/**
+ * Rewrite synonym variants in stemmed text to their stemmed canonical phrase.
+ */
+export function canonicalize(stemmedText: string): string {
+	return stemmedText.replace(STEMMED_PATTERN, (phrase) => CANONICAL_BY_STEMMED.get(phrase) ?? phrase);
+}
+
+/**
+ * Turn text into matching terms: normalized, stemmed, synonyms
+ * canonicalized and stopwords dropped.
+ */
+export function analyze(text: string): string[] {
+	return canonicalize(stemPhrase(text))
+		.split(" ")
+		.filter((word) => word && !STOPWORDS.has(word));
+}
+
+/**
+ * True when every term of a phrase appears among the given terms.
+ * Phrases made only of stopwords never match.
+ */
+export function containsPhrase(terms: ReadonlySet<string>, phrase: string): boolean {
+	const phraseTerms = analyze(phrase);
+	return phraseTerms.length > 0 && phraseTerms.every((term) => terms.has(term));
+}
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+/**
+ * Okapi BM25 over a fixed set of documents.
+ */
+export class Bm25Index {
+	private readonly docs: Map<string, number>[];
+	private readonly lengths: number[];
+	private readonly averageLength: number;
+	private readonly documentFrequency = new Map<string, number>();
+
+	constructor(documents: string[]) {
+		this.docs = documents.map((document) => {
+			const counts = new Map<string, number>();
+			for (const term of analyze(document)) {
+				counts.set(term, (counts.get(term) ?? 0) + 1);
+			}
+			for (const term of counts.keys()) {
+				this.documentFrequency.set(term, (this.documentFrequency.get(term) ?? 0) + 1);
+			}
+			return counts;
+		});
+		this.lengths = this.docs.map((counts) => [...counts.values()].reduce((total, count) => total + count, 0));
+		this.averageLength = this.lengths.reduce((total, length) => total + length, 0) / Math.max(1, this.lengths.length);
+	}
+
+	get size(): number {
+		return this.docs.length;
+	}
+
+	/**
+	 * BM25 score of a query against one document. Repeated query terms count once.
+	 */
+	score(query: string, docIndex: number): number {
+		return this.scoreTerms(new Set(analyze(query)), docIndex);
+	}
+
+	/**
+	 * 1-based rank of a document among all documents for a query.
+	 */
+	rank(query: string, docIndex: number): number {
+		const terms = new Set(analyze(query));
+		const target = this.scoreTerms(terms, docIndex);
+		let rank = 1;
+		for (let i = 0; i < this.docs.length; i++) {
+			if (i !== docIndex && this.scoreTerms(terms, i) > target) {
+				rank++;
+			}
+		}
+		return rank;
+	}
+
+	private scoreTerms(terms: Set<string>, docIndex: number): number {
+		const counts = this.docs[docIndex];
+		const lengthNorm = 1 - BM25_B + BM25_B * (this.lengths[docIndex] / (this.averageLength || 1));
+		let score = 0;
+		for (const term of terms) {
+			const frequency = counts.get(term) ?? 0;
+			if (frequency === 0) {
+				continue;
+			}
+			const df = this.documentFrequency.get(term) ?? 0;
+			const idf = Math.log(1 + (this.docs.length - df + 0.5) / (df + 0.5));
+			score += idf * (frequency * (BM25_K1 + 1)) / (frequency + BM25_K1 * lengthNorm);
+		}
+		return score;
+	}
+}
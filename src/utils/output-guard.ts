@@ -0,0 +1,210 @@
+/**
+ * Output Guard - stops the mentor from revealing the answer.
+ *
+ * The system prompt asks the model never to state the solution, but small
+ * models give in easily. This guard watches the streamed reply and cuts it
+ * off as soon as it gets too close to the answer or names too many of its
+ * keywords, replacing the rest with a Socratic redirect. Until the root
+ * cause is identified the answer is the diagnosis; after that it is the fix
+ * (the reference fixes and the fix rubric), since the root cause is no
+ * longer a secret.
+ */
+
+import type { Solution } from "../types";
+import { normalize } from "./lexical";
+
+/**
+ * Distinct solution keywords allowed in a single reply.
+ */
+const MAX_KEYWORDS_PER_REPLY = 2;
+
+/**
+ * Share of an answer statement's content words that may appear in a reply.
+ */
+const MAX_ANSWER_COVERAGE = 0.7;
+
+/**
+ * Words ignored when comparing a reply to the answer.
+ */
+const STOPWORDS = new Set([
+	"a", "an", "and", "are", "as", "at", "be", "by", "due", "for", "from", "in", "into",
+	"is", "it", "its", "no", "not", "of", "on", "or", "that", "the", "their", "to", "was",
+	"were", "which", "while", "with", "without",
+]);
+
+/**
+ * Messages streamed in place of a reply that started giving the answer away.
+ */
+const ROOT_CAUSE_REDIRECT = "\n\n*The detective stops mid-sentence.* Hold on - I was about to do your job for you. Go back to the evidence: which clue would confirm or rule out your current theory?";
+const FIX_REDIRECT = "\n\n*The detective stops mid-sentence.* Hold on - I was about to write your fix for you. You know the cause: what change would stop it from happening at all?";
+
+/**
+ * Result of checking a reply for leakage.
+ */
+export interface LeakageCheck {
+	leaked: boolean;
+	reason?: "answer-similarity" | "keyword-density";
+	keywordHits: string[];
+	/** Highest share of one answer statement's content words the reply contains */
+	answerCoverage: number;
+}
+
+/**
+ * What a reply must not give away: statements of the answer and its keywords.
+ */
+interface GuardedAnswer {
+	statements: string[];
+	keywords: string[];
+	redirect: string;
+}
+
+/**
+ * The answer still secret at a point in the case: the diagnosis until the
+ * root cause is identified, then the fix.
+ */
+function guardedAnswer(solution: Solution, rootCauseIdentified: boolean): GuardedAnswer {
+	if (!rootCauseIdentified) {
+		return { statements: [solution.diagnosis], keywords: solution.keywords, redirect: ROOT_CAUSE_REDIRECT };
+	}
+	const fixItems = (solution.rubric?.solution ?? []).filter((item) => item.kind !== "misconception");
+	return {
+		statements: [
+			...solution.codeExamples.map((example) => example.description),
+			...fixItems.map((item) => item.concept),
+		],
+		keywords: fixItems.flatMap((item) => item.keywords ?? [item.concept]),
+		redirect: FIX_REDIRECT,
+	};
+}
+
+/**
+ * Reduce text to comparable content words.
+ */
+function contentWords(text: string): string[] {
+	return normalize(text)
+		.split(" ")
+		.filter((word) => word.length > 1 && !STOPWORDS.has(word))
+		.map((word) => word.replace(/s$/, ""));
+}
+
+/**
+ * Check whether a (partial) mentor reply reveals too much of the answer.
+ * @param rootCauseIdentified Whether the player's root cause was accepted,
+ *   so only the fix is still secret
+ */
+export function detectLeakage(reply: string, solution: Solution, rootCauseIdentified = false): LeakageCheck {
+	const answer = guardedAnswer(solution, rootCauseIdentified);
+	const normalizedReply = ` ${normalize(reply)} `;
+	const keywordHits = [...new Set(answer.keywords.filter((keyword) =>
+		normalizedReply.includes(` ${normalize(keyword)} `)
+	))];
+
+	const replyWords = new Set(contentWords(reply));
+	let answerCoverage = 0;
+	let similar = false;
+	for (const statement of answer.statements) {
+		const statementWords = [...new Set(contentWords(statement))];
+		const coverage = statementWords.length > 0
+			? statementWords.filter((word) => replyWords.has(word)).length / statementWords.length
+			: 0;
+		answerCoverage = Math.max(answerCoverage, coverage);
+		similar ||= statementWords.length >= 3 && coverage >= MAX_ANSWER_COVERAGE;
+	}
+
+	if (similar) {
+		return { leaked: true, reason: "answer-similarity", keywordHits, answerCoverage };
+	}
+	if (keywordHits.length > MAX_KEYWORDS_PER_REPLY) {
+		return { leaked: true, reason: "keyword-density", keywordHits, answerCoverage };
+	}
+	return { leaked: false, keywordHits, answerCoverage };
+}
+
+/**
+ * Extract the text delta from one SSE event, or null for non-text events.
+ * Handles both the Workers AI and OpenAI streaming formats.
+ */
+export function eventText(event: string): string | null {
+	const data = event
+		.split("\n")
+		.filter((line) => line.startsWith("data: "))
+		.map((line) => line.slice(6))
+		.join("");
+	if (!data || data === "[DONE]") {
+		return null;
+	}
+	try {
+		const parsed = JSON.parse(data) as {
+			response?: string;
+			choices?: { delta?: { content?: string } }[];
+		};
+		return parsed.response ?? parsed.choices?.[0]?.delta?.content ?? null;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Create a stream transform that forwards mentor SSE events until the reply
+ * leaks the answer, then emits a redirect, ends the stream and logs the event.
+ */
+export function createLeakageGuard(
+	solution: Solution,
+	caseId: string,
+	rootCauseIdentified = false
+): TransformStream<Uint8Array, Uint8Array> {
+	const { redirect } = guardedAnswer(solution, rootCauseIdentified);
+	const decoder = new TextDecoder();
+	const encoder = new TextEncoder();
+	let buffer = "";
+	let reply = "";
+
+	/**
+	 * Forward one event, or the redirect when it makes the reply leak.
+	 * Returns false once the reply has been cut off.
+	 */
+	const forward = (event: string, controller: TransformStreamDefaultController<Uint8Array>): boolean => {
+		const text = eventText(event);
+		if (text !== null) {
+			const check = detectLeakage(reply + text, solution, rootCauseIdentified);
+			if (check.leaked) {
+				console.warn("Mentor leakage blocked:", JSON.stringify({
+					caseId,
+					reason: check.reason,
+					keywordHits: check.keywordHits,
+					rootCauseIdentified,
+					answerCoverage: Number(check.answerCoverage.toFixed(2)),
+					replyLength: reply.length,
+				}));
+				controller.enqueue(encoder.encode(`data: ${JSON.stringify({ response: redirect })}\n\n`));
+				controller.enqueue(encoder.encode("data: [DONE]\n\n"));
+				return false;
+			}
+			reply += text;
+		}
+		controller.enqueue(encoder.encode(`${event}\n\n`));
+		return true;
+	};
+
+	return new TransformStream({
+		transform(chunk, controller) {
+			buffer += decoder.decode(chunk, { stream: true });
+			const events = buffer.split("\n\n");
+			buffer = events.pop() ?? "";
+
+			for (const event of events) {
+				if (!forward(event, controller)) {
+					controller.terminate();
+					return;
+				}
+			}
+		},
+		flush(controller) {
+			// The last event may arrive without its trailing blank line
+			buffer += decoder.decode();
+			if (buffer.trim()) {
+				forward(buffer, controller);
+			}
+		},
+	});
+}
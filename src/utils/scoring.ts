@@ -0,0 +1,124 @@
+/**
+ * Scoring - computes case scores from server-side investigation progress.
+ */
+
+import type { CaseDifficulty, CaseProgress, ProgressSummary } from "../types";
+
+const BASE_SCORE = 1000;
+const TIME_PENALTY_PER_5_SEC = 1;
+const TIME_PENALTY_CAP = 300;
+const CLUE_PENALTY = 50; // Per clue beyond initial 2
+const HINT_PENALTY = 25; // Per hint viewed
+const ROOT_CAUSE_ATTEMPT_PENALTY = 100; // Per failed root cause attempt
+const RUBRIC_PENALTY_PER_POINT = 2; // Per rubric point short of 100
+const RUBRIC_PENALTY_CAP = 200;
+const MIN_SCORE = 100;
+const PREVENTION_BONUS_MAX = 200; // For a correct prevention strategy with a full rubric score
+const EXPERT_ATTEMPT_PENALTY = 150; // Per failed single-shot attempt in expert mode
+const HINT_LADDER_COSTS = [25, 50, 100]; // Per rung, climbing; higher rungs cost the last
+
+/**
+ * Extra multiplier for cases solved in expert mode, on top of difficulty.
+ */
+export const EXPERT_MULTIPLIER = 1.5;
+
+/**
+ * Number of clues revealed for free when a case is opened.
+ */
+export const INITIAL_CLUES = 2;
+
+const DIFFICULTY_MULTIPLIERS: Record<CaseDifficulty, number> = {
+	junior: 1,
+	mid: 1.5,
+	senior: 2,
+	principal: 3,
+};
+
+/**
+ * Calculate the score for a case.
+ * Uses the completion time for closed cases, otherwise the current time
+ * (which gives a live estimate for cases still under investigation).
+ */
+export function calculateScore(
+	progress: CaseProgress,
+	difficulty: CaseDifficulty,
+	now: number = Date.now()
+): number {
+	let score = BASE_SCORE;
+
+	// Time penalty: -1 per 5 seconds, capped at -300
+	const endTime = progress.completedAt ?? now;
+	const elapsedSeconds = Math.max(0, Math.floor((endTime - progress.startedAt) / 1000));
+	score -= Math.min(Math.floor(elapsedSeconds / 5) * TIME_PENALTY_PER_5_SEC, TIME_PENALTY_CAP);
+
+	// Clue penalty: -50 per clue beyond initial 2
+	const extraClues = Math.max(0, progress.cluesRevealed - INITIAL_CLUES);
+	score -= extraClues * CLUE_PENALTY;
+
+	// Hint penalty: -25 per hint viewed
+	score -= progress.hintsViewed.length * HINT_PENALTY;
+
+	// Hint ladder penalty: what each rung taken cost
+	score -= progress.hintLadderPenalty ?? 0;
+
+	// Root cause attempt penalty: -100 per failed attempt
+	// (the successful attempt doesn't count once phase 1 is complete)
+	const failedAttempts = progress.rootCauseCorrect
+		? Math.max(0, progress.rootCauseAttempts - 1)
+		: progress.rootCauseAttempts;
+	score -= failedAttempts * ROOT_CAUSE_ATTEMPT_PENALTY;
+
+	// Expert attempt penalty: -150 per failed single-shot attempt
+	const expertAttempts = progress.expertAttempts ?? 0;
+	score -= (progress.solved ? Math.max(0, expertAttempts - 1) : expertAttempts) * EXPERT_ATTEMPT_PENALTY;
+
+	// Rubric penalty: -2 per point the accepted answers average below 100, capped at -200
+	const rubricScores = [progress.rootCauseRubricScore, progress.solutionRubricScore]
+		.filter((rubricScore): rubricScore is number => typeof rubricScore === "number");
+	if (rubricScores.length > 0) {
+		const average = rubricScores.reduce((total, rubricScore) => total + rubricScore, 0) / rubricScores.length;
+		score -= Math.min(Math.round((100 - average) * RUBRIC_PENALTY_PER_POINT), RUBRIC_PENALTY_CAP);
+	}
+
+	// Apply minimum score
+	score = Math.max(score, MIN_SCORE);
+
+	// Phase 3 bonus for a graded prevention strategy
+	score += progress.preventionBonus ?? 0;
+
+	// Apply difficulty multiplier, and the expert multiplier for single-shot play
+	const modeMultiplier = progress.mode === "expert" ? EXPERT_MULTIPLIER : 1;
+	return Math.round(score * DIFFICULTY_MULTIPLIERS[difficulty] * modeMultiplier);
+}
+
+/**
+ * Cost of a hint ladder rung: gentle nudges are cheap, strong pointers are not.
+ */
+export function hintLevelCost(level: number): number {
+	return HINT_LADDER_COSTS[Math.min(level, HINT_LADDER_COSTS.length) - 1];
+}
+
+/**
+ * Bonus for a graded prevention strategy: up to 200 points scaled by its
+ * rubric score, halved for a partial verdict and zero when incorrect.
+ */
+export function calculatePreventionBonus(verdict: { correct: boolean; partial: boolean; rubricScore: number | null }): number {
+	if (!verdict.correct && !verdict.partial) {
+		return 0;
+	}
+	const share = (verdict.rubricScore ?? 100) / 100;
+	return Math.round(PREVENTION_BONUS_MAX * share * (verdict.correct ? 1 : 0.5));
+}
+
+/**
+ * Summarize a session's progress across all cases.
+ * Given-up cases count as opened but never as solved, and contribute no score.
+ */
+export function summarizeProgress(progress: CaseProgress[]): ProgressSummary {
+	return {
+		casesOpened: progress.length,
+		solved: progress.filter((p) => p.solved).length,
+		gaveUp: progress.filter((p) => p.gaveUp).length,
+		totalScore: progress.reduce((total, p) => total + (p.score ?? 0), 0),
+	};
+}
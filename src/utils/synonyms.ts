@@ -0,0 +1,71 @@
+/**
+ * Synonyms - backend engineering phrases that mean the same thing.
+ *
+ * Each entry maps a canonical phrase to the variants rewritten to it before
+ * matching, so "conn pool" in a submission matches a "connection pool"
+ * keyword. Phrases are written in normalized form (lowercase, no
+ * punctuation), as produced by `normalize`; they are compared by stem, so
+ * inflected forms ("conn pools") need no entry of their own.
+ */
+export const SYNONYMS: Record<string, string[]> = {
+	// Negation, so "never releases" and "doesn't release" match "not released"
+	"not": ["never", "doesn t", "does not", "don t", "didn t", "did not", "isn t", "aren t", "wasn t", "weren t", "fails to", "failed to", "without"],
+
+	// Databases
+	"database": ["db", "dbs"],
+	"connection pool": ["conn pool", "connection pooling", "pool of connections", "connpool"],
+	"connection": ["conn", "conns"],
+	"transaction": ["txn", "txns"],
+	"primary key": ["pk"],
+	"index": ["indices"],
+	"replica": ["read replica"],
+	"replication lag": ["replica lag", "replication delay", "replica delay"],
+	"n plus one": ["n 1", "n 1 queries", "n 1 query"],
+	"deadlock": ["dead lock", "deadlocks"],
+	"lock contention": ["lock wait", "lock waits", "contended lock"],
+	"full table scan": ["seq scan", "sequential scan", "table scan"],
+
+	// Memory and runtime
+	"out of memory": ["oom", "oomkilled", "oom killed", "oom killer", "ran out of memory", "runs out of memory", "memory exhaustion", "memory exhausted"],
+	"garbage collection": ["gc", "garbage collector"],
+	"memory leak": ["leaking memory", "leaks memory", "leaked memory"],
+	"file descriptor": ["fd", "fds", "file handle", "file handles"],
+	"thread pool": ["threadpool", "worker pool"],
+	"event loop": ["eventloop"],
+
+	// Caching
+	"cache stampede": ["thundering herd", "dogpile", "dog pile", "cache stampedes"],
+	"time to live": ["ttl"],
+	"cache invalidation": ["cache busting", "invalidate the cache", "invalidating the cache"],
+	"hot key": ["hotkey", "hot keys", "hot partition", "hot shard"],
+
+	// Networking and resilience
+	"load balancer": ["lb", "loadbalancer", "load balancers"],
+	"timeout": ["time out", "timed out", "timeouts", "times out"],
+	"retry storm": ["retry amplification", "retries amplify", "retry flood"],
+	"circuit breaker": ["circuit breakers", "breaker"],
+	"rate limit": ["rate limiting", "ratelimit", "ratelimiting", "throttle", "throttling"],
+	"backpressure": ["back pressure", "flow control"],
+	"exponential backoff": ["backoff", "back off", "backing off"],
+	"jitter": ["randomized delay", "random delay"],
+	"idempotent": ["idempotency", "idempotence", "idempotency key"],
+	"tls": ["ssl", "https"],
+	"certificate": ["cert"],
+	"expire": ["expiry", "expiration"],
+	"dns": ["name resolution", "domain name system"],
+	"clock skew": ["clock drift", "time drift", "clocks out of sync"],
+
+	// Messaging
+	"message queue": ["mq", "message broker", "queue broker"],
+	"consumer lag": ["consumer backlog", "queue backlog"],
+	"fan out": ["fanout"],
+	"dead letter queue": ["dlq", "dead letter"],
+
+	// Infrastructure
+	"kubernetes": ["k8s", "kube"],
+	"autoscaling": ["hpa", "auto scaling", "autoscaler", "horizontal pod autoscaler"],
+	"health check": ["healthcheck", "health checks", "health probe", "liveness probe", "readiness probe"],
+	"configuration": ["config", "configs", "cfg"],
+	"environment variable": ["env var", "env vars", "envvar"],
+	"deployment": ["deploy", "rollout"],
+};
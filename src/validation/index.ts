@@ -0,0 +1,6 @@
+/**
+ * Validation - schema validation for API request bodies.
+ */
+
+export * from "./validators";
+export * from "./schemas";
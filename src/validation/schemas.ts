@@ -0,0 +1,100 @@
+/**
+ * Request Schemas - body shapes accepted by each API route.
+ */
+
+import { PERSONA_IDS } from "../utils/personas";
+import { array, boolean, integer, object, oneOf, optional, string, tagged, type Infer } from "./validators";
+
+/**
+ * Longest diagnosis, proposed solution or prevention strategy accepted for grading.
+ */
+export const MAX_SUBMISSION_LENGTH = 2000;
+
+/**
+ * Longest chat message a player can send.
+ */
+export const MAX_CHAT_MESSAGE_LENGTH = 4000;
+
+/**
+ * Longest mentor reply accepted back in the history: twice what the default
+ * mentor maxTokens (1024) lets it write at about 4 characters a token, so a
+ * full-length reply never fails the next request. The context window clips
+ * replies to the configured mentor's own limit.
+ */
+export const MAX_MENTOR_REPLY_LENGTH = 8000;
+
+/**
+ * Most chat messages accepted in one request (matches the client's history cap).
+ */
+export const MAX_CHAT_HISTORY = 50;
+
+/**
+ * POST /api/cases/:id/check
+ */
+export const checkRequestSchema = object({
+	mode: optional(oneOf(["guided", "expert"] as const)),
+	phase: optional(oneOf([1, 2, 3] as const)),
+	diagnosis: optional(string({ maxLength: MAX_SUBMISSION_LENGTH })),
+	proposedSolution: optional(string({ maxLength: MAX_SUBMISSION_LENGTH })),
+	prevention: optional(string({ maxLength: MAX_SUBMISSION_LENGTH })),
+});
+
+export type CheckRequestBody = Infer<typeof checkRequestSchema>;
+
+/**
+ * Longest reason accepted with an appeal.
+ */
+export const MAX_APPEAL_REASON_LENGTH = 1000;
+
+/**
+ * POST /api/cases/:id/appeal
+ */
+export const appealRequestSchema = object({
+	phase: oneOf([1, 2, 3] as const),
+	reason: optional(string({ maxLength: MAX_APPEAL_REASON_LENGTH })),
+});
+
+export type AppealRequestBody = Infer<typeof appealRequestSchema>;
+
+/**
+ * POST /api/cases/:id/persona
+ */
+export const personaRequestSchema = object({
+	persona: oneOf(PERSONA_IDS),
+});
+
+export type PersonaRequestBody = Infer<typeof personaRequestSchema>;
+
+/**
+ * POST /api/chat
+ * Only user and assistant turns are accepted; the server owns the system prompt.
+ * A persona given here applies to this request only; a case's chosen persona
+ * is stored with POST /api/cases/:id/persona.
+ */
+export const chatRequestSchema = object({
+	messages: array(
+		tagged("role", {
+			user: object({
+				role: oneOf(["user"] as const),
+				content: string({ minLength: 1, maxLength: MAX_CHAT_MESSAGE_LENGTH }),
+				pinned: optional(boolean()),
+			}),
+			// Mentor replies are echoed back as the client stored them, empty or long
+			assistant: object({
+				role: oneOf(["assistant"] as const),
+				content: string({ maxLength: MAX_MENTOR_REPLY_LENGTH }),
+				pinned: optional(boolean()),
+			}),
+		}),
+		{ maxItems: MAX_CHAT_HISTORY }
+	),
+	caseContext: optional(
+		object({
+			caseId: string({ minLength: 1, maxLength: 100 }),
+			cluesRevealed: optional(integer({ min: 0, max: 100 })),
+		})
+	),
+	persona: optional(oneOf(PERSONA_IDS)),
+});
+
+export type ChatRequestBody = Infer<typeof chatRequestSchema>;
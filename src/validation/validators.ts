@@ -0,0 +1,210 @@
+/**
+ * Validators - building blocks for request body schemas.
+ *
+ * Each validator either returns the typed value or records field errors,
+ * so one pass reports every problem in the body.
+ */
+
+/**
+ * A single problem with a request field.
+ */
+export interface FieldError {
+	field: string;
+	message: string;
+}
+
+/**
+ * Validates a value at a field path, pushing any problems onto `errors`.
+ */
+export type Validator<T> = (value: unknown, field: string, errors: FieldError[]) => T | undefined;
+
+/**
+ * Type produced by a validator.
+ */
+export type Infer<V> = V extends Validator<infer T> ? T : never;
+
+/**
+ * Result of validating a request body.
+ */
+export type ValidationResult<T> =
+	| { ok: true; value: T }
+	| { ok: false; error: string; details: FieldError[] };
+
+/**
+ * String validator with optional length bounds.
+ */
+export function string(options: { minLength?: number; maxLength?: number } = {}): Validator<string> {
+	return (value, field, errors) => {
+		if (typeof value !== "string") {
+			errors.push({ field, message: "must be a string" });
+			return undefined;
+		}
+		if (options.minLength !== undefined && value.trim().length < options.minLength) {
+			errors.push({ field, message: `must be at least ${options.minLength} characters` });
+		}
+		if (options.maxLength !== undefined && value.length > options.maxLength) {
+			errors.push({ field, message: `must be at most ${options.maxLength} characters` });
+		}
+		return value;
+	};
+}
+
+/**
+ * Integer validator with optional bounds.
+ */
+export function integer(options: { min?: number; max?: number } = {}): Validator<number> {
+	return (value, field, errors) => {
+		if (typeof value !== "number" || !Number.isInteger(value)) {
+			errors.push({ field, message: "must be an integer" });
+			return undefined;
+		}
+		if (options.min !== undefined && value < options.min) {
+			errors.push({ field, message: `must be at least ${options.min}` });
+		}
+		if (options.max !== undefined && value > options.max) {
+			errors.push({ field, message: `must be at most ${options.max}` });
+		}
+		return value;
+	};
+}
+
+/**
+ * Validator for a finite number, optionally bounded.
+ */
+export function number(options: { min?: number; max?: number } = {}): Validator<number> {
+	return (value, field, errors) => {
+		if (typeof value !== "number" || !Number.isFinite(value)) {
+			errors.push({ field, message: "must be a number" });
+			return undefined;
+		}
+		if (options.min !== undefined && value < options.min) {
+			errors.push({ field, message: `must be at least ${options.min}` });
+		}
+		if (options.max !== undefined && value > options.max) {
+			errors.push({ field, message: `must be at most ${options.max}` });
+		}
+		return value;
+	};
+}
+
+/**
+ * Boolean validator.
+ */
+export function boolean(): Validator<boolean> {
+	return (value, field, errors) => {
+		if (typeof value !== "boolean") {
+			errors.push({ field, message: "must be a boolean" });
+			return undefined;
+		}
+		return value;
+	};
+}
+
+/**
+ * Validator accepting one of a fixed set of literal values.
+ */
+export function oneOf<const T extends readonly (string | number)[]>(values: T): Validator<T[number]> {
+	return (value, field, errors) => {
+		if (!values.includes(value as T[number])) {
+			errors.push({ field, message: `must be one of: ${values.join(", ")}` });
+			return undefined;
+		}
+		return value as T[number];
+	};
+}
+
+/**
+ * Array validator with an optional length cap.
+ */
+export function array<T>(item: Validator<T>, options: { maxItems?: number } = {}): Validator<T[]> {
+	return (value, field, errors) => {
+		if (!Array.isArray(value)) {
+			errors.push({ field, message: "must be an array" });
+			return undefined;
+		}
+		if (options.maxItems !== undefined && value.length > options.maxItems) {
+			errors.push({ field, message: `must contain at most ${options.maxItems} items` });
+			return undefined;
+		}
+		return value.map((entry, index) => item(entry, `${field}[${index}]`, errors) as T);
+	};
+}
+
+/**
+ * Mark a validator as optional: undefined passes through unchanged.
+ */
+export function optional<T>(validator: Validator<T>): Validator<T | undefined> {
+	return (value, field, errors) => (value === undefined ? undefined : validator(value, field, errors));
+}
+
+/**
+ * Object validator. Unknown keys are dropped from the result.
+ */
+export function object<S extends Record<string, Validator<unknown>>>(
+	shape: S
+): Validator<{ [K in keyof S]: Infer<S[K]> }> {
+	return (value, field, errors) => {
+		if (typeof value !== "object" || value === null || Array.isArray(value)) {
+			errors.push({ field: field || "body", message: "must be an object" });
+			return undefined;
+		}
+		const input = value as Record<string, unknown>;
+		const result: Record<string, unknown> = {};
+		for (const [key, validator] of Object.entries(shape)) {
+			const path = field ? `${field}.${key}` : key;
+			const parsed = validator(input[key], path, errors);
+			if (parsed !== undefined) {
+				result[key] = parsed;
+			}
+		}
+		return result as { [K in keyof S]: Infer<S[K]> };
+	};
+}
+
+/**
+ * Validator for objects whose shape depends on a tag field (e.g. a chat
+ * turn's role): the tag picks which object validator applies.
+ */
+export function tagged<K extends string, S extends Record<string, Validator<Record<K, unknown>>>>(
+	key: K,
+	shapes: S
+): Validator<Infer<S[keyof S]>> {
+	return (value, field, errors) => {
+		if (typeof value !== "object" || value === null || Array.isArray(value)) {
+			errors.push({ field: field || "body", message: "must be an object" });
+			return undefined;
+		}
+		const tag = (value as Record<string, unknown>)[key];
+		if (typeof tag !== "string" || !Object.prototype.hasOwnProperty.call(shapes, tag)) {
+			errors.push({ field: field ? `${field}.${key}` : key, message: `must be one of: ${Object.keys(shapes).join(", ")}` });
+			return undefined;
+		}
+		return shapes[tag](value, field, errors) as Infer<S[keyof S]>;
+	};
+}
+
+/**
+ * Validate a value against a schema.
+ */
+export function validate<T>(schema: Validator<T>, value: unknown): ValidationResult<T> {
+	const errors: FieldError[] = [];
+	const parsed = schema(value, "", errors);
+	if (errors.length > 0 || parsed === undefined) {
+		return { ok: false, error: "Invalid request body", details: errors };
+	}
+	return { ok: true, value: parsed };
+}
+
+/**
+ * Parse a JSON request body and validate it against a schema.
+ * Malformed JSON is reported as a validation failure rather than thrown.
+ */
+export async function parseJsonBody<T>(request: Request, schema: Validator<T>): Promise<ValidationResult<T>> {
+	let body: unknown;
+	try {
+		body = await request.json();
+	} catch {
+		return { ok: false, error: "Malformed JSON body", details: [{ field: "body", message: "must be valid JSON" }] };
+	}
+	return validate(schema, body);
+}
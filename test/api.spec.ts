@@ -0,0 +1,360 @@
+import { describe, expect, it } from "vitest";
+import { getCase } from "../src/cases";
+import { getTaskModel, type ScriptedProvider } from "../src/llm";
+import type { Appeal, CaseProgress, Solution } from "../src/types";
+import { getPersona } from "../src/utils/personas";
+import { calculateScore, EXPERT_MULTIPLIER, INITIAL_CLUES } from "../src/utils/scoring";
+import { call, testEnv } from "./worker";
+
+const CASE_ID = "black-friday-disaster";
+const caseData = getCase(CASE_ID)!;
+
+// Answers the lexical rubric check accepts for this case
+const ROOT_CAUSE = "Fan-out amplification filled the message queue memory and the broker's flow control blocked the API services that publish to it.";
+const FIX = "Send bulk notifications in rate-limited batches and put API publishing on a separate connection or broker so flow control on bulk traffic cannot block critical paths.";
+
+async function check(sessionId: string, body: Record<string, unknown>) {
+	const response = await call("POST", `/api/cases/${CASE_ID}/check`, { sessionId, body });
+	return { status: response.status, body: await response.json<{ correct: boolean; progress: CaseProgress; solution?: Solution }>() };
+}
+
+async function solve(sessionId: string): Promise<CaseProgress> {
+	await check(sessionId, { phase: 1, diagnosis: ROOT_CAUSE });
+	return (await check(sessionId, { phase: 2, proposedSolution: FIX })).body.progress;
+}
+
+describe("GET /api/cases/:id/solution", () => {
+	const solutionPath = `/api/cases/${CASE_ID}/solution`;
+
+	it("refuses while the case is open", async () => {
+		const sessionId = crypto.randomUUID();
+		await check(sessionId, { phase: 1, diagnosis: ROOT_CAUSE });
+		const response = await call("GET", solutionPath, { sessionId });
+		expect(response.status).toBe(403);
+		expect(await response.text()).not.toContain(caseData.solution.diagnosis);
+	});
+
+	it("releases the solution after giving up", async () => {
+		const sessionId = crypto.randomUUID();
+		await call("POST", `/api/cases/${CASE_ID}/give-up`, { sessionId });
+		const response = await call("GET", solutionPath, { sessionId });
+		expect(response.status).toBe(200);
+		expect((await response.json<{ solution: Solution }>()).solution.diagnosis).toBe(caseData.solution.diagnosis);
+	});
+
+	it("releases the solution after solving, holding back prevention until phase 3 is done", async () => {
+		const sessionId = crypto.randomUUID();
+		expect((await solve(sessionId)).solved).toBe(true);
+		const solved = await (await call("GET", solutionPath, { sessionId })).json<{ solution: Solution }>();
+		expect(solved.solution.diagnosis).toBe(caseData.solution.diagnosis);
+		expect(solved.solution.prevention).toEqual([]);
+
+		await call("POST", `/api/cases/${CASE_ID}/prevention/skip`, { sessionId });
+		const skipped = await (await call("GET", solutionPath, { sessionId })).json<{ solution: Solution }>();
+		expect(skipped.solution.prevention).toEqual(caseData.solution.prevention);
+	});
+
+	it("needs a session", async () => {
+		expect((await call("GET", solutionPath)).status).toBe(400);
+	});
+});
+
+describe("clue reveal", () => {
+	type CaseResponse = { case: { clues: { id: number }[] }; progress: CaseProgress };
+
+	it("serves only the clues the session has revealed, whatever the query string says", async () => {
+		const sessionId = crypto.randomUUID();
+		const response = await call("GET", `/api/cases/${CASE_ID}?clues=${caseData.clues.length}`, { sessionId });
+		const body = await response.json<CaseResponse>();
+		expect(body.case.clues.map((clue) => clue.id)).toEqual(caseData.clues.slice(0, INITIAL_CLUES).map((clue) => clue.id));
+		expect(body.progress.cluesRevealed).toBe(INITIAL_CLUES);
+	});
+
+	it("reveals clues one at a time until there are none left", async () => {
+		const sessionId = crypto.randomUUID();
+		for (let revealed = INITIAL_CLUES + 1; revealed <= caseData.clues.length; revealed++) {
+			const response = await call("POST", `/api/cases/${CASE_ID}/clues/next`, { sessionId });
+			const body = await response.json<{ clue: { id: number }; progress: CaseProgress }>();
+			expect(body.clue.id).toBe(caseData.clues[revealed - 1].id);
+			expect(body.progress.cluesRevealed).toBe(revealed);
+		}
+		expect((await call("POST", `/api/cases/${CASE_ID}/clues/next`, { sessionId })).status).toBe(409);
+
+		const view = await (await call("GET", `/api/cases/${CASE_ID}`, { sessionId })).json<CaseResponse>();
+		expect(view.case.clues).toHaveLength(caseData.clues.length);
+	});
+
+	it("reveals nothing more once the case is closed", async () => {
+		const sessionId = crypto.randomUUID();
+		await call("POST", `/api/cases/${CASE_ID}/give-up`, { sessionId });
+		expect((await call("POST", `/api/cases/${CASE_ID}/clues/next`, { sessionId })).status).toBe(409);
+	});
+
+	it("returns 404 for an unknown case", async () => {
+		const sessionId = crypto.randomUUID();
+		expect((await call("POST", "/api/cases/no-such-case/clues/next", { sessionId })).status).toBe(404);
+	});
+});
+
+describe("clue hints", () => {
+	const opening = caseData.clues.slice(0, INITIAL_CLUES);
+	const withHint = opening.find((clue) => clue.hint)!;
+	const withoutHint = opening.find((clue) => !clue.hint)!;
+	const locked = caseData.clues.slice(INITIAL_CLUES).find((clue) => clue.hint)!;
+
+	const hintPath = (clueId: number) => `/api/cases/${CASE_ID}/clues/${clueId}/hint`;
+
+	it("leaves hint text out of the case view", async () => {
+		const sessionId = crypto.randomUUID();
+		const response = await call("GET", `/api/cases/${CASE_ID}`, { sessionId });
+		const text = await response.text();
+		for (const clue of caseData.clues.filter((clue) => clue.hint)) {
+			expect(text).not.toContain(clue.hint);
+		}
+		const { case: view } = JSON.parse(text) as { case: { clues: { id: number; hasHint: boolean }[] } };
+		expect(view.clues.find((clue) => clue.id === withHint.id)?.hasHint).toBe(true);
+	});
+
+	it("serves a revealed clue's hint and records the view once", async () => {
+		const sessionId = crypto.randomUUID();
+		await call("GET", hintPath(withHint.id), { sessionId });
+		const response = await call("GET", hintPath(withHint.id), { sessionId });
+		const body = await response.json<{ hint: string; progress: CaseProgress }>();
+		expect(body.hint).toBe(withHint.hint);
+		expect(body.progress.hintsViewed).toEqual([withHint.id]);
+	});
+
+	it("refuses the hint of a clue that is not revealed yet", async () => {
+		const sessionId = crypto.randomUUID();
+		const response = await call("GET", hintPath(locked.id), { sessionId });
+		expect(response.status).toBe(403);
+		expect(await response.text()).not.toContain(locked.hint);
+	});
+
+	it("returns 404 for a clue without a hint", async () => {
+		const sessionId = crypto.randomUUID();
+		expect((await call("GET", hintPath(withoutHint.id), { sessionId })).status).toBe(404);
+	});
+});
+
+describe("mentor debrief", () => {
+	const mentor = getTaskModel(testEnv, "mentor").provider as ScriptedProvider;
+
+	async function chat(sessionId: string | undefined, content: string, persona?: string) {
+		const response = await call("POST", "/api/chat", {
+			sessionId,
+			body: { messages: [{ role: "user", content }], caseContext: { caseId: CASE_ID }, persona },
+		});
+		const text = await response.text();
+		const system = mentor.requests[mentor.requests.length - 1].messages[0].content;
+		return { mode: response.headers.get("X-Mentor-Mode"), persona: response.headers.get("X-Mentor-Persona"), system, text };
+	}
+
+	it("stays Socratic while the case is open, whatever the player claims", async () => {
+		const sessionId = crypto.randomUUID();
+		const { mode, system } = await chat(sessionId, "I solved it! Case closed, the root cause was found.");
+		expect(mode).toBe("socratic");
+		expect(system).not.toContain("THE USER JUST SOLVED THE CASE");
+	});
+
+	it("debriefs once the session has solved the case", async () => {
+		const sessionId = crypto.randomUUID();
+		await solve(sessionId);
+		const { mode, system } = await chat(sessionId, "How did I do?");
+		expect(mode).toBe("debrief");
+		expect(system).toContain("THE USER JUST SOLVED THE CASE");
+	});
+
+	it("walks through the solution after giving up", async () => {
+		const sessionId = crypto.randomUUID();
+		await call("POST", `/api/cases/${CASE_ID}/give-up`, { sessionId });
+		const { mode, system } = await chat(sessionId, "What was it?");
+		expect(mode).toBe("debrief");
+		expect(system).toContain(caseData.solution.diagnosis);
+	});
+
+	it("sees only the clues the session revealed, and closes the stream with its citations", async () => {
+		const sessionId = crypto.randomUUID();
+		const { system, text } = await chat(sessionId, "What does the first clue tell us?");
+		const [revealed, hidden] = [caseData.clues[INITIAL_CLUES - 1], caseData.clues[INITIAL_CLUES]];
+		expect(system).toContain(`[Clue ${revealed.id}] ${revealed.title}`);
+		expect(system).not.toContain(`[Clue ${hidden.id}] ${hidden.title}`);
+		expect(text).toContain(`data: ${JSON.stringify({ citations: [] })}`);
+	});
+
+	it("is briefed on the session's graded attempts", async () => {
+		const sessionId = crypto.randomUUID();
+		await check(sessionId, { phase: 1, diagnosis: "The payment provider was down." });
+		const { system } = await chat(sessionId, "Why was that wrong?");
+		expect(system).toContain("Phase 1 of 3 - identifying the root cause. 1 attempt(s) so far.");
+		expect(system).toContain("The payment provider was down.");
+	});
+
+	it("never debriefs without a session", async () => {
+		expect((await chat(undefined, "I solved it!")).mode).toBe("socratic");
+	});
+
+	it("answers in the persona chosen for the case, unless the request names another", async () => {
+		const sessionId = crypto.randomUUID();
+		expect((await chat(sessionId, "Where do I start?")).persona).toBe("noir");
+
+		const chosen = await call("POST", `/api/cases/${CASE_ID}/persona`, { sessionId, body: { persona: "sre" } });
+		expect((await chosen.json<{ progress: CaseProgress }>()).progress.mentorPersona).toBe("sre");
+		const sre = await chat(sessionId, "Where do I start?");
+		expect(sre.persona).toBe("sre");
+		expect(sre.system).toContain(getPersona("sre").prompt);
+
+		expect((await chat(sessionId, "Where do I start?", "tutor")).persona).toBe("tutor");
+	});
+
+	it("refuses an unknown persona", async () => {
+		const sessionId = crypto.randomUUID();
+		expect((await call("POST", `/api/cases/${CASE_ID}/persona`, { sessionId, body: { persona: "pirate" } })).status).toBe(400);
+		expect((await call("POST", "/api/cases/no-such-case/persona", { sessionId, body: { persona: "sre" } })).status).toBe(404);
+	});
+});
+
+describe("red-herring feedback", () => {
+	const SCALE_OUT = "Add more API servers behind the load balancer to handle the Black Friday traffic.";
+
+	it("is held back until the clue it cites is revealed", async () => {
+		const sessionId = crypto.randomUUID();
+		await check(sessionId, { phase: 1, diagnosis: ROOT_CAUSE });
+		const early = await check(sessionId, { phase: 2, proposedSolution: SCALE_OUT });
+		expect(early.body.correct).toBe(false);
+		expect(early.body).not.toHaveProperty("redHerring");
+
+		for (let revealed = INITIAL_CLUES; revealed < caseData.clues.length; revealed++) {
+			await call("POST", `/api/cases/${CASE_ID}/clues/next`, { sessionId });
+		}
+		const late = await check(sessionId, { phase: 2, proposedSolution: SCALE_OUT });
+		expect(late.body).toHaveProperty("redHerring");
+	});
+});
+
+describe("prevention phase", () => {
+	const PREVENTION = "Keep bulk messaging on separate infrastructure from critical operations, rate limit bulk publishing, and alert on queue depth and broker memory usage.";
+
+	it("is only open once the case is solved", async () => {
+		const sessionId = crypto.randomUUID();
+		expect((await check(sessionId, { phase: 3, prevention: PREVENTION })).status).toBe(409);
+		expect((await call("POST", `/api/cases/${CASE_ID}/prevention/skip`, { sessionId })).status).toBe(409);
+	});
+
+	it("adds a bonus to the final score once, and releases the prevention strategies", async () => {
+		const sessionId = crypto.randomUUID();
+		const solved = await solve(sessionId);
+		expect(solved.preventionStatus).toBe("pending");
+
+		const graded = await check(sessionId, { phase: 3, prevention: PREVENTION });
+		expect(graded.body.correct).toBe(true);
+		expect(graded.body.progress.preventionStatus).toBe("graded");
+		expect(graded.body.progress.preventionBonus).toBeGreaterThan(0);
+		expect(graded.body.progress.score).toBeGreaterThan(solved.score!);
+		expect(graded.body.progress.completedAt).toBe(solved.completedAt);
+		expect(graded.body.solution?.prevention).toEqual(caseData.solution.prevention);
+
+		expect((await check(sessionId, { phase: 3, prevention: PREVENTION })).status).toBe(409);
+	});
+
+	it("keeps the score unchanged when skipped", async () => {
+		const sessionId = crypto.randomUUID();
+		const solved = await solve(sessionId);
+		const response = await call("POST", `/api/cases/${CASE_ID}/prevention/skip`, { sessionId });
+		const { progress } = await response.json<{ progress: CaseProgress }>();
+		expect(progress).toMatchObject({ preventionStatus: "skipped", score: solved.score });
+		expect((await check(sessionId, { phase: 3, prevention: PREVENTION })).status).toBe(409);
+	});
+});
+
+describe("appeals", () => {
+	const appealPath = `/api/cases/${CASE_ID}/appeal`;
+	const WRONG = "The database ran out of disk space during the sale.";
+
+	type AppealResponse = { appeal: { id: string; firstVerdict: string; secondVerdict: string; shown: string } };
+
+	it("files a rejected verdict with a second opinion, once", async () => {
+		const sessionId = crypto.randomUUID();
+		expect((await check(sessionId, { phase: 1, diagnosis: WRONG })).body.correct).toBe(false);
+
+		const response = await call("POST", appealPath, { sessionId, body: { phase: 1, reason: "I think I had it." } });
+		expect(response.status).toBe(200);
+		const { appeal } = await response.json<AppealResponse>();
+		// The grader's "correct" contradicted the rubric, so grading already took the second opinion shown
+		expect(appeal).toMatchObject({ firstVerdict: "correct", secondVerdict: "partial", shown: "second" });
+
+		expect((await call("POST", appealPath, { sessionId, body: { phase: 1 } })).status).toBe(409);
+	});
+
+	it("leaves the verdict and progress unchanged", async () => {
+		const sessionId = crypto.randomUUID();
+		const graded = await check(sessionId, { phase: 1, diagnosis: WRONG });
+		await call("POST", appealPath, { sessionId, body: { phase: 1 } });
+		const after = await (await call("GET", `/api/cases/${CASE_ID}`, { sessionId })).json<{ progress: CaseProgress }>();
+		expect(after.progress).toMatchObject({ rootCauseAttempts: graded.body.progress.rootCauseAttempts, rootCauseCorrect: false });
+	});
+
+	it("refuses a correct verdict and a phase with no verdict", async () => {
+		const sessionId = crypto.randomUUID();
+		expect((await call("POST", appealPath, { sessionId, body: { phase: 1 } })).status).toBe(404);
+		await check(sessionId, { phase: 1, diagnosis: ROOT_CAUSE });
+		expect((await call("POST", appealPath, { sessionId, body: { phase: 1 } })).status).toBe(409);
+	});
+
+	it("lists appeals only for the review token", async () => {
+		const sessionId = crypto.randomUUID();
+		await check(sessionId, { phase: 1, diagnosis: WRONG });
+		const filed = await (await call("POST", appealPath, { sessionId, body: { phase: 1 } })).json<AppealResponse>();
+
+		expect((await call("GET", "/api/appeals")).status).toBe(404);
+		const env = { ...testEnv, APPEAL_REVIEW_TOKEN: "review-token" };
+		expect((await call("GET", "/api/appeals", { env, headers: { Authorization: "Bearer wrong-token" } })).status).toBe(403);
+
+		const listed = await call("GET", "/api/appeals", { env, headers: { Authorization: "Bearer review-token" } });
+		const { appeals } = await listed.json<{ appeals: Appeal[] }>();
+		expect(appeals.find((appeal) => appeal.id === filed.appeal.id)).toMatchObject({ sessionId, phase: 1, submission: WRONG });
+	});
+});
+
+describe("expert mode", () => {
+	const expert = (sessionId: string, diagnosis: string, proposedSolution: string) =>
+		check(sessionId, { mode: "expert", diagnosis, proposedSolution });
+
+	it("closes the case on one correct submission, scored with the expert multiplier", async () => {
+		const sessionId = crypto.randomUUID();
+		const { body } = await expert(sessionId, ROOT_CAUSE, FIX);
+		expect(body.correct).toBe(true);
+		expect(body.progress).toMatchObject({ solved: true, mode: "expert", expertAttempts: 1 });
+		expect(body.progress.rootCauseRubricScore).toBeGreaterThan(0);
+		expect(body.progress.solutionRubricScore).toBeGreaterThan(0);
+
+		const guided = calculateScore({ ...body.progress, mode: "guided" }, caseData.difficulty);
+		expect(body.progress.score).toBe(Math.round(guided * EXPERT_MULTIPLIER));
+	});
+
+	it("charges for a failed attempt and keeps the case in expert mode", async () => {
+		const sessionId = crypto.randomUUID();
+		const failed = await expert(sessionId, ROOT_CAUSE, "Add more API servers behind the load balancer.");
+		expect(failed.body.correct).toBe(false);
+		expect(failed.body.progress).toMatchObject({ solved: false, mode: "expert", expertAttempts: 1 });
+		expect((await check(sessionId, { phase: 1, diagnosis: ROOT_CAUSE })).status).toBe(409);
+
+		const { progress } = (await expert(sessionId, ROOT_CAUSE, FIX)).body;
+		expect(progress).toMatchObject({ solved: true, expertAttempts: 2 });
+		expect(progress.score).toBeLessThan(calculateScore({ ...progress, expertAttempts: 1 }, caseData.difficulty));
+	});
+
+	it("is refused once a guided attempt has been made", async () => {
+		const sessionId = crypto.randomUUID();
+		await check(sessionId, { phase: 1, diagnosis: ROOT_CAUSE });
+		expect((await expert(sessionId, ROOT_CAUSE, FIX)).status).toBe(409);
+	});
+
+	it("needs both the root cause and the fix, and records nothing without them", async () => {
+		const sessionId = crypto.randomUUID();
+		expect((await check(sessionId, { mode: "expert", diagnosis: ROOT_CAUSE })).status).toBe(400);
+		const { progress } = await (await call("GET", `/api/cases/${CASE_ID}`, { sessionId })).json<{ progress: CaseProgress }>();
+		expect(progress).toMatchObject({ expertAttempts: 0, rootCauseAttempts: 0 });
+		expect(progress.mode).toBeUndefined();
+	});
+});
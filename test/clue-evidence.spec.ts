@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import { getCase } from "../src/cases";
+import type { Clue } from "../src/types";
+import {
+	buildEvidenceDigest,
+	createCitationTracker,
+	extractCitations,
+	summarizeClueContent,
+} from "../src/utils/clue-evidence";
+import { estimateTokens } from "../src/utils/context-window";
+import { buildCaseContextPrompt } from "../src/utils/prompt-builder";
+import { INITIAL_CLUES } from "../src/utils/scoring";
+
+const caseData = getCase("black-friday-disaster")!;
+
+const LOG = [
+	"## api-gateway logs",
+	...Array.from({ length: 40 }, (_, i) => `request handled normally for user account number ${i}`),
+	"ERROR publish timed out after 30000ms waiting for broker",
+	...Array.from({ length: 40 }, () => "request handled normally for another user"),
+].join("\n");
+
+describe("summarizeClueContent", () => {
+	it("keeps short content whole, without code fences or blank lines", () => {
+		expect(summarizeClueContent("```\nline one\n\n   spaced    out\n```", 100)).toBe("line one\n   spaced out");
+	});
+
+	it("keeps the first line and the error lines of content over budget", () => {
+		const summary = summarizeClueContent(LOG, 40);
+		expect(summary.startsWith("## api-gateway logs")).toBe(true);
+		expect(summary).toContain("ERROR publish timed out");
+		expect(summary).toContain("…");
+		expect(summary).toMatch(/\(\d+ of 82 lines shown\)$/);
+		expect(estimateTokens(summary)).toBeLessThan(estimateTokens(LOG));
+	});
+});
+
+describe("buildEvidenceDigest", () => {
+	it("labels each clue with its id for citing", () => {
+		const revealed = caseData.clues.slice(0, INITIAL_CLUES);
+		const digest = buildEvidenceDigest(revealed);
+		for (const clue of revealed) {
+			expect(digest).toContain(`[Clue ${clue.id}] ${clue.title} (${clue.type})`);
+		}
+	});
+
+	it("shortens clue content to a tighter budget but keeps every clue", () => {
+		const full = buildEvidenceDigest(caseData.clues, 100_000);
+		const tight = buildEvidenceDigest(caseData.clues, 300);
+		expect(estimateTokens(tight)).toBeLessThan(estimateTokens(full));
+		for (const clue of caseData.clues) {
+			expect(tight).toContain(`[Clue ${clue.id}]`);
+		}
+	});
+});
+
+describe("mentor prompt evidence", () => {
+	it("carries the content of revealed clues only", () => {
+		const prompt = buildCaseContextPrompt(caseData.id, INITIAL_CLUES);
+		const [revealed, hidden] = [caseData.clues[0], caseData.clues[INITIAL_CLUES]];
+		expect(prompt).toContain(summarizeClueContent(revealed.content, 10).split("\n")[0]);
+		expect(prompt).not.toContain(`[Clue ${hidden.id}] ${hidden.title}`);
+	});
+});
+
+describe("extractCitations", () => {
+	it("lists cited clue ids once, in first-cited order", () => {
+		expect(extractCitations("See [Clue 3], then [clue 1]. Back to [Clue 3].")).toEqual([3, 1]);
+	});
+});
+
+/**
+ * Stream SSE events through a citation tracker and return what reaches the client.
+ */
+async function tracked(body: string, revealed: Clue[]): Promise<string> {
+	const encoder = new TextEncoder();
+	const source = new ReadableStream<Uint8Array>({
+		start(controller) {
+			controller.enqueue(encoder.encode(body));
+			controller.close();
+		},
+	});
+	return new Response(source.pipeThrough(createCitationTracker(revealed))).text();
+}
+
+function event(text: string): string {
+	return `data: ${JSON.stringify({ response: text })}`;
+}
+
+describe("createCitationTracker", () => {
+	const revealed = caseData.clues.slice(0, INITIAL_CLUES);
+	const [first, second] = revealed;
+	const hidden = caseData.clues[INITIAL_CLUES];
+
+	it("sends the revealed clues the reply cited just before it ends", async () => {
+		const output = await tracked(
+			`${event(`Compare [Clue ${second.id}] `)}\n\n${event(`with [Clue ${first.id}] and [Clue ${hidden.id}].`)}\n\ndata: [DONE]\n\n`,
+			revealed
+		);
+		const citations = JSON.stringify({
+			citations: [{ clueId: second.id, title: second.title }, { clueId: first.id, title: first.title }],
+		});
+		expect(output.endsWith(`data: ${citations}\n\ndata: [DONE]\n\n`)).toBe(true);
+	});
+
+	it("still sends citations when the stream ends without [DONE]", async () => {
+		const output = await tracked(event(`Look at [Clue ${first.id}].`), revealed);
+		expect(output.endsWith(`data: ${JSON.stringify({ citations: [{ clueId: first.id, title: first.title }] })}\n\n`)).toBe(true);
+	});
+});
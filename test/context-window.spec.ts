@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest";
+import { ScriptedProvider, type TaskModel } from "../src/llm";
+import type { ChatSummary, ChatTurn } from "../src/types";
+import { type ChatSummaryStore, fitChatContext, MIN_RECENT_TURNS } from "../src/utils/context-window";
+
+function taskModel(provider: ScriptedProvider, maxTokens: number, contextTokens?: number): TaskModel {
+	return { provider, model: "scripted", maxTokens, contextTokens };
+}
+
+function chat(count: number, replyLength: number): ChatTurn[] {
+	return Array.from({ length: count }, (_, i): ChatTurn => i % 2 === 0
+		? { role: "user", content: `Question ${i}` }
+		: { role: "assistant", content: `Reply ${i} ${"x".repeat(replyLength)}` });
+}
+
+describe("fitChatContext", () => {
+	it("clips mentor turns to what the mentor could have written", async () => {
+		const summarizer = new ScriptedProvider(["summary"]);
+		const messages = await fitChatContext({
+			systemPrompt: "You are the mentor.",
+			history: chat(4, 10000),
+			mentor: taskModel(new ScriptedProvider([]), 256),
+			summarizer: taskModel(summarizer, 256),
+			store: null,
+		});
+		const replies = messages.filter((message) => message.role === "assistant");
+		expect(replies).toHaveLength(2);
+		for (const reply of replies) {
+			expect(reply.content.length).toBe(256 * 4);
+		}
+	});
+
+	it("bounds the transcript sent to the summary model", async () => {
+		const summarizer = new ScriptedProvider(["summary"]);
+		const messages = await fitChatContext({
+			systemPrompt: "You are the mentor.",
+			history: chat(50, 8000),
+			mentor: taskModel(new ScriptedProvider([]), 2048, 12000),
+			summarizer: taskModel(summarizer, 256),
+			store: null,
+		});
+		expect(messages[0].content).toContain("summary");
+		expect(summarizer.requests).toHaveLength(1);
+		const prompt = summarizer.requests[0].messages.map((message) => message.content).join("\n");
+		expect(prompt.length).toBeLessThan(20000);
+	});
+});
+
+/**
+ * Summary store kept in a variable, as the session keeps it.
+ */
+function memoryStore(): ChatSummaryStore & { saved: ChatSummary | null } {
+	const store = {
+		saved: null as ChatSummary | null,
+		get: async () => store.saved,
+		put: async (summary: ChatSummary) => { store.saved = summary; },
+	};
+	return store;
+}
+
+describe("running summary", () => {
+	const mentor = taskModel(new ScriptedProvider([]), 256, 2000);
+
+	function fit(history: ChatTurn[], summarizer: ScriptedProvider, store: ChatSummaryStore | null) {
+		return fitChatContext({ systemPrompt: "You are the mentor.", history, mentor, summarizer: taskModel(summarizer, 256), store });
+	}
+
+	it("sends a history that fits as it is, without summarizing", async () => {
+		const summarizer = new ScriptedProvider([]);
+		const history = chat(6, 100);
+		const messages = await fit(history, summarizer, memoryStore());
+		expect(messages.slice(1).map((message) => message.content)).toEqual(history.map((turn) => turn.content));
+		expect(summarizer.requests).toHaveLength(0);
+	});
+
+	it("folds older turns into a stored summary and keeps the latest verbatim", async () => {
+		const store = memoryStore();
+		const history = chat(40, 400);
+		const messages = await fit(history, new ScriptedProvider(["They suspect the queue."]), store);
+		expect(messages[0].content).toContain("CONVERSATION SO FAR (summary of earlier messages):\nThey suspect the queue.");
+		const recent = messages.slice(1);
+		expect(recent.length).toBeGreaterThanOrEqual(MIN_RECENT_TURNS);
+		expect(recent.length).toBeLessThan(history.length);
+		expect(recent.map((message) => message.content)).toEqual(history.slice(-recent.length).map((turn) => turn.content));
+		expect(store.saved?.text).toBe("They suspect the queue.");
+	});
+
+	it("reuses the stored summary on later turns, even after the client drops its oldest turns", async () => {
+		const store = memoryStore();
+		const summarizer = new ScriptedProvider(["They suspect the queue."]);
+		const history = chat(40, 400);
+		await fit(history, summarizer, store);
+
+		const longer = [...history, ...chat(42, 400).slice(40)];
+		const next = await fit(longer, summarizer, store);
+		const trimmed = await fit(longer.slice(10), summarizer, store);
+		expect(summarizer.requests).toHaveLength(1);
+		for (const messages of [next, trimmed]) {
+			expect(messages[0].content).toContain("They suspect the queue.");
+			expect(messages[messages.length - 1].content).toBe(longer[longer.length - 1].content);
+		}
+	});
+
+	it("keeps pinned turns in the system prompt after they are summarized", async () => {
+		const history = chat(40, 400);
+		history[2] = { role: "user", content: "The broker memory alarm fires at 9:01.", pinned: true };
+		const messages = await fit(history, new ScriptedProvider(["summary"]), null);
+		expect(messages[0].content).toContain("PINNED BY THE PLAYER");
+		expect(messages[0].content).toContain("The broker memory alarm fires at 9:01.");
+		expect(messages.slice(1).some((message) => message.content.includes("broker memory alarm"))).toBe(false);
+	});
+
+	it("summarizes without the model when it fails, and carries on when the store fails", async () => {
+		const broken: ChatSummaryStore = {
+			get: async () => { throw new Error("read failed"); },
+			put: async () => { throw new Error("write failed"); },
+		};
+		const messages = await fit(chat(40, 400), new ScriptedProvider([]), broken);
+		expect(messages[0].content).toMatch(/CONVERSATION SO FAR[^]*(Player|Mentor): /);
+	});
+});
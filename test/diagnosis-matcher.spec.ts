@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { getCase } from "../src/cases";
+import { goldenSets } from "../src/cases/golden";
+import { verdictOf } from "../src/eval";
+import { matchDiagnosis, matchPrevention, matchSolution } from "../src/utils/diagnosis-matcher";
+
+const solution = getCase("black-friday-disaster")!.solution;
+
+describe("matchDiagnosis", () => {
+	it("accepts the root cause without closing the case", () => {
+		const result = matchDiagnosis(solution.diagnosis, solution);
+		expect(result.correct).toBe(true);
+		expect(result.feedback).toContain("Now propose a solution");
+		expect(result.feedback).not.toContain("Case Closed");
+		expect(result.solution).toBeUndefined();
+	});
+});
+
+describe("lexical fallback on the golden sets", () => {
+	const examples = goldenSets.flatMap((set) =>
+		set.examples.map((example) => ({ ...example, solution: getCase(set.caseId)!.solution }))
+	);
+
+	it("never grades a golden-incorrect example correct", () => {
+		const accepted = examples
+			.filter((example) => example.label === "incorrect")
+			.filter(({ phase, submission, solution }) =>
+				verdictOf(phase === 1 ? matchDiagnosis(submission, solution) : matchSolution(submission, solution)) === "correct"
+			)
+			.map((example) => example.submission);
+		expect(accepted).toEqual([]);
+	});
+
+	it("never accepts a fix or prevention plan", () => {
+		for (const { submission, solution } of examples.filter((example) => example.phase === 2)) {
+			expect(matchSolution(submission, solution).correct, submission).toBe(false);
+			expect(matchPrevention(submission, solution).correct, submission).toBe(false);
+		}
+	});
+
+	it("still accepts golden-correct root causes", () => {
+		const rootCauses = examples.filter((example) => example.phase === 1 && example.label === "correct");
+		const accepted = rootCauses.filter(({ submission, solution }) => matchDiagnosis(submission, solution).correct);
+		expect(accepted.length / rootCauses.length).toBeGreaterThan(0.8);
+	});
+});
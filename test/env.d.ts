@@ -0,0 +1,6 @@
+import type { Env } from "../src/types";
+
+declare module "cloudflare:test" {
+	// The bindings tests get, as the Worker declares them
+	interface ProvidedEnv extends Env {}
+}
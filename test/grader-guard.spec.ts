@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { detectInjection, guardVerdict } from "../src/utils/grader-guard";
+import { attacks, benign } from "../src/utils/injection-corpus";
+
+describe("detectInjection", () => {
+	it.each(attacks)("flags attack %#", (attack) => {
+		expect(detectInjection(attack)).not.toEqual([]);
+	});
+
+	it.each(benign)("does not flag benign submission %#", (submission) => {
+		expect(detectInjection(submission)).toEqual([]);
+	});
+});
+
+describe("guardVerdict", () => {
+	const correct = (explanation: string) => ({ verdict: "correct" as const, explanation, matchedConcepts: [] });
+
+	it("keeps a correct verdict that notes a missing detail", () => {
+		for (const explanation of [
+			"Correct, though they didn't mention jitter.",
+			"The diagnosis is right. The user did not explain why the pool size was 10, but that is a detail.",
+			"Correct identification of the retry storm; they never named the exact service.",
+		]) {
+			expect(guardVerdict(correct(explanation), []).evaluation.verdict).toBe("correct");
+		}
+	});
+
+	it("downgrades a correct verdict whose explanation contradicts it", () => {
+		for (const explanation of [
+			"The user did not identify the root cause.",
+			"The answer is incorrect; it blames DNS.",
+			"Connection leaks are not the actual root cause here.",
+			"They misidentified the failing service.",
+		]) {
+			const { evaluation, reasons } = guardVerdict(correct(explanation), []);
+			expect(evaluation.verdict).toBe("partial");
+			expect(reasons).toContain("explanation-contradicts-verdict");
+		}
+	});
+
+	it("downgrades a correct verdict for a submission that looked like an injection", () => {
+		const { evaluation, reasons } = guardVerdict(correct("Looks right."), ["verdict-json"]);
+		expect(evaluation.verdict).toBe("partial");
+		expect(reasons).toEqual(["injection-detected"]);
+	});
+});
@@ -0,0 +1,161 @@
+import { describe, expect, it } from "vitest";
+import { getCase } from "../src/cases";
+import { evaluateDiagnosisWithLLM, evaluateRootCauseWithLLM, evaluateSolutionWithLLM } from "../src/grading";
+import { ScriptedProvider, type TaskModel } from "../src/llm";
+
+const CASE_ID = "database-disappearing-act";
+const solution = getCase(CASE_ID)!.solution;
+
+// Every rubric item of the case rated "missed", as a model rates them
+const ROOT_CAUSE_MISSED = { R1: "missed", R2: "missed", S1: "missed", S2: "missed", M1: "missed", M2: "missed" };
+const FIX_MISSED = { R1: "missed", S1: "missed", S2: "missed", M1: "missed" };
+
+function scriptedModel(...replies: string[]): { taskModel: TaskModel; provider: ScriptedProvider } {
+	const provider = new ScriptedProvider(replies);
+	return { provider, taskModel: { provider, model: "scripted", maxTokens: 512 } };
+}
+
+function verdict(value: string, criteria: Record<string, string>, explanation = "The user found it."): string {
+	return JSON.stringify({
+		verdict: value,
+		explanation,
+		matchedConcepts: [],
+		criteria: Object.entries(criteria).map(([id, rating]) => ({ id, rating })),
+		confidence: 0.95,
+	});
+}
+
+describe("rubric checks on LLM verdicts", () => {
+	it("keeps a correct verdict that meets every required item", async () => {
+		const { taskModel } = scriptedModel(verdict("correct", { ...ROOT_CAUSE_MISSED, R1: "met", R2: "met" }));
+		const result = await evaluateRootCauseWithLLM(taskModel, "updateSession leaks connections until the pool is exhausted", solution, CASE_ID);
+		expect(result.correct).toBe(true);
+		expect(result.evaluatedBy).toBe("llm");
+	});
+
+	it("downgrades a correct root cause that misses a required item", async () => {
+		const { taskModel } = scriptedModel(verdict("correct", { ...ROOT_CAUSE_MISSED, R1: "met" }));
+		const result = await evaluateRootCauseWithLLM(taskModel, "updateSession never releases its connection", solution, CASE_ID);
+		expect(result.correct).toBe(false);
+		expect(result.partial).toBe(true);
+		expect(result.criteria?.find((score) => score.id === "R2")?.rating).toBe("missed");
+	});
+
+	it("downgrades a correct fix that repeats a misconception", async () => {
+		const { taskModel } = scriptedModel(verdict("correct", { ...FIX_MISSED, R1: "met", M1: "met" }));
+		const result = await evaluateSolutionWithLLM(
+			taskModel, "Release the connection in finally, and raise the pool max to 300.", solution, CASE_ID
+		);
+		expect(result.correct).toBe(false);
+		expect(result.partial).toBe(true);
+		expect(result.solution).toBeUndefined();
+	});
+});
+
+describe("grader output parsing", () => {
+	const reply = verdict("correct", { ...ROOT_CAUSE_MISSED, R1: "met", R2: "met" });
+	const diagnosis = "updateSession leaks connections until the pool is exhausted";
+
+	it("parses a verdict wrapped in a code fence and prose", async () => {
+		const { taskModel, provider } = scriptedModel(`Here is my evaluation:\n\`\`\`json\n${reply}\n\`\`\``);
+		const result = await evaluateRootCauseWithLLM(taskModel, diagnosis, solution, CASE_ID);
+		expect(result).toMatchObject({ correct: true, evaluatedBy: "llm", confidence: 0.95 });
+		expect(provider.requests).toHaveLength(1);
+		expect(provider.requests[0].messages[1].content).toContain("<user_submission>");
+	});
+
+	it("repairs a verdict with single quotes and a trailing comma", async () => {
+		const { taskModel } = scriptedModel(`{'verdict': 'partial', 'explanation': 'Only the symptom.', 'criteria': [], 'confidence': 0.7,}`);
+		const result = await evaluateRootCauseWithLLM(taskModel, "the pool is exhausted", solution, CASE_ID);
+		expect(result).toMatchObject({ correct: false, partial: true, evaluatedBy: "llm-repaired" });
+	});
+
+	it("retries once when the first reply has no JSON", async () => {
+		const { taskModel, provider } = scriptedModel("The answer looks correct to me.", reply);
+		const result = await evaluateRootCauseWithLLM(taskModel, diagnosis, solution, CASE_ID);
+		expect(result).toMatchObject({ correct: true, evaluatedBy: "llm-retry" });
+		expect(provider.requests).toHaveLength(2);
+		const retry = provider.requests[1].messages;
+		expect(retry[retry.length - 1].content).toContain("could not be used");
+	});
+
+	it("falls back to lexical matching when both replies are bad JSON", async () => {
+		const { taskModel, provider } = scriptedModel("Correct!", `{"verdict": "maybe", "explanation": 42}`);
+		const result = await evaluateSolutionWithLLM(
+			taskModel, "Release the connection in a finally block after every query.", solution, CASE_ID
+		);
+		expect(result.evaluatedBy).toBe("keyword-fallback");
+		expect(result.criteria?.find((score) => score.id === "R1")?.rating).toBe("met");
+		expect(provider.requests).toHaveLength(2);
+	});
+});
+
+describe("expert grading", () => {
+	const diagnosis = "updateSession leaks connections until the pool is exhausted";
+	const fix = "Release the connection in a finally block after every query.";
+
+	function expertVerdict(
+		value: string,
+		diagnosisScore: string,
+		solutionScore: string,
+		ratings: { rootCause: Record<string, string>; fix: Record<string, string> },
+		confidence = 0.95
+	): string {
+		return JSON.stringify({
+			verdict: value,
+			explanation: "Both halves reviewed.",
+			matchedConcepts: [],
+			diagnosisScore,
+			solutionScore,
+			diagnosisCriteria: Object.entries(ratings.rootCause).map(([id, rating]) => ({ id, rating })),
+			solutionCriteria: Object.entries(ratings.fix).map(([id, rating]) => ({ id, rating })),
+			confidence,
+		});
+	}
+
+	const allMet = {
+		rootCause: { ...ROOT_CAUSE_MISSED, R1: "met", R2: "met" },
+		fix: { ...FIX_MISSED, R1: "met" },
+	};
+
+	it("accepts a submission with both halves correct and records both rubric scores", async () => {
+		const { taskModel } = scriptedModel(expertVerdict("correct", "correct", "correct", allMet));
+		const result = await evaluateDiagnosisWithLLM(taskModel, diagnosis, fix, solution, CASE_ID);
+		expect(result.correct).toBe(true);
+		expect(result.solution).toBe(solution);
+		expect(result.rubricScores?.rootCause).toBeGreaterThan(0);
+		expect(result.rubricScores?.solution).toBeGreaterThan(0);
+	});
+
+	it("downgrades a correct verdict when one half is only partial", async () => {
+		const { taskModel } = scriptedModel(expertVerdict("correct", "correct", "partial", allMet));
+		const result = await evaluateDiagnosisWithLLM(taskModel, diagnosis, fix, solution, CASE_ID);
+		expect(result.correct).toBe(false);
+		expect(result.partial).toBe(true);
+		expect(result.solution).toBeUndefined();
+	});
+
+	it("downgrades a correct verdict when a half misses a required item", async () => {
+		const { taskModel } = scriptedModel(
+			expertVerdict("correct", "correct", "correct", { ...allMet, fix: FIX_MISSED })
+		);
+		const result = await evaluateDiagnosisWithLLM(taskModel, diagnosis, fix, solution, CASE_ID);
+		expect(result.correct).toBe(false);
+		expect(result.partial).toBe(true);
+	});
+
+	it("takes a second opinion on a low-confidence verdict", async () => {
+		const { taskModel } = scriptedModel(expertVerdict("correct", "correct", "correct", allMet, 0.3));
+		const larger = scriptedModel(expertVerdict("partial", "correct", "partial", allMet));
+		const result = await evaluateDiagnosisWithLLM(taskModel, diagnosis, fix, solution, CASE_ID, {
+			strategy: "larger-model",
+			automatic: true,
+			minConfidence: 0.6,
+			samples: 2,
+			taskModel: larger.taskModel,
+		});
+		expect(result.correct).toBe(false);
+		expect(result.secondOpinion).toMatchObject({ strategy: "larger-model", initial: { verdict: "correct" } });
+		expect(larger.provider.requests).toHaveLength(1);
+	});
+});
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { caseOrder, getCase } from "../src/cases";
+import type { CaseProgress, DetectiveCase } from "../src/types";
+import { hintLadder, takenHints } from "../src/utils/hint-ladder";
+import { INITIAL_CLUES } from "../src/utils/scoring";
+
+// Cases whose ladder is built from their clues
+const builtCases = caseOrder
+	.map((id) => getCase(id)!)
+	.filter((caseData) => !caseData.hintLadder);
+
+function progressWith(caseData: DetectiveCase, cluesRevealed: number): CaseProgress {
+	return {
+		caseId: caseData.id,
+		startedAt: 0,
+		cluesRevealed,
+		hintsViewed: [],
+		rootCauseAttempts: 0,
+		solutionAttempts: 0,
+		rootCauseCorrect: false,
+		submittedRootCause: "",
+		solved: false,
+		gaveUp: false,
+		completedAt: null,
+		score: null,
+	};
+}
+
+describe("built hint ladders", () => {
+	it("has cases to check", () => {
+		expect(builtCases.length).toBeGreaterThan(0);
+	});
+
+	it("only points at clues the player has revealed", () => {
+		for (const caseData of builtCases) {
+			for (let revealed = INITIAL_CLUES; revealed <= caseData.clues.length; revealed++) {
+				const text = hintLadder(caseData, progressWith(caseData, revealed), 1)
+					.map((rung) => rung.text)
+					.join("\n");
+				for (const clue of caseData.clues.slice(revealed)) {
+					expect(text, `${caseData.id} with ${revealed} clues`).not.toContain(`"${clue.title}"`);
+					if (clue.hint) {
+						expect(text, `${caseData.id} with ${revealed} clues`).not.toContain(clue.hint);
+					}
+				}
+			}
+		}
+	});
+
+	it("keeps the same number of rungs as more clues are revealed", () => {
+		for (const caseData of builtCases) {
+			const lengths = new Set(
+				caseData.clues
+					.slice(INITIAL_CLUES - 1)
+					.map((_, i) => hintLadder(caseData, progressWith(caseData, INITIAL_CLUES + i), 1).length)
+			);
+			expect(lengths.size, caseData.id).toBe(1);
+		}
+	});
+});
+
+describe("taken hints", () => {
+	// A built ladder whose first rung changes once every clue is revealed
+	const reworded = builtCases.find((caseData) =>
+		hintLadder(caseData, progressWith(caseData, INITIAL_CLUES), 1)[0].text
+			!== hintLadder(caseData, progressWith(caseData, caseData.clues.length), 1)[0].text
+	);
+
+	it("keeps the text a rung had when it was taken", () => {
+		expect(reworded).toBeDefined();
+		const caseData = reworded!;
+		const [rung] = hintLadder(caseData, progressWith(caseData, INITIAL_CLUES), 1);
+		const progress = {
+			...progressWith(caseData, caseData.clues.length),
+			rootCauseHintLevel: 1,
+			takenHints: [{ phase: 1 as const, level: 1, text: rung.text, cost: 25 }],
+		};
+		expect(takenHints(caseData, progress)).toEqual([{ phase: 1, level: 1, text: rung.text, cost: 25 }]);
+	});
+
+	it("renders rungs missing from older records from the current ladder", () => {
+		const caseData = builtCases[0];
+		const progress = { ...progressWith(caseData, INITIAL_CLUES), rootCauseHintLevel: 2 };
+		const ladder = hintLadder(caseData, progress, 1);
+		expect(takenHints(caseData, progress).map((hint) => hint.text)).toEqual([ladder[0].text, ladder[1].text]);
+	});
+});
@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { analyze, containsPhrase } from "../src/utils/lexical";
+import { SYNONYMS } from "../src/utils/synonyms";
+
+const matches = (submission: string, keyword: string) => containsPhrase(new Set(analyze(submission)), keyword);
+
+describe("analyze", () => {
+	it("matches inflected forms of synonym variants", () => {
+		expect(matches("We deployed a bad config on Friday", "deploy")).toBe(true);
+		expect(matches("The intermediate certificate expired", "certificate expiry")).toBe(true);
+		expect(matches("Connections are never released", "not released")).toBe(true);
+		expect(matches("The conn pools filled up", "connection pool")).toBe(true);
+	});
+
+	it("keeps expiry apart from TTLs", () => {
+		expect(matches("The certificate expired at midnight", "ttl")).toBe(false);
+		expect(matches("The TTL was set to 24 hours", "expiry")).toBe(false);
+	});
+
+	it("leaves canonical phrases that contain a variant alone", () => {
+		expect(analyze("circuit breaker")).toEqual(["circuit", "breaker"]);
+		expect(analyze("The breaker keeps opening")).toEqual(analyze("The circuit breaker keeps opening"));
+	});
+
+	it("maps every variant to the same terms as its canonical phrase, once", () => {
+		for (const [canonical, variants] of Object.entries(SYNONYMS)) {
+			const terms = analyze(canonical);
+			expect(new Set(terms).size, canonical).toBe(terms.length);
+			for (const variant of variants) {
+				expect(analyze(variant), `${variant} -> ${canonical}`).toEqual(terms);
+			}
+		}
+	});
+});
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { getCase } from "../src/cases";
+import { createLeakageGuard, detectLeakage } from "../src/utils/output-guard";
+
+const solution = getCase("black-friday-disaster")!.solution;
+
+const RESTATED_ROOT_CAUSE = "Right - the pub/sub fan-out amplification exhausted the message queue memory, and flow control then blocked all publishers, including the API services.";
+const RESTATED_FIX = "You need to separate critical API publishing from the bulk notification traffic, then send the notifications in rate-limited batches.";
+
+describe("detectLeakage", () => {
+	it("guards the root cause until it is identified", () => {
+		expect(detectLeakage(RESTATED_ROOT_CAUSE, solution)).toMatchObject({ leaked: true, reason: "answer-similarity" });
+	});
+
+	it("lets the mentor discuss an identified root cause", () => {
+		expect(detectLeakage(RESTATED_ROOT_CAUSE, solution, true).leaked).toBe(false);
+	});
+
+	it("guards the fix once the root cause is identified", () => {
+		expect(detectLeakage(RESTATED_FIX, solution, true)).toMatchObject({ leaked: true, reason: "answer-similarity" });
+	});
+
+	it("lets through questions about the fix", () => {
+		expect(detectLeakage("You know why publishers block. What would keep the API out of that queue's trouble?", solution, true).leaked).toBe(false);
+	});
+});
+
+/**
+ * Stream SSE events through the guard and return what reaches the client.
+ */
+async function guarded(body: string, rootCauseIdentified = false): Promise<string> {
+	const encoder = new TextEncoder();
+	const source = new ReadableStream<Uint8Array>({
+		start(controller) {
+			controller.enqueue(encoder.encode(body));
+			controller.close();
+		},
+	});
+	return new Response(source.pipeThrough(createLeakageGuard(solution, "black-friday-disaster", rootCauseIdentified))).text();
+}
+
+function event(text: string): string {
+	return `data: ${JSON.stringify({ response: text })}`;
+}
+
+describe("createLeakageGuard", () => {
+	it("forwards replies that give nothing away", async () => {
+		const body = `${event("Which clue shows the queue filling up?")}\n\ndata: [DONE]\n\n`;
+		expect(await guarded(body)).toBe(body);
+	});
+
+	it("cuts off a leak in the last event even without a trailing blank line", async () => {
+		const output = await guarded(`${event("Look closer.")}\n\n${event(RESTATED_ROOT_CAUSE)}`);
+		expect(output).toContain("Look closer.");
+		expect(output).not.toContain("fan-out amplification");
+		expect(output).toContain("stops mid-sentence");
+	});
+});
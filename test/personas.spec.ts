@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_PERSONA_ID, getPersona, listPersonas, PERSONA_IDS, personaPrompt } from "../src/utils/personas";
+
+describe("personas", () => {
+	it("falls back to the default persona for a missing or unknown id", () => {
+		expect(getPersona().id).toBe(DEFAULT_PERSONA_ID);
+		expect(getPersona("toString" as never).id).toBe(DEFAULT_PERSONA_ID);
+		expect(getPersona("sre").id).toBe("sre");
+	});
+
+	it("lists every persona without its prompt", () => {
+		const listed = listPersonas();
+		expect(listed.map((persona) => persona.id)).toEqual(PERSONA_IDS);
+		for (const persona of listed) {
+			expect(persona).not.toHaveProperty("prompt");
+		}
+	});
+
+	it("gives each strictness level its own rules, and every persona the secrecy rule", () => {
+		const prompts = PERSONA_IDS.map((id) => personaPrompt(getPersona(id)));
+		expect(new Set(prompts.map((prompt) => prompt.split("How to help:")[1])).size).toBe(PERSONA_IDS.length);
+		for (const prompt of prompts) {
+			expect(prompt).toContain("You must NEVER directly state the root cause or solution.");
+		}
+	});
+
+	it("keeps only the fix secret once the root cause is identified", () => {
+		const prompt = personaPrompt(getPersona("rubber-duck"), true);
+		expect(prompt).toContain("Reply ONLY with questions.");
+		expect(prompt).toContain("You must NEVER directly state the fix.");
+		expect(prompt).not.toContain("NEVER directly state the root cause");
+	});
+});
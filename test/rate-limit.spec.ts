@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import { checkRateLimit, InMemoryRateLimitStore, type RateLimitConfig } from "../src/rate-limit";
+
+const LIMITS: RateLimitConfig = {
+	chat: {
+		ip: { capacity: 5, refillPerMinute: 60 },
+		session: { capacity: 2, refillPerMinute: 6 },
+	},
+	grading: {
+		ip: { capacity: 1, refillPerMinute: 1 },
+		session: { capacity: 1, refillPerMinute: 2 },
+	},
+};
+
+const SESSION_A = "8f0d7c52-8d7b-4b7e-9d2a-1c3e5f7a9b0d";
+const SESSION_B = "2b4d6f80-1a3c-4e5f-8a7b-9c0d1e2f3a4b";
+
+/**
+ * Memory store with a clock the test moves by hand.
+ */
+function storeWithClock() {
+	let now = 1_000_000;
+	const store = new InMemoryRateLimitStore(() => now);
+	return { store, advance: (ms: number) => { now += ms; } };
+}
+
+describe("InMemoryRateLimitStore", () => {
+	const bucket = { capacity: 3, refillPerMinute: 6 };
+
+	it("starts full and allows up to its capacity", async () => {
+		const { store } = storeWithClock();
+		for (let i = 0; i < 3; i++) {
+			expect((await store.take("k", bucket)).allowed).toBe(true);
+		}
+		const denied = await store.take("k", bucket);
+		expect(denied).toEqual({ allowed: false, retryAfterSeconds: 10 });
+	});
+
+	it("refills over time at the configured rate", async () => {
+		const { store, advance } = storeWithClock();
+		for (let i = 0; i < 3; i++) {
+			await store.take("k", bucket);
+		}
+		advance(5_000);
+		expect(await store.take("k", bucket)).toEqual({ allowed: false, retryAfterSeconds: 5 });
+		advance(5_000);
+		expect((await store.take("k", bucket)).allowed).toBe(true);
+		expect((await store.take("k", bucket)).allowed).toBe(false);
+	});
+
+	it("never refills beyond its capacity", async () => {
+		const { store, advance } = storeWithClock();
+		await store.take("k", bucket);
+		advance(60 * 60_000);
+		for (let i = 0; i < 3; i++) {
+			expect((await store.take("k", bucket)).allowed).toBe(true);
+		}
+		expect((await store.take("k", bucket)).allowed).toBe(false);
+	});
+
+	it("keeps separate buckets per key", async () => {
+		const { store } = storeWithClock();
+		for (let i = 0; i < 3; i++) {
+			await store.take("a", bucket);
+		}
+		expect((await store.take("a", bucket)).allowed).toBe(false);
+		expect((await store.take("b", bucket)).allowed).toBe(true);
+	});
+});
+
+describe("checkRateLimit", () => {
+	it("denies once the session bucket is empty, while other sessions on the IP go on", async () => {
+		const { store } = storeWithClock();
+		expect((await checkRateLimit(store, LIMITS, "chat", "203.0.113.7", SESSION_A)).allowed).toBe(true);
+		expect((await checkRateLimit(store, LIMITS, "chat", "203.0.113.7", SESSION_A)).allowed).toBe(true);
+
+		const denied = await checkRateLimit(store, LIMITS, "chat", "203.0.113.7", SESSION_A);
+		expect(denied).toEqual({ allowed: false, retryAfterSeconds: 10 });
+		expect((await checkRateLimit(store, LIMITS, "chat", "203.0.113.7", SESSION_B)).allowed).toBe(true);
+	});
+
+	it("denies every session once the IP bucket is empty", async () => {
+		const { store } = storeWithClock();
+		const sessions = [SESSION_A, SESSION_B, null, null, null];
+		for (const session of sessions) {
+			expect((await checkRateLimit(store, LIMITS, "chat", "203.0.113.7", session)).allowed).toBe(true);
+		}
+		const denied = await checkRateLimit(store, LIMITS, "chat", "203.0.113.7", crypto.randomUUID());
+		expect(denied.allowed).toBe(false);
+		expect((await checkRateLimit(store, LIMITS, "chat", "198.51.100.4", SESSION_A)).allowed).toBe(true);
+	});
+
+	it("only uses the IP bucket without a session", async () => {
+		const { store } = storeWithClock();
+		for (let i = 0; i < 5; i++) {
+			expect((await checkRateLimit(store, LIMITS, "chat", "203.0.113.7", null)).allowed).toBe(true);
+		}
+		expect((await checkRateLimit(store, LIMITS, "chat", "203.0.113.7", null)).allowed).toBe(false);
+	});
+
+	it("keeps chat and grading buckets apart", async () => {
+		const { store } = storeWithClock();
+		expect((await checkRateLimit(store, LIMITS, "grading", "203.0.113.7", SESSION_A)).allowed).toBe(true);
+		expect((await checkRateLimit(store, LIMITS, "grading", "203.0.113.7", SESSION_A)).allowed).toBe(false);
+		expect((await checkRateLimit(store, LIMITS, "chat", "203.0.113.7", SESSION_A)).allowed).toBe(true);
+	});
+
+	it("reports the longest wait of the buckets that denied", async () => {
+		const { store, advance } = storeWithClock();
+		await checkRateLimit(store, LIMITS, "grading", "203.0.113.7", SESSION_A);
+		advance(30_000);
+		const denied = await checkRateLimit(store, LIMITS, "grading", "203.0.113.7", SESSION_A);
+		expect(denied).toEqual({ allowed: false, retryAfterSeconds: 30 });
+	});
+});
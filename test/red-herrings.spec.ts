@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { caseOrder, getCase } from "../src/cases";
+import { findRedHerring, revealedRedHerrings, withRedHerringFeedback } from "../src/grading";
+import type { DiagnosisResult } from "../src/types";
+import { INITIAL_CLUES } from "../src/utils/scoring";
+
+const retryStorm = getCase("retry-storm-amplification")!;
+
+const rejected: DiagnosisResult = { correct: false, partial: false, feedback: "❌ Not Quite!", matchedKeywords: [] };
+
+describe("red herrings", () => {
+	it("only cites clues that exist in their case", () => {
+		for (const caseData of caseOrder.map((id) => getCase(id)!)) {
+			const ids = new Set(caseData.clues.map((clue) => clue.id));
+			for (const herring of caseData.redHerrings ?? []) {
+				for (const id of herring.clues ?? []) {
+					expect(ids.has(id), `${caseData.id}: clue ${id}`).toBe(true);
+				}
+			}
+		}
+	});
+
+	it("holds back feedback citing a clue until it is revealed", () => {
+		const fix = "Add servers and turn on autoscaling.";
+		expect(findRedHerring(fix, revealedRedHerrings(retryStorm, INITIAL_CLUES), 2)).toBeNull();
+		expect(findRedHerring(fix, revealedRedHerrings(retryStorm, 3), 2)?.feedback).toContain("hundred downstream calls");
+	});
+
+	it("gives feedback citing only opening clues from the start", () => {
+		const herring = findRedHerring("The network was flaky.", revealedRedHerrings(retryStorm, INITIAL_CLUES), 1);
+		expect(herring?.feedback).toContain("25x");
+	});
+
+	it("replaces an incorrect verdict's feedback and keeps a partial one's", () => {
+		const redHerrings = revealedRedHerrings(retryStorm, INITIAL_CLUES);
+		const incorrect = withRedHerringFeedback(rejected, "A network issue took us down.", redHerrings, 1);
+		expect(incorrect.feedback).toMatch(/^❌ Red Herring!/);
+		expect(incorrect.redHerring).toBeDefined();
+
+		const partial = withRedHerringFeedback(
+			{ ...rejected, partial: true, feedback: "🔍 Getting Warmer!" }, "A network issue took us down.", redHerrings, 1
+		);
+		expect(partial.feedback).toBe("🔍 Getting Warmer!");
+		expect(partial.redHerring).toBe(incorrect.redHerring);
+	});
+
+	it("ignores a red herring the submission rules out", () => {
+		const result = withRedHerringFeedback(rejected, "It was not a network issue.", retryStorm.redHerrings, 1);
+		expect(result.redHerring).toBeUndefined();
+	});
+});
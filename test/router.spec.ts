@@ -0,0 +1,81 @@
+import { createExecutionContext, env } from "cloudflare:test";
+import { describe, expect, it } from "vitest";
+import { errorHandler, HttpError, jsonResponse, Router } from "../src/router";
+import { call } from "./worker";
+
+function handle(router: Router, method: string, path: string): Promise<Response> {
+	return router.handle(new Request(`https://detective.test${path}`, { method }), env, createExecutionContext());
+}
+
+describe("Router", () => {
+	it("passes path params to the matching route", async () => {
+		const router = new Router().get("/cases/:id/clues/:clueId", ({ params }) => jsonResponse(params));
+		const response = await handle(router, "GET", "/cases/retry-storm/clues/3");
+		expect(await response.json()).toEqual({ id: "retry-storm", clueId: "3" });
+	});
+
+	it("runs middleware in registration order around the route", async () => {
+		const order: string[] = [];
+		const router = new Router()
+			.use(async (_context, next) => { order.push("first"); return next(); })
+			.use(async (_context, next) => { order.push("second"); return next(); })
+			.get("/", () => { order.push("route"); return jsonResponse({}); });
+		await handle(router, "GET", "/");
+		expect(order).toEqual(["first", "second", "route"]);
+	});
+
+	it("maps thrown errors to JSON responses", async () => {
+		const router = new Router()
+			.use(errorHandler())
+			.get("/teapot", () => { throw new HttpError(418, "I'm a teapot", { "X-Brew": "no" }); })
+			.get("/broken", () => { throw new Error("boom"); });
+
+		const teapot = await handle(router, "GET", "/teapot");
+		expect(teapot.status).toBe(418);
+		expect(teapot.headers.get("X-Brew")).toBe("no");
+		expect(await teapot.json()).toEqual({ error: "I'm a teapot" });
+
+		const broken = await handle(router, "GET", "/broken");
+		expect(broken.status).toBe(500);
+		expect(await broken.json()).toEqual({ error: "Internal server error" });
+	});
+});
+
+describe("API routing", () => {
+	it("answers a known path under another method with 405 and an Allow header", async () => {
+		const response = await call("POST", "/api/cases");
+		expect(response.status).toBe(405);
+		expect(response.headers.get("Allow")).toBe("GET, OPTIONS");
+
+		const check = await call("GET", "/api/cases/black-friday-disaster/check");
+		expect(check.headers.get("Allow")).toBe("POST, OPTIONS");
+	});
+
+	it("answers an unknown path with 404", async () => {
+		expect((await call("GET", "/api/no-such-route")).status).toBe(404);
+	});
+
+	it("answers a CORS preflight without running the route", async () => {
+		const response = await call("OPTIONS", "/api/cases/black-friday-disaster/check");
+		expect(response.status).toBe(204);
+		expect(response.headers.get("Access-Control-Allow-Origin")).toBe("*");
+		expect(response.headers.get("Access-Control-Allow-Headers")).toContain("X-Session-Id");
+	});
+
+	it("adds CORS headers to errors as well as successes", async () => {
+		for (const response of [await call("GET", "/api/cases"), await call("POST", "/api/cases"), await call("GET", "/api/progress")]) {
+			expect(response.headers.get("Access-Control-Allow-Origin")).toBe("*");
+			expect(response.headers.get("Access-Control-Expose-Headers")).toContain("X-Request-Id");
+		}
+	});
+
+	it("echoes a well-formed request id and replaces any other", async () => {
+		const requestId = crypto.randomUUID();
+		const echoed = await call("GET", "/api/cases", { headers: { "X-Request-Id": requestId } });
+		expect(echoed.headers.get("X-Request-Id")).toBe(requestId);
+
+		const replaced = await call("GET", "/api/cases", { headers: { "X-Request-Id": "<script>" } });
+		expect(replaced.headers.get("X-Request-Id")).not.toBe("<script>");
+		expect(replaced.headers.get("Server-Timing")).toMatch(/^total;dur=\d+$/);
+	});
+});
@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import { getCase } from "../src/cases";
+import { evaluateRootCauseWithLLM, majorityVerdict, needsSecondOpinion, type SecondOpinionSettings } from "../src/grading";
+import { ScriptedProvider, type TaskModel } from "../src/llm";
+import type { CriterionScore, GraderOpinion } from "../src/types";
+
+const CASE_ID = "database-disappearing-act";
+const solution = getCase(CASE_ID)!.solution;
+
+const met: CriterionScore[] = [
+	{ id: "R1", kind: "required", weight: 1, rating: "met" },
+	{ id: "M1", kind: "misconception", weight: 1, rating: "missed" },
+];
+const missed: CriterionScore[] = [{ ...met[0], rating: "missed" }, met[1]];
+
+function opinion(verdict: GraderOpinion["verdict"], confidence: number | null = 0.9): GraderOpinion {
+	return { verdict, confidence, explanation: "" };
+}
+
+describe("needsSecondOpinion", () => {
+	it("reviews a verdict below the confidence threshold", () => {
+		expect(needsSecondOpinion(opinion("correct", 0.4), met, 0.6)).toBe(true);
+		expect(needsSecondOpinion(opinion("correct", 0.6), met, 0.6)).toBe(false);
+		expect(needsSecondOpinion(opinion("correct", null), met, 0.6)).toBe(false);
+	});
+
+	it("reviews a verdict that contradicts the rubric ratings", () => {
+		expect(needsSecondOpinion(opinion("correct"), missed, 0.6)).toBe(true);
+		expect(needsSecondOpinion(opinion("incorrect"), met, 0.6)).toBe(true);
+		expect(needsSecondOpinion(opinion("incorrect"), missed, 0.6)).toBe(false);
+		expect(needsSecondOpinion(opinion("partial"), met, 0.6)).toBe(false);
+	});
+});
+
+describe("majorityVerdict", () => {
+	it("picks the most common vote", () => {
+		expect(majorityVerdict(["correct", "incorrect", "correct"])).toBe("correct");
+	});
+
+	it("breaks ties towards the more cautious verdict", () => {
+		expect(majorityVerdict(["correct", "partial"])).toBe("partial");
+		expect(majorityVerdict(["correct", "incorrect"])).toBe("incorrect");
+	});
+});
+
+describe("second opinions during grading", () => {
+	const diagnosis = "updateSession leaks connections until the pool is exhausted";
+	// Both required items met, nothing else
+	const ratings = Object.entries({ R1: "met", R2: "met", S1: "missed", S2: "missed", M1: "missed", M2: "missed" })
+		.map(([id, rating]) => ({ id, rating }));
+
+	function reply(verdict: string, confidence: number): string {
+		return JSON.stringify({ verdict, explanation: `Graded ${verdict}.`, matchedConcepts: [], criteria: ratings, confidence });
+	}
+
+	function model(...replies: string[]): { taskModel: TaskModel; provider: ScriptedProvider } {
+		const provider = new ScriptedProvider(replies);
+		return { provider, taskModel: { provider, model: "scripted", maxTokens: 512 } };
+	}
+
+	function settings(overrides: Partial<SecondOpinionSettings>): SecondOpinionSettings {
+		return { strategy: "majority-vote", automatic: true, minConfidence: 0.6, samples: 2, taskModel: model().taskModel, ...overrides };
+	}
+
+	it("keeps a confident verdict without asking again", async () => {
+		const { taskModel, provider } = model(reply("correct", 0.95));
+		const result = await evaluateRootCauseWithLLM(taskModel, diagnosis, solution, CASE_ID, settings({}));
+		expect(result.correct).toBe(true);
+		expect(result.secondOpinion).toBeUndefined();
+		expect(provider.requests).toHaveLength(1);
+	});
+
+	it("settles a low-confidence verdict by majority vote over extra samples", async () => {
+		const { taskModel, provider } = model(reply("correct", 0.3), reply("partial", 0.8), reply("partial", 0.8));
+		const result = await evaluateRootCauseWithLLM(taskModel, diagnosis, solution, CASE_ID, settings({}));
+		expect(result.correct).toBe(false);
+		expect(result.partial).toBe(true);
+		expect(result.secondOpinion).toMatchObject({
+			strategy: "majority-vote",
+			initial: { verdict: "correct", confidence: 0.3 },
+			votes: ["correct", "partial", "partial"],
+		});
+		expect(provider.requests).toHaveLength(3);
+	});
+
+	it("asks the larger model when forced, as for an appeal", async () => {
+		const { taskModel } = model(reply("incorrect", 0.95));
+		const larger = model(reply("correct", 0.9));
+		const result = await evaluateRootCauseWithLLM(
+			taskModel, diagnosis, solution, CASE_ID, settings({ strategy: "larger-model", taskModel: larger.taskModel, force: true })
+		);
+		expect(result.correct).toBe(true);
+		expect(result.secondOpinion).toMatchObject({ strategy: "larger-model", initial: { verdict: "incorrect" } });
+		expect(larger.provider.requests).toHaveLength(1);
+	});
+
+	it("keeps the first verdict when the second opinion fails", async () => {
+		const { taskModel } = model(reply("partial", 0.3));
+		const broken = model();
+		const result = await evaluateRootCauseWithLLM(
+			taskModel, diagnosis, solution, CASE_ID, settings({ strategy: "larger-model", taskModel: broken.taskModel })
+		);
+		expect(result.partial).toBe(true);
+		expect(result.secondOpinion).toBeUndefined();
+	});
+});
@@ -0,0 +1,83 @@
+import { env, runInDurableObject } from "cloudflare:test";
+import { describe, expect, it } from "vitest";
+import { caseMode, getSession } from "../src/session";
+import type { CaseProgress, GradedAttempt } from "../src/types";
+import { INITIAL_CLUES } from "../src/utils/scoring";
+
+const CASE_ID = "database-disappearing-act";
+
+function newSession() {
+	return getSession(env, crypto.randomUUID());
+}
+
+function attempt(phase: 1 | 2, correct: boolean): GradedAttempt {
+	const verdict = correct ? "correct" : "incorrect";
+	return {
+		phase,
+		correct,
+		partial: false,
+		submission: `${verdict} answer`,
+		rubricScore: correct ? 100 : 0,
+		opinion: { verdict, confidence: 0.9, explanation: "" },
+	};
+}
+
+describe("investigation sessions", () => {
+	it("opens a case with the initial clues and starts its clock", async () => {
+		const session = newSession();
+		const progress = await session.getProgress(CASE_ID);
+		expect(progress).toMatchObject({ caseId: CASE_ID, cluesRevealed: INITIAL_CLUES, solved: false, score: null });
+		expect((await session.getProgress(CASE_ID)).startedAt).toBe(progress.startedAt);
+		expect((await session.listProgress()).map((entry) => entry.caseId)).toEqual([CASE_ID]);
+	});
+
+	it("keeps sessions apart", async () => {
+		const first = newSession();
+		await first.revealNextClue(CASE_ID, 6);
+		expect((await newSession().getProgress(CASE_ID)).cluesRevealed).toBe(INITIAL_CLUES);
+	});
+
+	it("counts failed attempts and closes the case on a correct fix", async () => {
+		const session = newSession();
+		await session.recordAttempt(CASE_ID, attempt(1, false), "mid");
+		await session.recordAttempt(CASE_ID, attempt(1, true), "mid");
+		const solved = await session.recordAttempt(CASE_ID, attempt(2, true), "mid");
+		expect(solved).toMatchObject({ rootCauseAttempts: 2, rootCauseCorrect: true, solved: true, mode: "guided" });
+		expect(solved.score).toBeGreaterThan(0);
+
+		const after = await session.recordAttempt(CASE_ID, attempt(1, false), "mid");
+		expect(after.rootCauseAttempts).toBe(2);
+		expect(after.score).toBe(solved.score);
+	});
+
+	it("scores a given-up case zero for good", async () => {
+		const session = newSession();
+		expect(await session.giveUp(CASE_ID)).toMatchObject({ gaveUp: true, score: 0 });
+		expect(await session.revealNextClue(CASE_ID, 6)).toBeNull();
+		expect((await session.recordAttempt(CASE_ID, attempt(2, true), "mid")).solved).toBe(false);
+	});
+
+	it("reads records saved before modes and phase 3 as guided, without a prevention phase", async () => {
+		const session = newSession();
+		const legacy: CaseProgress = {
+			caseId: CASE_ID,
+			startedAt: Date.now(),
+			cluesRevealed: INITIAL_CLUES,
+			hintsViewed: [],
+			rootCauseAttempts: 1,
+			solutionAttempts: 1,
+			rootCauseCorrect: true,
+			submittedRootCause: "connection leak",
+			solved: true,
+			gaveUp: false,
+			completedAt: Date.now(),
+			score: 900,
+		};
+		await runInDurableObject(session, (_instance, state) => state.storage.put(`case:${CASE_ID}`, legacy));
+
+		const progress = await session.getProgress(CASE_ID);
+		expect(caseMode(progress)).toBe("guided");
+		expect(await session.skipPrevention(CASE_ID)).toMatchObject({ score: 900 });
+		expect((await session.skipPrevention(CASE_ID)).preventionStatus).toBeUndefined();
+	});
+});
@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import { getCase } from "../src/cases";
+import {
+	type CachedVerdict,
+	GRADER_PROMPT_VERSION,
+	gradeWithCache,
+	InMemoryVerdictStore,
+	verdictCacheKey,
+	type VerdictCacheStore,
+	type VerdictKeyParts,
+} from "../src/grading";
+import { VERDICT_TTL_SECONDS } from "../src/grading/verdict-cache";
+import type { DiagnosisResult } from "../src/types";
+
+const solution = getCase("database-disappearing-act")!.solution;
+
+const PARTS: VerdictKeyParts = {
+	caseId: "database-disappearing-act",
+	phase: 2,
+	model: "@cf/meta/llama-3.1-8b-instruct-fp8",
+	submission: "Release the connection in a finally block.",
+};
+
+function verdict(overrides: Partial<DiagnosisResult> = {}): DiagnosisResult {
+	return { correct: false, partial: true, feedback: "Almost.", matchedKeywords: [], evaluatedBy: "llm", ...overrides };
+}
+
+/**
+ * Grader that counts its calls.
+ */
+function counting(result: DiagnosisResult) {
+	const grader = { calls: 0, grade: async () => { grader.calls++; return result; } };
+	return grader;
+}
+
+describe("verdictCacheKey", () => {
+	it("matches submissions that differ only in case, punctuation and spacing", async () => {
+		const key = await verdictCacheKey(PARTS);
+		expect(await verdictCacheKey({ ...PARTS, submission: "  release the CONNECTION in a finally block!! " })).toBe(key);
+	});
+
+	it("separates cases, phases, models and submissions", async () => {
+		const key = await verdictCacheKey(PARTS);
+		const others = await Promise.all([
+			verdictCacheKey({ ...PARTS, caseId: "black-friday-disaster" }),
+			verdictCacheKey({ ...PARTS, phase: 1 }),
+			verdictCacheKey({ ...PARTS, phase: "expert" }),
+			verdictCacheKey({ ...PARTS, model: "@cf/meta/llama-3.3-70b-instruct-fp8-fast" }),
+			verdictCacheKey({ ...PARTS, submission: "Raise the pool size." }),
+		]);
+		expect(new Set([key, ...others]).size).toBe(others.length + 1);
+	});
+
+	it("carries the grader prompt version, so bumping it retires every cached verdict", async () => {
+		expect(await verdictCacheKey(PARTS)).toMatch(new RegExp(`^verdict:v${GRADER_PROMPT_VERSION}:`));
+	});
+});
+
+describe("gradeWithCache", () => {
+	it("grades once and serves the repeat from the cache", async () => {
+		const store = new InMemoryVerdictStore();
+		const grader = counting(verdict());
+		const first = await gradeWithCache(store, PARTS, solution, grader.grade);
+		const second = await gradeWithCache(store, PARTS, solution, grader.grade);
+		expect(grader.calls).toBe(1);
+		expect(first.cached).toBeUndefined();
+		expect(second).toMatchObject({ feedback: "Almost.", cached: true });
+	});
+
+	it("re-attaches the solution to a cached correct fix", async () => {
+		const store = new InMemoryVerdictStore();
+		await gradeWithCache(store, PARTS, solution, async () => verdict({ correct: true, partial: false, solution }));
+		const hit = await gradeWithCache(store, PARTS, solution, counting(verdict()).grade);
+		expect(hit).toMatchObject({ correct: true, cached: true, solution });
+	});
+
+	it("never caches a keyword fallback", async () => {
+		const store = new InMemoryVerdictStore();
+		const grader = counting(verdict({ evaluatedBy: "keyword-fallback" }));
+		await gradeWithCache(store, PARTS, solution, grader.grade);
+		await gradeWithCache(store, PARTS, solution, grader.grade);
+		expect(grader.calls).toBe(2);
+	});
+
+	it("grades anyway when the store fails", async () => {
+		const broken: VerdictCacheStore = {
+			get: async () => { throw new Error("read failed"); },
+			put: async () => { throw new Error("write failed"); },
+		};
+		expect(await gradeWithCache(broken, PARTS, solution, async () => verdict())).toMatchObject({ feedback: "Almost." });
+	});
+});
+
+describe("InMemoryVerdictStore", () => {
+	const cached: CachedVerdict = { correct: false, partial: false, feedback: "No.", matchedKeywords: [] };
+
+	it("expires verdicts after the TTL", async () => {
+		let now = 0;
+		const store = new InMemoryVerdictStore(10, () => now);
+		await store.put("k", cached);
+		now = VERDICT_TTL_SECONDS * 1000 - 1;
+		expect(await store.get("k")).toEqual(cached);
+		now += 1;
+		expect(await store.get("k")).toBeNull();
+	});
+
+	it("evicts the oldest verdict once full", async () => {
+		const store = new InMemoryVerdictStore(2);
+		await store.put("a", cached);
+		await store.put("b", cached);
+		await store.put("c", cached);
+		expect(await store.get("a")).toBeNull();
+		expect(await store.get("c")).toEqual(cached);
+	});
+});
@@ -0,0 +1,76 @@
+import { createExecutionContext, env, waitOnExecutionContext } from "cloudflare:test";
+import worker from "../src";
+import type { LlmTask } from "../src/llm";
+import { SESSION_HEADER } from "../src/session";
+import type { Env } from "../src/types";
+
+const TASKS: LlmTask[] = [
+	"mentor",
+	"rootCauseGrading",
+	"solutionGrading",
+	"preventionGrading",
+	"expertGrading",
+	"secondOpinionGrading",
+	"chatSummary",
+];
+
+/**
+ * The one reply every scripted model gives: graders accept and rate no
+ * rubric item, so the lexical rubric check decides whether "correct" holds.
+ * The scripted provider is shared per isolate, so every test uses this reply.
+ */
+export const GRADER_REPLY = JSON.stringify({
+	verdict: "correct",
+	explanation: "Looks right.",
+	matchedConcepts: [],
+	diagnosisScore: "correct",
+	solutionScore: "correct",
+	confidence: 0.95,
+});
+
+const GENEROUS_LIMIT = { capacity: 1000, refillPerMinute: 1000 };
+
+/**
+ * The Worker's bindings with scripted models, no verdict cache and limits
+ * tests never reach.
+ */
+export const testEnv: Env = {
+	...env,
+	LLM_CONFIG: {
+		providers: { scripted: { replies: [GRADER_REPLY] } },
+		tasks: Object.fromEntries(TASKS.map((task) => [task, { provider: "scripted" }])),
+	},
+	VERDICT_CACHE_STORE: "off",
+	RATE_LIMIT_STORE: "memory",
+	RATE_LIMITS: {
+		chat: { ip: GENEROUS_LIMIT, session: GENEROUS_LIMIT },
+		grading: { ip: GENEROUS_LIMIT, session: GENEROUS_LIMIT },
+	},
+	APPEAL_STORE: "memory",
+};
+
+/**
+ * Send a request to the Worker, as the given session when there is one.
+ */
+export async function call(
+	method: string,
+	path: string,
+	options: { sessionId?: string; body?: unknown; headers?: Record<string, string>; env?: Env } = {}
+): Promise<Response> {
+	const headers = new Headers(options.headers);
+	if (options.sessionId) {
+		headers.set(SESSION_HEADER, options.sessionId);
+	}
+	if (options.body !== undefined) {
+		headers.set("Content-Type", "application/json");
+	}
+	const request = new Request(`https://detective.test${path}`, {
+		method,
+		headers,
+		body: options.body === undefined ? undefined : JSON.stringify(options.body),
+	});
+	const ctx = createExecutionContext();
+	const response = await worker.fetch(request, options.env ?? testEnv, ctx);
+	await waitOnExecutionContext(ctx);
+	return response;
+}
@@ -0,0 +1,13 @@
+import { defineWorkersConfig } from "@cloudflare/vitest-pool-workers/config";
+
+export default defineWorkersConfig({
+	test: {
+		poolOptions: {
+			workers: {
+				wrangler: { configPath: "./wrangler.jsonc" },
+				// Unit tests never call Workers AI, so skip the remote proxy
+				remoteBindings: false,
+			},
+		},
+	},
+});
@@ -1,16 +1,31 @@
 /* eslint-disable */
-// Generated by Wrangler by running `wrangler types` (hash: a575084721fa3bfee7fd002b32e2b0e6)
-// Runtime types generated with workerd@1.20251217.0 2025-10-08 global_fetch_strictly_public,nodejs_compat
+// Generated by Wrangler by running `wrangler types` (hash: 46c7a5321eec73b836dc8670e126fa29)
+// Runtime types generated with workerd@1.20260131.0 2025-10-08 global_fetch_strictly_public,nodejs_compat
 declare namespace Cloudflare {
 	interface GlobalProps {
 		mainModule: typeof import("./src/index");
+		durableNamespaces: "InvestigationSession" | "RateLimiter" | "AppealLedger";
 	}
 	interface Env {
 		AI: Ai;
 		ASSETS: Fetcher;
+		RATE_LIMIT_STORE: "durable";
+		VERDICT_CACHE_STORE: "cache";
+		APPEAL_STORE: "durable";
+		RATE_LIMITS: {"chat":{"ip":{"capacity":60,"refillPerMinute":30},"session":{"capacity":20,"refillPerMinute":10}},"grading":{"ip":{"capacity":30,"refillPerMinute":10},"session":{"capacity":10,"refillPerMinute":4}}};
+		LLM_CONFIG: {"tasks":{"mentor":{"provider":"workers-ai","model":"@cf/meta/llama-3.1-8b-instruct-fp8","maxTokens":1024,"contextTokens":6144},"rootCauseGrading":{"provider":"workers-ai","model":"@cf/meta/llama-3.1-8b-instruct-fp8","maxTokens":512,"temperature":0.1},"solutionGrading":{"provider":"workers-ai","model":"@cf/meta/llama-3.1-8b-instruct-fp8","maxTokens":512,"temperature":0.1},"preventionGrading":{"provider":"workers-ai","model":"@cf/meta/llama-3.1-8b-instruct-fp8","maxTokens":512,"temperature":0.1},"expertGrading":{"provider":"workers-ai","model":"@cf/meta/llama-3.1-8b-instruct-fp8","maxTokens":512,"temperature":0.1},"secondOpinionGrading":{"provider":"workers-ai","model":"@cf/meta/llama-3.3-70b-instruct-fp8-fast","maxTokens":512,"temperature":0.1},"chatSummary":{"provider":"workers-ai","model":"@cf/meta/llama-3.1-8b-instruct-fp8","maxTokens":300,"temperature":0.2}},"secondOpinion":{"strategy":"larger-model","automatic":true,"minConfidence":0.6,"samples":2}};
+		INVESTIGATIONS: DurableObjectNamespace<import("./src/index").InvestigationSession>;
+		RATE_LIMITER: DurableObjectNamespace<import("./src/index").RateLimiter>;
+		APPEAL_LEDGER: DurableObjectNamespace<import("./src/index").AppealLedger>;
 	}
 }
 interface Env extends Cloudflare.Env {}
+type StringifyValues<EnvType extends Record<string, unknown>> = {
+	[Binding in keyof EnvType]: EnvType[Binding] extends string ? EnvType[Binding] : string;
+};
+declare namespace NodeJS {
+	interface ProcessEnv extends StringifyValues<Pick<Cloudflare.Env, "RATE_LIMIT_STORE" | "VERDICT_CACHE_STORE" | "APPEAL_STORE" | "RATE_LIMITS" | "LLM_CONFIG">> {}
+}
 
 // Begin runtime types
 /*! *****************************************************************************
@@ -497,8 +512,10 @@ interface DurableObjectNamespaceNewUniqueIdOptions {
     jurisdiction?: DurableObjectJurisdiction;
 }
 type DurableObjectLocationHint = "wnam" | "enam" | "sam" | "weur" | "eeur" | "apac" | "oc" | "afr" | "me";
+type DurableObjectRoutingMode = "primary-only";
 interface DurableObjectNamespaceGetDurableObjectOptions {
     locationHint?: DurableObjectLocationHint;
+    routingMode?: DurableObjectRoutingMode;
 }
 interface DurableObjectClass<_T extends Rpc.DurableObjectBranded | undefined = undefined> {
 }
@@ -1385,6 +1402,12 @@ declare abstract class PromiseRejectionEvent extends Event {
  */
 declare class FormData {
     constructor();
+    /**
+     * The **`append()`** method of the FormData interface appends a new value onto an existing key inside a `FormData` object, or adds the key if it does not already exist.
+     *
+     * [MDN Reference](https://developer.mozilla.org/docs/Web/API/FormData/append)
+     */
+    append(name: string, value: string | Blob): void;
     /**
      * The **`append()`** method of the FormData interface appends a new value onto an existing key inside a `FormData` object, or adds the key if it does not already exist.
      *
@@ -1421,6 +1444,12 @@ declare class FormData {
      * [MDN Reference](https://developer.mozilla.org/docs/Web/API/FormData/has)
      */
     has(name: string): boolean;
+    /**
+     * The **`set()`** method of the FormData interface sets a new value for an existing key inside a `FormData` object, or adds the key/value if it does not already exist.
+     *
+     * [MDN Reference](https://developer.mozilla.org/docs/Web/API/FormData/set)
+     */
+    set(name: string, value: string | Blob): void;
     /**
      * The **`set()`** method of the FormData interface sets a new value for an existing key inside a `FormData` object, or adds the key/value if it does not already exist.
      *
@@ -1747,7 +1776,7 @@ interface Request<CfHostMetadata = unknown, Cf = CfProperties<CfHostMetadata>> e
      * [MDN Reference](https://developer.mozilla.org/docs/Web/API/Request/signal)
      */
     signal: AbortSignal;
-    cf: Cf | undefined;
+    cf?: Cf;
     /**
      * The **`integrity`** read-only property of the Request interface contains the subresource integrity value of the request.
      *
@@ -2082,6 +2111,8 @@ interface Transformer<I = any, O = any> {
     expectedLength?: number;
 }
 interface StreamPipeOptions {
+    preventAbort?: boolean;
+    preventCancel?: boolean;
     /**
      * Pipes this readable stream to a given writable stream destination. The way in which the piping process behaves under various error conditions can be customized with a number of passed options. It returns a promise that fulfills when the piping process completes successfully, or rejects if any errors were encountered.
      *
@@ -2100,8 +2131,6 @@ interface StreamPipeOptions {
      * The signal option can be set to an AbortSignal to allow aborting an ongoing pipe operation via the corresponding AbortController. In this case, this source readable stream will be canceled, and destination aborted, unless the respective options preventCancel or preventAbort are set.
      */
     preventClose?: boolean;
-    preventAbort?: boolean;
-    preventCancel?: boolean;
     signal?: AbortSignal;
 }
 type ReadableStreamReadResult<R = any> = {
@@ -2376,13 +2405,13 @@ declare abstract class TransformStreamDefaultController<O = any> {
     terminate(): void;
 }
 interface ReadableWritablePair<R = any, W = any> {
+    readable: ReadableStream<R>;
     /**
      * Provides a convenient, chainable way of piping this readable stream through a transform stream (or any other { writable, readable } pair). It simply pipes the stream into the writable side of the supplied pair, and returns the readable side for further use.
      *
      * Piping a stream will lock it for the duration of the pipe, preventing any other consumer from acquiring a reader.
      */
     writable: WritableStream<W>;
-    readable: ReadableStream<R>;
 }
 /**
  * The **`WritableStream`** interface of the Streams API provides a standard abstraction for writing streaming data to a destination, known as a sink.
@@ -5501,7 +5530,7 @@ interface Ai_Cf_Qwen_Qwq_32B_Messages {
         };
     })[];
     /**
-     * JSON schema that should be fufilled for the response.
+     * JSON schema that should be fulfilled for the response.
      */
     guided_json?: object;
     /**
@@ -5767,7 +5796,7 @@ interface Ai_Cf_Mistralai_Mistral_Small_3_1_24B_Instruct_Messages {
         };
     })[];
     /**
-     * JSON schema that should be fufilled for the response.
+     * JSON schema that should be fulfilled for the response.
      */
     guided_json?: object;
     /**
@@ -5858,7 +5887,7 @@ interface Ai_Cf_Google_Gemma_3_12B_It_Prompt {
      */
     prompt: string;
     /**
-     * JSON schema that should be fufilled for the response.
+     * JSON schema that should be fulfilled for the response.
      */
     guided_json?: object;
     /**
@@ -6017,7 +6046,7 @@ interface Ai_Cf_Google_Gemma_3_12B_It_Messages {
         };
     })[];
     /**
-     * JSON schema that should be fufilled for the response.
+     * JSON schema that should be fulfilled for the response.
      */
     guided_json?: object;
     /**
@@ -6289,7 +6318,7 @@ interface Ai_Cf_Meta_Llama_4_Scout_17B_16E_Instruct_Messages {
     })[];
     response_format?: Ai_Cf_Meta_Llama_4_Scout_17B_16E_Instruct_JSON_Mode;
     /**
-     * JSON schema that should be fufilled for the response.
+     * JSON schema that should be fulfilled for the response.
      */
     guided_json?: object;
     /**
@@ -6519,7 +6548,7 @@ interface Ai_Cf_Meta_Llama_4_Scout_17B_16E_Instruct_Messages_Inner {
     })[];
     response_format?: Ai_Cf_Meta_Llama_4_Scout_17B_16E_Instruct_JSON_Mode;
     /**
-     * JSON schema that should be fufilled for the response.
+     * JSON schema that should be fulfilled for the response.
      */
     guided_json?: object;
     /**
@@ -7569,7 +7598,7 @@ interface Ai_Cf_Ai4Bharat_Indictrans2_En_Indic_1B_Input {
      */
     text: string | string[];
     /**
-     * Target langauge to translate to
+     * Target language to translate to
      */
     target_language: "asm_Beng" | "awa_Deva" | "ben_Beng" | "bho_Deva" | "brx_Deva" | "doi_Deva" | "eng_Latn" | "gom_Deva" | "gon_Deva" | "guj_Gujr" | "hin_Deva" | "hne_Deva" | "kan_Knda" | "kas_Arab" | "kas_Deva" | "kha_Latn" | "lus_Latn" | "mag_Deva" | "mai_Deva" | "mal_Mlym" | "mar_Deva" | "mni_Beng" | "mni_Mtei" | "npi_Deva" | "ory_Orya" | "pan_Guru" | "san_Deva" | "sat_Olck" | "snd_Arab" | "snd_Deva" | "tam_Taml" | "tel_Telu" | "urd_Arab" | "unr_Deva";
 }
@@ -9429,6 +9458,10 @@ interface D1Meta {
      * The region of the database instance that executed the query.
      */
     served_by_region?: string;
+    /**
+     * The three letters airport code of the colo that executed the query.
+     */
+    served_by_colo?: string;
     /**
      * True if-and-only-if the database instance that executed the query was the primary.
      */
@@ -9517,6 +9550,15 @@ declare abstract class D1PreparedStatement {
 // ignored when `Disposable` is included in the standard lib.
 interface Disposable {
 }
+/**
+ * The returned data after sending an email
+ */
+interface EmailSendResult {
+    /**
+     * The Email Message ID
+     */
+    messageId: string;
+}
 /**
  * An email message that can be sent from a Worker.
  */
@@ -9558,19 +9600,50 @@ interface ForwardableEmailMessage extends EmailMessage {
      * @param headers A [Headers object](https://developer.mozilla.org/en-US/docs/Web/API/Headers).
      * @returns A promise that resolves when the email message is forwarded.
      */
-    forward(rcptTo: string, headers?: Headers): Promise<void>;
+    forward(rcptTo: string, headers?: Headers): Promise<EmailSendResult>;
     /**
      * Reply to the sender of this email message with a new EmailMessage object.
      * @param message The reply message.
      * @returns A promise that resolves when the email message is replied.
      */
-    reply(message: EmailMessage): Promise<void>;
+    reply(message: EmailMessage): Promise<EmailSendResult>;
+}
+/** A file attachment for an email message */
+type EmailAttachment = {
+    disposition: 'inline';
+    contentId: string;
+    filename: string;
+    type: string;
+    content: string | ArrayBuffer | ArrayBufferView;
+} | {
+    disposition: 'attachment';
+    contentId?: undefined;
+    filename: string;
+    type: string;
+    content: string | ArrayBuffer | ArrayBufferView;
+};
+/** An Email Address */
+interface EmailAddress {
+    name: string;
+    email: string;
 }
 /**
  * A binding that allows a Worker to send email messages.
  */
 interface SendEmail {
-    send(message: EmailMessage): Promise<void>;
+    send(message: EmailMessage): Promise<EmailSendResult>;
+    send(builder: {
+        from: string | EmailAddress;
+        to: string | string[];
+        subject: string;
+        replyTo?: string | EmailAddress;
+        cc?: string | string[];
+        bcc?: string | string[];
+        headers?: Record<string, string>;
+        text?: string;
+        html?: string;
+        attachments?: EmailAttachment[];
+    }): Promise<EmailSendResult>;
 }
 declare abstract class EmailEvent extends ExtendableEvent {
     readonly message: ForwardableEmailMessage;
@@ -9603,7 +9676,7 @@ interface Hyperdrive {
     /**
      * Connect directly to Hyperdrive as if it's your database, returning a TCP socket.
      *
-     * Calling this method returns an idential socket to if you call
+     * Calling this method returns an identical socket to if you call
      * `connect("host:port")` using the `host` and `port` fields from this object.
      * Pick whichever approach works better with your preferred DB client library.
      *
@@ -9936,7 +10009,7 @@ declare module "cloudflare:pipelines" {
         protected ctx: ExecutionContext;
         constructor(ctx: ExecutionContext, env: Env);
         /**
-         * run recieves an array of PipelineRecord which can be
+         * run receives an array of PipelineRecord which can be
          * transformed and returned to the pipeline
          * @param records Incoming records from the pipeline to be transformed
          * @param metadata Information about the specific pipeline calling the transformation entrypoint
@@ -10410,6 +10483,15 @@ declare namespace TailStream {
         readonly level: "debug" | "error" | "info" | "log" | "warn";
         readonly message: object;
     }
+    interface DroppedEventsDiagnostic {
+        readonly diagnosticsType: "droppedEvents";
+        readonly count: number;
+    }
+    interface StreamDiagnostic {
+        readonly type: 'streamDiagnostic';
+        // To add new diagnostic types, define a new interface and add it to this union type.
+        readonly diagnostic: DroppedEventsDiagnostic;
+    }
     // This marks the worker handler return information.
     // This is separate from Outcome because the worker invocation can live for a long time after
     // returning. For example - Websockets that return an http upgrade response but then continue
@@ -10426,7 +10508,7 @@ declare namespace TailStream {
         readonly type: "attributes";
         readonly info: Attribute[];
     }
-    type EventType = Onset | Outcome | SpanOpen | SpanClose | DiagnosticChannelEvent | Exception | Log | Return | Attributes;
+    type EventType = Onset | Outcome | SpanOpen | SpanClose | DiagnosticChannelEvent | Exception | Log | StreamDiagnostic | Return | Attributes;
     // Context in which this trace event lives.
     interface SpanContext {
         // Single id for the entire top-level invocation
@@ -10440,7 +10522,7 @@ declare namespace TailStream {
         // For Hibernate and Mark this would be the span under which they were emitted.
         // spanId is not set ONLY if:
         //  1. This is an Onset event
-        //  2. We are not inherting any SpanContext. (e.g. this is a cross-account service binding or a new top-level invocation)
+        //  2. We are not inheriting any SpanContext. (e.g. this is a cross-account service binding or a new top-level invocation)
         readonly spanId?: string;
     }
     interface TailEvent<Event extends EventType> {